@@ -0,0 +1,9 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- AddConstraint: impede agendamentos sobrepostos para o mesmo barbeiro
+-- (agendamentos cancelados ou com não comparecimento não ocupam a agenda)
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_no_overlap" EXCLUDE USING gist (
+    "barberId" WITH =,
+    tsrange("startTime", "endTime") WITH &&
+) WHERE ("status" NOT IN ('CANCELLED', 'NO_SHOW'));
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "barber_permissions" (
+    "id" TEXT NOT NULL,
+    "barberId" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "grantedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "barber_permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "barber_permissions_barberId_permission_key" ON "barber_permissions"("barberId", "permission");
+
+-- AddForeignKey
+ALTER TABLE "barber_permissions" ADD CONSTRAINT "barber_permissions_barberId_fkey" FOREIGN KEY ("barberId") REFERENCES "barbers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "barber_permissions" ADD CONSTRAINT "barber_permissions_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "barber_invites" (
+    "id" TEXT NOT NULL,
+    "barbershopId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "barber_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "barber_invites_tokenHash_key" ON "barber_invites"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "barber_invites_barbershopId_email_idx" ON "barber_invites"("barbershopId", "email");
+
+-- AddForeignKey
+ALTER TABLE "barber_invites" ADD CONSTRAINT "barber_invites_barbershopId_fkey" FOREIGN KEY ("barbershopId") REFERENCES "barbershops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "barber_invites" ADD CONSTRAINT "barber_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
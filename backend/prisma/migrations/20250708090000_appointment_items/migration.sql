@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "appointment_items" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "duration" INTEGER NOT NULL,
+
+    CONSTRAINT "appointment_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_items_appointmentId_position_key" ON "appointment_items"("appointmentId", "position");
+
+-- CreateIndex
+CREATE INDEX "appointment_items_serviceId_idx" ON "appointment_items"("serviceId");
+
+-- AddForeignKey
+ALTER TABLE "appointment_items" ADD CONSTRAINT "appointment_items_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_items" ADD CONSTRAINT "appointment_items_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Agendamentos existentes passam a ter o serviço único como item
+INSERT INTO "appointment_items" ("id", "appointmentId", "serviceId", "position", "price", "duration")
+SELECT a."id" || '_item0', a."id", a."serviceId", 0, a."totalPrice",
+       (EXTRACT(EPOCH FROM (a."endTime" - a."startTime")) / 60)::INTEGER
+FROM "appointments" a;
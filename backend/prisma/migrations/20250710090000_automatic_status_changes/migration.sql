@@ -0,0 +1,8 @@
+-- Transições automáticas (falta marcada pelo sistema) não têm usuário responsável
+ALTER TABLE "appointment_status_history" ALTER COLUMN "changedById" DROP NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "appointment_status_history" DROP CONSTRAINT "appointment_status_history_changedById_fkey";
+
+-- AddForeignKey
+ALTER TABLE "appointment_status_history" ADD CONSTRAINT "appointment_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "log_entries" (
+    "id" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "level" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "userId" TEXT,
+    "requestId" TEXT,
+    "context" JSONB,
+
+    CONSTRAINT "log_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "log_entries_timestamp_id_idx" ON "log_entries"("timestamp", "id");
+
+-- CreateIndex
+CREATE INDEX "log_entries_level_timestamp_idx" ON "log_entries"("level", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "log_entries_category_timestamp_idx" ON "log_entries"("category", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "log_entries_userId_timestamp_idx" ON "log_entries"("userId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "log_entries_requestId_idx" ON "log_entries"("requestId");
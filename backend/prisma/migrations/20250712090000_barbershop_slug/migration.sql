@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "barbershops" ADD COLUMN "slug" TEXT;
+
+-- Preencher o slug das barbearias existentes a partir do nome (mesma regra de generateSlug)
+-- Nomes repetidos recebem sufixo pela ordem de criação: "barbearia-centro", "barbearia-centro-2"
+WITH "base" AS (
+    SELECT
+        "id",
+        "createdAt",
+        COALESCE(
+            NULLIF(
+                TRIM(BOTH '-' FROM REGEXP_REPLACE(
+                    REGEXP_REPLACE(
+                        REGEXP_REPLACE(
+                            TRANSLATE(
+                                LOWER("name"),
+                                'áàâãäéèêëíìîïóòôõöúùûüçñ',
+                                'aaaaaeeeeiiiiooooouuuucn'
+                            ),
+                            '[^a-z0-9[:space:]-]', '', 'g'
+                        ),
+                        '[[:space:]]+', '-', 'g'
+                    ),
+                    '-+', '-', 'g'
+                )),
+                ''
+            ),
+            'barbearia'
+        ) AS "slug"
+    FROM "barbershops"
+),
+"ranked" AS (
+    SELECT
+        "id",
+        "slug",
+        ROW_NUMBER() OVER (PARTITION BY "slug" ORDER BY "createdAt", "id") AS "position"
+    FROM "base"
+)
+UPDATE "barbershops"
+SET "slug" = CASE
+    WHEN "ranked"."position" = 1 THEN "ranked"."slug"
+    ELSE "ranked"."slug" || '-' || "ranked"."position"
+END
+FROM "ranked"
+WHERE "barbershops"."id" = "ranked"."id";
+
+ALTER TABLE "barbershops" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "barbershops_slug_key" ON "barbershops"("slug");
@@ -1,8 +1,11 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from './logger';
+import { tenantScopeExtension } from './tenant-scope';
+import { metricsCollector } from '@/utils/metrics';
+import { getRequestId } from '@/utils/request-context';
 
 // Configuração do Prisma Client com logging
-const prisma = new PrismaClient({
+const baseClient = new PrismaClient({
   log: [
     {
       emit: 'event',
@@ -24,24 +27,49 @@ const prisma = new PrismaClient({
 });
 
 // Event listeners para logging
-prisma.$on('query', (e) => {
+baseClient.$on('query', (e) => {
+  metricsCollector.observeDatabaseQuery(e.duration);
   logger.debug('Query: ' + e.query);
   logger.debug('Params: ' + e.params);
   logger.debug('Duration: ' + e.duration + 'ms');
 });
 
-prisma.$on('error', (e) => {
+baseClient.$on('error', (e) => {
   logger.error('Database error:', e);
 });
 
-prisma.$on('info', (e) => {
+baseClient.$on('info', (e) => {
   logger.info('Database info:', e.message);
 });
 
-prisma.$on('warn', (e) => {
+baseClient.$on('warn', (e) => {
   logger.warn('Database warning:', e.message);
 });
 
+// Log por operação com o ID da requisição: roda no contexto assíncrono de quem fez a consulta,
+// ao contrário do evento "query" acima, emitido pelo engine fora da requisição
+const queryLogExtension = Prisma.defineExtension({
+  name: 'query-log',
+  query: {
+    async $allOperations({ model, operation, args, query }) {
+      const start = Date.now();
+      try {
+        return await query(args);
+      } finally {
+        logger.debug(`Prisma ${model ?? '$raw'}.${operation} (${Date.now() - start}ms)`, {
+          requestId: getRequestId(),
+        });
+      }
+    },
+  },
+});
+
+// Client usado pela aplicação: consultas isoladas pela barbearia do usuário autenticado
+const prisma = baseClient.$extends(tenantScopeExtension(baseClient)).$extends(queryLogExtension);
+
+// Client recebido nas transações interativas
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
 // Função para conectar ao banco
 export const connectDatabase = async (): Promise<void> => {
   try {
@@ -9,6 +9,9 @@ const envSchema = z.object({
   // Configurações do servidor
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('3001'),
+  // Tempo em que /health/ready responde 503 antes de o servidor parar de aceitar conexões
+  // (deve ser maior que o intervalo da sonda de readiness do orquestrador)
+  SHUTDOWN_DRAIN_MS: z.string().transform(Number).default('15000'),
 
   // Configurações do banco de dados
   DATABASE_URL: z.string().min(1, 'DATABASE_URL é obrigatória'),
@@ -36,12 +39,32 @@ const envSchema = z.object({
   SMTP_PASS: z.string().optional(),
   FROM_EMAIL: z.string().optional(),
   FROM_NAME: z.string().optional(),
+  EMAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).default('console'),
+  EMAIL_OUTBOX_DIR: z.string().default('logs/emails'),
+
+  // Configurações de WhatsApp/SMS (provedor HTTP)
+  MESSAGING_TRANSPORT: z.enum(['console', 'file', 'http']).default('console'),
+  MESSAGING_API_URL: z.string().optional(),
+  MESSAGING_API_TOKEN: z.string().optional(),
+  MESSAGING_OUTBOX_DIR: z.string().default('logs/messages'),
+
+  // Lembretes de agendamento e falta automática
+  REMINDER_HOURS_BEFORE: z.string().transform(Number).default('24'),
+  NO_SHOW_GRACE_MINUTES: z.string().transform(Number).default('30'),
+
+  // URL do frontend (links enviados por email)
+  FRONTEND_URL: z.string().default('http://localhost:3000'),
 
   // Configurações de Logs
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'http', 'debug']).default('info'),
+  LOG_STORE_LEVEL: z.enum(['error', 'warn', 'info', 'http']).default('http'),
+  LOG_RETENTION_DAYS: z.string().transform(Number).default('14'),
 
   // Configurações de Monitoramento
   SENTRY_DSN: z.string().optional(),
+  METRICS_TOKEN: z.string().min(16, 'METRICS_TOKEN deve ter pelo menos 16 caracteres').optional(),
+  METRICS_ALLOWED_IPS: z.string().default('127.0.0.1,::1'),
+  METRICS_RETENTION_DAYS: z.string().transform(Number).default('7'),
 
   // Configurações Jira
   JIRA_BASE_URL: z.string().optional(),
@@ -65,11 +88,24 @@ const envSchema = z.object({
   TRUST_PROXY: z.string().transform(Boolean).default('false'),
 });
 
+// Regras que dependem de mais de uma variável
+const validatedEnvSchema = envSchema
+  // O transporte de console não entrega os emails
+  .refine((env) => env.NODE_ENV !== 'production' || env.EMAIL_TRANSPORT !== 'console', {
+    message: 'EMAIL_TRANSPORT=console não é permitido em produção',
+    path: ['EMAIL_TRANSPORT'],
+  })
+  // Nem o de console para WhatsApp/SMS
+  .refine((env) => env.NODE_ENV !== 'production' || env.MESSAGING_TRANSPORT !== 'console', {
+    message: 'MESSAGING_TRANSPORT=console não é permitido em produção',
+    path: ['MESSAGING_TRANSPORT'],
+  });
+
 // Validar e exportar configurações
 let env: z.infer<typeof envSchema>;
 
 try {
-  env = envSchema.parse(process.env);
+  env = validatedEnvSchema.parse(process.env);
 } catch (error) {
   if (error instanceof z.ZodError) {
     console.error('❌ Erro nas variáveis de ambiente:');
@@ -90,6 +126,7 @@ export const config = {
     port: env.PORT,
     nodeEnv: env.NODE_ENV,
     trustProxy: env.TRUST_PROXY,
+    shutdownDrainMs: env.SHUTDOWN_DRAIN_MS,
   },
 
   // Configurações do banco
@@ -139,17 +176,47 @@ export const config = {
     pass: env.SMTP_PASS,
     from: env.FROM_EMAIL,
     fromName: env.FROM_NAME,
+    transport: env.EMAIL_TRANSPORT,
+    outboxDir: env.EMAIL_OUTBOX_DIR,
+  },
+
+  // Configurações de WhatsApp/SMS
+  messaging: {
+    transport: env.MESSAGING_TRANSPORT,
+    apiUrl: env.MESSAGING_API_URL,
+    apiToken: env.MESSAGING_API_TOKEN,
+    outboxDir: env.MESSAGING_OUTBOX_DIR,
+  },
+
+  // Lembretes de agendamento
+  reminders: {
+    hoursBefore: env.REMINDER_HOURS_BEFORE,
+    noShowGraceMinutes: env.NO_SHOW_GRACE_MINUTES,
+  },
+
+  // Configurações do frontend
+  frontend: {
+    url: env.FRONTEND_URL,
   },
 
   // Configurações de Logs
   logging: {
     level: env.LOG_LEVEL,
+    storeLevel: env.LOG_STORE_LEVEL,
+    retentionDays: env.LOG_RETENTION_DAYS,
     enableMorgan: env.ENABLE_MORGAN_LOGGING,
   },
 
   // Configurações de Monitoramento
   monitoring: {
     sentryDsn: env.SENTRY_DSN,
+    // Acesso a /metrics: token (Authorization: Bearer) ou IP/rede na lista
+    metricsToken: env.METRICS_TOKEN,
+    metricsAllowedIps: env.METRICS_ALLOWED_IPS.split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    // Dias mantidos nos agregados por minuto (Redis)
+    metricsRetentionDays: env.METRICS_RETENTION_DAYS,
   },
 
   // Configurações Jira
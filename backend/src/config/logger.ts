@@ -1,8 +1,9 @@
 import winston from 'winston';
 import path from 'path';
 
-import { LogContext, SecurityEvent, BusinessEvent } from '@/types/logging';
+import { LogCategory, LogContext, SecurityEvent, BusinessEvent } from '@/types/logging';
 import { metricsCollector } from '@/utils/metrics';
+import { getRequestId } from '@/utils/request-context';
 
 // Configuração dos níveis de log
 const levels = {
@@ -65,11 +66,17 @@ const transports = [
   }),
 ];
 
+// Anexa o ID da requisição atual também aos logs feitos direto no winston (ex: Prisma)
+const withRequestId = winston.format((info) => {
+  info['requestId'] ??= getRequestId();
+  return info;
+});
+
 // Criar logger
 const logger = winston.createLogger({
   level: process.env['LOG_LEVEL'] ?? 'info',
   levels,
-  format: fileFormat,
+  format: winston.format.combine(withRequestId(), fileFormat),
   transports,
   exitOnError: false,
 });
@@ -78,13 +85,8 @@ const logger = winston.createLogger({
 export const httpLogger = (req: any, res: any, next: any) => {
   const start = Date.now();
   const startCpuUsage = process.cpuUsage();
-  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-  // Definir request ID no logger
-  advancedLogger.setRequestId(requestId);
-
-  // Adicionar request ID ao objeto de requisição
-  req.requestId = requestId;
+  // Definido pelo middleware requestId (fallback para uso isolado do httpLogger)
+  const requestId = req.requestId ?? getRequestId();
 
   res.on('finish', () => {
     const duration = Date.now() - start;
@@ -93,6 +95,7 @@ export const httpLogger = (req: any, res: any, next: any) => {
 
     const context: LogContext = {
       requestId,
+      category: LogCategory.API,
       userId: req.user?.id,
       method: req.method,
       url: req.originalUrl,
@@ -146,26 +149,20 @@ export const setupErrorHandling = () => {
 // Classe de logger avançado
 class AdvancedLogger {
   private winston: winston.Logger;
-  private requestId: string | null = null;
 
   constructor(winstonLogger: winston.Logger) {
     this.winston = winstonLogger;
   }
 
-  /**
-   * Definir ID da requisição para contexto
-   */
-  setRequestId(requestId: string): void {
-    this.requestId = requestId;
-  }
-
   /**
    * Log estruturado com contexto
    */
   private logWithContext(level: string, message: string, context: LogContext = {}): void {
     const enrichedContext = {
       ...context,
-      requestId: this.requestId || context.requestId,
+      category: context.category ?? LogCategory.SYSTEM,
+      // ID da requisição atual, lido do contexto assíncrono (cada requisição tem o seu)
+      requestId: context.requestId ?? getRequestId(),
       timestamp: new Date().toISOString(),
       service: 'saas-barbearias-api',
     };
@@ -222,23 +219,10 @@ class AdvancedLogger {
   }
 
   /**
-   * Log de requisição HTTP
+   * Log de requisição HTTP (as métricas de requisição são coletadas pelo middleware requestMetrics)
    */
   http(message: string, context: LogContext = {}): void {
-    this.logWithContext('http', message, context);
-
-    // Coletar métricas de performance se disponível
-    if (context.duration && context.url && context.method && context.statusCode) {
-      metricsCollector.collectPerformance({
-        endpoint: context.url,
-        method: context.method,
-        duration: context.duration,
-        statusCode: context.statusCode,
-        memoryUsage: process.memoryUsage().heapUsed,
-        timestamp: new Date(),
-        userId: context.userId ?? undefined,
-      });
-    }
+    this.logWithContext('http', message, { category: LogCategory.API, ...context });
   }
 
   /**
@@ -246,6 +230,7 @@ class AdvancedLogger {
    */
   security(event: SecurityEvent): void {
     this.logWithContext('warn', `Security Event: ${event.type}`, {
+      category: LogCategory.SECURITY,
       userId: event.userId ?? undefined,
       ip: event.ip,
       userAgent: event.userAgent,
@@ -260,6 +245,7 @@ class AdvancedLogger {
    */
   business(event: BusinessEvent): void {
     this.logWithContext('info', `Business Event: ${event.type} ${event.action} on ${event.entity}`, {
+      category: LogCategory.BUSINESS,
       userId: event.userId ?? undefined,
       metadata: {
         entity: event.entity,
@@ -279,6 +265,7 @@ class AdvancedLogger {
   performance(operation: string, duration: number, context: LogContext = {}): void {
     const message = `Performance: ${operation} completed in ${duration}ms`;
     this.logWithContext('info', message, {
+      category: LogCategory.PERFORMANCE,
       ...context,
       operation,
       duration,
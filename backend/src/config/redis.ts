@@ -65,7 +65,7 @@ export async function checkRedisHealth(): Promise<{
     const start = Date.now();
     await redis.ping();
     const latency = Date.now() - start;
-    
+
     return {
       status: 'healthy',
       latency,
@@ -119,6 +119,9 @@ export const CACHE_PREFIXES = {
   RATE_LIMIT: 'rate_limit:',
   TEMP: 'temp:',
   BUSINESS: 'business:',
+  WAITLIST: 'waitlist:',
+  JOBS: 'jobs:',
+  METRICS: 'metrics:',
 } as const;
 
 export default redis;
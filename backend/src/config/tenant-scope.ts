@@ -0,0 +1,185 @@
+/**
+ * Isolamento de dados por barbearia (multi-tenant)
+ * Extensão do Prisma que restringe consultas dos models da barbearia à barbearia do usuário atual.
+ * Sem contexto de barbearia (SuperAdmin, clientes, rotas públicas e jobs) as consultas não são alteradas.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getTenantId } from '@/utils/request-context';
+import { TenantError } from '@/types/auth';
+
+type TenantScopedModel =
+  | 'Barber'
+  | 'Service'
+  | 'Appointment'
+  | 'GlobalSchedule'
+  | 'GlobalException'
+  | 'BarberSchedule'
+  | 'BarberException'
+  | 'BarberService'
+  | 'WaitlistEntry'
+  | 'AppointmentSeries';
+
+// Models com barbershopId próprio; os demais pertencem à barbearia através do barbeiro
+const DIRECT_MODELS: ReadonlySet<string> = new Set<TenantScopedModel>([
+  'Barber',
+  'Service',
+  'Appointment',
+  'GlobalSchedule',
+  'GlobalException',
+  'WaitlistEntry',
+  'AppointmentSeries',
+]);
+
+const BARBER_MODELS: ReadonlySet<string> = new Set<TenantScopedModel>([
+  'BarberSchedule',
+  'BarberException',
+  'BarberService',
+]);
+
+// Operações cujo where recebe o filtro da barbearia
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert',
+]);
+
+interface TenantQuery {
+  model?: string | undefined;
+  operation: string;
+  args: any;
+  query: (args: any) => Promise<unknown>;
+}
+
+/**
+ * Aplicar o isolamento por barbearia a uma operação do Prisma
+ */
+export async function applyTenantScope(
+  client: PrismaClient,
+  { model, operation, args, query }: TenantQuery
+): Promise<unknown> {
+  const barbershopId = getTenantId();
+
+  if (!barbershopId || !model || !(DIRECT_MODELS.has(model) || BARBER_MODELS.has(model))) {
+    return query(args);
+  }
+
+  await assertWritesInTenant(client, model, operation, args ?? {}, barbershopId);
+
+  if (!FILTERED_OPERATIONS.has(operation)) {
+    return query(args);
+  }
+
+  const where = args?.where ?? {};
+  const existingAnd = where.AND === undefined ? [] : [where.AND].flat();
+
+  // Campos únicos permanecem no nível raiz (findUnique/update/delete exigem)
+  return query({
+    ...args,
+    where: { ...where, AND: [...existingAnd, tenantFilter(model, barbershopId)] },
+  });
+}
+
+/**
+ * Criar a extensão do Prisma que aplica o isolamento
+ * O client base é usado nas verificações para não passar novamente pela extensão
+ */
+export function tenantScopeExtension(client: PrismaClient) {
+  return Prisma.defineExtension({
+    name: 'tenant-scope',
+    query: {
+      $allModels: {
+        $allOperations: (params) => applyTenantScope(client, params),
+      },
+    },
+  });
+}
+
+function tenantFilter(model: string, barbershopId: string): object {
+  return DIRECT_MODELS.has(model) ? { barbershopId } : { barber: { barbershopId } };
+}
+
+/**
+ * Impedir criação de registros ou mudança de dono para outra barbearia
+ */
+async function assertWritesInTenant(
+  client: PrismaClient,
+  model: string,
+  operation: string,
+  args: any,
+  barbershopId: string
+): Promise<void> {
+  let records: { data: any; required: boolean }[] = [];
+
+  switch (operation) {
+    case 'create':
+      records = [{ data: args.data, required: true }];
+      break;
+    case 'createMany':
+    case 'createManyAndReturn':
+      records = [args.data]
+        .flat()
+        .filter(Boolean)
+        .map((data: any) => ({ data, required: true }));
+      break;
+    case 'update':
+    case 'updateMany':
+      records = [{ data: args.data, required: false }];
+      break;
+    case 'upsert':
+      records = [
+        { data: args.create, required: true },
+        { data: args.update, required: false },
+      ];
+      break;
+    default:
+      return;
+  }
+
+  const owner = DIRECT_MODELS.has(model) ? 'barbershop' : 'barber';
+  const targets: string[] = [];
+
+  for (const { data, required } of records) {
+    const target = data?.[`${owner}Id`] ?? data?.[owner]?.connect?.id;
+
+    if (target === undefined) {
+      // Sem referência explícita ao dono não há como garantir a barbearia
+      if (required || data?.[owner] !== undefined) {
+        throw new Error(TenantError.CROSS_TENANT_WRITE);
+      }
+      continue;
+    }
+
+    targets.push(target);
+  }
+
+  if (owner === 'barbershop') {
+    if (targets.some((target) => target !== barbershopId)) {
+      throw new Error(TenantError.CROSS_TENANT_WRITE);
+    }
+    return;
+  }
+
+  const barberIds = Array.from(new Set(targets));
+  if (barberIds.length === 0) {
+    return;
+  }
+
+  const owned = await client.barber.count({
+    where: { id: { in: barberIds }, barbershopId },
+  });
+
+  if (owned !== barberIds.length) {
+    throw new Error(TenantError.CROSS_TENANT_WRITE);
+  }
+}
@@ -0,0 +1,349 @@
+import { Request, Response } from 'express';
+import { AppointmentStatus } from '@prisma/client';
+import { AppointmentService } from '@/services/appointment.service';
+import { AppointmentSeriesService } from '@/services/appointment-series.service';
+import { AppointmentReminderService } from '@/services/appointment-reminder.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import {
+  AppointmentError,
+  AppointmentFilters,
+  CancelAppointmentRequest,
+  CreateAppointmentRequest,
+  RescheduleAppointmentRequest,
+  UpdateAppointmentStatusRequest,
+} from '@/types/appointment';
+import { TenantError } from '@/types/auth';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros de agendamento respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [AppointmentError.NOT_FOUND]: { status: 404, error: 'APPOINTMENT_NOT_FOUND' },
+  'Barbearia não encontrada': { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  'Serviço não encontrado': { status: 404, error: 'SERVICE_NOT_FOUND' },
+  'Barbeiro não encontrado': { status: 404, error: 'BARBER_NOT_FOUND' },
+  [AppointmentError.ACCESS_DENIED]: { status: 403, error: 'ACCESS_DENIED' },
+  [AppointmentError.TIME_CONFLICT]: { status: 409, error: 'TIME_CONFLICT' },
+  [AppointmentError.INVALID_STATUS]: { status: 409, error: 'INVALID_STATUS' },
+  [AppointmentError.PAST_TIME]: { status: 422, error: 'PAST_TIME' },
+  [AppointmentError.MIN_NOTICE]: { status: 422, error: 'MIN_NOTICE' },
+  [AppointmentError.BARBER_NOT_WORKING]: { status: 422, error: 'BARBER_NOT_WORKING' },
+  [AppointmentError.SERVICE_TOO_LONG]: { status: 422, error: 'SERVICE_TOO_LONG' },
+  [AppointmentError.BARBER_ON_VACATION]: { status: 422, error: 'BARBER_ON_VACATION' },
+  [AppointmentError.BARBER_UNAVAILABLE]: { status: 422, error: 'BARBER_UNAVAILABLE' },
+  [AppointmentError.INVALID_SERVICE]: { status: 422, error: 'INVALID_SERVICE' },
+  [AppointmentError.SERVICE_NOT_OFFERED]: { status: 422, error: 'SERVICE_NOT_OFFERED' },
+  [AppointmentError.INVALID_TRANSITION]: { status: 409, error: 'INVALID_TRANSITION' },
+  [AppointmentError.TRANSITION_FORBIDDEN]: { status: 403, error: 'TRANSITION_FORBIDDEN' },
+  [AppointmentError.CANCEL_CUTOFF]: { status: 422, error: 'CANCEL_CUTOFF' },
+  [AppointmentError.REASON_REQUIRED]: { status: 422, error: 'REASON_REQUIRED' },
+  [AppointmentError.NO_SHOW_TOO_EARLY]: { status: 422, error: 'NO_SHOW_TOO_EARLY' },
+  [AppointmentError.SLOT_ON_HOLD]: { status: 409, error: 'SLOT_ON_HOLD' },
+  [AppointmentError.NOT_IN_SERIES]: { status: 422, error: 'NOT_IN_SERIES' },
+  [AppointmentError.RECURRENCE_TOO_LONG]: { status: 422, error: 'RECURRENCE_TOO_LONG' },
+  [AppointmentError.NO_VALID_OCCURRENCES]: { status: 409, error: 'NO_VALID_OCCURRENCES' },
+  [AppointmentError.ACTION_LINK_INVALID]: { status: 400, error: 'INVALID_ACTION_LINK' },
+  [AppointmentError.ACTION_LINK_EXPIRED]: { status: 410, error: 'ACTION_LINK_EXPIRED' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+export class AppointmentController {
+  /**
+   * Listar agendamentos
+   * GET /api/appointments
+   */
+  static async list(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await AppointmentService.list(req.user, req.query as AppointmentFilters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Agendamentos obtidos com sucesso',
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de agendamentos:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Obter agendamento por ID
+   * GET /api/appointments/:id
+   */
+  static async getById(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const appointment = await AppointmentService.getById(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Agendamento obtido com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de obter agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Criar agendamento
+   * POST /api/appointments
+   */
+  static async create(
+    req: Request<{}, ApiResponse, CreateAppointmentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const { recurrence } = req.body;
+
+      if (recurrence) {
+        const result = await AppointmentSeriesService.create(req.user, { ...req.body, recurrence });
+
+        res.status(201).json({
+          success: true,
+          message: 'Agendamentos recorrentes criados com sucesso',
+          data: result,
+        });
+        return;
+      }
+
+      const appointment = await AppointmentService.create(req.user, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Agendamento criado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de criação de agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remarcar agendamento
+   * PATCH /api/appointments/:id/reschedule
+   */
+  static async reschedule(
+    req: Request<{ id: string }, ApiResponse, RescheduleAppointmentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      if (req.body.scope === 'following') {
+        const result = await AppointmentSeriesService.rescheduleFollowing(
+          req.params.id,
+          req.user,
+          req.body
+        );
+
+        res.status(200).json({
+          success: true,
+          message: 'Agendamento e ocorrências seguintes remarcados com sucesso',
+          data: result,
+        });
+        return;
+      }
+
+      const appointment = await AppointmentService.reschedule(req.params.id, req.user, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Agendamento remarcado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remarcação de agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Cancelar agendamento
+   * PATCH /api/appointments/:id/cancel
+   */
+  static async cancel(
+    req: Request<{ id: string }, ApiResponse, CancelAppointmentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      if (req.body.scope === 'following') {
+        const result = await AppointmentSeriesService.cancelFollowing(
+          req.params.id,
+          req.user,
+          req.body
+        );
+
+        res.status(200).json({
+          success: true,
+          message: 'Agendamento e ocorrências seguintes cancelados com sucesso',
+          data: result,
+        });
+        return;
+      }
+
+      const appointment = await AppointmentService.cancel(req.params.id, req.user, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Agendamento cancelado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de cancelamento de agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Alterar status do agendamento
+   * PATCH /api/appointments/:id/status
+   */
+  static async updateStatus(
+    req: Request<{ id: string }, ApiResponse, UpdateAppointmentStatusRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const appointment = await AppointmentService.updateStatus(req.params.id, req.user, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Status do agendamento atualizado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de status de agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Histórico de status do agendamento
+   * GET /api/appointments/:id/history
+   */
+  static async getHistory(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const history = await AppointmentService.getHistory(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Histórico obtido com sucesso',
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de histórico de agendamento:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Dados do agendamento do link do lembrete
+   * GET /api/appointments/actions/:token
+   */
+  static async previewAction(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const result = await AppointmentReminderService.previewAction(req.params.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Agendamento obtido com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de link do lembrete:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Confirmar ou cancelar pelo link do lembrete
+   * POST /api/appointments/actions/:token
+   */
+  static async applyAction(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const appointment = await AppointmentReminderService.applyAction(req.params.token);
+
+      res.status(200).json({
+        success: true,
+        message:
+          appointment.status === AppointmentStatus.CONFIRMED
+            ? 'Presença confirmada com sucesso'
+            : 'Agendamento cancelado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de link do lembrete:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
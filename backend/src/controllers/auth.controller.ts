@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { AuthService } from '@/services/auth.service';
+import { SessionService } from '@/services/session.service';
+import { BarberInviteService } from '@/services/barber-invite.service';
 import { logger } from '@/config/logger';
 import { ApiResponse } from '@/types/api';
 import {
@@ -9,7 +11,15 @@ import {
   ResetPasswordRequest,
   ChangePasswordRequest,
   UpdateProfileRequest,
+  SessionContext,
 } from '@/types/auth';
+import { AcceptInviteRequest, BarberError } from '@/types/barber';
+
+// Origem da requisição registrada na sessão
+const getSessionContext = (req: Request): SessionContext => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+});
 
 export class AuthController {
   /**
@@ -21,7 +31,7 @@ export class AuthController {
     res: Response<ApiResponse>
   ): Promise<void> {
     try {
-      const result = await AuthService.register(req.body);
+      const result = await AuthService.register(req.body, getSessionContext(req));
 
       res.status(201).json({
         success: true,
@@ -68,7 +78,7 @@ export class AuthController {
     res: Response<ApiResponse>
   ): Promise<void> {
     try {
-      const result = await AuthService.login(req.body);
+      const result = await AuthService.login(req.body, getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -116,7 +126,7 @@ export class AuthController {
   ): Promise<void> {
     try {
       const { refreshToken } = req.body;
-      const result = await AuthService.refreshToken(refreshToken);
+      const result = await AuthService.refreshToken(refreshToken, getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -217,7 +227,7 @@ export class AuthController {
           return;
         }
 
-        if (error.message.includes('token')) {
+        if (error.message === 'Token de reset inválido ou expirado') {
           res.status(400).json({
             success: false,
             message: 'Token de reset inválido ou expirado',
@@ -235,6 +245,98 @@ export class AuthController {
     }
   }
 
+  /**
+   * Dados do convite de barbeiro
+   * GET /api/auth/invites/:token
+   */
+  static async previewInvite(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const invite = await BarberInviteService.preview(req.params.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Convite obtido com sucesso',
+        data: invite,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de consulta de convite:', error);
+
+      if (error instanceof Error && error.message === BarberError.INVITE_INVALID) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          error: 'INVALID_INVITE',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Aceitar convite de barbeiro (cria a conta e inicia a sessão)
+   * POST /api/auth/accept-invite
+   */
+  static async acceptInvite(
+    req: Request<{}, ApiResponse, AcceptInviteRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const result = await BarberInviteService.accept(req.body, getSessionContext(req));
+
+      res.status(201).json({
+        success: true,
+        message: 'Convite aceito com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de aceite de convite:', error);
+
+      if (error instanceof Error) {
+        if (error.message === BarberError.INVITE_INVALID) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+            error: 'INVALID_INVITE',
+          });
+          return;
+        }
+
+        if (error.message === BarberError.EMAIL_ALREADY_REGISTERED) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+            error: 'EMAIL_ALREADY_EXISTS',
+          });
+          return;
+        }
+
+        if (error.message.startsWith('Senha fraca:')) {
+          res.status(422).json({
+            success: false,
+            message: error.message,
+            error: 'WEAK_PASSWORD',
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
   /**
    * Mudança de senha
    * POST /api/auth/change-password
@@ -358,13 +460,21 @@ export class AuthController {
   }
 
   /**
-   * Logout (invalidar token)
+   * Logout (revoga a sessão atual e o access token)
    * POST /api/auth/logout
    */
-  static async logout(_req: Request, res: Response<ApiResponse>): Promise<void> {
+  static async logout(req: Request, res: Response<ApiResponse>): Promise<void> {
     try {
-      // TODO: Implementar blacklist de tokens ou invalidação
-      // Por enquanto, apenas retornar sucesso
+      if (!req.user || !req.tokenPayload) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await AuthService.logout(req.user.id, req.tokenPayload);
 
       res.status(200).json({
         success: true,
@@ -380,4 +490,114 @@ export class AuthController {
       });
     }
   }
+
+  /**
+   * Logout de todos os dispositivos
+   * POST /api/auth/logout-all
+   */
+  static async logoutAll(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const sessions = await AuthService.logoutAll(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logout realizado em todos os dispositivos',
+        data: { sessions },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de logout de todos os dispositivos:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Listar sessões ativas (dispositivos conectados)
+   * GET /api/auth/sessions
+   */
+  static async listSessions(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const sessions = await SessionService.list(req.user.id, req.tokenPayload?.sid);
+
+      res.status(200).json({
+        success: true,
+        message: 'Sessões obtidas com sucesso',
+        data: sessions,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de sessões:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Revogar sessão
+   * DELETE /api/auth/sessions/:id
+   */
+  static async revokeSession(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const revoked = await SessionService.revoke(req.user.id, req.params.id);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'Sessão não encontrada',
+          error: 'SESSION_NOT_FOUND',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Sessão encerrada com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de revogação de sessão:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
 }
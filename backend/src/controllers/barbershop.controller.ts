@@ -0,0 +1,250 @@
+import { Request, Response } from 'express';
+import { BarbershopService } from '@/services/barbershop.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import {
+  BarbershopFilters,
+  CreateBarbershopRequest,
+  UpdateBarbershopRequest,
+} from '@/types/barbershop';
+
+export class BarbershopController {
+  /**
+   * Listar barbearias
+   * GET /api/barbershops
+   */
+  static async list(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      const result = await BarbershopService.list(req.query as BarbershopFilters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbearias obtidas com sucesso',
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de barbearias:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Obter barbearia por ID
+   * GET /api/barbershops/:id
+   */
+  static async getById(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      const includeDetails = (req.query as { includeDetails?: boolean }).includeDetails ?? false;
+      const barbershop = await BarbershopService.getById(req.params.id, includeDetails);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbearia obtida com sucesso',
+        data: barbershop,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de obter barbearia:', error);
+
+      if (error instanceof Error && error.message === 'Barbearia não encontrada') {
+        res.status(404).json({
+          success: false,
+          message: 'Barbearia não encontrada',
+          error: 'BARBERSHOP_NOT_FOUND',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Obter barbearia pelo slug do link público de agendamento
+   * GET /api/barbershops/slug/:slug
+   */
+  static async getBySlug(
+    req: Request<{ slug: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const barbershop = await BarbershopService.getBySlug(req.params.slug);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbearia obtida com sucesso',
+        data: barbershop,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de obter barbearia pelo slug:', error);
+
+      if (error instanceof Error && error.message === 'Barbearia não encontrada') {
+        res.status(404).json({
+          success: false,
+          message: 'Barbearia não encontrada',
+          error: 'BARBERSHOP_NOT_FOUND',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Criar barbearia
+   * POST /api/barbershops
+   */
+  static async create(
+    req: Request<{}, ApiResponse, CreateBarbershopRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barbershop = await BarbershopService.create(req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Barbearia criada com sucesso',
+        data: barbershop,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de criação de barbearia:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Usuário já possui uma barbearia') {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+            error: 'BARBERSHOP_ALREADY_EXISTS',
+          });
+          return;
+        }
+
+        if (error.message === 'Apenas administradores podem criar barbearias') {
+          res.status(403).json({
+            success: false,
+            message: error.message,
+            error: 'INSUFFICIENT_PERMISSIONS',
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Atualizar barbearia
+   * PUT /api/barbershops/:id
+   */
+  static async update(
+    req: Request<{ id: string }, ApiResponse, UpdateBarbershopRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barbershop = await BarbershopService.update(req.params.id, req.body, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbearia atualizada com sucesso',
+        data: barbershop,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de barbearia:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Remover barbearia
+   * DELETE /api/barbershops/:id
+   */
+  static async delete(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await BarbershopService.delete(req.params.id, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbearia removida com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de barbearia:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Barbearia não encontrada') {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+            error: 'BARBERSHOP_NOT_FOUND',
+          });
+          return;
+        }
+
+        if (error.message === 'Barbearia possui barbeiros, serviços ou agendamentos vinculados') {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+            error: 'BARBERSHOP_HAS_DEPENDENCIES',
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
@@ -1,5 +1,7 @@
+import { createHash } from 'crypto';
 import { Request, Response } from 'express';
 import { JiraService } from '@/services/jira.service';
+import { JobQueueService } from '@/services/job-queue.service';
 import { logger } from '@/config/logger';
 import { AuthenticatedRequest } from '@/types/auth';
 import {
@@ -8,6 +10,7 @@ import {
   JiraSearchRequest,
   UpdateJiraIssueRequest,
 } from '@/types/jira';
+import { JobType } from '@/types/job';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -132,7 +135,7 @@ export class JiraController {
   }
 
   /**
-   * Atualizar issue
+   * Atualizar issue (executada pela fila de tarefas)
    */
   static async updateIssue(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
     try {
@@ -148,13 +151,21 @@ export class JiraController {
         return;
       }
 
-      await JiraService.updateIssue(issueKey, updateData);
+      const payload = { issueKey, data: updateData };
+      const job = await JobQueueService.enqueue(JobType.JIRA_UPDATE_ISSUE, payload, {
+        idempotencyKey: JiraController.idempotencyKey(
+          req as any,
+          JobType.JIRA_UPDATE_ISSUE,
+          payload
+        ),
+      });
 
-      logger.info(`Issue ${issueKey} atualizada por ${req.user.email}`);
+      logger.info(`Atualização da issue ${issueKey} enfileirada por ${req.user.email}`);
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        message: 'Issue atualizada com sucesso',
+        message: 'Atualização da issue enfileirada',
+        data: { jobId: job.id },
       });
     } catch (error) {
       logger.error('Erro ao atualizar issue:', error);
@@ -236,7 +247,7 @@ export class JiraController {
   }
 
   /**
-   * Executar transição de status
+   * Executar transição de status (executada pela fila de tarefas)
    */
   static async transitionIssue(
     req: AuthenticatedRequest,
@@ -255,13 +266,21 @@ export class JiraController {
         return;
       }
 
-      await JiraService.transitionIssue(issueKey, transitionId);
+      const payload = { issueKey, transitionId };
+      const job = await JobQueueService.enqueue(JobType.JIRA_TRANSITION_ISSUE, payload, {
+        idempotencyKey: JiraController.idempotencyKey(
+          req as any,
+          JobType.JIRA_TRANSITION_ISSUE,
+          payload
+        ),
+      });
 
-      logger.info(`Transição executada na issue ${issueKey} por ${req.user.email}`);
+      logger.info(`Transição da issue ${issueKey} enfileirada por ${req.user.email}`);
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        message: 'Transição executada com sucesso',
+        message: 'Transição enfileirada',
+        data: { jobId: job.id },
       });
     } catch (error) {
       logger.error('Erro ao executar transição:', error);
@@ -274,7 +293,7 @@ export class JiraController {
   }
 
   /**
-   * Adicionar comentário
+   * Adicionar comentário (executado pela fila de tarefas)
    */
   static async addComment(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
     try {
@@ -290,14 +309,21 @@ export class JiraController {
         return;
       }
 
-      const comment = await JiraService.addComment(issueKey, commentData);
+      const payload = { issueKey, comment: commentData };
+      const job = await JobQueueService.enqueue(JobType.JIRA_ADD_COMMENT, payload, {
+        idempotencyKey: JiraController.idempotencyKey(
+          req as any,
+          JobType.JIRA_ADD_COMMENT,
+          payload
+        ),
+      });
 
-      logger.info(`Comentário adicionado à issue ${issueKey} por ${req.user.email}`);
+      logger.info(`Comentário na issue ${issueKey} enfileirado por ${req.user.email}`);
 
-      res.status(201).json({
+      res.status(202).json({
         success: true,
-        message: 'Comentário adicionado com sucesso',
-        data: comment,
+        message: 'Comentário enfileirado',
+        data: { jobId: job.id },
       });
     } catch (error) {
       logger.error('Erro ao adicionar comentário:', error);
@@ -308,4 +334,21 @@ export class JiraController {
       });
     }
   }
+
+  /**
+   * Chave de idempotência da operação enfileirada: o cabeçalho Idempotency-Key enviado pelo
+   * cliente ou, sem ele, a própria operação (usuário, issue e dados), para que a repetição
+   * da mesma requisição não duplique a alteração no Jira
+   */
+  private static idempotencyKey(
+    req: Request,
+    type: JobType,
+    payload: { issueKey: string }
+  ): string {
+    const clientKey = req.get(JobQueueService.IDEMPOTENCY_HEADER);
+    const userId = req.user?.id;
+    const source = clientKey ? [type, userId, clientKey] : [type, userId, payload];
+
+    return `jira:${createHash('sha256').update(JSON.stringify(source)).digest('hex')}`;
+  }
 }
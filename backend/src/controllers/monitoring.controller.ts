@@ -4,17 +4,37 @@
 
 import { Request, Response } from 'express';
 import { metricsCollector } from '@/utils/metrics';
+import { OPENMETRICS_CONTENT_TYPE } from '@/utils/openmetrics';
+import { cacheService } from '@/services/cache.service';
 import { advancedLogger } from '@/config/logger';
 import { ApiResponse } from '@/types/api';
+import { JobQueueService } from '@/services/job-queue.service';
+import { JobError } from '@/types/job';
+import { LogStoreService } from '@/services/log-store.service';
+import { HealthService } from '@/services/health.service';
+import { LogQueryError, LogQueryFilters } from '@/types/logging';
 
 export class MonitoringController {
+  /**
+   * Exportar métricas no formato OpenMetrics (coletadas pelo Prometheus em /metrics)
+   */
+  static async getOpenMetrics(_req: Request, res: Response) {
+    try {
+      res.type(OPENMETRICS_CONTENT_TYPE).send(metricsCollector.toOpenMetrics(cacheService.getStats()));
+    } catch (error) {
+      advancedLogger.error('Erro ao exportar métricas', error as Error);
+
+      res.status(500).type('text/plain').send('Erro ao exportar métricas');
+    }
+  }
+
   /**
    * Obter métricas de performance do sistema
    */
   static async getPerformanceMetrics(req: Request, res: Response<ApiResponse>) {
     try {
       const timeWindow = parseInt(req.query['timeWindow'] as string) || 3600000; // 1 hora por padrão
-      const stats = metricsCollector.getPerformanceStats(timeWindow);
+      const stats = await metricsCollector.getPerformanceStats(timeWindow);
 
       advancedLogger.info('Performance metrics requested', {
         userId: req.user?.id,
@@ -45,11 +65,13 @@ export class MonitoringController {
   static async getTopErrors(req: Request, res: Response<ApiResponse>) {
     try {
       const limit = parseInt(req.query['limit'] as string) || 10;
-      const errors = metricsCollector.getTopErrors(limit);
+      const timeWindow = parseInt(req.query['timeWindow'] as string) || 86400000; // 24 horas por padrão
+      const errors = await metricsCollector.getTopErrors(limit, timeWindow);
 
       advancedLogger.info('Top errors requested', {
         userId: req.user?.id,
         limit,
+        timeWindow,
       });
 
       res.json({
@@ -106,7 +128,7 @@ export class MonitoringController {
    */
   static async getSystemSummary(req: Request, res: Response<ApiResponse>) {
     try {
-      const summary = metricsCollector.getSystemSummary();
+      const summary = await metricsCollector.getSystemSummary();
 
       advancedLogger.info('System summary requested', {
         userId: req.user?.id,
@@ -135,21 +157,15 @@ export class MonitoringController {
    */
   static async getRecentLogs(req: Request, res: Response<ApiResponse>) {
     try {
-      const level = req.query['level'] as string ?? 'info';
-      const limit = parseInt(req.query['limit'] as string) || 100;
-
-      // Simular obtenção de logs (em produção, isso viria de um sistema de logs centralizado)
-      const logs = {
-        level,
-        limit,
-        message: 'Em produção, isso retornaria logs reais de um sistema como ELK Stack ou CloudWatch',
-        timestamp: new Date().toISOString(),
-      };
+      const filters = req.query as unknown as LogQueryFilters;
+      const logs = await LogStoreService.query(filters);
 
       advancedLogger.info('Recent logs requested', {
         userId: req.user?.id,
-        level,
-        limit,
+        metadata: {
+          filters: { ...filters, cursor: undefined },
+          returned: logs.entries.length,
+        },
       });
 
       res.json({
@@ -158,6 +174,15 @@ export class MonitoringController {
         data: logs,
       });
     } catch (error) {
+      if ((error as Error).message === LogQueryError.INVALID_CURSOR) {
+        res.status(400).json({
+          success: false,
+          message: LogQueryError.INVALID_CURSOR,
+          error: 'INVALID_CURSOR',
+        });
+        return;
+      }
+
       advancedLogger.error('Erro ao obter logs recentes', error as Error, {
         userId: req.user?.id,
       });
@@ -170,6 +195,7 @@ export class MonitoringController {
     }
   }
 
+
   /**
    * Health check avançado
    */
@@ -178,21 +204,18 @@ export class MonitoringController {
       const memoryUsage = process.memoryUsage();
       const cpuUsage = process.cpuUsage();
       const uptime = process.uptime();
-      
-      // Verificar saúde dos serviços
-      const services = {
-        database: 'healthy', // Em produção, verificar conexão real
-        redis: 'healthy',    // Em produção, verificar conexão real
-        external_apis: 'healthy', // Verificar APIs externas
-      };
+
+      // Banco obrigatório; Redis e Jira fora do ar deixam o sistema degradado
+      const report = await HealthService.checkAll();
 
       const health = {
-        status: 'healthy',
+        status: report.status,
+        ready: report.ready,
         timestamp: new Date().toISOString(),
         uptime: Math.floor(uptime),
         version: process.env['npm_package_version'] ?? '1.0.0',
         environment: process.env['NODE_ENV'],
-        services,
+        services: report.checks,
         system: {
           memory: {
             used: Math.round(memoryUsage.heapUsed / 1024 / 1024),
@@ -205,10 +228,10 @@ export class MonitoringController {
           },
           load: (process as any).loadavg ? (process as any).loadavg() : [0, 0, 0],
         },
-        metrics: metricsCollector.getSystemSummary(),
+        metrics: await metricsCollector.getSystemSummary(),
       };
 
-      const statusCode = health.status === 'healthy' ? 200 : 503;
+      const statusCode = health.status === 'unhealthy' ? 503 : 200;
 
       advancedLogger.info('Advanced health check performed', {
         userId: req.user?.id,
@@ -216,7 +239,7 @@ export class MonitoringController {
       });
 
       res.status(statusCode).json({
-        success: health.status === 'healthy',
+        success: health.status !== 'unhealthy',
         message: `Sistema ${health.status}`,
         data: health,
       });
@@ -232,4 +255,87 @@ export class MonitoringController {
       });
     }
   }
+
+  /**
+   * Listar tarefas da fila em segundo plano (state=queued ou state=dead)
+   */
+  static async listJobs(req: Request, res: Response<ApiResponse>) {
+    try {
+      const state = req.query['state'] === 'dead' ? 'dead' : 'queued';
+      const limit = Math.min(parseInt(req.query['limit'] as string) || 50, 200);
+      const jobs = await JobQueueService.list({ state, limit });
+
+      advancedLogger.info('Background jobs requested', {
+        userId: req.user?.id,
+        limit,
+        metadata: { state },
+      });
+
+      res.json({
+        success: true,
+        message: 'Tarefas obtidas com sucesso',
+        data: jobs,
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar tarefas', error as Error, {
+        userId: req.user?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Reenviar tarefa da fila de falhas
+   */
+  static async retryJob(req: Request, res: Response<ApiResponse>) {
+    try {
+      const job = await JobQueueService.retry(req.params['id'] as string);
+
+      advancedLogger.info('Background job retried', {
+        userId: req.user?.id,
+        metadata: { jobId: job.id, type: job.type },
+      });
+
+      res.json({
+        success: true,
+        message: 'Tarefa reenviada para a fila',
+        data: job,
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (message === JobError.NOT_FOUND) {
+        res.status(404).json({
+          success: false,
+          message: 'Tarefa não encontrada',
+          error: JobError.NOT_FOUND,
+        });
+        return;
+      }
+
+      if (message === JobError.NOT_DEAD) {
+        res.status(409).json({
+          success: false,
+          message: 'Apenas tarefas na fila de falhas podem ser reenviadas',
+          error: JobError.NOT_DEAD,
+        });
+        return;
+      }
+
+      advancedLogger.error('Erro ao reenviar tarefa', error as Error, {
+        userId: req.user?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
 }
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { notificationService } from '@/services/notification.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { InboxFilters, NotificationError, UpdatePreferencesRequest } from '@/types/notification';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros de notificações respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [NotificationError.NOT_FOUND]: { status: 404, error: 'NOTIFICATION_NOT_FOUND' },
+};
+
+export class NotificationController {
+  /**
+   * Caixa de entrada in-app do usuário autenticado
+   * GET /api/notifications
+   */
+  static async inbox(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const inbox = await notificationService.listInbox(
+        req.user.id,
+        req.query as unknown as InboxFilters
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Notificações obtidas com sucesso',
+        data: inbox,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de notificações:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Marcar notificação como lida
+   * PATCH /api/notifications/:id/read
+   */
+  static async markRead(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const notification = await notificationService.markRead(req.params.id, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notificação marcada como lida',
+        data: notification,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de leitura de notificação:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Marcar todas as notificações como lidas
+   * PATCH /api/notifications/read-all
+   */
+  static async markAllRead(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const updated = await notificationService.markAllRead(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notificações marcadas como lidas',
+        data: { updated },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de leitura de notificações:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Obter preferências de notificação
+   * GET /api/notifications/preferences
+   */
+  static async getPreferences(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const preferences = await notificationService.getPreferences(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Preferências obtidas com sucesso',
+        data: preferences,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de preferências de notificação:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar preferências de notificação
+   * PUT /api/notifications/preferences
+   */
+  static async updatePreferences(
+    req: Request<{}, ApiResponse, UpdatePreferencesRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const preferences = await notificationService.updatePreferences(
+        req.user.id,
+        req.body.preferences
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Preferências atualizadas com sucesso',
+        data: preferences,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de preferências:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { PermissionService } from '@/services/permission.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { Permission, PermissionError } from '@/types/auth';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros de permissões respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [PermissionError.BARBER_NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [PermissionError.NOT_GRANTABLE]: { status: 422, error: 'PERMISSION_NOT_GRANTABLE' },
+};
+
+export class PermissionController {
+  /**
+   * Permissões efetivas do usuário autenticado
+   * GET /api/auth/me/permissions
+   */
+  static async getMine(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const permissions = await PermissionService.getUserPermissions(req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Permissões obtidas com sucesso',
+        data: permissions,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de permissões do usuário:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Permissões extras de um barbeiro
+   * GET /api/barbershops/:id/barbers/:barberId/permissions
+   */
+  static async getBarberGrants(
+    req: Request<{ id: string; barberId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const permissions = await PermissionService.listBarberGrants(
+        req.params.id,
+        req.params.barberId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Permissões do barbeiro obtidas com sucesso',
+        data: { permissions },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de permissões do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Definir permissões extras de um barbeiro
+   * PUT /api/barbershops/:id/barbers/:barberId/permissions
+   */
+  static async setBarberGrants(
+    req: Request<{ id: string; barberId: string }, ApiResponse, { permissions: Permission[] }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const permissions = await PermissionService.setBarberGrants(
+        req.params.id,
+        req.params.barberId,
+        req.body.permissions,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Permissões do barbeiro atualizadas com sucesso',
+        data: { permissions },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de permissões do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { Request, Response } from 'express';
+import { ScheduleExceptionService } from '@/services/schedule-exception.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { TenantError } from '@/types/auth';
+import {
+  CreateBarberExceptionRequest,
+  CreateGlobalExceptionRequest,
+  DateRange,
+  ExceptionError,
+  ImportHolidaysRequest,
+  UpdateBarberExceptionRequest,
+  UpdateGlobalExceptionRequest,
+} from '@/types/schedule-exception';
+import { ScheduleError } from '@/types/scheduling';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros de exceções de agenda respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [ExceptionError.EXCEPTION_NOT_FOUND]: { status: 404, error: 'EXCEPTION_NOT_FOUND' },
+  [ExceptionError.DATE_TAKEN]: { status: 409, error: 'DATE_TAKEN' },
+  [ExceptionError.INVALID_RANGE]: { status: 400, error: 'INVALID_RANGE' },
+  [ExceptionError.RANGE_TOO_LONG]: { status: 400, error: 'RANGE_TOO_LONG' },
+  [ExceptionError.SPECIAL_TIMES_REQUIRED]: { status: 422, error: 'SPECIAL_TIMES_REQUIRED' },
+  [ExceptionError.MUNICIPALITY_NOT_FOUND]: { status: 404, error: 'MUNICIPALITY_NOT_FOUND' },
+  [ScheduleError.BARBERSHOP_NOT_FOUND]: { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  [ScheduleError.BARBER_NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [ScheduleError.SELF_ONLY]: { status: 403, error: 'INSUFFICIENT_PERMISSIONS' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+type ExceptionParams = { id: string; exceptionId: string };
+type BarberParams = { id: string; barberId: string };
+type BarberExceptionParams = BarberParams & { exceptionId: string };
+
+export class ScheduleExceptionController {
+  /**
+   * Exceções da barbearia (feriados, fechamentos, horários especiais)
+   * GET /api/barbershops/:id/exceptions
+   */
+  static async listGlobal(
+    req: Request<{ id: string }, ApiResponse>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const exceptions = await ScheduleExceptionService.listGlobal(
+        req.params.id,
+        req.query as Partial<DateRange>
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceções obtidas com sucesso',
+        data: exceptions,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de exceções da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Criar exceção da barbearia para um período
+   * POST /api/barbershops/:id/exceptions
+   */
+  static async createGlobal(
+    req: Request<{ id: string }, ApiResponse, CreateGlobalExceptionRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await ScheduleExceptionService.createGlobal(
+        req.params.id,
+        req.body,
+        req.user.id
+      );
+
+      res.status(result.applied ? 201 : 200).json({
+        success: true,
+        message: result.applied
+          ? 'Exceção criada com sucesso'
+          : 'Simulação concluída; nenhuma exceção foi gravada',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de criação de exceção da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Importar feriados como fechamento da barbearia
+   * POST /api/barbershops/:id/exceptions/holidays
+   */
+  static async importHolidays(
+    req: Request<{ id: string }, ApiResponse, ImportHolidaysRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await ScheduleExceptionService.importHolidays(
+        req.params.id,
+        req.body,
+        req.user.id
+      );
+
+      res.status(result.applied ? 201 : 200).json({
+        success: true,
+        message: result.applied
+          ? 'Feriados importados com sucesso'
+          : 'Simulação concluída; nenhum feriado foi gravado',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de importação de feriados:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar exceção da barbearia
+   * PUT /api/barbershops/:id/exceptions/:exceptionId
+   */
+  static async updateGlobal(
+    req: Request<ExceptionParams, ApiResponse, UpdateGlobalExceptionRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const exception = await ScheduleExceptionService.updateGlobal(
+        req.params.id,
+        req.params.exceptionId,
+        req.body,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceção atualizada com sucesso',
+        data: exception,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de exceção da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remover exceção da barbearia
+   * DELETE /api/barbershops/:id/exceptions/:exceptionId
+   */
+  static async deleteGlobal(
+    req: Request<ExceptionParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await ScheduleExceptionService.deleteGlobal(
+        req.params.id,
+        req.params.exceptionId,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceção removida com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de exceção da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remover exceções da barbearia de um período
+   * DELETE /api/barbershops/:id/exceptions?startDate=&endDate=
+   */
+  static async deleteGlobalRange(
+    req: Request<{ id: string }, ApiResponse>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const count = await ScheduleExceptionService.deleteGlobalRange(
+        req.params.id,
+        req.query as unknown as DateRange,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceções removidas com sucesso',
+        data: { count },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de exceções da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Exceções do barbeiro (folgas, férias, horários especiais)
+   * GET /api/barbershops/:id/barbers/:barberId/exceptions
+   */
+  static async listBarber(
+    req: Request<BarberParams, ApiResponse>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const exceptions = await ScheduleExceptionService.listBarber(
+        req.params.id,
+        req.params.barberId,
+        req.query as Partial<DateRange>,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceções obtidas com sucesso',
+        data: exceptions,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de exceções do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Criar exceção do barbeiro para um período
+   * POST /api/barbershops/:id/barbers/:barberId/exceptions
+   */
+  static async createBarber(
+    req: Request<BarberParams, ApiResponse, CreateBarberExceptionRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await ScheduleExceptionService.createBarber(
+        req.params.id,
+        req.params.barberId,
+        req.body,
+        req.user
+      );
+
+      res.status(result.applied ? 201 : 200).json({
+        success: true,
+        message: result.applied
+          ? 'Exceção criada com sucesso'
+          : 'Simulação concluída; nenhuma exceção foi gravada',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de criação de exceção do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar exceção do barbeiro
+   * PUT /api/barbershops/:id/barbers/:barberId/exceptions/:exceptionId
+   */
+  static async updateBarber(
+    req: Request<BarberExceptionParams, ApiResponse, UpdateBarberExceptionRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const exception = await ScheduleExceptionService.updateBarber(
+        req.params.id,
+        req.params.barberId,
+        req.params.exceptionId,
+        req.body,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceção atualizada com sucesso',
+        data: exception,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de exceção do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remover exceção do barbeiro
+   * DELETE /api/barbershops/:id/barbers/:barberId/exceptions/:exceptionId
+   */
+  static async deleteBarber(
+    req: Request<BarberExceptionParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await ScheduleExceptionService.deleteBarber(
+        req.params.id,
+        req.params.barberId,
+        req.params.exceptionId,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceção removida com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de exceção do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remover exceções do barbeiro de um período
+   * DELETE /api/barbershops/:id/barbers/:barberId/exceptions?startDate=&endDate=
+   */
+  static async deleteBarberRange(
+    req: Request<BarberParams, ApiResponse>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const count = await ScheduleExceptionService.deleteBarberRange(
+        req.params.id,
+        req.params.barberId,
+        req.query as unknown as DateRange,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Exceções removidas com sucesso',
+        data: { count },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de exceções do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
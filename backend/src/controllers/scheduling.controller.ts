@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { SchedulingService } from '@/services/scheduling.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { AvailabilityQuery } from '@/types/scheduling';
+
+export class SchedulingController {
+  /**
+   * Consultar horários disponíveis
+   * GET /api/barbershops/:id/availability
+   */
+  static async getAvailability(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const availability = await SchedulingService.getAvailability(
+        req.params.id,
+        req.query as unknown as AvailabilityQuery,
+        req.user?.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Disponibilidade obtida com sucesso',
+        data: availability,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de disponibilidade:', error);
+
+      if (error instanceof Error) {
+        if (
+          error.message === 'Barbearia não encontrada' ||
+          error.message === 'Serviço não encontrado'
+        ) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+            error: 'NOT_FOUND',
+          });
+          return;
+        }
+
+        if (error.message === 'Este barbeiro não executa este serviço') {
+          res.status(422).json({
+            success: false,
+            message: error.message,
+            error: 'SERVICE_NOT_OFFERED',
+          });
+          return;
+        }
+
+        if (
+          error.message === 'Data final deve ser posterior à data inicial' ||
+          error.message.startsWith('Período máximo de consulta')
+        ) {
+          res.status(422).json({
+            success: false,
+            message: error.message,
+            error: 'INVALID_DATE_RANGE',
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
@@ -0,0 +1,343 @@
+import { Request, Response } from 'express';
+import { ServiceCatalogService } from '@/services/service-catalog.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { TenantError } from '@/types/auth';
+import {
+  AssignBarberServiceRequest,
+  CatalogError,
+  CreateServiceRequest,
+  UpdateServiceRequest,
+} from '@/types/service-catalog';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros do catálogo de serviços respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [CatalogError.BARBERSHOP_NOT_FOUND]: { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  [CatalogError.SERVICE_NOT_FOUND]: { status: 404, error: 'SERVICE_NOT_FOUND' },
+  [CatalogError.BARBER_NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [CatalogError.CATEGORY_NOT_FOUND]: { status: 404, error: 'CATEGORY_NOT_FOUND' },
+  [CatalogError.ASSIGNMENT_NOT_FOUND]: { status: 404, error: 'ASSIGNMENT_NOT_FOUND' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+type ServiceParams = { id: string; serviceId: string };
+type BarberServiceParams = { id: string; barberId: string; serviceId: string };
+type CategoryParams = { id: string; category: string };
+
+export class ServiceCatalogController {
+  /**
+   * Serviços ativos com barbeiros disponíveis e preço efetivo
+   * GET /api/barbershops/:id/services
+   */
+  static async listAvailability(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const services = await ServiceCatalogService.listAvailability(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Serviços obtidos com sucesso',
+        data: services,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de serviços:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Catálogo completo para gestão
+   * GET /api/barbershops/:id/catalog
+   */
+  static async listCatalog(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const services = await ServiceCatalogService.listCatalog(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Catálogo obtido com sucesso',
+        data: services,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de catálogo de serviços:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Criar serviço
+   * POST /api/barbershops/:id/services
+   */
+  static async createService(
+    req: Request<{ id: string }, ApiResponse, CreateServiceRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const service = await ServiceCatalogService.createService(
+        req.params.id,
+        req.body,
+        req.user.id
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Serviço criado com sucesso',
+        data: service,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de criação de serviço:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar serviço
+   * PUT /api/barbershops/:id/services/:serviceId
+   */
+  static async updateService(
+    req: Request<ServiceParams, ApiResponse, UpdateServiceRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const service = await ServiceCatalogService.updateService(
+        req.params.id,
+        req.params.serviceId,
+        req.body,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Serviço atualizado com sucesso',
+        data: service,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de serviço:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Desativar serviço
+   * DELETE /api/barbershops/:id/services/:serviceId
+   */
+  static async deactivateService(
+    req: Request<ServiceParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const service = await ServiceCatalogService.deactivateService(
+        req.params.id,
+        req.params.serviceId,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Serviço desativado com sucesso',
+        data: service,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de desativação de serviço:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Listar categorias de serviços
+   * GET /api/barbershops/:id/service-categories
+   */
+  static async listCategories(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const categories = await ServiceCatalogService.listCategories(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Categorias obtidas com sucesso',
+        data: categories,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de categorias:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Renomear categoria
+   * PUT /api/barbershops/:id/service-categories/:category
+   */
+  static async renameCategory(
+    req: Request<CategoryParams, ApiResponse, { name: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const count = await ServiceCatalogService.renameCategory(
+        req.params.id,
+        req.params.category,
+        req.body.name,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Categoria renomeada com sucesso',
+        data: { name: req.body.name, services: count },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de renomear categoria:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Desativar categoria (desativa seus serviços)
+   * DELETE /api/barbershops/:id/service-categories/:category
+   */
+  static async deactivateCategory(
+    req: Request<CategoryParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const count = await ServiceCatalogService.deactivateCategory(
+        req.params.id,
+        req.params.category,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Categoria desativada com sucesso',
+        data: { services: count },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de desativar categoria:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atribuir serviço a um barbeiro
+   * PUT /api/barbershops/:id/barbers/:barberId/services/:serviceId
+   */
+  static async assignToBarber(
+    req: Request<BarberServiceParams, ApiResponse, AssignBarberServiceRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barberService = await ServiceCatalogService.assignToBarber(
+        req.params.id,
+        req.params.barberId,
+        req.params.serviceId,
+        req.body,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Serviço atribuído ao barbeiro com sucesso',
+        data: barberService,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atribuição de serviço:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Remover serviço de um barbeiro
+   * DELETE /api/barbershops/:id/barbers/:barberId/services/:serviceId
+   */
+  static async removeFromBarber(
+    req: Request<BarberServiceParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await ServiceCatalogService.removeFromBarber(
+        req.params.id,
+        req.params.barberId,
+        req.params.serviceId,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Serviço removido do barbeiro com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de remoção de serviço do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
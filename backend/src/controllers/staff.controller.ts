@@ -0,0 +1,233 @@
+import { Request, Response } from 'express';
+import { BarberInviteService } from '@/services/barber-invite.service';
+import { StaffService } from '@/services/staff.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { TenantError } from '@/types/auth';
+import {
+  BarberError,
+  DeactivateBarberRequest,
+  InviteBarberRequest,
+  UpdateBarberRequest,
+} from '@/types/barber';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros de equipe e convites respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [BarberError.NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [BarberError.BARBERSHOP_NOT_FOUND]: { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  [BarberError.ALREADY_ACTIVE]: { status: 409, error: 'BARBER_ALREADY_ACTIVE' },
+  [BarberError.ALREADY_INACTIVE]: { status: 409, error: 'BARBER_ALREADY_INACTIVE' },
+  [BarberError.REASSIGN_TARGET_REQUIRED]: { status: 400, error: 'REASSIGN_TARGET_REQUIRED' },
+  [BarberError.REASSIGN_TARGET_INVALID]: { status: 400, error: 'REASSIGN_TARGET_INVALID' },
+  [BarberError.EMAIL_ALREADY_REGISTERED]: { status: 409, error: 'EMAIL_ALREADY_EXISTS' },
+  [BarberError.INVITE_NOT_FOUND]: { status: 404, error: 'INVITE_NOT_FOUND' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+type BarberParams = { id: string; barberId: string };
+type InviteParams = { id: string; inviteId: string };
+
+export class StaffController {
+  /**
+   * Listar barbeiros da barbearia
+   * GET /api/barbershops/:id/barbers
+   */
+  static async list(
+    req: Request<{ id: string }, ApiResponse, unknown, { includeInactive?: boolean }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const barbers = await StaffService.list(req.params.id, req.query.includeInactive);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbeiros obtidos com sucesso',
+        data: barbers,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de barbeiros:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar perfil profissional do barbeiro
+   * PUT /api/barbershops/:id/barbers/:barberId
+   */
+  static async update(
+    req: Request<BarberParams, ApiResponse, UpdateBarberRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barber = await StaffService.update(
+        req.params.id,
+        req.params.barberId,
+        req.body,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbeiro atualizado com sucesso',
+        data: barber,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de atualização de barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Desativar barbeiro (remaneja ou cancela os agendamentos futuros)
+   * POST /api/barbershops/:id/barbers/:barberId/deactivate
+   */
+  static async deactivate(
+    req: Request<BarberParams, ApiResponse, DeactivateBarberRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const summary = await StaffService.deactivate(
+        req.params.id,
+        req.params.barberId,
+        req.body,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbeiro desativado com sucesso',
+        data: summary,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de desativação de barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Reativar barbeiro
+   * POST /api/barbershops/:id/barbers/:barberId/reactivate
+   */
+  static async reactivate(req: Request<BarberParams>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barber = await StaffService.reactivate(req.params.id, req.params.barberId, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Barbeiro reativado com sucesso',
+        data: barber,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de reativação de barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Listar convites pendentes
+   * GET /api/barbershops/:id/invites
+   */
+  static async listInvites(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const invites = await BarberInviteService.listPending(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Convites obtidos com sucesso',
+        data: invites,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem de convites:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Convidar barbeiro por email
+   * POST /api/barbershops/:id/invites
+   */
+  static async invite(
+    req: Request<{ id: string }, ApiResponse, InviteBarberRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const invite = await BarberInviteService.invite(req.params.id, req.body, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Convite enviado com sucesso',
+        data: invite,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de convite de barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Revogar convite pendente
+   * DELETE /api/barbershops/:id/invites/:inviteId
+   */
+  static async revokeInvite(req: Request<InviteParams>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await BarberInviteService.revoke(req.params.id, req.params.inviteId, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Convite revogado com sucesso',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de revogação de convite:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
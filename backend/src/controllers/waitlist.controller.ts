@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { WaitlistService } from '@/services/waitlist.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { AppointmentError } from '@/types/appointment';
+import { TenantError } from '@/types/auth';
+import { JoinWaitlistRequest, WaitlistError, WaitlistFilters } from '@/types/waitlist';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros da lista de espera respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [WaitlistError.NOT_FOUND]: { status: 404, error: 'WAITLIST_ENTRY_NOT_FOUND' },
+  [WaitlistError.ACCESS_DENIED]: { status: 403, error: 'ACCESS_DENIED' },
+  [WaitlistError.BARBERSHOP_NOT_FOUND]: { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  [WaitlistError.SERVICE_NOT_FOUND]: { status: 404, error: 'SERVICE_NOT_FOUND' },
+  [WaitlistError.BARBER_NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [WaitlistError.SERVICE_NOT_OFFERED]: { status: 422, error: 'SERVICE_NOT_OFFERED' },
+  [WaitlistError.PAST_DATE]: { status: 422, error: 'PAST_DATE' },
+  [WaitlistError.WINDOW_TOO_SHORT]: { status: 422, error: 'WINDOW_TOO_SHORT' },
+  [WaitlistError.ALREADY_WAITING]: { status: 409, error: 'ALREADY_WAITING' },
+  [WaitlistError.NOT_ACTIVE]: { status: 409, error: 'NOT_ACTIVE' },
+  [WaitlistError.NO_ACTIVE_OFFER]: { status: 409, error: 'NO_ACTIVE_OFFER' },
+  [WaitlistError.OFFER_EXPIRED]: { status: 410, error: 'OFFER_EXPIRED' },
+  // Erros do agendamento criado ao aceitar a oferta
+  [AppointmentError.TIME_CONFLICT]: { status: 409, error: 'TIME_CONFLICT' },
+  [AppointmentError.SLOT_ON_HOLD]: { status: 409, error: 'SLOT_ON_HOLD' },
+  [AppointmentError.MIN_NOTICE]: { status: 422, error: 'MIN_NOTICE' },
+  [AppointmentError.PAST_TIME]: { status: 422, error: 'PAST_TIME' },
+  [AppointmentError.BARBER_NOT_WORKING]: { status: 422, error: 'BARBER_NOT_WORKING' },
+  [AppointmentError.BARBER_UNAVAILABLE]: { status: 422, error: 'BARBER_UNAVAILABLE' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+export class WaitlistController {
+  /**
+   * Listar inscrições na lista de espera
+   * GET /api/waitlist
+   */
+  static async list(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const entries = await WaitlistService.list(req.user, req.query as WaitlistFilters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Lista de espera obtida com sucesso',
+        data: entries,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de listagem da lista de espera:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Entrar na lista de espera
+   * POST /api/waitlist
+   */
+  static async join(
+    req: Request<{}, ApiResponse, JoinWaitlistRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const entry = await WaitlistService.join(req.user, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Inscrição na lista de espera realizada com sucesso',
+        data: entry,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de inscrição na lista de espera:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Sair da lista de espera
+   * DELETE /api/waitlist/:id
+   */
+  static async leave(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await WaitlistService.leave(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Inscrição removida da lista de espera',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de saída da lista de espera:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Aceitar horário oferecido
+   * POST /api/waitlist/:id/accept
+   */
+  static async accept(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const appointment = await WaitlistService.accept(req.params.id, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Horário confirmado com sucesso',
+        data: appointment,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de aceite da lista de espera:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Recusar horário oferecido
+   * POST /api/waitlist/:id/decline
+   */
+  static async decline(req: Request<{ id: string }>, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      await WaitlistService.decline(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Oferta recusada; você continua na lista de espera',
+      });
+    } catch (error) {
+      logger.error('Erro no controller de recusa da lista de espera:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+}
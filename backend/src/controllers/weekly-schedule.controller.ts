@@ -0,0 +1,229 @@
+import { Request, Response } from 'express';
+import { WeeklyScheduleService } from '@/services/weekly-schedule.service';
+import { logger } from '@/config/logger';
+import { ApiResponse } from '@/types/api';
+import { TenantError } from '@/types/auth';
+import {
+  BarberScheduleDay,
+  GlobalScheduleDay,
+  ScheduleChangeResult,
+  ScheduleError,
+  UpdateWeekRequest,
+} from '@/types/scheduling';
+import { ErrorResponseMap, sendMappedError } from '@/utils/error-response';
+
+// Erros da grade semanal respondidos com status próprio
+const ERROR_RESPONSES: ErrorResponseMap = {
+  [ScheduleError.BARBERSHOP_NOT_FOUND]: { status: 404, error: 'BARBERSHOP_NOT_FOUND' },
+  [ScheduleError.BARBER_NOT_FOUND]: { status: 404, error: 'BARBER_NOT_FOUND' },
+  [ScheduleError.SELF_ONLY]: { status: 403, error: 'INSUFFICIENT_PERMISSIONS' },
+  [TenantError.CROSS_TENANT_WRITE]: { status: 403, error: 'CROSS_TENANT_ACCESS' },
+};
+
+type BarberParams = { id: string; barberId: string };
+
+export class WeeklyScheduleController {
+  /**
+   * Horário de funcionamento da barbearia
+   * GET /api/barbershops/:id/schedule
+   */
+  static async getGlobalWeek(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const schedule = await WeeklyScheduleService.getGlobalWeek(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Horário obtido com sucesso',
+        data: schedule,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de horário da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Agendamentos afetados por uma alteração do horário da barbearia
+   * POST /api/barbershops/:id/schedule/preview
+   */
+  static async previewGlobalWeek(
+    req: Request<{ id: string }, ApiResponse, UpdateWeekRequest<GlobalScheduleDay>>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      const orphaned = await WeeklyScheduleService.previewGlobalWeek(req.params.id, req.body.days);
+
+      res.status(200).json({
+        success: true,
+        message: 'Impacto da alteração calculado com sucesso',
+        data: { orphaned },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de prévia do horário da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar horário da barbearia
+   * PUT /api/barbershops/:id/schedule
+   */
+  static async updateGlobalWeek(
+    req: Request<{ id: string }, ApiResponse, UpdateWeekRequest<GlobalScheduleDay>>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await WeeklyScheduleService.updateGlobalWeek(
+        req.params.id,
+        req.body.days,
+        req.body.force ?? false,
+        req.user.id
+      );
+
+      WeeklyScheduleController.sendChangeResult(res, result);
+    } catch (error) {
+      logger.error('Erro no controller de atualização do horário da barbearia:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Horário individual do barbeiro
+   * GET /api/barbershops/:id/barbers/:barberId/schedule
+   */
+  static async getBarberWeek(
+    req: Request<BarberParams>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const schedule = await WeeklyScheduleService.getBarberWeek(
+        req.params.id,
+        req.params.barberId,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Horário obtido com sucesso',
+        data: schedule,
+      });
+    } catch (error) {
+      logger.error('Erro no controller de horário do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Agendamentos afetados por uma alteração do horário do barbeiro
+   * POST /api/barbershops/:id/barbers/:barberId/schedule/preview
+   */
+  static async previewBarberWeek(
+    req: Request<BarberParams, ApiResponse, UpdateWeekRequest<BarberScheduleDay>>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const orphaned = await WeeklyScheduleService.previewBarberWeek(
+        req.params.id,
+        req.params.barberId,
+        req.body.days,
+        req.user
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Impacto da alteração calculado com sucesso',
+        data: { orphaned },
+      });
+    } catch (error) {
+      logger.error('Erro no controller de prévia do horário do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Atualizar horário individual do barbeiro
+   * PUT /api/barbershops/:id/barbers/:barberId/schedule
+   */
+  static async updateBarberWeek(
+    req: Request<BarberParams, ApiResponse, UpdateWeekRequest<BarberScheduleDay>>,
+    res: Response<ApiResponse>
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const result = await WeeklyScheduleService.updateBarberWeek(
+        req.params.id,
+        req.params.barberId,
+        req.body.days,
+        req.body.force ?? false,
+        req.user
+      );
+
+      WeeklyScheduleController.sendChangeResult(res, result);
+    } catch (error) {
+      logger.error('Erro no controller de atualização do horário do barbeiro:', error);
+      sendMappedError(res, error, ERROR_RESPONSES);
+    }
+  }
+
+  /**
+   * Alteração não aplicada por afetar agendamentos futuros responde 409 com o relatório
+   */
+  private static sendChangeResult<T>(
+    res: Response<ApiResponse>,
+    result: ScheduleChangeResult<T>
+  ): void {
+    if (!result.applied) {
+      res.status(409).json({
+        success: false,
+        message: 'A alteração deixa agendamentos futuros fora do horário; envie force para aplicar',
+        error: 'SCHEDULE_CONFLICT',
+        data: result,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Horário atualizado com sucesso',
+      data: result,
+    });
+  }
+}
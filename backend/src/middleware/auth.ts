@@ -3,18 +3,53 @@ import { Role } from '@prisma/client';
 import { verifyAccessToken } from '@/utils/jwt';
 import { prisma } from '@/config/database';
 import { logger } from '@/config/logger';
-import { AuthenticatedUser, Permission, ROLE_PERMISSIONS } from '@/types/auth';
+import { PermissionService } from '@/services/permission.service';
+import { TokenRevocationService } from '@/services/token-revocation.service';
+import { AuthenticatedUser, JWTPayload, Permission } from '@/types/auth';
 import { ApiResponse } from '@/types/api';
+import { RequestContext, getRequestContext, runWithRequestContext } from '@/utils/request-context';
 
 // Estender interface do Request para incluir user
 declare global {
   namespace Express {
     interface Request {
       user?: AuthenticatedUser;
+      tokenPayload?: JWTPayload; // payload do access token (usado no logout)
     }
   }
 }
 
+/**
+ * Contexto propagado para as camadas inferiores (isolamento de dados por barbearia)
+ * Mantém o ID da requisição já definido; SuperAdmin não fica restrito a uma barbearia
+ */
+const buildRequestContext = (user: AuthenticatedUser): RequestContext => ({
+  ...getRequestContext(),
+  userId: user.id,
+  role: user.role,
+  barbershopId: user.role === Role.SUPER_ADMIN ? undefined : user.barbershopId,
+});
+
+/**
+ * Consultar a revogação do token no Redis
+ * Com o Redis fora do ar a autenticação continua; vale apenas a versão do token (isTokenVersionStale)
+ */
+const isRevokedInRedis = async (payload: JWTPayload): Promise<boolean> => {
+  try {
+    return await TokenRevocationService.isAccessTokenRevoked(payload);
+  } catch (error) {
+    logger.warn('Redis indisponível; revogação verificada apenas pela versão do token', error);
+    return false;
+  }
+};
+
+/**
+ * Token emitido antes de troca de senha ou logout em todas as sessões
+ * Tokens sem tokenVersion foram emitidos antes da versão no access token
+ */
+const isTokenVersionStale = (payload: JWTPayload, user: { tokenVersion: number }): boolean =>
+  payload.tokenVersion !== undefined && payload.tokenVersion !== user.tokenVersion;
+
 /**
  * Middleware de autenticação
  * Verifica se o usuário está autenticado via JWT
@@ -42,6 +77,16 @@ export const authenticate = async (
     // Verificar token
     const payload = verifyAccessToken(token);
 
+    // Verificar se o token ou a sessão foram revogados (logout, reutilização de refresh token)
+    if (await isRevokedInRedis(payload)) {
+      res.status(401).json({
+        success: false,
+        message: 'Token revogado',
+        error: 'TOKEN_REVOKED',
+      });
+      return;
+    }
+
     // Buscar usuário no banco para garantir que ainda existe e está ativo
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
@@ -70,6 +115,15 @@ export const authenticate = async (
       return;
     }
 
+    if (isTokenVersionStale(payload, user)) {
+      res.status(401).json({
+        success: false,
+        message: 'Token revogado',
+        error: 'TOKEN_REVOKED',
+      });
+      return;
+    }
+
     // Verificar se barbeiro está ativo (se aplicável)
     if (user.role === Role.BARBER && user.barberProfile && !user.barberProfile.isActive) {
       res.status(401).json({
@@ -94,9 +148,10 @@ export const authenticate = async (
 
     // Adicionar usuário ao request
     req.user = authenticatedUser;
+    req.tokenPayload = payload;
 
     logger.debug(`Usuário autenticado: ${user.email} (${user.role})`);
-    next();
+    runWithRequestContext(buildRequestContext(authenticatedUser), next);
   } catch (error) {
     logger.error('Erro na autenticação:', error);
 
@@ -161,50 +216,68 @@ export const authorize = (...allowedRoles: Role[]) => {
 };
 
 /**
- * Middleware de autorização por permissão
- * Verifica se o usuário tem uma permissão específica
+ * Verificação de permissões compartilhada pelos middlewares abaixo
  */
-export const requirePermission = (...requiredPermissions: Permission[]) => {
-  return (req: Request, res: Response<ApiResponse>, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: 'Usuário não autenticado',
-        error: 'NOT_AUTHENTICATED',
-      });
-      return;
-    }
-
-    const userPermissions = ROLE_PERMISSIONS[req.user.role];
+const checkPermissions = (requiredPermissions: Permission[], barbershopIdParam?: string) => {
+  return async (req: Request, res: Response<ApiResponse>, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
 
-    // SuperAdmin tem todas as permissões
-    if (userPermissions.includes('manage:all')) {
-      next();
-      return;
-    }
+      const barbershopId = barbershopIdParam ? req.params[barbershopIdParam] : undefined;
+      const hasPermission = await PermissionService.hasPermission(
+        req.user,
+        requiredPermissions,
+        barbershopId
+      );
 
-    // Verificar se tem pelo menos uma das permissões necessárias
-    const hasPermission = requiredPermissions.some((permission) =>
-      userPermissions.includes(permission)
-    );
+      if (!hasPermission) {
+        logger.warn(
+          `Permissão negada para usuário ${req.user.email} (${req.user.role}) - Permissões necessárias: ${requiredPermissions.join(', ')}${barbershopId ? ` na barbearia ${barbershopId}` : ''}`
+        );
 
-    if (!hasPermission) {
-      logger.warn(
-        `Permissão negada para usuário ${req.user.email} (${req.user.role}) - Permissões necessárias: ${requiredPermissions.join(', ')}`
-      );
+        res.status(403).json({
+          success: false,
+          message: 'Permissão insuficiente',
+          error: 'INSUFFICIENT_PERMISSIONS',
+        });
+        return;
+      }
 
-      res.status(403).json({
+      next();
+    } catch (error) {
+      logger.error('Erro na verificação de permissões:', error);
+      res.status(500).json({
         success: false,
-        message: 'Permissão insuficiente',
-        error: 'INSUFFICIENT_PERMISSIONS',
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
       });
-      return;
     }
-
-    next();
   };
 };
 
+/**
+ * Middleware de autorização por permissão
+ * Verifica se o usuário tem ao menos uma das permissões (role + concedidas)
+ */
+export const requirePermission = (...requiredPermissions: Permission[]) =>
+  checkPermissions(requiredPermissions);
+
+/**
+ * Middleware de autorização por permissão no escopo de uma barbearia
+ * Além da permissão, exige que a barbearia da rota seja a do usuário (exceto SuperAdmin)
+ */
+export const requireBarbershopPermission = (
+  barbershopIdParam: string,
+  ...requiredPermissions: Permission[]
+) => checkPermissions(requiredPermissions, barbershopIdParam);
+
 /**
  * Middleware para verificar se o usuário é dono do recurso
  * Usado para operações que só podem ser feitas pelo próprio usuário
@@ -254,6 +327,71 @@ export const requireOwnership = (userIdParam: string = 'userId') => {
   };
 };
 
+/**
+ * Middleware para verificar se o usuário é dono da barbearia
+ * Usado para operações de escrita sobre uma barbearia identificada na rota
+ */
+export const requireBarbershopOwnership = (barbershopIdParam: string = 'id') => {
+  return async (req: Request, res: Response<ApiResponse>, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Usuário não autenticado',
+          error: 'NOT_AUTHENTICATED',
+        });
+        return;
+      }
+
+      const barbershopId = req.params[barbershopIdParam];
+
+      const barbershop = barbershopId
+        ? await prisma.barbershop.findUnique({
+            where: { id: barbershopId },
+            select: { ownerId: true },
+          })
+        : null;
+
+      if (!barbershop) {
+        res.status(404).json({
+          success: false,
+          message: 'Barbearia não encontrada',
+          error: 'BARBERSHOP_NOT_FOUND',
+        });
+        return;
+      }
+
+      // SuperAdmin pode gerenciar qualquer barbearia
+      if (req.user.role === Role.SUPER_ADMIN) {
+        next();
+        return;
+      }
+
+      if (barbershop.ownerId !== req.user.id) {
+        logger.warn(
+          `Tentativa de acesso não autorizado: usuário ${req.user.email} tentou gerenciar a barbearia ${barbershopId}`
+        );
+
+        res.status(403).json({
+          success: false,
+          message: 'Acesso negado - você só pode gerenciar sua própria barbearia',
+          error: 'OWNERSHIP_REQUIRED',
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Erro na verificação de propriedade da barbearia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: 'INTERNAL_ERROR',
+      });
+    }
+  };
+};
+
 /**
  * Middleware de autorização por role
  * Verifica se o usuário tem uma das roles permitidas
@@ -312,6 +450,11 @@ export const optionalAuth = async (
     const token = authHeader.substring(7);
     const payload = verifyAccessToken(token);
 
+    if (await isRevokedInRedis(payload)) {
+      next();
+      return;
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
       include: {
@@ -330,7 +473,11 @@ export const optionalAuth = async (
       },
     });
 
-    if (user && (user.role !== Role.BARBER || !user.barberProfile || user.barberProfile.isActive)) {
+    if (
+      user &&
+      !isTokenVersionStale(payload, user) &&
+      (user.role !== Role.BARBER || !user.barberProfile || user.barberProfile.isActive)
+    ) {
       req.user = {
         id: user.id,
         email: user.email,
@@ -341,6 +488,9 @@ export const optionalAuth = async (
         barbershopId: user.barbershop?.id ?? user.barberProfile?.barbershopId ?? undefined,
         barberId: user.barberProfile?.id ?? undefined,
       };
+
+      runWithRequestContext(buildRequestContext(req.user), next);
+      return;
     }
 
     next();
@@ -6,6 +6,8 @@ import { Request, Response, NextFunction } from 'express';
 import { cacheService } from '@/services/cache.service';
 import { CACHE_TTL, CACHE_PREFIXES } from '@/config/redis';
 import { advancedLogger } from '@/config/logger';
+import { JobQueueService } from '@/services/job-queue.service';
+import { JobType } from '@/types/job';
 
 export interface CacheMiddlewareOptions {
   ttl?: number;
@@ -137,34 +139,12 @@ export function cacheInvalidationMiddleware(options: {
     res.json = function(body: any) {
       // Apenas invalidar em caso de sucesso
       if (res.statusCode >= 200 && res.statusCode < 300) {
-        // Invalidar cache de forma assíncrona
-        Promise.resolve().then(async () => {
-          try {
-            if (options.pattern) {
-              await cacheService.invalidatePattern(options.pattern, options.prefix);
-              advancedLogger.info('Cache invalidado por padrão via middleware', {
-                method: req.method,
-                url: req.originalUrl,
-                metadata: { pattern: options.pattern },
-              });
-            }
-
-            if (options.keys) {
-              for (const key of options.keys) {
-                await cacheService.delete(key, { prefix: options.prefix });
-              }
-              advancedLogger.info('Cache invalidado por chaves via middleware', {
-                method: req.method,
-                url: req.originalUrl,
-                metadata: { keys: options.keys },
-              });
-            }
-          } catch (error) {
-            advancedLogger.error('Erro ao invalidar cache via middleware', error as Error, {
-              method: req.method,
-              url: req.originalUrl,
-            });
-          }
+        // Invalidar cache pela fila de tarefas (com novas tentativas em caso de falha)
+        JobQueueService.enqueue(JobType.CACHE_INVALIDATION, options).catch((error) => {
+          advancedLogger.error('Erro ao enfileirar invalidação de cache via middleware', error as Error, {
+            method: req.method,
+            url: req.originalUrl,
+          });
         });
       }
 
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { BlockList, isIPv6 } from 'net';
+import { config } from '@/config/env';
+import { metricsCollector } from '@/utils/metrics';
+
+/**
+ * Registrar duração e status de cada requisição
+ * A rota usa o padrão declarado (/api/appointments/:id), não a URL, para manter poucas séries;
+ * respostas dadas antes do roteamento (404, rate limit, corpo JSON inválido) ficam agrupadas
+ * em "unmatched". Deve ser registrado antes desses middlewares para que as respostas sejam contadas.
+ */
+export const requestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const route = req.route?.path ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+
+    metricsCollector.observeRequest(req.method, route, res.statusCode, durationMs);
+  });
+
+  next();
+};
+
+// Endereços IPv4 chegam como ::ffff:a.b.c.d quando o servidor escuta em IPv6
+const normalizeIp = (ip: string): string => ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+/**
+ * Montar a lista de IPs/redes (CIDR) permitidos
+ */
+export const buildAllowList = (entries: string[]): BlockList => {
+  const allowList = new BlockList();
+
+  entries.forEach((entry) => {
+    const [address = '', prefix] = entry.split('/');
+    const type = isIPv6(address) ? 'ipv6' : 'ipv4';
+
+    if (prefix !== undefined) {
+      allowList.addSubnet(address, Number(prefix), type);
+    } else {
+      allowList.addAddress(address, type);
+    }
+  });
+
+  return allowList;
+};
+
+const tokenMatches = (provided: string, expected: string): boolean => {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Proteger /metrics: token em METRICS_TOKEN ou IP em METRICS_ALLOWED_IPS
+ */
+export const createMetricsAccess = (options: {
+  token?: string | undefined;
+  allowedIps: string[];
+}) => {
+  const allowList = buildAllowList(options.allowedIps);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const authHeader = req.headers.authorization;
+
+    if (options.token && authHeader?.startsWith('Bearer ')) {
+      if (tokenMatches(authHeader.substring(7), options.token)) {
+        next();
+        return;
+      }
+    }
+
+    const ip = normalizeIp(req.ip ?? req.socket.remoteAddress ?? '');
+    if (ip && allowList.check(ip, isIPv6(ip) ? 'ipv6' : 'ipv4')) {
+      next();
+      return;
+    }
+
+    res.status(403).type('text/plain').send('Acesso negado');
+  };
+};
+
+export const metricsAccess = createMetricsAccess({
+  token: config.monitoring.metricsToken,
+  allowedIps: config.monitoring.metricsAllowedIps,
+});
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { REQUEST_ID_HEADER, runWithRequestContext } from '@/utils/request-context';
+
+// Estender interface do Request para incluir o ID de correlação
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// IDs recebidos são aceitos apenas neste formato (evita injeção em logs e cabeçalhos)
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Definir o ID de correlação da requisição
+ * Reaproveita o X-Request-Id recebido (ex: do balanceador) ou gera um novo; o ID volta no cabeçalho
+ * da resposta e no corpo das respostas de erro. Deve ser o primeiro middleware, para valer também
+ * nas respostas do rate limit e do parsing do corpo.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+
+  req.requestId = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+
+  // Respostas de erro (success: false) levam o ID para facilitar o suporte
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (body && typeof body === 'object' && (body as { success?: unknown }).success === false) {
+      return json({ ...body, requestId: id });
+    }
+    return json(body);
+  };
+
+  next();
+};
+
+/**
+ * Disponibilizar o ID da requisição no contexto assíncrono (logs, Prisma, Jira)
+ * Registrado depois do parsing do corpo: os callbacks de leitura do stream não preservam o AsyncLocalStorage
+ */
+export const requestContext = (req: Request, _res: Response, next: NextFunction): void => {
+  runWithRequestContext({ requestId: req.requestId }, next);
+};
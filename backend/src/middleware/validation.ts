@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
+import {
+  AppointmentStatus,
+  ExceptionType,
+  NotificationChannel,
+  WaitlistStatus,
+} from '@prisma/client';
 import { ApiResponse, ValidationError } from '@/types/api';
+import { GRANTABLE_PERMISSIONS } from '@/types/auth';
+import { GLOBAL_EXCEPTION_TYPES, TIMED_EXCEPTION_TYPES } from '@/types/schedule-exception';
+import { LogCategory, STORED_LOG_LEVELS } from '@/types/logging';
 import { logger } from '@/config/logger';
 
 /**
@@ -176,6 +185,715 @@ export const authSchemas = {
   refreshToken: z.object({
     refreshToken: z.string().min(1, 'Refresh token é obrigatório'),
   }),
+
+  // Sessões usam UUID (o "sid" dos tokens), não CUID
+  sessionParams: z.object({
+    id: z.string().uuid('ID de sessão inválido'),
+  }),
+
+  // Token de convite de barbeiro
+  inviteParams: z.object({
+    token: z.string().min(1, 'Token é obrigatório'),
+  }),
+
+  // Aceite de convite de barbeiro
+  acceptInvite: z.object({
+    token: z.string().min(1, 'Token é obrigatório'),
+    name: commonSchemas.name,
+    password: commonSchemas.password,
+    phone: commonSchemas.phone,
+  }),
+};
+
+// Converter strings vazias (enviadas por formulários) em undefined
+const emptyToUndefined = (schema: ZodSchema) =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema);
+
+// Fuso horário IANA válido (ex: America/Sao_Paulo)
+const timezoneSchema = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat('pt-BR', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Fuso horário inválido');
+
+// Campos base de barbearia
+const barbershopFields = {
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome deve ter no máximo 100 caracteres'),
+  description: emptyToUndefined(
+    z.string().max(500, 'Descrição deve ter no máximo 500 caracteres').optional()
+  ),
+  address: z.string().trim().min(10, 'Endereço deve ter pelo menos 10 caracteres'),
+  phone: commonSchemas.phone.unwrap(),
+  email: commonSchemas.email,
+  website: emptyToUndefined(commonSchemas.url),
+  timezone: timezoneSchema.optional(),
+  currency: z.string().length(3, 'Moeda deve ter 3 caracteres (ISO 4217)').optional(),
+};
+
+// Schemas específicos para barbearias
+export const barbershopSchemas = {
+  // Criação
+  create: z.object(barbershopFields),
+
+  // Atualização
+  update: z
+    .object(barbershopFields)
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, 'Informe ao menos um campo para atualizar'),
+
+  // Filtros de listagem
+  list: z.object({
+    search: z.string().trim().optional(),
+    ownerId: commonSchemas.id.optional(),
+    page: commonSchemas.pagination.shape.page,
+    limit: commonSchemas.pagination.shape.limit,
+  }),
+
+  // Detalhes
+  details: z.object({
+    includeDetails: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  }),
+};
+
+// Data local no formato YYYY-MM-DD
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato YYYY-MM-DD')
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Data inválida');
+
+// Horário no formato HH:MM (24h)
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário deve estar no formato HH:MM');
+
+// Dia da semana: 0 = domingo, 1 = segunda, etc.
+const dayOfWeekSchema = z
+  .number()
+  .int()
+  .min(0, 'Dia da semana inválido')
+  .max(6, 'Dia da semana inválido');
+
+// Dias de uma semana, sem repetição
+const weekDaysSchema = <T extends z.ZodType<{ dayOfWeek: number }>>(day: T) =>
+  z
+    .array(day)
+    .min(1, 'Informe ao menos um dia')
+    .max(7, 'A semana tem no máximo 7 dias')
+    .refine(
+      (days) => new Set(days.map((item) => item.dayOfWeek)).size === days.length,
+      'Dia da semana repetido'
+    );
+
+// Regras de um dia de trabalho: início antes do fim e intervalo completo dentro do expediente
+// Horários "HH:MM" validados podem ser comparados como texto
+const refineWorkingDay = (
+  ctx: z.RefinementCtx,
+  day: {
+    active: boolean;
+    start: string;
+    end: string;
+    breakStart?: string | null | undefined;
+    breakEnd?: string | null | undefined;
+    keys: [end: string, breakStart: string, breakEnd: string];
+  }
+) => {
+  if (!day.active) {
+    return;
+  }
+
+  const [endKey, breakStartKey, breakEndKey] = day.keys;
+
+  if (day.start >= day.end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [endKey],
+      message: 'Horário de início deve ser anterior ao de término',
+    });
+    return;
+  }
+
+  if (!day.breakStart && !day.breakEnd) {
+    return;
+  }
+
+  if (!day.breakStart || !day.breakEnd) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [day.breakStart ? breakEndKey : breakStartKey],
+      message: 'Informe o início e o fim do intervalo',
+    });
+    return;
+  }
+
+  if (day.breakStart >= day.breakEnd) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [breakEndKey],
+      message: 'Início do intervalo deve ser anterior ao fim',
+    });
+    return;
+  }
+
+  if (day.breakStart <= day.start || day.breakEnd >= day.end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [breakStartKey],
+      message: 'Intervalo deve estar dentro do horário de trabalho',
+    });
+  }
+};
+
+// Serviços de um mesmo agendamento, sem repetição
+const serviceIdsSchema = z
+  .array(commonSchemas.id)
+  .min(1, 'Informe pelo menos um serviço')
+  .max(5, 'Máximo de 5 serviços por agendamento')
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Serviços não podem se repetir',
+  });
+
+// Schemas específicos para agenda/disponibilidade
+export const schedulingSchemas = {
+  // Consulta de disponibilidade
+  // Vários serviços: serviceIds separados por vírgula, na ordem de execução
+  availability: z
+    .object({
+      serviceId: commonSchemas.id.optional(),
+      serviceIds: z
+        .string()
+        .transform((value) => value.split(',').map((id) => id.trim()))
+        .pipe(serviceIdsSchema)
+        .optional(),
+      barberId: commonSchemas.id.optional(),
+      startDate: dateSchema,
+      endDate: dateSchema.optional(),
+    })
+    .refine((data) => (data.serviceId === undefined) !== (data.serviceIds === undefined), {
+      message: 'Informe serviceId ou serviceIds',
+      path: ['serviceIds'],
+    }),
+
+  // Horário da barbearia na semana (force aplica mesmo com agendamentos afetados)
+  globalWeek: z.object({
+    days: weekDaysSchema(
+      z
+        .object({
+          dayOfWeek: dayOfWeekSchema,
+          isOpen: z.boolean(),
+          openTime: timeSchema,
+          closeTime: timeSchema,
+          lunchStart: timeSchema.nullable().optional(),
+          lunchEnd: timeSchema.nullable().optional(),
+        })
+        .superRefine((day, ctx) =>
+          refineWorkingDay(ctx, {
+            active: day.isOpen,
+            start: day.openTime,
+            end: day.closeTime,
+            breakStart: day.lunchStart,
+            breakEnd: day.lunchEnd,
+            keys: ['closeTime', 'lunchStart', 'lunchEnd'],
+          })
+        )
+    ),
+    force: z.boolean().optional(),
+  }),
+
+  // Horário individual do barbeiro na semana
+  barberWeek: z.object({
+    days: weekDaysSchema(
+      z
+        .object({
+          dayOfWeek: dayOfWeekSchema,
+          isWorking: z.boolean(),
+          startTime: timeSchema,
+          endTime: timeSchema,
+          breakStart: timeSchema.nullable().optional(),
+          breakEnd: timeSchema.nullable().optional(),
+        })
+        .superRefine((day, ctx) =>
+          refineWorkingDay(ctx, {
+            active: day.isWorking,
+            start: day.startTime,
+            end: day.endTime,
+            breakStart: day.breakStart,
+            breakEnd: day.breakEnd,
+            keys: ['endTime', 'breakStart', 'breakEnd'],
+          })
+        )
+    ),
+    force: z.boolean().optional(),
+  }),
+};
+
+// Horário exigido pelos tipos SPECIAL_HOURS/AVAILABLE, com início antes do término
+const refineExceptionTimes = (
+  ctx: z.RefinementCtx,
+  exception: {
+    type?: ExceptionType | undefined;
+    start?: string | null | undefined;
+    end?: string | null | undefined;
+    keys: [start: string, end: string];
+  }
+) => {
+  if (!exception.type || !TIMED_EXCEPTION_TYPES.includes(exception.type)) {
+    return;
+  }
+
+  const [startKey, endKey] = exception.keys;
+
+  if (!exception.start || !exception.end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [exception.start ? endKey : startKey],
+      message: 'Horário especial exige horário de início e de término',
+    });
+    return;
+  }
+
+  if (exception.start >= exception.end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [endKey],
+      message: 'Horário de início deve ser anterior ao de término',
+    });
+  }
+};
+
+// Período de datas: data final opcional, igual ou posterior à inicial
+const dateRangeFields = {
+  startDate: dateSchema,
+  endDate: dateSchema.optional(),
+};
+
+const refineDateRange = (range: { startDate: string; endDate?: string | undefined }) =>
+  !range.endDate || range.endDate >= range.startDate;
+
+const dateRangeMessage = {
+  message: 'Data final deve ser igual ou posterior à data inicial',
+  path: ['endDate'],
+};
+
+const exceptionReasonSchema = z
+  .string()
+  .trim()
+  .min(2, 'Motivo deve ter pelo menos 2 caracteres')
+  .max(200, 'Motivo deve ter no máximo 200 caracteres');
+
+const globalExceptionTypeSchema = z.enum(GLOBAL_EXCEPTION_TYPES, {
+  errorMap: () => ({ message: 'Tipo deve ser CLOSED ou SPECIAL_HOURS' }),
+});
+
+const barberExceptionTypeSchema = z.nativeEnum(ExceptionType, {
+  errorMap: () => ({ message: 'Tipo de exceção inválido' }),
+});
+
+// Schemas específicos para o calendário de exceções (feriados, férias, horários especiais)
+export const exceptionSchemas = {
+  // Período consultado ou removido
+  range: z.object(dateRangeFields).refine(refineDateRange, dateRangeMessage),
+
+  // Listagem (sem data inicial, a partir de hoje)
+  list: z
+    .object({ startDate: dateSchema.optional(), endDate: dateSchema.optional() })
+    .refine(
+      (range) => !range.startDate || !range.endDate || range.endDate >= range.startDate,
+      dateRangeMessage
+    ),
+
+  // Exceção da barbearia (dryRun apenas lista os agendamentos em conflito)
+  globalCreate: z
+    .object({
+      ...dateRangeFields,
+      type: globalExceptionTypeSchema,
+      reason: exceptionReasonSchema,
+      specialOpenTime: timeSchema.optional(),
+      specialCloseTime: timeSchema.optional(),
+      dryRun: z.boolean().optional(),
+    })
+    .refine(refineDateRange, dateRangeMessage)
+    .superRefine((exception, ctx) =>
+      refineExceptionTimes(ctx, {
+        type: exception.type,
+        start: exception.specialOpenTime,
+        end: exception.specialCloseTime,
+        keys: ['specialOpenTime', 'specialCloseTime'],
+      })
+    ),
+
+  globalUpdate: z
+    .object({
+      type: globalExceptionTypeSchema.optional(),
+      reason: exceptionReasonSchema.optional(),
+      specialOpenTime: timeSchema.nullable().optional(),
+      specialCloseTime: timeSchema.nullable().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, 'Informe ao menos um campo'),
+
+  // Exceção do barbeiro (ex: férias de vários dias)
+  barberCreate: z
+    .object({
+      ...dateRangeFields,
+      type: barberExceptionTypeSchema,
+      reason: exceptionReasonSchema,
+      specialStartTime: timeSchema.optional(),
+      specialEndTime: timeSchema.optional(),
+      dryRun: z.boolean().optional(),
+    })
+    .refine(refineDateRange, dateRangeMessage)
+    .superRefine((exception, ctx) =>
+      refineExceptionTimes(ctx, {
+        type: exception.type,
+        start: exception.specialStartTime,
+        end: exception.specialEndTime,
+        keys: ['specialStartTime', 'specialEndTime'],
+      })
+    ),
+
+  barberUpdate: z
+    .object({
+      type: barberExceptionTypeSchema.optional(),
+      reason: exceptionReasonSchema.optional(),
+      specialStartTime: timeSchema.nullable().optional(),
+      specialEndTime: timeSchema.nullable().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, 'Informe ao menos um campo'),
+
+  // Importação de feriados nacionais (e municipais, se informado o município)
+  importHolidays: z.object({
+    year: z
+      .number()
+      .int('Ano deve ser um número inteiro')
+      .min(2000, 'Ano deve ser a partir de 2000')
+      .max(2100, 'Ano deve ser até 2100'),
+    municipality: emptyToUndefined(
+      z
+        .string()
+        .trim()
+        .regex(
+          /^[a-z-]+-[a-z]{2}$/,
+          'Município deve estar no formato "cidade-uf" (ex: sao-paulo-sp)'
+        )
+        .optional()
+    ),
+    includeOptional: z.boolean().optional(),
+    dryRun: z.boolean().optional(),
+  }),
+};
+
+// Nome de categoria de serviço
+const categorySchema = z
+  .string()
+  .trim()
+  .min(2, 'Categoria deve ter pelo menos 2 caracteres')
+  .max(50, 'Categoria deve ter no máximo 50 caracteres');
+
+// Campos base de serviço
+const serviceFields = {
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome deve ter no máximo 100 caracteres'),
+  description: emptyToUndefined(
+    z.string().max(500, 'Descrição deve ter no máximo 500 caracteres').optional()
+  ),
+  duration: z
+    .number()
+    .int('Duração deve ser em minutos inteiros')
+    .min(5, 'Duração mínima de 5 minutos')
+    .max(480, 'Duração máxima de 8 horas'),
+  price: z.number().min(0, 'Preço não pode ser negativo'),
+  category: emptyToUndefined(categorySchema.optional()),
+};
+
+// Schemas específicos para o catálogo de serviços
+export const serviceSchemas = {
+  // Criação
+  create: z.object(serviceFields),
+
+  // Atualização (null remove descrição/categoria)
+  update: z
+    .object({
+      ...serviceFields,
+      description: serviceFields.description.nullable(),
+      category: serviceFields.category.nullable(),
+      isActive: z.boolean(),
+    })
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, 'Informe ao menos um campo para atualizar'),
+
+  // Renomear categoria
+  renameCategory: z.object({
+    name: categorySchema,
+  }),
+
+  // Atribuição de serviço ao barbeiro
+  assignToBarber: z.object({
+    customPrice: z.number().min(0, 'Preço não pode ser negativo').nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+};
+
+// Schemas específicos para a gestão da equipe
+export const barberSchemas = {
+  // Convite por email
+  invite: z.object({
+    email: commonSchemas.email,
+    name: commonSchemas.name.optional(),
+  }),
+
+  // Atualização do perfil profissional (null remove descrição/experiência)
+  update: z
+    .object({
+      description: z
+        .string()
+        .trim()
+        .max(500, 'Descrição deve ter no máximo 500 caracteres')
+        .nullable(),
+      experience: z
+        .number()
+        .int('Experiência deve ser um número inteiro de anos')
+        .min(0, 'Experiência não pode ser negativa')
+        .max(80, 'Experiência máxima de 80 anos')
+        .nullable(),
+      specialties: z
+        .array(z.string().trim().min(1).max(50, 'Especialidade deve ter no máximo 50 caracteres'))
+        .max(20, 'Máximo de 20 especialidades'),
+    })
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, 'Informe ao menos um campo para atualizar'),
+
+  // Desativação (destino dos agendamentos futuros)
+  deactivate: z
+    .object({
+      futureAppointments: z.enum(['reassign', 'cancel'], {
+        errorMap: () => ({ message: 'Informe "reassign" ou "cancel"' }),
+      }),
+      reassignToBarberId: commonSchemas.id.optional(),
+      reason: emptyToUndefined(
+        z.string().trim().max(500, 'Motivo deve ter no máximo 500 caracteres').optional()
+      ),
+    })
+    .refine(
+      (data) => data.futureAppointments !== 'reassign' || data.reassignToBarberId,
+      'Informe o barbeiro que receberá os agendamentos'
+    ),
+
+  // Filtros de listagem
+  list: z.object({
+    includeInactive: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  }),
+};
+
+// Schemas específicos para permissões
+export const permissionSchemas = {
+  // Permissões extras de um barbeiro (substitui o conjunto atual)
+  barberGrants: z.object({
+    permissions: z.array(
+      z.enum(GRANTABLE_PERMISSIONS, {
+        errorMap: () => ({ message: 'Permissão não pode ser concedida a barbeiros' }),
+      })
+    ),
+  }),
+};
+
+// Data/hora ISO 8601 com fuso (ex: 2025-07-01T14:30:00-03:00)
+const dateTimeSchema = z.string().datetime({
+  offset: true,
+  message: 'Data/hora deve estar no formato ISO 8601',
+});
+
+// Schemas específicos para agendamentos
+// Regra de recorrência: a cada N semanas, até uma data ou por um número de ocorrências
+const recurrenceSchema = z
+  .object({
+    intervalWeeks: z
+      .number()
+      .int('Intervalo deve ser um número inteiro de semanas')
+      .min(1, 'Intervalo deve ser de pelo menos 1 semana')
+      .max(12, 'Intervalo deve ser de no máximo 12 semanas'),
+    endDate: dateSchema.optional(),
+    count: z
+      .number()
+      .int('Quantidade de ocorrências deve ser um número inteiro')
+      .min(2, 'Recorrência deve ter pelo menos 2 ocorrências')
+      .max(52, 'Recorrência deve ter no máximo 52 ocorrências')
+      .optional(),
+  })
+  .refine((rule) => (rule.endDate === undefined) !== (rule.count === undefined), {
+    message: 'Informe a data final ou a quantidade de ocorrências',
+    path: ['endDate'],
+  });
+
+const seriesScopeSchema = z.enum(['this', 'following'], {
+  errorMap: () => ({ message: 'Escopo deve ser "this" ou "following"' }),
+});
+
+export const appointmentSchemas = {
+  // Criação (um serviço em serviceId ou vários, na ordem de execução, em serviceIds)
+  create: z
+    .object({
+      barbershopId: commonSchemas.id,
+      barberId: commonSchemas.id,
+      serviceId: commonSchemas.id.optional(),
+      serviceIds: serviceIdsSchema.optional(),
+      startTime: dateTimeSchema,
+      notes: emptyToUndefined(
+        z.string().trim().max(500, 'Observações devem ter no máximo 500 caracteres').optional()
+      ),
+      clientId: commonSchemas.id.optional(),
+      recurrence: recurrenceSchema.optional(),
+    })
+    .refine((data) => (data.serviceId === undefined) !== (data.serviceIds === undefined), {
+      message: 'Informe serviceId ou serviceIds',
+      path: ['serviceIds'],
+    }),
+
+  // Remarcação (scope "following" altera também as próximas ocorrências da série)
+  reschedule: z.object({
+    startTime: dateTimeSchema,
+    barberId: commonSchemas.id.optional(),
+    scope: seriesScopeSchema.optional(),
+  }),
+
+  // Cancelamento
+  cancel: z.object({
+    reason: emptyToUndefined(
+      z.string().trim().max(500, 'Motivo deve ter no máximo 500 caracteres').optional()
+    ),
+    scope: seriesScopeSchema.optional(),
+  }),
+
+  // Alteração de status
+  updateStatus: z.object({
+    status: z.nativeEnum(AppointmentStatus, {
+      errorMap: () => ({ message: 'Status inválido' }),
+    }),
+    reason: emptyToUndefined(
+      z.string().trim().max(500, 'Motivo deve ter no máximo 500 caracteres').optional()
+    ),
+  }),
+
+  // Filtros de listagem
+  list: z.object({
+    barbershopId: commonSchemas.id.optional(),
+    barberId: commonSchemas.id.optional(),
+    clientId: commonSchemas.id.optional(),
+    seriesId: commonSchemas.id.optional(),
+    status: z.nativeEnum(AppointmentStatus).optional(),
+    startDate: dateSchema.optional(),
+    endDate: dateSchema.optional(),
+    page: commonSchemas.pagination.shape.page,
+    limit: commonSchemas.pagination.shape.limit,
+  }),
+
+  // Token do link de confirmação/cancelamento do lembrete
+  actionParams: z.object({
+    token: z.string().min(1, 'Token é obrigatório'),
+  }),
+};
+
+// Schemas específicos para a lista de espera
+export const waitlistSchemas = {
+  // Inscrição (janela de horário no fuso da barbearia)
+  join: z
+    .object({
+      barbershopId: commonSchemas.id,
+      serviceId: commonSchemas.id,
+      barberId: commonSchemas.id.optional(),
+      desiredDate: dateSchema,
+      windowStart: timeSchema,
+      windowEnd: timeSchema,
+      clientId: commonSchemas.id.optional(),
+    })
+    .refine((data) => data.windowStart < data.windowEnd, {
+      message: 'Início da janela deve ser anterior ao fim',
+      path: ['windowEnd'],
+    }),
+
+  // Filtros de listagem
+  list: z.object({
+    barbershopId: commonSchemas.id.optional(),
+    status: z.nativeEnum(WaitlistStatus).optional(),
+    date: dateSchema.optional(),
+  }),
+};
+
+// Schemas específicos para notificações
+export const notificationSchemas = {
+  // Caixa de entrada in-app
+  inbox: z.object({
+    unreadOnly: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+    page: commonSchemas.pagination.shape.page,
+    limit: commonSchemas.pagination.shape.limit,
+  }),
+
+  // Preferências por canal
+  preferences: z.object({
+    preferences: z
+      .array(
+        z.object({
+          channel: z.nativeEnum(NotificationChannel),
+          enabled: z.boolean(),
+        })
+      )
+      .min(1, 'Informe ao menos um canal')
+      .max(Object.keys(NotificationChannel).length)
+      .refine(
+        (preferences) =>
+          new Set(preferences.map((preference) => preference.channel)).size === preferences.length,
+        'Canais não podem se repetir'
+      ),
+  }),
+};
+
+// Schemas específicos para monitoramento
+export const monitoringSchemas = {
+  // Consulta de logs (level = severidade mínima; cursor vem de nextCursor da página anterior)
+  logs: z
+    .object({
+      level: z
+        .enum(STORED_LOG_LEVELS, {
+          errorMap: () => ({ message: 'Nível deve ser error, warn, info ou http' }),
+        })
+        .optional(),
+      category: z
+        .nativeEnum(LogCategory, { errorMap: () => ({ message: 'Categoria inválida' }) })
+        .optional(),
+      userId: commonSchemas.id.optional(),
+      requestId: z.string().trim().min(1).max(100).optional(),
+      from: dateTimeSchema.transform((value) => new Date(value)).optional(),
+      to: dateTimeSchema.transform((value) => new Date(value)).optional(),
+      search: z
+        .string()
+        .trim()
+        .min(1, 'Busca não pode ser vazia')
+        .max(200, 'Busca deve ter no máximo 200 caracteres')
+        .optional(),
+      cursor: z.string().min(1).max(200).optional(),
+      limit: z.string().transform(Number).pipe(z.number().int().min(1).max(200)).optional(),
+    })
+    .refine((data) => !data.from || !data.to || data.from <= data.to, {
+      message: 'Data inicial deve ser anterior à final',
+      path: ['to'],
+    }),
 };
 
 // Schemas para parâmetros de rota
@@ -199,6 +917,58 @@ export const paramSchemas = {
   barberId: z.object({
     barberId: commonSchemas.id,
   }),
+
+  // Barbeiro dentro de uma barbearia
+  barbershopBarber: z.object({
+    id: commonSchemas.id,
+    barberId: commonSchemas.id,
+  }),
+
+  // Convite dentro de uma barbearia
+  barbershopInvite: z.object({
+    id: commonSchemas.id,
+    inviteId: commonSchemas.id,
+  }),
+
+  // Exceção do calendário da barbearia
+  barbershopException: z.object({
+    id: commonSchemas.id,
+    exceptionId: commonSchemas.id,
+  }),
+
+  // Exceção do calendário de um barbeiro
+  barbershopBarberException: z.object({
+    id: commonSchemas.id,
+    barberId: commonSchemas.id,
+    exceptionId: commonSchemas.id,
+  }),
+
+  // Serviço dentro de uma barbearia
+  barbershopService: z.object({
+    id: commonSchemas.id,
+    serviceId: commonSchemas.id,
+  }),
+
+  // Serviço de um barbeiro dentro de uma barbearia
+  barbershopBarberService: z.object({
+    id: commonSchemas.id,
+    barberId: commonSchemas.id,
+    serviceId: commonSchemas.id,
+  }),
+
+  // Slug público da barbearia (link de agendamento)
+  barbershopSlug: z.object({
+    slug: z
+      .string()
+      .max(120, 'Slug inválido')
+      .regex(/^[a-z0-9-]+$/, 'Slug inválido'),
+  }),
+
+  // Categoria de serviço dentro de uma barbearia
+  barbershopCategory: z.object({
+    id: commonSchemas.id,
+    category: z.string().trim().min(1, 'Categoria é obrigatória'),
+  }),
 };
 
 // Função helper para criar validação de body
@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import { AppointmentController } from '@/controllers/appointment.controller';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import {
+  validateAll,
+  validateBody,
+  validateParams,
+  validateQuery,
+  appointmentSchemas,
+  paramSchemas,
+} from '@/middleware/validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/appointments/actions/:token
+ * @desc    Dados do agendamento para o link de confirmação/cancelamento do lembrete
+ * @access  Public (token assinado)
+ */
+router.get(
+  '/actions/:token',
+  validateParams(appointmentSchemas.actionParams),
+  AppointmentController.previewAction
+);
+
+/**
+ * @route   POST /api/appointments/actions/:token
+ * @desc    Confirmar ou cancelar pelo link do lembrete, sem login
+ * @access  Public (token assinado)
+ */
+router.post(
+  '/actions/:token',
+  validateParams(appointmentSchemas.actionParams),
+  AppointmentController.applyAction
+);
+
+// As demais rotas de agendamento exigem autenticação
+router.use(authenticate);
+
+/**
+ * @route   GET /api/appointments
+ * @desc    Listar agendamentos visíveis ao usuário (cliente, barbeiro, barbearia)
+ * @access  Private
+ */
+router.get(
+  '/',
+  requirePermission('appointment:view'),
+  validateQuery(appointmentSchemas.list),
+  AppointmentController.list
+);
+
+/**
+ * @route   POST /api/appointments
+ * @desc    Criar agendamento (retorna 409 TIME_CONFLICT se o horário estiver ocupado);
+ *          com recurrence, cria a série e lista as ocorrências puladas por conflito
+ * @access  Private (Cliente, Admin, SuperAdmin)
+ */
+router.post(
+  '/',
+  requirePermission('appointment:create'),
+  validateBody(appointmentSchemas.create),
+  AppointmentController.create
+);
+
+/**
+ * @route   GET /api/appointments/:id
+ * @desc    Obter agendamento
+ * @access  Private (Participantes do agendamento, Admin da barbearia)
+ */
+router.get(
+  '/:id',
+  requirePermission('appointment:view'),
+  validateAll({ params: paramSchemas.id }),
+  AppointmentController.getById
+);
+
+/**
+ * @route   PATCH /api/appointments/:id/reschedule
+ * @desc    Remarcar agendamento (scope "following" remarca também as próximas ocorrências da série)
+ * @access  Private (Participantes do agendamento, Admin da barbearia)
+ */
+router.patch(
+  '/:id/reschedule',
+  requirePermission('appointment:create', 'appointment:update'),
+  validateAll({ params: paramSchemas.id, body: appointmentSchemas.reschedule }),
+  AppointmentController.reschedule
+);
+
+/**
+ * @route   PATCH /api/appointments/:id/cancel
+ * @desc    Cancelar agendamento (scope "following" cancela também as próximas ocorrências da série)
+ * @access  Private (Participantes do agendamento, Admin da barbearia)
+ */
+router.patch(
+  '/:id/cancel',
+  requirePermission('appointment:create', 'appointment:update'),
+  validateAll({ params: paramSchemas.id, body: appointmentSchemas.cancel }),
+  AppointmentController.cancel
+);
+
+/**
+ * @route   PATCH /api/appointments/:id/status
+ * @desc    Alterar status (cliente cancela; barbeiro confirma/inicia/conclui/não compareceu; admin pode sobrescrever)
+ * @access  Private (Participantes do agendamento, Admin da barbearia)
+ */
+router.patch(
+  '/:id/status',
+  requirePermission('appointment:create', 'appointment:update'),
+  validateAll({ params: paramSchemas.id, body: appointmentSchemas.updateStatus }),
+  AppointmentController.updateStatus
+);
+
+/**
+ * @route   GET /api/appointments/:id/history
+ * @desc    Histórico de alterações de status
+ * @access  Private (Participantes do agendamento, Admin da barbearia)
+ */
+router.get(
+  '/:id/history',
+  requirePermission('appointment:view'),
+  validateAll({ params: paramSchemas.id }),
+  AppointmentController.getHistory
+);
+
+export default router;
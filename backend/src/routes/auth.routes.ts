@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { AuthController } from '@/controllers/auth.controller';
+import { PermissionController } from '@/controllers/permission.controller';
 import { authenticate } from '@/middleware/auth';
-import { validateBody, authSchemas } from '@/middleware/validation';
+import { validateBody, validateParams, authSchemas } from '@/middleware/validation';
 
 const router = Router();
 
@@ -106,6 +107,24 @@ router.post(
   AuthController.resetPassword
 );
 
+/**
+ * @route   GET /api/auth/invites/:token
+ * @desc    Consultar convite de barbeiro antes do aceite
+ * @access  Public
+ */
+router.get(
+  '/invites/:token',
+  validateParams(authSchemas.inviteParams),
+  AuthController.previewInvite
+);
+
+/**
+ * @route   POST /api/auth/accept-invite
+ * @desc    Aceitar convite: define a senha e cria a conta de barbeiro
+ * @access  Public
+ */
+router.post('/accept-invite', validateBody(authSchemas.acceptInvite), AuthController.acceptInvite);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Obter perfil do usuário logado
@@ -113,6 +132,13 @@ router.post(
  */
 router.get('/me', authenticate, AuthController.getProfile);
 
+/**
+ * @route   GET /api/auth/me/permissions
+ * @desc    Permissões efetivas do usuário (padrão da role + concedidas pelo admin)
+ * @access  Private
+ */
+router.get('/me/permissions', authenticate, PermissionController.getMine);
+
 /**
  * @route   PUT /api/auth/profile
  * @desc    Atualizar perfil do usuário
@@ -139,9 +165,35 @@ router.post(
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout do usuário
+ * @desc    Logout do usuário (revoga a sessão atual)
  * @access  Private
  */
 router.post('/logout', authenticate, AuthController.logout);
 
+/**
+ * @route   POST /api/auth/logout-all
+ * @desc    Logout de todos os dispositivos (revoga todas as sessões)
+ * @access  Private
+ */
+router.post('/logout-all', authenticate, AuthController.logoutAll);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    Listar sessões ativas (dispositivo, IP, último acesso)
+ * @access  Private
+ */
+router.get('/sessions', authenticate, AuthController.listSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Encerrar uma sessão (tokens do dispositivo deixam de valer)
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  validateParams(authSchemas.sessionParams),
+  AuthController.revokeSession
+);
+
 export default router;
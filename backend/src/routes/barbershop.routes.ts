@@ -0,0 +1,594 @@
+import { Router } from 'express';
+import { Role } from '@prisma/client';
+import { BarbershopController } from '@/controllers/barbershop.controller';
+import { PermissionController } from '@/controllers/permission.controller';
+import { SchedulingController } from '@/controllers/scheduling.controller';
+import { ScheduleExceptionController } from '@/controllers/schedule-exception.controller';
+import { ServiceCatalogController } from '@/controllers/service-catalog.controller';
+import { StaffController } from '@/controllers/staff.controller';
+import { WeeklyScheduleController } from '@/controllers/weekly-schedule.controller';
+import { ServiceCatalogService } from '@/services/service-catalog.service';
+import { CACHE_PREFIXES, CACHE_TTL } from '@/config/redis';
+import {
+  authenticate,
+  authorize,
+  optionalAuth,
+  requireBarbershopOwnership,
+  requireBarbershopPermission,
+} from '@/middleware/auth';
+import { cacheMiddleware } from '@/middleware/cache';
+import {
+  validateAll,
+  validateBody,
+  validateQuery,
+  barbershopSchemas,
+  barberSchemas,
+  exceptionSchemas,
+  permissionSchemas,
+  schedulingSchemas,
+  serviceSchemas,
+  paramSchemas,
+} from '@/middleware/validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/barbershops
+ * @desc    Listar barbearias (busca por nome/endereço/email, filtro por dono, paginação)
+ * @access  Private
+ */
+router.get('/', authenticate, validateQuery(barbershopSchemas.list), BarbershopController.list);
+
+/**
+ * @route   POST /api/barbershops
+ * @desc    Criar barbearia (o usuário autenticado se torna o dono)
+ * @access  Private (Admin, SuperAdmin)
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(Role.ADMIN, Role.SUPER_ADMIN),
+  validateBody(barbershopSchemas.create),
+  BarbershopController.create
+);
+
+/**
+ * @route   GET /api/barbershops/slug/:slug
+ * @desc    Dados públicos da barbearia pelo slug do link de agendamento (/b/:slug)
+ * @access  Public
+ */
+router.get(
+  '/slug/:slug',
+  validateAll({ params: paramSchemas.barbershopSlug }),
+  BarbershopController.getBySlug
+);
+
+/**
+ * @route   GET /api/barbershops/:id
+ * @desc    Obter barbearia (includeDetails=true inclui barbeiros, serviços e horários)
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateAll({ params: paramSchemas.id, query: barbershopSchemas.details }),
+  BarbershopController.getById
+);
+
+/**
+ * @route   PUT /api/barbershops/:id
+ * @desc    Atualizar barbearia
+ * @access  Private (Dono da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  authorize(Role.ADMIN, Role.SUPER_ADMIN),
+  validateAll({ params: paramSchemas.id, body: barbershopSchemas.update }),
+  requireBarbershopOwnership('id'),
+  BarbershopController.update
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id
+ * @desc    Remover barbearia sem barbeiros, serviços ou agendamentos
+ * @access  Private (Dono da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(Role.ADMIN, Role.SUPER_ADMIN),
+  validateAll({ params: paramSchemas.id }),
+  requireBarbershopOwnership('id'),
+  BarbershopController.delete
+);
+
+/**
+ * @route   GET /api/barbershops/:id/availability
+ * @desc    Horários disponíveis de um serviço (serviceId, barberId opcional, startDate, endDate)
+ *          Horários reservados à lista de espera só aparecem para o cliente que recebeu a oferta
+ * @access  Public
+ */
+router.get(
+  '/:id/availability',
+  optionalAuth,
+  validateAll({ params: paramSchemas.id, query: schedulingSchemas.availability }),
+  SchedulingController.getAvailability
+);
+
+/**
+ * @route   GET /api/barbershops/:id/schedule
+ * @desc    Horário de funcionamento da barbearia na semana
+ * @access  Private (Equipe da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/schedule',
+  authenticate,
+  validateAll({ params: paramSchemas.id }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  WeeklyScheduleController.getGlobalWeek
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/schedule
+ * @desc    Atualizar em lote o horário da barbearia (409 com relatório se afetar agendamentos, salvo force)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/schedule',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: schedulingSchemas.globalWeek }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  WeeklyScheduleController.updateGlobalWeek
+);
+
+/**
+ * @route   POST /api/barbershops/:id/schedule/preview
+ * @desc    Agendamentos futuros que a alteração do horário deixaria fora do expediente
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/schedule/preview',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: schedulingSchemas.globalWeek }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  WeeklyScheduleController.previewGlobalWeek
+);
+
+/**
+ * @route   GET /api/barbershops/:id/barbers/:barberId/schedule
+ * @desc    Horário individual do barbeiro (dias sem registro seguem o horário da barbearia)
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.get(
+  '/:id/barbers/:barberId/schedule',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  WeeklyScheduleController.getBarberWeek
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/barbers/:barberId/schedule
+ * @desc    Atualizar em lote o horário do barbeiro (409 com relatório se afetar agendamentos, salvo force)
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.put(
+  '/:id/barbers/:barberId/schedule',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: schedulingSchemas.barberWeek }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  WeeklyScheduleController.updateBarberWeek
+);
+
+/**
+ * @route   POST /api/barbershops/:id/barbers/:barberId/schedule/preview
+ * @desc    Agendamentos futuros que a alteração do horário do barbeiro deixaria fora do expediente
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.post(
+  '/:id/barbers/:barberId/schedule/preview',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: schedulingSchemas.barberWeek }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  WeeklyScheduleController.previewBarberWeek
+);
+
+/**
+ * @route   GET /api/barbershops/:id/exceptions
+ * @desc    Exceções da barbearia por período (padrão: de hoje em diante)
+ * @access  Private (Equipe da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.id, query: exceptionSchemas.list }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.listGlobal
+);
+
+/**
+ * @route   POST /api/barbershops/:id/exceptions
+ * @desc    Criar exceção da barbearia para um período (dryRun lista os agendamentos em conflito)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: exceptionSchemas.globalCreate }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  ScheduleExceptionController.createGlobal
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/exceptions
+ * @desc    Remover exceções da barbearia de um período
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.id, query: exceptionSchemas.range }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  ScheduleExceptionController.deleteGlobalRange
+);
+
+/**
+ * @route   POST /api/barbershops/:id/exceptions/holidays
+ * @desc    Importar feriados nacionais/municipais como fechamento (dryRun lista os conflitos)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/exceptions/holidays',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: exceptionSchemas.importHolidays }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  ScheduleExceptionController.importHolidays
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/exceptions/:exceptionId
+ * @desc    Atualizar exceção da barbearia
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/exceptions/:exceptionId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopException, body: exceptionSchemas.globalUpdate }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  ScheduleExceptionController.updateGlobal
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/exceptions/:exceptionId
+ * @desc    Remover exceção da barbearia
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/exceptions/:exceptionId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopException }),
+  requireBarbershopPermission('id', 'schedule:manage'),
+  ScheduleExceptionController.deleteGlobal
+);
+
+/**
+ * @route   GET /api/barbershops/:id/barbers/:barberId/exceptions
+ * @desc    Exceções do barbeiro por período (padrão: de hoje em diante)
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.get(
+  '/:id/barbers/:barberId/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, query: exceptionSchemas.list }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.listBarber
+);
+
+/**
+ * @route   POST /api/barbershops/:id/barbers/:barberId/exceptions
+ * @desc    Criar exceção do barbeiro para um período, como férias (dryRun lista os conflitos)
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.post(
+  '/:id/barbers/:barberId/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: exceptionSchemas.barberCreate }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.createBarber
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/barbers/:barberId/exceptions
+ * @desc    Remover exceções do barbeiro de um período
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.delete(
+  '/:id/barbers/:barberId/exceptions',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, query: exceptionSchemas.range }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.deleteBarberRange
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/barbers/:barberId/exceptions/:exceptionId
+ * @desc    Atualizar exceção do barbeiro
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.put(
+  '/:id/barbers/:barberId/exceptions/:exceptionId',
+  authenticate,
+  validateAll({
+    params: paramSchemas.barbershopBarberException,
+    body: exceptionSchemas.barberUpdate,
+  }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.updateBarber
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/barbers/:barberId/exceptions/:exceptionId
+ * @desc    Remover exceção do barbeiro
+ * @access  Private (Admin da barbearia, o próprio barbeiro, SuperAdmin)
+ */
+router.delete(
+  '/:id/barbers/:barberId/exceptions/:exceptionId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarberException }),
+  requireBarbershopPermission('id', 'schedule:manage', 'schedule:manage:self'),
+  ScheduleExceptionController.deleteBarber
+);
+
+/**
+ * @route   GET /api/barbershops/:id/barbers
+ * @desc    Listar barbeiros da barbearia (includeInactive inclui os desativados)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/barbers',
+  authenticate,
+  validateAll({ params: paramSchemas.id, query: barberSchemas.list }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.list
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/barbers/:barberId
+ * @desc    Atualizar perfil profissional do barbeiro
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/barbers/:barberId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: barberSchemas.update }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.update
+);
+
+/**
+ * @route   POST /api/barbershops/:id/barbers/:barberId/deactivate
+ * @desc    Desativar barbeiro; agendamentos futuros são remanejados ou cancelados com aviso ao cliente
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/barbers/:barberId/deactivate',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: barberSchemas.deactivate }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.deactivate
+);
+
+/**
+ * @route   POST /api/barbershops/:id/barbers/:barberId/reactivate
+ * @desc    Reativar barbeiro
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/barbers/:barberId/reactivate',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.reactivate
+);
+
+/**
+ * @route   GET /api/barbershops/:id/invites
+ * @desc    Listar convites de barbeiros pendentes
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/invites',
+  authenticate,
+  validateAll({ params: paramSchemas.id }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.listInvites
+);
+
+/**
+ * @route   POST /api/barbershops/:id/invites
+ * @desc    Convidar barbeiro por email (o link expira em 72 horas)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/invites',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: barberSchemas.invite }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.invite
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/invites/:inviteId
+ * @desc    Revogar convite pendente
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/invites/:inviteId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopInvite }),
+  requireBarbershopPermission('id', 'barber:manage'),
+  StaffController.revokeInvite
+);
+
+/**
+ * @route   GET /api/barbershops/:id/barbers/:barberId/permissions
+ * @desc    Permissões extras concedidas a um barbeiro
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/barbers/:barberId/permissions',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber }),
+  requireBarbershopPermission('id', 'permission:grant'),
+  PermissionController.getBarberGrants
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/barbers/:barberId/permissions
+ * @desc    Definir permissões extras de um barbeiro (ex: barbeiro gerente)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/barbers/:barberId/permissions',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarber, body: permissionSchemas.barberGrants }),
+  requireBarbershopPermission('id', 'permission:grant'),
+  PermissionController.setBarberGrants
+);
+
+/**
+ * @route   GET /api/barbershops/:id/services
+ * @desc    Serviços ativos com barbeiros disponíveis e preço efetivo (cache invalidado a cada alteração)
+ * @access  Public
+ */
+router.get(
+  '/:id/services',
+  validateAll({ params: paramSchemas.id }),
+  cacheMiddleware({
+    prefix: CACHE_PREFIXES.API,
+    ttl: CACHE_TTL.MEDIUM,
+    keyGenerator: (req) => ServiceCatalogService.availabilityCacheKey(req.params['id'] as string),
+  }),
+  ServiceCatalogController.listAvailability
+);
+
+/**
+ * @route   POST /api/barbershops/:id/services
+ * @desc    Criar serviço
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.post(
+  '/:id/services',
+  authenticate,
+  validateAll({ params: paramSchemas.id, body: serviceSchemas.create }),
+  requireBarbershopPermission('id', 'service:create'),
+  ServiceCatalogController.createService
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/services/:serviceId
+ * @desc    Atualizar serviço (isActive reativa/desativa)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/services/:serviceId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopService, body: serviceSchemas.update }),
+  requireBarbershopPermission('id', 'service:update'),
+  ServiceCatalogController.updateService
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/services/:serviceId
+ * @desc    Desativar serviço (mantém histórico de agendamentos)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/services/:serviceId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopService }),
+  requireBarbershopPermission('id', 'service:delete'),
+  ServiceCatalogController.deactivateService
+);
+
+/**
+ * @route   GET /api/barbershops/:id/catalog
+ * @desc    Catálogo completo com serviços e atribuições inativos
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.get(
+  '/:id/catalog',
+  authenticate,
+  validateAll({ params: paramSchemas.id }),
+  requireBarbershopPermission('id', 'service:create', 'service:update'),
+  ServiceCatalogController.listCatalog
+);
+
+/**
+ * @route   GET /api/barbershops/:id/service-categories
+ * @desc    Categorias dos serviços ativos
+ * @access  Public
+ */
+router.get(
+  '/:id/service-categories',
+  validateAll({ params: paramSchemas.id }),
+  ServiceCatalogController.listCategories
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/service-categories/:category
+ * @desc    Renomear categoria em todos os serviços
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/service-categories/:category',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopCategory, body: serviceSchemas.renameCategory }),
+  requireBarbershopPermission('id', 'service:update'),
+  ServiceCatalogController.renameCategory
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/service-categories/:category
+ * @desc    Desativar todos os serviços da categoria
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/service-categories/:category',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopCategory }),
+  requireBarbershopPermission('id', 'service:delete'),
+  ServiceCatalogController.deactivateCategory
+);
+
+/**
+ * @route   PUT /api/barbershops/:id/barbers/:barberId/services/:serviceId
+ * @desc    Atribuir serviço ao barbeiro (customPrice null usa o preço base)
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.put(
+  '/:id/barbers/:barberId/services/:serviceId',
+  authenticate,
+  validateAll({
+    params: paramSchemas.barbershopBarberService,
+    body: serviceSchemas.assignToBarber,
+  }),
+  requireBarbershopPermission('id', 'service:update'),
+  ServiceCatalogController.assignToBarber
+);
+
+/**
+ * @route   DELETE /api/barbershops/:id/barbers/:barberId/services/:serviceId
+ * @desc    Remover serviço do barbeiro
+ * @access  Private (Admin da barbearia, SuperAdmin)
+ */
+router.delete(
+  '/:id/barbers/:barberId/services/:serviceId',
+  authenticate,
+  validateAll({ params: paramSchemas.barbershopBarberService }),
+  requireBarbershopPermission('id', 'service:update'),
+  ServiceCatalogController.removeFromBarber
+);
+
+export default router;
@@ -119,7 +119,7 @@ router.get('/issues/:issueKey', authenticate, JiraController.getIssue);
 
 /**
  * @route   PUT /api/jira/issues/:issueKey
- * @desc    Atualizar issue
+ * @desc    Enfileirar atualização da issue (responde 202 com o ID da tarefa)
  * @access  Private
  */
 router.put(
@@ -146,7 +146,7 @@ router.get('/issues/:issueKey/transitions', authenticate, JiraController.getTran
 
 /**
  * @route   POST /api/jira/issues/:issueKey/transitions
- * @desc    Executar transição de status
+ * @desc    Enfileirar transição de status (responde 202 com o ID da tarefa)
  * @access  Private
  */
 router.post(
@@ -158,7 +158,7 @@ router.post(
 
 /**
  * @route   POST /api/jira/issues/:issueKey/comments
- * @desc    Adicionar comentário à issue
+ * @desc    Enfileirar comentário na issue (responde 202 com o ID da tarefa)
  * @access  Private
  */
 router.post(
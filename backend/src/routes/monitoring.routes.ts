@@ -5,6 +5,7 @@
 import { Router } from 'express';
 import { MonitoringController } from '@/controllers/monitoring.controller';
 import { authenticate, requireRole } from '@/middleware/auth';
+import { monitoringSchemas, validateQuery } from '@/middleware/validation';
 import { Role } from '@prisma/client';
 
 const router = Router();
@@ -77,7 +78,7 @@ router.get(
  * /api/monitoring/errors:
  *   get:
  *     summary: Obter erros mais frequentes
- *     description: Retorna lista dos erros mais frequentes do sistema
+ *     description: Retorna lista dos erros mais frequentes do sistema na janela informada (todas as instâncias)
  *     tags: [Monitoramento]
  *     security:
  *       - bearerAuth: []
@@ -88,6 +89,12 @@ router.get(
  *           type: integer
  *           default: 10
  *         description: Número máximo de erros a retornar
+ *       - in: query
+ *         name: timeWindow
+ *         schema:
+ *           type: integer
+ *           default: 86400000
+ *         description: Janela de tempo em milissegundos (padrão 24 horas, limitada pela retenção)
  *     responses:
  *       200:
  *         description: Erros obtidos com sucesso
@@ -174,8 +181,10 @@ router.get(
  * @swagger
  * /api/monitoring/logs:
  *   get:
- *     summary: Obter logs recentes
- *     description: Retorna logs recentes do sistema (apenas super admins)
+ *     summary: Consultar logs
+ *     description: |
+ *       Retorna os logs gravados no banco, do mais recente para o mais antigo (apenas super admins).
+ *       A paginação é por cursor: envie o nextCursor da resposta para obter a próxima página.
  *     tags: [Monitoramento]
  *     security:
  *       - bearerAuth: []
@@ -184,23 +193,72 @@ router.get(
  *         name: level
  *         schema:
  *           type: string
- *           enum: [error, warn, info, debug]
- *           default: info
- *         description: Nível de log
+ *           enum: [error, warn, info, http]
+ *         description: Severidade mínima (ex. warn retorna warn e error)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [system, security, business, performance, api, database, external]
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Texto contido na mensagem (sem diferenciar maiúsculas)
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
  *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
- *           default: 100
- *         description: Número máximo de logs
+ *           default: 50
+ *           maximum: 200
  *     responses:
  *       200:
  *         description: Logs obtidos com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         description: Filtros ou cursor inválidos
  */
 router.get(
   '/logs',
   authenticate,
   requireRole([Role.SUPER_ADMIN]),
+  validateQuery(monitoringSchemas.logs),
   MonitoringController.getRecentLogs
 );
 
@@ -209,13 +267,15 @@ router.get(
  * /api/monitoring/health:
  *   get:
  *     summary: Health check avançado
- *     description: Retorna informações detalhadas sobre a saúde do sistema
+ *     description: |
+ *       Consulta banco, Redis e Jira com tempo limite e latência de cada um.
+ *       Redis ou Jira fora do ar deixam o sistema "degraded" (200); banco fora do ar, "unhealthy" (503).
  *     tags: [Monitoramento]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Sistema saudável
+ *         description: Sistema saudável ou degradado
  *         content:
  *           application/json:
  *             schema:
@@ -230,7 +290,9 @@ router.get(
  *                   properties:
  *                     status:
  *                       type: string
- *                       example: healthy
+ *                       enum: [healthy, degraded, unhealthy]
+ *                     ready:
+ *                       type: boolean
  *                     timestamp:
  *                       type: string
  *                       format: date-time
@@ -242,12 +304,13 @@ router.get(
  *                       type: string
  *                     services:
  *                       type: object
+ *                       description: Resultado por dependência (status up, down ou not_configured, latency, error)
  *                     system:
  *                       type: object
  *                     metrics:
  *                       type: object
  *       503:
- *         description: Sistema com problemas
+ *         description: Banco de dados indisponível
  */
 router.get(
   '/health',
@@ -256,4 +319,68 @@ router.get(
   MonitoringController.getAdvancedHealthCheck
 );
 
+/**
+ * @swagger
+ * /api/monitoring/jobs:
+ *   get:
+ *     summary: Listar tarefas em segundo plano
+ *     description: Retorna as tarefas aguardando execução ou na fila de falhas (apenas para admins)
+ *     tags: [Monitoramento]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [queued, dead]
+ *           default: queued
+ *         description: Fila consultada
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Número máximo de tarefas
+ *     responses:
+ *       200:
+ *         description: Tarefas obtidas com sucesso
+ */
+router.get(
+  '/jobs',
+  authenticate,
+  requireRole([Role.ADMIN, Role.SUPER_ADMIN]),
+  MonitoringController.listJobs
+);
+
+/**
+ * @swagger
+ * /api/monitoring/jobs/{id}/retry:
+ *   post:
+ *     summary: Reenviar tarefa da fila de falhas
+ *     description: Devolve a tarefa à fila com as tentativas zeradas (apenas para admins)
+ *     tags: [Monitoramento]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tarefa reenviada
+ *       404:
+ *         description: Tarefa não encontrada
+ *       409:
+ *         description: Tarefa não está na fila de falhas
+ */
+router.post(
+  '/jobs/:id/retry',
+  authenticate,
+  requireRole([Role.ADMIN, Role.SUPER_ADMIN]),
+  MonitoringController.retryJob
+);
+
 export default router;
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { NotificationController } from '@/controllers/notification.controller';
+import { authenticate } from '@/middleware/auth';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  notificationSchemas,
+  paramSchemas,
+} from '@/middleware/validation';
+
+const router = Router();
+
+// Todas as rotas de notificações exigem autenticação e atuam sobre o próprio usuário
+router.use(authenticate);
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Caixa de entrada in-app (mais recentes primeiro, com total de não lidas)
+ * @access  Private
+ */
+router.get('/', validateQuery(notificationSchemas.inbox), NotificationController.inbox);
+
+/**
+ * @route   PATCH /api/notifications/read-all
+ * @desc    Marcar todas as notificações como lidas
+ * @access  Private
+ */
+router.patch('/read-all', NotificationController.markAllRead);
+
+/**
+ * @route   GET /api/notifications/preferences
+ * @desc    Preferências por canal (email, WhatsApp, SMS, in-app)
+ * @access  Private
+ */
+router.get('/preferences', NotificationController.getPreferences);
+
+/**
+ * @route   PUT /api/notifications/preferences
+ * @desc    Ativar ou desativar canais de notificação
+ * @access  Private
+ */
+router.put(
+  '/preferences',
+  validateBody(notificationSchemas.preferences),
+  NotificationController.updatePreferences
+);
+
+/**
+ * @route   PATCH /api/notifications/:id/read
+ * @desc    Marcar notificação como lida
+ * @access  Private
+ */
+router.patch('/:id/read', validateParams(paramSchemas.id), NotificationController.markRead);
+
+export default router;
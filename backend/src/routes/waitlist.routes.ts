@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { WaitlistController } from '@/controllers/waitlist.controller';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import {
+  validateAll,
+  validateBody,
+  validateQuery,
+  waitlistSchemas,
+  paramSchemas,
+} from '@/middleware/validation';
+
+const router = Router();
+
+// Todas as rotas da lista de espera exigem autenticação
+router.use(authenticate);
+
+/**
+ * @route   GET /api/waitlist
+ * @desc    Listar inscrições (cliente: as próprias; barbearia: as da barbearia; padrão: ativas)
+ * @access  Private
+ */
+router.get(
+  '/',
+  requirePermission('appointment:view'),
+  validateQuery(waitlistSchemas.list),
+  WaitlistController.list
+);
+
+/**
+ * @route   POST /api/waitlist
+ * @desc    Entrar na lista de espera para uma data e janela de horário
+ * @access  Private (Cliente, Admin, SuperAdmin)
+ */
+router.post(
+  '/',
+  requirePermission('appointment:create'),
+  validateBody(waitlistSchemas.join),
+  WaitlistController.join
+);
+
+/**
+ * @route   DELETE /api/waitlist/:id
+ * @desc    Sair da lista de espera (libera a oferta pendente para o próximo da fila)
+ * @access  Private (O próprio cliente, Admin da barbearia)
+ */
+router.delete(
+  '/:id',
+  requirePermission('appointment:create'),
+  validateAll({ params: paramSchemas.id }),
+  WaitlistController.leave
+);
+
+/**
+ * @route   POST /api/waitlist/:id/accept
+ * @desc    Aceitar o horário oferecido (cria o agendamento enquanto a reserva estiver válida)
+ * @access  Private (O próprio cliente)
+ */
+router.post(
+  '/:id/accept',
+  requirePermission('appointment:create'),
+  validateAll({ params: paramSchemas.id }),
+  WaitlistController.accept
+);
+
+/**
+ * @route   POST /api/waitlist/:id/decline
+ * @desc    Recusar o horário oferecido (a oferta passa para o próximo da fila)
+ * @access  Private (O próprio cliente)
+ */
+router.post(
+  '/:id/decline',
+  requirePermission('appointment:create'),
+  validateAll({ params: paramSchemas.id }),
+  WaitlistController.decline
+);
+
+export default router;
@@ -10,14 +10,30 @@ import 'express-async-errors';
 import { config } from '@/config/env';
 import { logger, setupErrorHandling, httpLogger } from '@/config/logger';
 import { connectDatabase, checkDatabaseHealth } from '@/config/database';
-import { connectRedis, checkRedisHealth } from '@/config/redis';
+import { connectRedis, checkRedisHealth, redis, CACHE_PREFIXES } from '@/config/redis';
 import { specs } from '@/config/swagger';
+import { WaitlistService } from '@/services/waitlist.service';
+import { NotificationService, notificationService } from '@/services/notification.service';
+import { JobQueueService } from '@/services/job-queue.service';
+import { LogStoreService } from '@/services/log-store.service';
+import { HealthService } from '@/services/health.service';
+import { registerJobHandlers } from '@/services/job-handlers';
+import { MonitoringController } from '@/controllers/monitoring.controller';
+import { metricsAccess, requestMetrics } from '@/middleware/metrics';
+import { requestContext, requestId } from '@/middleware/request-id';
+import { metricsCollector } from '@/utils/metrics';
+import { REQUEST_ID_HEADER } from '@/utils/request-context';
+import { RedisMetricsStore } from '@/utils/metrics-store';
 
 // Importar rotas
 import authRoutes from '@/routes/auth.routes';
 import jiraRoutes from '@/routes/jira.routes';
 import monitoringRoutes from '@/routes/monitoring.routes';
 import cacheRoutes from '@/routes/cache.routes';
+import barbershopRoutes from '@/routes/barbershop.routes';
+import appointmentRoutes from '@/routes/appointment.routes';
+import waitlistRoutes from '@/routes/waitlist.routes';
+import notificationRoutes from '@/routes/notification.routes';
 
 // Configurar tratamento de erros não capturados
 setupErrorHandling();
@@ -30,6 +46,13 @@ if (config.server.trustProxy) {
   app.set('trust proxy', 1);
 }
 
+// ID de correlação da requisição (X-Request-Id) em todas as respostas, inclusive rate limit e JSON inválido
+app.use(requestId);
+
+// Métricas por rota exportadas em /metrics
+// Registrado antes do rate limit e do parsing para contar também as respostas 429 e 400
+app.use(requestMetrics);
+
 // Middlewares de segurança
 app.use(
   helmet({
@@ -52,7 +75,13 @@ if (config.cors.enabled) {
       origin: config.cors.origin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        REQUEST_ID_HEADER,
+        JobQueueService.IDEMPOTENCY_HEADER,
+      ],
+      exposedHeaders: [REQUEST_ID_HEADER],
     })
   );
 }
@@ -76,6 +105,9 @@ app.use(compression());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// ID da requisição no contexto assíncrono (logs, Prisma, Jira)
+app.use(requestContext);
+
 // Logging HTTP
 if (config.logging.enableMorgan && config.isDevelopment) {
   app.use(morgan('combined'));
@@ -116,6 +148,28 @@ app.get('/health', async (_req, res) => {
   }
 });
 
+// Liveness: o processo está respondendo (não consulta dependências para não reiniciar a instância por falha delas)
+app.get('/health/live', (_req, res) => {
+  res.json({
+    status: 'alive',
+    timestamp: new Date().toISOString(),
+    uptime: Math.floor(process.uptime()),
+  });
+});
+
+// Readiness: pode receber tráfego (banco no ar e fora do graceful shutdown)
+app.get('/health/ready', async (_req, res) => {
+  const report = await HealthService.checkReadiness();
+
+  res.status(report.ready ? 200 : 503).json({
+    ...report,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Métricas no formato OpenMetrics (Prometheus), protegidas por token ou lista de IPs
+app.get('/metrics', metricsAccess, MonitoringController.getOpenMetrics);
+
 // Documentação da API com Swagger
 if (config.development.enableSwagger) {
   app.use(
@@ -134,6 +188,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/jira', jiraRoutes);
 app.use('/api/monitoring', monitoringRoutes);
 app.use('/api/cache', cacheRoutes);
+app.use('/api/barbershops', barbershopRoutes);
+app.use('/api/appointments', appointmentRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Rota de teste
 app.get('/api/test', (_req, res) => {
@@ -166,7 +224,7 @@ app.get('/', (_req, res) => {
 });
 
 // Middleware de tratamento de erros
-app.use((error: any, _req: express.Request, res: express.Response) => {
+app.use((error: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   logger.error('Erro não tratado:', error);
 
   // Erro de validação do Prisma
@@ -175,6 +233,7 @@ app.use((error: any, _req: express.Request, res: express.Response) => {
       success: false,
       message: 'Dados duplicados',
       error: 'DUPLICATE_DATA',
+      requestId: req.requestId,
     });
   }
 
@@ -184,6 +243,7 @@ app.use((error: any, _req: express.Request, res: express.Response) => {
       success: false,
       message: 'Registro não encontrado',
       error: 'NOT_FOUND',
+      requestId: req.requestId,
     });
   }
 
@@ -193,6 +253,7 @@ app.use((error: any, _req: express.Request, res: express.Response) => {
       success: false,
       message: 'JSON inválido',
       error: 'INVALID_JSON',
+      requestId: req.requestId,
     });
   }
 
@@ -201,6 +262,7 @@ app.use((error: any, _req: express.Request, res: express.Response) => {
     success: false,
     message: 'Erro interno do servidor',
     error: 'INTERNAL_ERROR',
+    requestId: req.requestId,
     ...(config.isDevelopment && { details: error.message }),
   });
 });
@@ -211,12 +273,24 @@ async function startServer() {
     // Conectar ao banco de dados
     await connectDatabase();
 
+    // Gravar logs no banco para consulta em /api/monitoring/logs
+    LogStoreService.start();
+
     // Conectar ao Redis
     try {
       await connectRedis();
       const redisHealth = await checkRedisHealth();
       if (redisHealth.status === 'healthy') {
         logger.info('✅ Conectado ao Redis');
+
+        // Métricas agregadas no Redis: mesmos números em todas as instâncias e preservados em reinícios
+        const metricsStore = new RedisMetricsStore(
+          redis,
+          config.monitoring.metricsRetentionDays * 24 * 60,
+          CACHE_PREFIXES.METRICS
+        );
+        metricsStore.start();
+        metricsCollector.useStore(metricsStore);
       } else {
         logger.warn('⚠️ Redis não disponível - cache desabilitado');
       }
@@ -230,22 +304,52 @@ async function startServer() {
       logger.info(`📊 Ambiente: ${config.server.nodeEnv}`);
       logger.info(`🔗 URL: http://localhost:${config.server.port}`);
       logger.info(`💚 Health Check: http://localhost:${config.server.port}/health`);
+      HealthService.markReady();
     });
 
+    // Ofertas vencidas da lista de espera passam para o próximo da fila
+    const waitlistSweep = setInterval(() => {
+      void WaitlistService.processExpiredOffers();
+    }, WaitlistService.SWEEP_INTERVAL_MS);
+
+    // Notificações com falha são reenviadas quando vence a próxima tentativa
+    const notificationRetry = setInterval(() => {
+      void notificationService.retryFailed();
+    }, NotificationService.RETRY_INTERVAL_MS);
+
+    // Fila de tarefas em segundo plano (invalidação de cache, escritas no Jira, lembretes)
+    registerJobHandlers();
+    JobQueueService.start();
+
     // Graceful shutdown
     const gracefulShutdown = (signal: string) => {
       logger.info(`${signal} recebido. Iniciando shutdown graceful...`);
+      HealthService.markShuttingDown();
+      clearInterval(waitlistSweep);
+      clearInterval(notificationRetry);
 
-      server.close(() => {
-        logger.info('Servidor HTTP fechado');
-        process.exit(0);
-      });
-
-      // Forçar shutdown após 10 segundos
+      // Continua atendendo enquanto o orquestrador vê /health/ready em 503 e tira a instância
+      // do balanceamento; só então para de aceitar conexões
+      logger.info(`Aguardando ${config.server.shutdownDrainMs}ms antes de fechar o servidor HTTP`);
       setTimeout(() => {
-        logger.error('Forçando shutdown após timeout');
-        process.exit(1);
-      }, 10000);
+        server.close(() => {
+          logger.info('Servidor HTTP fechado');
+
+          // Aguarda a rodada da fila em andamento; o que ficou pendente segue no Redis
+          void JobQueueService.stop()
+            .then(() => logger.info('Fila de tarefas encerrada'))
+            // Descarrega os logs e as métricas ainda em memória antes de sair
+            .finally(() => LogStoreService.stop())
+            .finally(() => metricsCollector.flush())
+            .finally(() => process.exit(0));
+        });
+
+        // Forçar shutdown 10 segundos após fechar o servidor
+        setTimeout(() => {
+          logger.error('Forçando shutdown após timeout');
+          process.exit(1);
+        }, 10000);
+      }, config.server.shutdownDrainMs);
     };
 
     process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
@@ -0,0 +1,238 @@
+/**
+ * Lembretes de agendamento
+ * Envia o lembrete N horas antes do horário com links assinados para confirmar ou cancelar
+ * sem login, e registra falta (NO_SHOW) quando o atendimento não começa após a tolerância.
+ * As duas tarefas vão para a fila em segundo plano com atraso até o horário de execução.
+ */
+
+import { AppointmentStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/env';
+import { advancedLogger } from '@/config/logger';
+import { AppointmentService, MUTABLE_STATUSES } from '@/services/appointment.service';
+import { AppointmentStatusService } from '@/services/appointment-status.service';
+import { notificationService } from '@/services/notification.service';
+import { JobQueueService } from '@/services/job-queue.service';
+import { AppointmentError, AppointmentLinkAction } from '@/types/appointment';
+import { NotificationTemplate } from '@/types/notification';
+import { JobType } from '@/types/job';
+import { JWTManager } from '@/utils/jwt';
+import { daysBetween, formatDateInTimezone } from '@/utils/timezone';
+
+export class AppointmentReminderService {
+  static readonly NO_SHOW_REASON = 'Cliente não compareceu (registrado automaticamente)';
+  static readonly LINK_CANCEL_REASON = 'Cancelado pelo cliente no link do lembrete';
+
+  /**
+   * Enfileirar lembrete e verificação de falta para o horário do agendamento
+   * Remarcar enfileira novas tarefas; as do horário anterior são ignoradas ao executar
+   * Sem Redis disponível, o agendamento segue sem lembrete
+   */
+  static async schedule(appointment: { id: string; startTime: Date }): Promise<void> {
+    const { id, startTime } = appointment;
+    const now = Date.now();
+    const reminderAt = startTime.getTime() - config.reminders.hoursBefore * 3600000;
+    const noShowAt = startTime.getTime() + config.reminders.noShowGraceMinutes * 60000;
+    const payload = { appointmentId: id, startTime: startTime.toISOString() };
+
+    try {
+      // Agendado em cima da hora não recebe lembrete
+      if (reminderAt > now) {
+        await JobQueueService.enqueue(JobType.APPOINTMENT_REMINDER, payload, {
+          delayMs: reminderAt - now,
+          idempotencyKey: `appointment-reminder:${id}:${payload.startTime}`,
+        });
+      }
+
+      await JobQueueService.enqueue(JobType.APPOINTMENT_NO_SHOW, payload, {
+        delayMs: noShowAt - now,
+        idempotencyKey: `appointment-no-show:${id}:${payload.startTime}`,
+      });
+    } catch (error) {
+      advancedLogger.warn('Não foi possível agendar lembrete do agendamento', {
+        metadata: { appointmentId: id, error: (error as Error).message },
+      });
+    }
+  }
+
+  /**
+   * Enviar o lembrete ao cliente, se o agendamento continuar ativo no mesmo horário
+   */
+  static async sendReminder(appointmentId: string, scheduledStart: Date): Promise<void> {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: { status: true, startTime: true, barbershop: { select: { timezone: true } } },
+    });
+
+    if (
+      !appointment ||
+      !MUTABLE_STATUSES.includes(appointment.status) ||
+      appointment.startTime.getTime() !== scheduledStart.getTime() ||
+      appointment.startTime <= new Date()
+    ) {
+      return;
+    }
+
+    const { startTime } = appointment;
+
+    await notificationService.notifyAppointment(
+      appointmentId,
+      NotificationTemplate.APPOINTMENT_REMINDER,
+      {
+        when: AppointmentReminderService.describeDay(startTime, appointment.barbershop.timezone),
+        confirmUrl: AppointmentReminderService.actionUrl(appointmentId, 'confirm', startTime),
+        cancelUrl: AppointmentReminderService.actionUrl(appointmentId, 'cancel', startTime),
+      }
+    );
+  }
+
+  /**
+   * Registrar falta quando o atendimento não começou dentro da tolerância
+   * Agendamento remarcado depois da criação da tarefa é verificado pela tarefa do novo horário
+   */
+  static async markNoShow(appointmentId: string, scheduledStart: Date): Promise<void> {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: { startTime: true },
+    });
+
+    if (!appointment || appointment.startTime.getTime() !== scheduledStart.getTime()) {
+      return;
+    }
+
+    try {
+      await AppointmentService.applyUnattendedStatus(appointmentId, {
+        status: AppointmentStatus.NO_SHOW,
+        allowedFrom: MUTABLE_STATUSES,
+        changedById: null,
+        reason: AppointmentReminderService.NO_SHOW_REASON,
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      // Atendimento já iniciado, cancelado ou removido: nada a fazer
+      if (message === AppointmentError.INVALID_STATUS || message === AppointmentError.NOT_FOUND) {
+        return;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Dados do agendamento exibidos na página do link, antes de o cliente confirmar a ação
+   */
+  static async previewAction(token: string) {
+    const { appointmentId, action } = AppointmentReminderService.verifyToken(token);
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: {
+        id: true,
+        status: true,
+        startTime: true,
+        endTime: true,
+        barbershop: { select: { name: true, timezone: true } },
+        barber: { select: { user: { select: { name: true } } } },
+        items: {
+          select: { service: { select: { name: true } } },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!appointment) {
+      throw new Error(AppointmentError.NOT_FOUND);
+    }
+
+    return { action, appointment };
+  }
+
+  /**
+   * Aplicar a ação do link: confirmar (SCHEDULED -> CONFIRMED) ou cancelar
+   * Repetir a mesma ação devolve o agendamento sem alterá-lo
+   */
+  static async applyAction(token: string) {
+    const { appointmentId, action } = AppointmentReminderService.verifyToken(token);
+
+    try {
+      const appointment = await prisma.appointment.findUnique({
+        where: { id: appointmentId },
+        select: { id: true, clientId: true, status: true, startTime: true },
+      });
+
+      if (!appointment) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      const target =
+        action === 'confirm' ? AppointmentStatus.CONFIRMED : AppointmentStatus.CANCELLED;
+
+      if (appointment.status === target) {
+        return { id: appointment.id, status: appointment.status, startTime: appointment.startTime };
+      }
+
+      if (action === 'cancel') {
+        // Mesma antecedência mínima do cancelamento pelo aplicativo
+        const cutoff = AppointmentStatusService.CLIENT_CANCEL_CUTOFF_HOURS * 3600000;
+        if (appointment.startTime.getTime() - Date.now() < cutoff) {
+          throw new Error(AppointmentError.CANCEL_CUTOFF);
+        }
+      }
+
+      const updated = await AppointmentService.applyUnattendedStatus(appointmentId, {
+        status: target,
+        allowedFrom: action === 'confirm' ? [AppointmentStatus.SCHEDULED] : MUTABLE_STATUSES,
+        changedById: appointment.clientId,
+        ...(action === 'cancel' && { reason: AppointmentReminderService.LINK_CANCEL_REASON }),
+      });
+
+      return { id: updated.id, status: updated.status, startTime: updated.startTime };
+    } catch (error) {
+      advancedLogger.error('Erro ao aplicar ação do link do lembrete', error as Error, {
+        metadata: { appointmentId, action },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Link do frontend com o token assinado (válido até o início do agendamento)
+   */
+  private static actionUrl(
+    appointmentId: string,
+    action: AppointmentLinkAction,
+    startTime: Date
+  ): string {
+    const token = JWTManager.generateAppointmentActionToken({ appointmentId, action }, startTime);
+    return `${config.frontend.url}/appointments/respond?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * "hoje", "amanhã" ou "em N dias", pelo calendário da barbearia
+   */
+  private static describeDay(startTime: Date, timeZone: string): string {
+    const days = daysBetween(
+      formatDateInTimezone(new Date(), timeZone),
+      formatDateInTimezone(startTime, timeZone)
+    );
+
+    if (days <= 0) {
+      return 'hoje';
+    }
+
+    return days === 1 ? 'amanhã' : `em ${days} dias`;
+  }
+
+  private static verifyToken(token: string) {
+    try {
+      return JWTManager.verifyAppointmentActionToken(token);
+    } catch (error) {
+      throw new Error(
+        (error as Error).message === 'Token expirado'
+          ? AppointmentError.ACTION_LINK_EXPIRED
+          : AppointmentError.ACTION_LINK_INVALID
+      );
+    }
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Serviço de Agendamentos Recorrentes
+ * Uma regra de recorrência gera agendamentos individuais, cada um validado contra o
+ * expediente, as exceções e a agenda do barbeiro. Ocorrências que colidem são puladas
+ * e devolvidas na resposta; as demais seguem o fluxo normal de agendamento.
+ */
+
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { AppointmentService, MUTABLE_STATUSES } from '@/services/appointment.service';
+import { toDateKey } from '@/services/scheduling.service';
+import { AuthenticatedUser } from '@/types/auth';
+import {
+  AppointmentError,
+  CancelAppointmentRequest,
+  CreateAppointmentRequest,
+  RecurrenceRule,
+  RescheduleAppointmentRequest,
+  SkippedOccurrence,
+} from '@/types/appointment';
+import {
+  addDaysToDate,
+  daysBetween,
+  formatDateInTimezone,
+  getMinutesInTimezone,
+  minutesToTime,
+  toDbDate,
+  zonedTimeToUtc,
+} from '@/utils/timezone';
+
+// Erros que impedem apenas a ocorrência; os demais interrompem a operação inteira
+const SKIPPABLE_ERRORS: ReadonlySet<string> = new Set<string>([
+  AppointmentError.PAST_TIME,
+  AppointmentError.MIN_NOTICE,
+  AppointmentError.BARBER_NOT_WORKING,
+  AppointmentError.TIME_CONFLICT,
+  AppointmentError.SERVICE_TOO_LONG,
+  AppointmentError.BARBER_ON_VACATION,
+  AppointmentError.BARBER_UNAVAILABLE,
+  AppointmentError.SLOT_ON_HOLD,
+  AppointmentError.CANCEL_CUTOFF,
+]);
+
+export class AppointmentSeriesService {
+  static readonly MAX_OCCURRENCES = 52;
+
+  /**
+   * Criar agendamentos recorrentes
+   * Cada ocorrência passa pelas mesmas validações do agendamento avulso
+   */
+  static async create(
+    user: AuthenticatedUser,
+    data: CreateAppointmentRequest & { recurrence: RecurrenceRule }
+  ) {
+    try {
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id: data.barbershopId },
+        select: { id: true, timezone: true },
+      });
+
+      if (!barbershop) {
+        throw new Error('Barbearia não encontrada');
+      }
+
+      const clientId = user.role === Role.CLIENT ? user.id : (data.clientId ?? user.id);
+      const firstStart = new Date(data.startTime);
+      const occurrences = AppointmentSeriesService.expandOccurrences(
+        firstStart,
+        barbershop.timezone,
+        data.recurrence
+      );
+
+      const created: Awaited<ReturnType<typeof AppointmentService.create>>[] = [];
+      const skipped: SkippedOccurrence[] = [];
+
+      for (const startTime of occurrences) {
+        try {
+          created.push(
+            await AppointmentService.create(
+              user,
+              {
+                barbershopId: data.barbershopId,
+                barberId: data.barberId,
+                serviceId: data.serviceId,
+                serviceIds: data.serviceIds,
+                startTime: startTime.toISOString(),
+                notes: data.notes,
+                clientId,
+              },
+              // O cliente é avisado uma vez, pela primeira ocorrência criada
+              { notify: created.length === 0 }
+            )
+          );
+        } catch (error) {
+          skipped.push(AppointmentSeriesService.toSkipped(error, startTime));
+        }
+      }
+
+      const [first] = created;
+
+      if (!first) {
+        throw new Error(AppointmentError.NO_VALID_OCCURRENCES);
+      }
+
+      const lastStart = occurrences[occurrences.length - 1] ?? firstStart;
+      const series = await prisma.appointmentSeries.create({
+        data: {
+          barbershopId: barbershop.id,
+          clientId,
+          barberId: data.barberId,
+          serviceId: first.serviceId,
+          intervalWeeks: data.recurrence.intervalWeeks,
+          startDate: toDbDate(formatDateInTimezone(firstStart, barbershop.timezone)),
+          endDate: toDbDate(formatDateInTimezone(lastStart, barbershop.timezone)),
+          time: minutesToTime(getMinutesInTimezone(firstStart, barbershop.timezone)),
+        },
+      });
+
+      await prisma.appointment.updateMany({
+        where: { id: { in: created.map((appointment) => appointment.id) } },
+        data: { seriesId: series.id },
+      });
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_SERIES_CREATION',
+        entity: 'appointment_series',
+        entityId: series.id,
+        action: 'CREATE',
+        userId: user.id,
+        metadata: {
+          barbershopId: barbershop.id,
+          barberId: data.barberId,
+          clientId,
+          intervalWeeks: data.recurrence.intervalWeeks,
+          created: created.length,
+          skipped: skipped.length,
+        },
+      });
+
+      return {
+        series,
+        appointments: created.map((appointment) => ({ ...appointment, seriesId: series.id })),
+        skipped,
+      };
+    } catch (error) {
+      advancedLogger.error('Erro ao criar agendamentos recorrentes', error as Error, {
+        userId: user.id,
+        metadata: { data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remarcar a ocorrência e as seguintes
+   * O deslocamento de dias e o novo horário local são aplicados a cada ocorrência;
+   * se houver ocorrências anteriores, a série é dividida a partir desta
+   */
+  static async rescheduleFollowing(
+    id: string,
+    user: AuthenticatedUser,
+    data: RescheduleAppointmentRequest
+  ) {
+    try {
+      const { anchor, series, timezone, following, hasEarlier } =
+        await AppointmentSeriesService.loadFollowing(id, user);
+
+      const newStart = new Date(data.startTime);
+      const anchorDate = formatDateInTimezone(anchor.startTime, timezone);
+      const dayShift = daysBetween(anchorDate, formatDateInTimezone(newStart, timezone));
+      const minutes = getMinutesInTimezone(newStart, timezone);
+
+      const rule = {
+        barberId: data.barberId ?? series.barberId,
+        startDate: toDbDate(addDaysToDate(anchorDate, dayShift)),
+        endDate: toDbDate(addDaysToDate(toDateKey(series.endDate), dayShift)),
+        time: minutesToTime(minutes),
+      };
+
+      let seriesId = series.id;
+
+      if (hasEarlier) {
+        const created = await prisma.appointmentSeries.create({
+          data: {
+            barbershopId: series.barbershopId,
+            clientId: series.clientId,
+            serviceId: series.serviceId,
+            intervalWeeks: series.intervalWeeks,
+            ...rule,
+          },
+        });
+        seriesId = created.id;
+
+        await prisma.appointmentSeries.update({
+          where: { id: series.id },
+          data: {
+            endDate: toDbDate(addDaysToDate(anchorDate, -7 * series.intervalWeeks)),
+          },
+        });
+        await prisma.appointment.updateMany({
+          where: { id: { in: following.map((appointment) => appointment.id) } },
+          data: { seriesId },
+        });
+      } else {
+        await prisma.appointmentSeries.update({ where: { id: series.id }, data: rule });
+      }
+
+      // Adiando, as últimas ocorrências andam primeiro para não colidirem com as anteriores
+      const ordered = newStart > anchor.startTime ? [...following].reverse() : following;
+      const updated: Awaited<ReturnType<typeof AppointmentService.reschedule>>[] = [];
+      const skipped: SkippedOccurrence[] = [];
+
+      for (const occurrence of ordered) {
+        const occurrenceDate = formatDateInTimezone(occurrence.startTime, timezone);
+        const startTime = zonedTimeToUtc(
+          addDaysToDate(occurrenceDate, dayShift),
+          minutes,
+          timezone
+        );
+
+        try {
+          updated.push(
+            await AppointmentService.reschedule(
+              occurrence.id,
+              user,
+              { startTime: startTime.toISOString(), barberId: data.barberId },
+              // Um único aviso ao cliente, pela ocorrência escolhida
+              { notify: occurrence.id === anchor.id }
+            )
+          );
+        } catch (error) {
+          skipped.push(AppointmentSeriesService.toSkipped(error, startTime, occurrence.id));
+        }
+      }
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_SERIES_RESCHEDULE',
+        entity: 'appointment_series',
+        entityId: seriesId,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: {
+          fromAppointmentId: id,
+          splitFrom: hasEarlier ? series.id : undefined,
+          updated: updated.length,
+          skipped: skipped.length,
+        },
+      });
+
+      return {
+        seriesId,
+        appointments: updated.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+        skipped,
+      };
+    } catch (error) {
+      advancedLogger.error('Erro ao remarcar agendamentos recorrentes', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id, data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancelar a ocorrência e as seguintes; a série passa a terminar na ocorrência anterior
+   */
+  static async cancelFollowing(
+    id: string,
+    user: AuthenticatedUser,
+    data: CancelAppointmentRequest = {}
+  ) {
+    try {
+      const { anchor, series, timezone, following, hasEarlier } =
+        await AppointmentSeriesService.loadFollowing(id, user);
+
+      const cancelled: Awaited<ReturnType<typeof AppointmentService.cancel>>[] = [];
+      const skipped: SkippedOccurrence[] = [];
+
+      for (const occurrence of following) {
+        try {
+          cancelled.push(
+            await AppointmentService.cancel(
+              occurrence.id,
+              user,
+              { reason: data.reason },
+              // Um único aviso ao cliente, pela ocorrência escolhida
+              { notify: occurrence.id === anchor.id }
+            )
+          );
+        } catch (error) {
+          skipped.push(
+            AppointmentSeriesService.toSkipped(error, occurrence.startTime, occurrence.id)
+          );
+        }
+      }
+
+      if (hasEarlier) {
+        const anchorDate = formatDateInTimezone(anchor.startTime, timezone);
+        await prisma.appointmentSeries.update({
+          where: { id: series.id },
+          data: {
+            endDate: toDbDate(addDaysToDate(anchorDate, -7 * series.intervalWeeks)),
+          },
+        });
+      }
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_SERIES_CANCELLATION',
+        entity: 'appointment_series',
+        entityId: series.id,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: {
+          fromAppointmentId: id,
+          cancelled: cancelled.length,
+          skipped: skipped.length,
+        },
+      });
+
+      return { seriesId: series.id, appointments: cancelled, skipped };
+    } catch (error) {
+      advancedLogger.error('Erro ao cancelar agendamentos recorrentes', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id, data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Instantes das ocorrências: mesmo horário local a cada N semanas
+   * Limitado por count ou endDate (inclusive), até MAX_OCCURRENCES
+   */
+  static expandOccurrences(startTime: Date, timezone: string, rule: RecurrenceRule): Date[] {
+    const startDate = formatDateInTimezone(startTime, timezone);
+    const minutes = getMinutesInTimezone(startTime, timezone);
+    const limit = rule.count ?? AppointmentSeriesService.MAX_OCCURRENCES;
+    const occurrences: Date[] = [];
+
+    for (let index = 0; index < limit; index++) {
+      const date = addDaysToDate(startDate, index * 7 * rule.intervalWeeks);
+
+      if (rule.endDate && date > rule.endDate) {
+        return occurrences;
+      }
+
+      occurrences.push(zonedTimeToUtc(date, minutes, timezone));
+    }
+
+    const next = addDaysToDate(startDate, limit * 7 * rule.intervalWeeks);
+
+    if (rule.count === undefined && rule.endDate && next <= rule.endDate) {
+      throw new Error(AppointmentError.RECURRENCE_TOO_LONG);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Carregar a ocorrência, sua série e as ocorrências ainda alteráveis a partir dela
+   */
+  private static async loadFollowing(id: string, user: AuthenticatedUser) {
+    const anchor = await AppointmentService.getById(id, user);
+
+    if (!anchor.seriesId) {
+      throw new Error(AppointmentError.NOT_IN_SERIES);
+    }
+
+    const series = await prisma.appointmentSeries.findUnique({
+      where: { id: anchor.seriesId },
+      include: { barbershop: { select: { timezone: true } } },
+    });
+
+    if (!series) {
+      throw new Error(AppointmentError.NOT_IN_SERIES);
+    }
+
+    const [following, earlier] = await Promise.all([
+      prisma.appointment.findMany({
+        where: {
+          seriesId: series.id,
+          startTime: { gte: anchor.startTime },
+          status: { in: MUTABLE_STATUSES },
+        },
+        select: { id: true, startTime: true },
+        orderBy: { startTime: 'asc' },
+      }),
+      prisma.appointment.count({
+        where: { seriesId: series.id, startTime: { lt: anchor.startTime } },
+      }),
+    ]);
+
+    return {
+      anchor,
+      series,
+      timezone: series.barbershop.timezone,
+      following,
+      hasEarlier: earlier > 0,
+    };
+  }
+
+  /**
+   * Registrar ocorrência pulada; erros que não são de agenda são propagados
+   */
+  private static toSkipped(
+    error: unknown,
+    startTime: Date,
+    appointmentId?: string
+  ): SkippedOccurrence {
+    if (!(error instanceof Error) || !SKIPPABLE_ERRORS.has(error.message)) {
+      throw error;
+    }
+
+    return { appointmentId, startTime, reason: error.message };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Máquina de estados de agendamentos
+ * Define as transições válidas, quem pode executá-las e grava o histórico de auditoria
+ */
+
+import { AppointmentStatus, Role } from '@prisma/client';
+import { TransactionClient } from '@/config/database';
+import { AppointmentError, StatusTransitionRecord } from '@/types/appointment';
+
+const { SCHEDULED, CONFIRMED, IN_PROGRESS, COMPLETED, CANCELLED, NO_SHOW } = AppointmentStatus;
+
+// Transições do fluxo normal (status atual -> próximos status possíveis)
+const TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  [SCHEDULED]: [CONFIRMED, IN_PROGRESS, CANCELLED, NO_SHOW],
+  [CONFIRMED]: [IN_PROGRESS, CANCELLED, NO_SHOW],
+  [IN_PROGRESS]: [COMPLETED],
+  [COMPLETED]: [],
+  [CANCELLED]: [],
+  [NO_SHOW]: [],
+};
+
+// Status de destino que cada papel pode aplicar dentro do fluxo normal
+const ROLE_TARGETS: Record<Role, AppointmentStatus[]> = {
+  [Role.SUPER_ADMIN]: Object.values(AppointmentStatus),
+  [Role.ADMIN]: Object.values(AppointmentStatus),
+  [Role.BARBER]: [CONFIRMED, IN_PROGRESS, COMPLETED, NO_SHOW, CANCELLED],
+  [Role.CLIENT]: [CANCELLED],
+};
+
+export class AppointmentStatusService {
+  static readonly CLIENT_CANCEL_CUTOFF_HOURS = 2;
+
+  /**
+   * Status que podem suceder o status atual no fluxo normal
+   */
+  static getNextStatuses(status: AppointmentStatus): AppointmentStatus[] {
+    return TRANSITIONS[status];
+  }
+
+  /**
+   * Validar uma transição para o papel do usuário
+   * Admins podem sair do fluxo normal (override), desde que informem o motivo
+   * Retorna true quando a transição é um override
+   */
+  static assertTransition(params: {
+    from: AppointmentStatus;
+    to: AppointmentStatus;
+    role: Role;
+    startTime: Date;
+    reason?: string | undefined;
+    now?: Date;
+  }): boolean {
+    const { from, to, role, reason } = params;
+    const now = params.now ?? new Date();
+    const isAdmin = role === Role.ADMIN || role === Role.SUPER_ADMIN;
+
+    if (from === to) {
+      throw new Error(AppointmentError.INVALID_TRANSITION);
+    }
+
+    if (!TRANSITIONS[from].includes(to)) {
+      if (!isAdmin) {
+        throw new Error(AppointmentError.INVALID_TRANSITION);
+      }
+
+      if (!reason) {
+        throw new Error(AppointmentError.REASON_REQUIRED);
+      }
+
+      return true;
+    }
+
+    if (!ROLE_TARGETS[role].includes(to)) {
+      throw new Error(AppointmentError.TRANSITION_FORBIDDEN);
+    }
+
+    // Cliente só cancela com antecedência mínima
+    if (role === Role.CLIENT && to === CANCELLED) {
+      const cutoff = AppointmentStatusService.CLIENT_CANCEL_CUTOFF_HOURS * 3600000;
+      if (params.startTime.getTime() - now.getTime() < cutoff) {
+        throw new Error(AppointmentError.CANCEL_CUTOFF);
+      }
+    }
+
+    // Barbeiro cancela apenas com justificativa
+    if (role === Role.BARBER && to === CANCELLED && !reason) {
+      throw new Error(AppointmentError.REASON_REQUIRED);
+    }
+
+    if (!isAdmin && to === NO_SHOW && now < params.startTime) {
+      throw new Error(AppointmentError.NO_SHOW_TOO_EARLY);
+    }
+
+    return false;
+  }
+
+  /**
+   * Gravar transição no histórico (deve rodar na mesma transação da alteração)
+   */
+  static async record(tx: TransactionClient, record: StatusTransitionRecord) {
+    return tx.appointmentStatusHistory.create({
+      data: {
+        appointmentId: record.appointmentId,
+        fromStatus: record.fromStatus,
+        toStatus: record.toStatus,
+        changedById: record.changedById,
+        reason: record.reason ?? null,
+      },
+    });
+  }
+}
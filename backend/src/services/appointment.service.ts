@@ -0,0 +1,873 @@
+import { Appointment, AppointmentStatus, ExceptionType, Prisma, Role } from '@prisma/client';
+import { prisma, TransactionClient } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { AppointmentReminderService } from '@/services/appointment-reminder.service';
+import { AppointmentStatusService } from '@/services/appointment-status.service';
+import { notificationService } from '@/services/notification.service';
+import { NON_BLOCKING_STATUSES, SchedulingService } from '@/services/scheduling.service';
+import { WaitlistService } from '@/services/waitlist.service';
+import { AuthenticatedUser } from '@/types/auth';
+import { BarbershopPagination } from '@/types/barbershop';
+import {
+  AppointmentError,
+  AppointmentFilters,
+  AppointmentItemSnapshot,
+  AppointmentWriteOptions,
+  CancelAppointmentRequest,
+  CreateAppointmentRequest,
+  RescheduleAppointmentRequest,
+  UnattendedStatusChange,
+  UpdateAppointmentStatusRequest,
+} from '@/types/appointment';
+import { NotificationTemplate } from '@/types/notification';
+import { addDaysToDate, formatDateInTimezone, getMinutesInTimezone } from '@/utils/timezone';
+
+// Constraint de exclusão que impede sobreposição de horários do mesmo barbeiro
+const OVERLAP_CONSTRAINT = 'appointments_no_overlap';
+
+// Status em que o agendamento ainda pode ser remarcado
+export const MUTABLE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+// Template enviado ao cliente em cada mudança de status
+const STATUS_NOTIFICATIONS: Partial<Record<AppointmentStatus, NotificationTemplate>> = {
+  [AppointmentStatus.CONFIRMED]: NotificationTemplate.APPOINTMENT_CONFIRMED,
+  [AppointmentStatus.CANCELLED]: NotificationTemplate.APPOINTMENT_CANCELLED,
+};
+
+// Campos retornados em todas as consultas de agendamento
+const appointmentInclude = {
+  client: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+    },
+  },
+  barber: {
+    select: {
+      id: true,
+      user: { select: { name: true } },
+    },
+  },
+  service: {
+    select: {
+      id: true,
+      name: true,
+      duration: true,
+    },
+  },
+  items: {
+    select: {
+      position: true,
+      price: true,
+      duration: true,
+      service: { select: { id: true, name: true } },
+    },
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.AppointmentInclude;
+
+// Intervalo a reservar na agenda de um barbeiro
+interface SlotReservation {
+  barberId: string;
+  startTime: Date;
+  endTime: Date;
+  excludeId?: string;
+}
+
+export class AppointmentService {
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+
+  /**
+   * Listar agendamentos visíveis para o usuário
+   */
+  static async list(user: AuthenticatedUser, filters: AppointmentFilters = {}) {
+    try {
+      const page = filters.page ?? 1;
+      const limit = filters.limit ?? AppointmentService.DEFAULT_PAGE_SIZE;
+
+      const where: Prisma.AppointmentWhereInput = {
+        AND: [
+          AppointmentService.buildScope(user),
+          {
+            ...(filters.barbershopId && { barbershopId: filters.barbershopId }),
+            ...(filters.barberId && { barberId: filters.barberId }),
+            ...(filters.clientId && { clientId: filters.clientId }),
+            ...(filters.seriesId && { seriesId: filters.seriesId }),
+            ...(filters.status && { status: filters.status }),
+            ...((filters.startDate || filters.endDate) && {
+              startTime: {
+                ...(filters.startDate && { gte: new Date(filters.startDate) }),
+                ...(filters.endDate && { lt: new Date(addDaysToDate(filters.endDate, 1)) }),
+              },
+            }),
+          },
+        ],
+      };
+
+      const [appointments, total] = await prisma.$transaction([
+        prisma.appointment.findMany({
+          where,
+          include: appointmentInclude,
+          orderBy: { startTime: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.appointment.count({ where }),
+      ]);
+
+      const pagination: BarbershopPagination = {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      };
+
+      return { data: appointments, pagination };
+    } catch (error) {
+      advancedLogger.error('Erro ao listar agendamentos', error as Error, {
+        userId: user.id,
+        metadata: { filters },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar agendamento por ID
+   */
+  static async getById(id: string, user: AuthenticatedUser) {
+    try {
+      const appointment = await prisma.appointment.findUnique({
+        where: { id },
+        include: appointmentInclude,
+      });
+
+      if (!appointment) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      AppointmentService.assertAccess(appointment, user);
+
+      return appointment;
+    } catch (error) {
+      advancedLogger.error('Erro ao buscar agendamento', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Criar agendamento
+   * Clientes agendam para si; administradores podem agendar em nome de um cliente
+   */
+  static async create(
+    user: AuthenticatedUser,
+    data: CreateAppointmentRequest,
+    options: AppointmentWriteOptions = {}
+  ) {
+    try {
+      if (user.role === Role.ADMIN && user.barbershopId !== data.barbershopId) {
+        throw new Error(AppointmentError.ACCESS_DENIED);
+      }
+
+      const clientId = user.role === Role.CLIENT ? user.id : (data.clientId ?? user.id);
+
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id: data.barbershopId },
+        select: { id: true, timezone: true },
+      });
+
+      if (!barbershop) {
+        throw new Error('Barbearia não encontrada');
+      }
+
+      const { serviceId, items, duration, totalPrice } =
+        await AppointmentService.resolveBarberServices(
+          barbershop.id,
+          data.barberId,
+          data.serviceIds ?? (data.serviceId ? [data.serviceId] : [])
+        );
+
+      const startTime = new Date(data.startTime);
+      const endTime = new Date(startTime.getTime() + duration * 60000);
+
+      await AppointmentService.validateWorkingTime({
+        barbershopId: barbershop.id,
+        timezone: barbershop.timezone,
+        barberId: data.barberId,
+        startTime,
+        endTime,
+        role: user.role,
+      });
+
+      await WaitlistService.assertSlotNotHeld(data.barberId, startTime, endTime, clientId);
+
+      const appointment = await AppointmentService.reserve(
+        { barberId: data.barberId, startTime, endTime },
+        async (tx) => {
+          const created = await tx.appointment.create({
+            data: {
+              barbershopId: barbershop.id,
+              barberId: data.barberId,
+              clientId,
+              serviceId,
+              startTime,
+              endTime,
+              totalPrice,
+              notes: data.notes ?? null,
+              items: { create: items },
+            },
+            include: appointmentInclude,
+          });
+
+          await AppointmentStatusService.record(tx, {
+            appointmentId: created.id,
+            fromStatus: null,
+            toStatus: created.status,
+            changedById: user.id,
+          });
+
+          return created;
+        }
+      );
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_CREATION',
+        entity: 'appointment',
+        entityId: appointment.id,
+        action: 'CREATE',
+        userId: user.id,
+        metadata: {
+          barbershopId: barbershop.id,
+          barberId: data.barberId,
+          serviceIds: items.map((item) => item.serviceId),
+          clientId,
+          startTime: startTime.toISOString(),
+        },
+      });
+
+      await AppointmentReminderService.schedule(appointment);
+
+      if (options.notify !== false) {
+        await notificationService.notifyAppointment(
+          appointment.id,
+          NotificationTemplate.APPOINTMENT_CREATED
+        );
+      }
+
+      return appointment;
+    } catch (error) {
+      advancedLogger.error('Erro ao criar agendamento', error as Error, {
+        userId: user.id,
+        metadata: { data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remarcar agendamento (novo horário e, opcionalmente, outro barbeiro)
+   */
+  static async reschedule(
+    id: string,
+    user: AuthenticatedUser,
+    data: RescheduleAppointmentRequest,
+    options: AppointmentWriteOptions = {}
+  ) {
+    try {
+      const existing = await prisma.appointment.findUnique({
+        where: { id },
+        include: {
+          barbershop: { select: { timezone: true } },
+          items: { select: { serviceId: true }, orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!existing) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      AppointmentService.assertAccess(existing, user);
+
+      if (!MUTABLE_STATUSES.includes(existing.status)) {
+        throw new Error(AppointmentError.INVALID_STATUS);
+      }
+
+      const barberId = data.barberId ?? existing.barberId;
+      const { items, duration, totalPrice } = await AppointmentService.resolveBarberServices(
+        existing.barbershopId,
+        barberId,
+        existing.items.map((item) => item.serviceId)
+      );
+
+      const startTime = new Date(data.startTime);
+      const endTime = new Date(startTime.getTime() + duration * 60000);
+
+      await AppointmentService.validateWorkingTime({
+        barbershopId: existing.barbershopId,
+        timezone: existing.barbershop.timezone,
+        barberId,
+        startTime,
+        endTime,
+        role: user.role,
+      });
+
+      await WaitlistService.assertSlotNotHeld(barberId, startTime, endTime, existing.clientId);
+
+      const appointment = await AppointmentService.reserve(
+        { barberId, startTime, endTime, excludeId: id },
+        async (tx) => {
+          const updated = await tx.appointment.update({
+            where: { id },
+            data: {
+              barberId,
+              startTime,
+              endTime,
+              status: AppointmentStatus.SCHEDULED,
+              // Preços só mudam quando o barbeiro muda
+              ...(barberId !== existing.barberId && {
+                totalPrice,
+                items: { deleteMany: {}, create: items },
+              }),
+            },
+            include: appointmentInclude,
+          });
+
+          // Remarcação exige nova confirmação
+          if (existing.status !== AppointmentStatus.SCHEDULED) {
+            await AppointmentStatusService.record(tx, {
+              appointmentId: id,
+              fromStatus: existing.status,
+              toStatus: AppointmentStatus.SCHEDULED,
+              changedById: user.id,
+              reason: 'Agendamento remarcado',
+            });
+          }
+
+          return updated;
+        }
+      );
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_RESCHEDULE',
+        entity: 'appointment',
+        entityId: id,
+        action: 'UPDATE',
+        userId: user.id,
+        changes: {
+          startTime: { from: existing.startTime, to: startTime },
+          ...(barberId !== existing.barberId && {
+            barberId: { from: existing.barberId, to: barberId },
+          }),
+        },
+      });
+
+      // Horário anterior fica livre para a lista de espera
+      await WaitlistService.offerFreedSlot({
+        barbershopId: existing.barbershopId,
+        barberId: existing.barberId,
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+      });
+
+      await AppointmentReminderService.schedule(appointment);
+
+      if (options.notify !== false) {
+        await notificationService.notifyAppointment(
+          id,
+          NotificationTemplate.APPOINTMENT_RESCHEDULED
+        );
+      }
+
+      return appointment;
+    } catch (error) {
+      advancedLogger.error('Erro ao remarcar agendamento', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id, data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Passar o agendamento para outro barbeiro no mesmo horário (ex: barbeiro desativado)
+   * Diferente da remarcação, mantém o status e os preços combinados com o cliente
+   */
+  static async reassignBarber(id: string, user: AuthenticatedUser, barberId: string) {
+    try {
+      const existing = await prisma.appointment.findUnique({
+        where: { id },
+        include: {
+          barbershop: { select: { timezone: true } },
+          items: { select: { serviceId: true }, orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!existing) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      AppointmentService.assertAccess(existing, user);
+
+      if (!MUTABLE_STATUSES.includes(existing.status)) {
+        throw new Error(AppointmentError.INVALID_STATUS);
+      }
+
+      // O novo barbeiro precisa executar os mesmos serviços
+      await AppointmentService.resolveBarberServices(
+        existing.barbershopId,
+        barberId,
+        existing.items.map((item) => item.serviceId)
+      );
+
+      const { startTime, endTime } = existing;
+
+      await AppointmentService.validateWorkingTime({
+        barbershopId: existing.barbershopId,
+        timezone: existing.barbershop.timezone,
+        barberId,
+        startTime,
+        endTime,
+        role: user.role,
+      });
+
+      await WaitlistService.assertSlotNotHeld(barberId, startTime, endTime, existing.clientId);
+
+      const appointment = await AppointmentService.reserve(
+        { barberId, startTime, endTime, excludeId: id },
+        (tx) =>
+          tx.appointment.update({
+            where: { id },
+            data: { barberId },
+            include: appointmentInclude,
+          })
+      );
+
+      advancedLogger.business({
+        type: 'APPOINTMENT_REASSIGN',
+        entity: 'appointment',
+        entityId: id,
+        action: 'UPDATE',
+        userId: user.id,
+        changes: { barberId: { from: existing.barberId, to: barberId } },
+      });
+
+      return appointment;
+    } catch (error) {
+      advancedLogger.error('Erro ao passar agendamento para outro barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancelar agendamento
+   */
+  static async cancel(
+    id: string,
+    user: AuthenticatedUser,
+    data: CancelAppointmentRequest = {},
+    options: AppointmentWriteOptions = {}
+  ) {
+    return AppointmentService.updateStatus(
+      id,
+      user,
+      { status: AppointmentStatus.CANCELLED, reason: data.reason },
+      options
+    );
+  }
+
+  /**
+   * Alterar status do agendamento conforme a máquina de estados
+   * A alteração e o registro no histórico são gravados na mesma transação
+   */
+  static async updateStatus(
+    id: string,
+    user: AuthenticatedUser,
+    data: UpdateAppointmentStatusRequest,
+    options: AppointmentWriteOptions = {}
+  ) {
+    try {
+      const existing = await prisma.appointment.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      AppointmentService.assertAccess(existing, user);
+
+      const override = AppointmentStatusService.assertTransition({
+        from: existing.status,
+        to: data.status,
+        role: user.role,
+        startTime: existing.startTime,
+        reason: data.reason,
+      });
+
+      return await AppointmentService.commitStatusChange(
+        existing,
+        { status: data.status, reason: data.reason, changedById: user.id },
+        { role: user.role, override },
+        options
+      );
+    } catch (error) {
+      advancedLogger.error('Erro ao alterar status do agendamento', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id, data },
+      });
+
+      // Override de admin pode reativar um horário já ocupado (constraint de exclusão)
+      throw AppointmentService.isConflictError(error)
+        ? new Error(AppointmentError.TIME_CONFLICT)
+        : error;
+    }
+  }
+
+  /**
+   * Alterar status sem usuário autenticado (link assinado do lembrete ou rotina automática)
+   * Não passa pela máquina de estados por papel: vale apenas a partir dos status permitidos
+   */
+  static async applyUnattendedStatus(id: string, change: UnattendedStatusChange) {
+    try {
+      const existing = await prisma.appointment.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      if (!change.allowedFrom.includes(existing.status)) {
+        throw new Error(AppointmentError.INVALID_STATUS);
+      }
+
+      return await AppointmentService.commitStatusChange(existing, change, {
+        unattended: true,
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      // Agendamento removido ou já fora dos status permitidos é esperado (ex: falta automática
+      // de um atendimento realizado) e fica a cargo de quem chamou
+      if (message !== AppointmentError.NOT_FOUND && message !== AppointmentError.INVALID_STATUS) {
+        advancedLogger.error('Erro ao alterar status do agendamento sem usuário', error as Error, {
+          metadata: { appointmentId: id, change },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Histórico de status do agendamento (mais antigo primeiro)
+   */
+  static async getHistory(id: string, user: AuthenticatedUser) {
+    try {
+      const appointment = await prisma.appointment.findUnique({
+        where: { id },
+        select: { clientId: true, barberId: true, barbershopId: true },
+      });
+
+      if (!appointment) {
+        throw new Error(AppointmentError.NOT_FOUND);
+      }
+
+      AppointmentService.assertAccess(appointment, user);
+
+      return await prisma.appointmentStatusHistory.findMany({
+        where: { appointmentId: id },
+        include: { changedBy: { select: { id: true, name: true, role: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao buscar histórico do agendamento', error as Error, {
+        userId: user.id,
+        metadata: { appointmentId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Filtro de visibilidade por papel do usuário
+   */
+  private static buildScope(user: AuthenticatedUser): Prisma.AppointmentWhereInput {
+    switch (user.role) {
+      case Role.SUPER_ADMIN:
+        return {};
+      case Role.ADMIN:
+        return { barbershopId: user.barbershopId ?? '' };
+      case Role.BARBER:
+        return { barberId: user.barberId ?? '' };
+      default:
+        return { clientId: user.id };
+    }
+  }
+
+  /**
+   * Garantir que o usuário pode acessar o agendamento
+   */
+  private static assertAccess(
+    appointment: { clientId: string; barberId: string; barbershopId: string },
+    user: AuthenticatedUser
+  ): void {
+    const allowed =
+      user.role === Role.SUPER_ADMIN ||
+      (user.role === Role.ADMIN && appointment.barbershopId === user.barbershopId) ||
+      (user.role === Role.BARBER && appointment.barberId === user.barberId) ||
+      (user.role === Role.CLIENT && appointment.clientId === user.id);
+
+    if (!allowed) {
+      throw new Error(AppointmentError.ACCESS_DENIED);
+    }
+  }
+
+  /**
+   * Validar que o barbeiro executa os serviços e calcular preço e duração de cada um
+   * Preço: customPrice do barbeiro, com fallback para o preço base do serviço
+   */
+  private static async resolveBarberServices(
+    barbershopId: string,
+    barberId: string,
+    serviceIds: string[]
+  ) {
+    const services = await prisma.service.findMany({
+      where: { id: { in: serviceIds }, barbershopId, isActive: true },
+    });
+
+    const [serviceId] = serviceIds;
+
+    if (!serviceId || services.length !== new Set(serviceIds).size) {
+      throw new Error('Serviço não encontrado');
+    }
+
+    const barber = await prisma.barber.findFirst({
+      where: { id: barberId, barbershopId, isActive: true },
+      include: { services: { where: { serviceId: { in: serviceIds } } } },
+    });
+
+    if (!barber) {
+      throw new Error('Barbeiro não encontrado');
+    }
+
+    const items: AppointmentItemSnapshot[] = [];
+
+    for (const [position, id] of serviceIds.entries()) {
+      const service = services.find((item) => item.id === id);
+      const barberService = barber.services.find((item) => item.serviceId === id);
+
+      if (!service) {
+        throw new Error('Serviço não encontrado');
+      }
+
+      if (!barberService) {
+        throw new Error(AppointmentError.SERVICE_NOT_OFFERED);
+      }
+
+      if (!barberService.isActive) {
+        throw new Error(AppointmentError.INVALID_SERVICE);
+      }
+
+      items.push({
+        serviceId: id,
+        position,
+        price: barberService.customPrice ?? service.price,
+        duration: service.duration,
+      });
+    }
+
+    return {
+      serviceId,
+      items,
+      duration: items.reduce((total, item) => total + item.duration, 0),
+      totalPrice: items.reduce((total, item) => total.add(item.price), new Prisma.Decimal(0)),
+    };
+  }
+
+  /**
+   * Gravar a mudança de status com o histórico na mesma transação e disparar os efeitos
+   * (lista de espera, notificação ao cliente, lembretes)
+   */
+  private static async commitStatusChange(
+    existing: Appointment,
+    change: Omit<UnattendedStatusChange, 'allowedFrom'>,
+    metadata: Record<string, unknown>,
+    options: AppointmentWriteOptions = {}
+  ) {
+    const { id } = existing;
+
+    const appointment = await prisma.$transaction(async (tx) => {
+      // Condiciona ao status lido para não sobrescrever alteração concorrente
+      const { count } = await tx.appointment.updateMany({
+        where: { id, status: existing.status },
+        data: { status: change.status },
+      });
+
+      if (count === 0) {
+        throw new Error(AppointmentError.INVALID_STATUS);
+      }
+
+      await AppointmentStatusService.record(tx, {
+        appointmentId: id,
+        fromStatus: existing.status,
+        toStatus: change.status,
+        changedById: change.changedById,
+        reason: change.reason,
+      });
+
+      return tx.appointment.findUniqueOrThrow({ where: { id }, include: appointmentInclude });
+    });
+
+    advancedLogger.business({
+      type: 'APPOINTMENT_STATUS_CHANGE',
+      entity: 'appointment',
+      entityId: id,
+      action: 'UPDATE',
+      ...(change.changedById && { userId: change.changedById }),
+      changes: { status: { from: existing.status, to: change.status } },
+      metadata: { ...metadata, reason: change.reason },
+    });
+
+    if (change.status === AppointmentStatus.CANCELLED) {
+      await WaitlistService.offerFreedSlot({
+        barbershopId: existing.barbershopId,
+        barberId: existing.barberId,
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+      });
+    }
+
+    const template = STATUS_NOTIFICATIONS[change.status];
+
+    if (template && options.notify !== false) {
+      await notificationService.notifyAppointment(id, template, {
+        reason: change.reason ? `Motivo: ${change.reason}` : '',
+      });
+    }
+
+    return appointment;
+  }
+
+  /**
+   * Validar horário futuro e expediente do barbeiro (regras de precedência)
+   */
+  private static async validateWorkingTime(params: {
+    barbershopId: string;
+    timezone: string;
+    barberId: string;
+    startTime: Date;
+    endTime: Date;
+    role: Role;
+  }): Promise<void> {
+    const { timezone, startTime, endTime } = params;
+    const now = Date.now();
+
+    if (startTime.getTime() <= now) {
+      throw new Error(AppointmentError.PAST_TIME);
+    }
+
+    if (
+      params.role === Role.CLIENT &&
+      startTime.getTime() < now + SchedulingService.MIN_BOOKING_NOTICE_MINUTES * 60000
+    ) {
+      throw new Error(AppointmentError.MIN_NOTICE);
+    }
+
+    const date = formatDateInTimezone(startTime, timezone);
+    const rules = await SchedulingService.getDayRules(params.barbershopId, params.barberId, date);
+    const hours = SchedulingService.resolveWorkingHours(rules);
+
+    if (!hours) {
+      throw new Error(
+        rules.barberException?.type === ExceptionType.VACATION
+          ? AppointmentError.BARBER_ON_VACATION
+          : AppointmentError.BARBER_UNAVAILABLE
+      );
+    }
+
+    const start = getMinutesInTimezone(startTime, timezone);
+    const end = start + Math.round((endTime.getTime() - startTime.getTime()) / 60000);
+
+    if (start < hours.start || start >= hours.end) {
+      throw new Error(AppointmentError.BARBER_NOT_WORKING);
+    }
+
+    if (end > hours.end) {
+      throw new Error(AppointmentError.SERVICE_TOO_LONG);
+    }
+
+    if (!SchedulingService.fitsWorkingHours(hours, { start, end })) {
+      throw new Error(AppointmentError.BARBER_NOT_WORKING);
+    }
+  }
+
+  /**
+   * Reservar horário na agenda do barbeiro sem sobreposição
+   * Verificação + escrita em transação serializável; a constraint de exclusão
+   * do banco garante a regra mesmo se duas transações concorrentes passarem
+   */
+  private static async reserve<T>(
+    slot: SlotReservation,
+    write: (tx: TransactionClient) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const conflict = await tx.appointment.findFirst({
+            where: {
+              barberId: slot.barberId,
+              status: { notIn: NON_BLOCKING_STATUSES },
+              startTime: { lt: slot.endTime },
+              endTime: { gt: slot.startTime },
+              ...(slot.excludeId && { id: { not: slot.excludeId } }),
+            },
+            select: { id: true },
+          });
+
+          if (conflict) {
+            throw new Error(AppointmentError.TIME_CONFLICT);
+          }
+
+          return write(tx);
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      if (AppointmentService.isConflictError(error)) {
+        advancedLogger.warn('Conflito de horário detectado', {
+          metadata: {
+            barberId: slot.barberId,
+            startTime: slot.startTime.toISOString(),
+            endTime: slot.endTime.toISOString(),
+          },
+        });
+        throw new Error(AppointmentError.TIME_CONFLICT);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Identificar erros de concorrência/sobreposição vindos do banco
+   */
+  private static isConflictError(error: unknown): boolean {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return true;
+    }
+
+    return (
+      error instanceof Error &&
+      (error.message === AppointmentError.TIME_CONFLICT ||
+        error.message.includes(OVERLAP_CONSTRAINT) ||
+        error.message.includes('23P01'))
+    );
+  }
+}
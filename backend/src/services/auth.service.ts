@@ -1,8 +1,12 @@
+import { randomUUID } from 'crypto';
 import { Role } from '@prisma/client';
 import { prisma } from '@/config/database';
 import { advancedLogger } from '@/config/logger';
 import { Cacheable, CacheEvict } from '@/utils/cache-decorators';
 import { CACHE_TTL, CACHE_PREFIXES } from '@/config/redis';
+import { emailService } from '@/services/email.service';
+import { SessionService } from '@/services/session.service';
+import { TokenRevocationService } from '@/services/token-revocation.service';
 import {
   hashPassword,
   verifyPassword,
@@ -25,13 +29,21 @@ import {
   ChangePasswordRequest,
   UpdateProfileRequest,
   AuthenticatedUser,
+  JWTPayload,
+  RefreshTokenPayload,
+  SessionContext,
 } from '@/types/auth';
 
 export class AuthService {
+  private static readonly RESET_TOKEN_TTL_MINUTES = 60;
+
   /**
    * Registrar novo usuário
    */
-  static async register(data: RegisterRequest): Promise<AuthResponse> {
+  static async register(
+    data: RegisterRequest,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
     try {
       // Verificar se email já existe
       const existingUser = await prisma.user.findUnique({
@@ -95,7 +107,7 @@ export class AuthService {
       });
 
       // Gerar tokens
-      const tokens = this.generateTokensForUser(user);
+      const tokens = await this.generateTokensForUser(user, context);
 
       return {
         user: {
@@ -121,7 +133,7 @@ export class AuthService {
   /**
    * Login do usuário
    */
-  static async login(data: LoginRequest): Promise<AuthResponse> {
+  static async login(data: LoginRequest, context: SessionContext = {}): Promise<AuthResponse> {
     try {
       // Buscar usuário por email
       const user = await prisma.user.findUnique({
@@ -167,7 +179,7 @@ export class AuthService {
       });
 
       // Gerar tokens
-      const tokens = this.generateTokensForUser(user);
+      const tokens = await this.generateTokensForUser(user, context);
 
       return {
         user: {
@@ -191,7 +203,10 @@ export class AuthService {
   /**
    * Refresh token
    */
-  static async refreshToken(refreshToken: string): Promise<AuthResponse> {
+  static async refreshToken(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
     try {
       // Verificar refresh token
       const payload = verifyRefreshToken(refreshToken);
@@ -219,15 +234,25 @@ export class AuthService {
         throw new Error('Usuário não encontrado');
       }
 
+      // Tokens emitidos antes de um reset de senha foram revogados
+      if (payload.tokenVersion !== user.tokenVersion) {
+        throw new Error('Refresh token revogado');
+      }
+
       // Verificar se barbeiro está ativo
       if (user.role === Role.BARBER && user.barberProfile && !user.barberProfile.isActive) {
         throw new Error('Conta de barbeiro desativada');
       }
 
-      advancedLogger.info('Token renovado', { userId: user.id, metadata: { email: user.email } });
+      // Tokens emitidos antes da rotação não pertencem a nenhuma sessão
+      if (!payload.sid || !payload.jti) {
+        throw new Error('Refresh token inválido');
+      }
 
-      // Gerar novos tokens
-      const tokens = this.generateTokensForUser(user);
+      // Gerar novos tokens na mesma sessão, invalidando o refresh token apresentado
+      const tokens = await this.generateTokensForUser(user, context, payload);
+
+      advancedLogger.info('Token renovado', { userId: user.id, metadata: { email: user.email } });
 
       return {
         user: {
@@ -263,20 +288,29 @@ export class AuthService {
         return;
       }
 
-      // Gerar token de reset
+      // Gerar token de reset (apenas o hash é persistido)
       const resetToken = generateResetToken();
-      const hashedToken = hashResetToken(resetToken);
-      const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hora
+      const expiresAt = new Date(Date.now() + AuthService.RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+      // Apenas o link mais recente permanece válido
+      await prisma.$transaction([
+        prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+        prisma.passwordResetToken.create({
+          data: { userId: user.id, tokenHash: hashResetToken(resetToken), expiresAt },
+        }),
+      ]);
+
+      await emailService.sendPasswordResetEmail({
+        to: user.email,
+        name: user.name,
+        token: resetToken,
+        expiresAt,
+      });
 
-      // Salvar token no banco (implementar tabela de reset tokens)
-      // Por enquanto, apenas log
       advancedLogger.info('Token de reset gerado', {
         userId: user.id,
-        metadata: { email: user.email, expiresAt, hashedToken }
+        metadata: { email: user.email, expiresAt },
       });
-
-      // TODO: Enviar email com token de reset
-      // await emailService.sendPasswordResetEmail(user.email, resetToken);
     } catch (error) {
       advancedLogger.error('Erro no esqueci a senha', error as Error);
       throw error;
@@ -288,8 +322,13 @@ export class AuthService {
    */
   static async resetPassword(data: ResetPasswordRequest): Promise<void> {
     try {
-      // TODO: Implementar verificação do token de reset
-      // Por enquanto, apenas validar a senha
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashResetToken(data.token) },
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+        throw new Error('Token de reset inválido ou expirado');
+      }
 
       const passwordValidation = validatePasswordStrength(data.password);
       if (!passwordValidation.isValid) {
@@ -299,9 +338,41 @@ export class AuthService {
       // Hash da nova senha
       const hashedPassword = await hashPassword(data.password);
 
-      // TODO: Atualizar senha do usuário baseado no token
-      advancedLogger.info('Reset de senha realizado', {
-        metadata: { token: data.token, hashedPassword }
+      await prisma.$transaction(async (tx) => {
+        const now = new Date();
+
+        // Consumo condicional garante uso único mesmo com requisições simultâneas
+        const { count } = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: now },
+        });
+
+        if (count === 0) {
+          throw new Error('Token de reset inválido ou expirado');
+        }
+
+        // Nova versão invalida todos os refresh tokens já emitidos
+        await tx.user.update({
+          where: { id: resetToken.userId },
+          data: { password: hashedPassword, tokenVersion: { increment: 1 } },
+        });
+
+        // Demais links pendentes do usuário deixam de valer
+        await tx.passwordResetToken.updateMany({
+          where: { userId: resetToken.userId, usedAt: null },
+          data: { usedAt: now },
+        });
+      });
+
+      // Encerrar sessões abertas (access tokens deixam de valer imediatamente)
+      await SessionService.revokeAll(resetToken.userId);
+
+      advancedLogger.business({
+        type: 'PASSWORD_RESET',
+        entity: 'user',
+        entityId: resetToken.userId,
+        action: 'UPDATE',
+        userId: resetToken.userId,
       });
     } catch (error) {
       advancedLogger.error('Erro no reset de senha', error as Error);
@@ -412,21 +483,100 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logout da sessão atual
+   * Revoga a família de refresh tokens e coloca o access token na denylist
+   */
+  static async logout(
+    userId: string,
+    token: Pick<JWTPayload, 'sid' | 'jti' | 'exp'>
+  ): Promise<void> {
+    try {
+      await TokenRevocationService.denyAccessToken(token);
+
+      if (token.sid) {
+        await SessionService.revoke(userId, token.sid);
+      }
+
+      advancedLogger.business({
+        type: 'LOGOUT',
+        entity: 'user',
+        entityId: userId,
+        action: 'UPDATE',
+        userId,
+        metadata: { sessionId: token.sid },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro no logout', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Logout de todos os dispositivos
+   * Retorna a quantidade de sessões encerradas
+   */
+  static async logoutAll(userId: string): Promise<number> {
+    try {
+      // Nova versão invalida refresh tokens mesmo que o Redis perca as sessões
+      await prisma.user.update({
+        where: { id: userId },
+        data: { tokenVersion: { increment: 1 } },
+      });
+
+      const sessions = await SessionService.revokeAll(userId);
+
+      advancedLogger.business({
+        type: 'LOGOUT_ALL',
+        entity: 'user',
+        entityId: userId,
+        action: 'UPDATE',
+        userId,
+        metadata: { sessions },
+      });
+
+      return sessions;
+    } catch (error) {
+      advancedLogger.error('Erro no logout de todos os dispositivos', error as Error, { userId });
+      throw error;
+    }
+  }
+
   /**
    * Gerar tokens para usuário
+   * Sem refresh token anterior inicia uma nova sessão; com ele, rotaciona a sessão existente
    */
-  private static generateTokensForUser(user: any) {
+  private static async generateTokensForUser(
+    user: any,
+    context: SessionContext,
+    previous?: RefreshTokenPayload
+  ) {
+    const sessionId = previous?.sid ?? randomUUID();
+    const refreshJti = randomUUID();
+
+    if (previous) {
+      await this.rotateSession(user.id, previous, refreshJti);
+      await SessionService.touch(sessionId, context);
+    } else {
+      await SessionService.start(user.id, sessionId, refreshJti, context);
+    }
+
     const accessToken = generateAccessToken({
       userId: user.id,
       email: user.email,
       role: user.role,
       barbershopId: user.barbershop?.id ?? user.barberProfile?.barbershopId,
       barberId: user.barberProfile?.id,
+      tokenVersion: user.tokenVersion,
+      sid: sessionId,
+      jti: randomUUID(),
     });
 
     const refreshToken = generateRefreshToken({
       userId: user.id,
-      tokenVersion: 1, // TODO: Implementar versionamento de tokens
+      tokenVersion: user.tokenVersion,
+      sid: sessionId,
+      jti: refreshJti,
     });
 
     return {
@@ -436,6 +586,41 @@ export class AuthService {
     };
   }
 
+  /**
+   * Rotacionar refresh token com detecção de reutilização
+   */
+  private static async rotateSession(
+    userId: string,
+    previous: RefreshTokenPayload,
+    nextJti: string
+  ): Promise<void> {
+    const result = await TokenRevocationService.rotateRefreshToken(
+      previous.sid,
+      previous.jti,
+      nextJti
+    );
+
+    if (result === 'revoked') {
+      throw new Error('Refresh token revogado');
+    }
+
+    if (result === 'reused') {
+      // Token já trocado foi reapresentado: não há como saber quem é o legítimo, derrubar a família
+      await SessionService.revoke(userId, previous.sid);
+
+      advancedLogger.security({
+        type: 'SUSPICIOUS_ACTIVITY',
+        userId,
+        ip: '',
+        userAgent: '',
+        details: { reason: 'REFRESH_TOKEN_REUSE', sessionId: previous.sid, timestamp: new Date() },
+        severity: 'HIGH',
+      });
+
+      throw new Error('Refresh token reutilizado');
+    }
+  }
+
   /**
    * Buscar usuário por ID com cache
    */
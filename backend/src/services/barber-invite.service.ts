@@ -0,0 +1,264 @@
+/**
+ * Serviço de Convites de Barbeiros
+ * O admin convida por email; o convidado define a senha e entra na equipe como BARBER
+ */
+
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { AuthService } from '@/services/auth.service';
+import { emailService } from '@/services/email.service';
+import {
+  generateResetToken,
+  hashResetToken,
+  hashPassword,
+  validatePasswordStrength,
+} from '@/utils/crypto';
+import { AuthResponse, SessionContext } from '@/types/auth';
+import {
+  AcceptInviteRequest,
+  BarberError,
+  InviteBarberRequest,
+  InvitePreview,
+} from '@/types/barber';
+
+// Campos expostos do convite (nunca o hash do token)
+const inviteSelect = {
+  id: true,
+  email: true,
+  name: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true } },
+} as const;
+
+export class BarberInviteService {
+  private static readonly INVITE_TTL_HOURS = 72;
+
+  /**
+   * Convidar barbeiro por email
+   * Um novo convite para o mesmo email substitui o pendente
+   */
+  static async invite(barbershopId: string, data: InviteBarberRequest, invitedById: string) {
+    try {
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id: barbershopId },
+        select: { id: true, name: true },
+      });
+
+      if (!barbershop) {
+        throw new Error(BarberError.BARBERSHOP_NOT_FOUND);
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: data.email },
+        select: { id: true },
+      });
+
+      if (existingUser) {
+        throw new Error(BarberError.EMAIL_ALREADY_REGISTERED);
+      }
+
+      // Gerar token do convite (apenas o hash é persistido)
+      const token = generateResetToken();
+      const expiresAt = new Date(Date.now() + BarberInviteService.INVITE_TTL_HOURS * 3600000);
+
+      const [, invite] = await prisma.$transaction([
+        prisma.barberInvite.updateMany({
+          where: { barbershopId, email: data.email, acceptedAt: null, revokedAt: null },
+          data: { revokedAt: new Date() },
+        }),
+        prisma.barberInvite.create({
+          data: {
+            barbershopId,
+            email: data.email,
+            name: data.name ?? null,
+            tokenHash: hashResetToken(token),
+            invitedById,
+            expiresAt,
+          },
+          select: inviteSelect,
+        }),
+      ]);
+
+      await emailService.sendBarberInviteEmail({
+        to: data.email,
+        name: data.name,
+        barbershopName: barbershop.name,
+        token,
+        expiresAt,
+      });
+
+      advancedLogger.business({
+        type: 'BARBER_INVITE',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'CREATE',
+        userId: invitedById,
+        metadata: { inviteId: invite.id, email: data.email },
+      });
+
+      return invite;
+    } catch (error) {
+      advancedLogger.error('Erro ao convidar barbeiro', error as Error, {
+        userId: invitedById,
+        metadata: { barbershopId, email: data.email },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Listar convites pendentes da barbearia
+   */
+  static async listPending(barbershopId: string) {
+    try {
+      return await prisma.barberInvite.findMany({
+        where: {
+          barbershopId,
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        select: inviteSelect,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar convites', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revogar convite pendente
+   */
+  static async revoke(barbershopId: string, inviteId: string, userId: string): Promise<void> {
+    try {
+      const { count } = await prisma.barberInvite.updateMany({
+        where: { id: inviteId, barbershopId, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new Error(BarberError.INVITE_NOT_FOUND);
+      }
+
+      advancedLogger.business({
+        type: 'BARBER_INVITE_REVOCATION',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'UPDATE',
+        userId,
+        metadata: { inviteId },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao revogar convite', error as Error, {
+        userId,
+        metadata: { barbershopId, inviteId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Dados do convite para a tela de aceite
+   */
+  static async preview(token: string): Promise<InvitePreview> {
+    const invite = await this.findValid(token);
+
+    return {
+      email: invite.email,
+      name: invite.name,
+      barbershopName: invite.barbershop.name,
+      expiresAt: invite.expiresAt,
+    };
+  }
+
+  /**
+   * Aceitar convite: cria a conta como BARBER da barbearia e inicia a sessão
+   */
+  static async accept(
+    data: AcceptInviteRequest,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
+    try {
+      const invite = await this.findValid(data.token);
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invite.email },
+        select: { id: true },
+      });
+
+      if (existingUser) {
+        throw new Error(BarberError.EMAIL_ALREADY_REGISTERED);
+      }
+
+      const passwordValidation = validatePasswordStrength(data.password);
+      if (!passwordValidation.isValid) {
+        throw new Error(`Senha fraca: ${passwordValidation.errors.join(', ')}`);
+      }
+
+      const hashedPassword = await hashPassword(data.password);
+
+      const user = await prisma.$transaction(async (tx) => {
+        // Consumo condicional garante uso único mesmo com requisições simultâneas
+        const { count } = await tx.barberInvite.updateMany({
+          where: { id: invite.id, acceptedAt: null, revokedAt: null },
+          data: { acceptedAt: new Date() },
+        });
+
+        if (count === 0) {
+          throw new Error(BarberError.INVITE_INVALID);
+        }
+
+        const created = await tx.user.create({
+          data: {
+            email: invite.email,
+            name: data.name,
+            password: hashedPassword,
+            phone: data.phone ?? null,
+            role: Role.BARBER,
+          },
+        });
+
+        await tx.barber.create({
+          data: { userId: created.id, barbershopId: invite.barbershopId },
+        });
+
+        return created;
+      });
+
+      advancedLogger.business({
+        type: 'BARBER_INVITE_ACCEPTED',
+        entity: 'user',
+        entityId: user.id,
+        action: 'CREATE',
+        userId: user.id,
+        metadata: { barbershopId: invite.barbershopId, inviteId: invite.id },
+      });
+
+      return await AuthService.login({ email: invite.email, password: data.password }, context);
+    } catch (error) {
+      advancedLogger.error('Erro ao aceitar convite', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar convite pendente e dentro da validade pelo token
+   */
+  private static async findValid(token: string) {
+    const invite = await prisma.barberInvite.findUnique({
+      where: { tokenHash: hashResetToken(token) },
+      include: { barbershop: { select: { name: true } } },
+    });
+
+    if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt <= new Date()) {
+      throw new Error(BarberError.INVITE_INVALID);
+    }
+
+    return invite;
+  }
+}
@@ -0,0 +1,347 @@
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import {
+  BarbershopFilters,
+  BarbershopPagination,
+  CreateBarbershopRequest,
+  UpdateBarbershopRequest,
+} from '@/types/barbershop';
+import { DEFAULT_GLOBAL_SCHEDULE } from '@/types/scheduling';
+import { generateSlug } from '@/utils/slug';
+
+// Campos retornados em todas as consultas de barbearia
+const barbershopInclude = {
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+    },
+  },
+  _count: {
+    select: {
+      barbers: true,
+      services: true,
+      appointments: true,
+    },
+  },
+} satisfies Prisma.BarbershopInclude;
+
+// Relacionamentos adicionais quando includeDetails=true
+const barbershopDetailsInclude = {
+  ...barbershopInclude,
+  barbers: {
+    where: { isActive: true },
+    select: {
+      id: true,
+      description: true,
+      experience: true,
+      specialties: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          avatar: true,
+        },
+      },
+    },
+  },
+  services: {
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+  },
+  schedules: {
+    orderBy: { dayOfWeek: 'asc' },
+  },
+} satisfies Prisma.BarbershopInclude;
+
+// Dados públicos exibidos no link de agendamento (/b/:slug)
+const publicBarbershopSelect = {
+  id: true,
+  slug: true,
+  name: true,
+  description: true,
+  address: true,
+  phone: true,
+  logo: true,
+  timezone: true,
+  currency: true,
+} satisfies Prisma.BarbershopSelect;
+
+export class BarbershopService {
+  private static readonly DEFAULT_PAGE_SIZE = 10;
+  private static readonly SLUG_ATTEMPTS = 3;
+
+  /**
+   * Listar barbearias com paginação e filtros
+   */
+  static async list(filters: BarbershopFilters = {}) {
+    try {
+      const page = filters.page ?? 1;
+      const limit = filters.limit ?? BarbershopService.DEFAULT_PAGE_SIZE;
+
+      const where: Prisma.BarbershopWhereInput = {
+        ...(filters.ownerId && { ownerId: filters.ownerId }),
+        ...(filters.search && {
+          OR: [
+            { name: { contains: filters.search, mode: 'insensitive' } },
+            { address: { contains: filters.search, mode: 'insensitive' } },
+            { email: { contains: filters.search, mode: 'insensitive' } },
+          ],
+        }),
+      };
+
+      const [barbershops, total] = await prisma.$transaction([
+        prisma.barbershop.findMany({
+          where,
+          include: barbershopInclude,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.barbershop.count({ where }),
+      ]);
+
+      const pagination: BarbershopPagination = {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      };
+
+      return { data: barbershops, pagination };
+    } catch (error) {
+      advancedLogger.error('Erro ao listar barbearias', error as Error, {
+        metadata: { filters },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar barbearia por ID
+   */
+  static async getById(id: string, includeDetails = false) {
+    try {
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id },
+        include: includeDetails ? barbershopDetailsInclude : barbershopInclude,
+      });
+
+      if (!barbershop) {
+        throw new Error('Barbearia não encontrada');
+      }
+
+      return barbershop;
+    } catch (error) {
+      advancedLogger.error('Erro ao buscar barbearia', error as Error, {
+        metadata: { barbershopId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar barbearia pelo slug do link público de agendamento
+   * Retorna apenas os dados exibidos no agendamento (acesso sem login)
+   */
+  static async getBySlug(slug: string) {
+    try {
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { slug },
+        select: publicBarbershopSelect,
+      });
+
+      if (!barbershop) {
+        throw new Error('Barbearia não encontrada');
+      }
+
+      return barbershop;
+    } catch (error) {
+      advancedLogger.error('Erro ao buscar barbearia pelo slug', error as Error, {
+        metadata: { slug },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Criar barbearia (o usuário autenticado se torna o dono)
+   */
+  static async create(ownerId: string, data: CreateBarbershopRequest) {
+    try {
+      const owner = await prisma.user.findUnique({
+        where: { id: ownerId },
+        include: { barbershop: { select: { id: true } } },
+      });
+
+      if (!owner) {
+        throw new Error('Usuário não encontrado');
+      }
+
+      if (owner.role !== Role.ADMIN && owner.role !== Role.SUPER_ADMIN) {
+        throw new Error('Apenas administradores podem criar barbearias');
+      }
+
+      if (owner.barbershop) {
+        throw new Error('Usuário já possui uma barbearia');
+      }
+
+      const barbershop = await BarbershopService.createWithUniqueSlug(data.name, (slug) =>
+        prisma.barbershop.create({
+          data: {
+            name: data.name,
+            slug,
+            description: data.description ?? null,
+            address: data.address,
+            phone: data.phone,
+            email: data.email,
+            website: data.website ?? null,
+            ...(data.timezone !== undefined && { timezone: data.timezone }),
+            ...(data.currency !== undefined && { currency: data.currency }),
+            ownerId,
+            // Horário de funcionamento inicial, editável pelo admin
+            schedules: { create: [...DEFAULT_GLOBAL_SCHEDULE] },
+          },
+          include: barbershopInclude,
+        })
+      );
+
+      advancedLogger.business({
+        type: 'BARBERSHOP_CREATION',
+        entity: 'barbershop',
+        entityId: barbershop.id,
+        action: 'CREATE',
+        userId: ownerId,
+        metadata: { name: barbershop.name },
+      });
+
+      return barbershop;
+    } catch (error) {
+      advancedLogger.error('Erro ao criar barbearia', error as Error, { userId: ownerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar barbearia
+   */
+  static async update(id: string, data: UpdateBarbershopRequest, userId: string) {
+    try {
+      const barbershop = await prisma.barbershop.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.address !== undefined && { address: data.address }),
+          ...(data.phone !== undefined && { phone: data.phone }),
+          ...(data.email !== undefined && { email: data.email }),
+          ...(data.website !== undefined && { website: data.website }),
+          ...(data.timezone !== undefined && { timezone: data.timezone }),
+          ...(data.currency !== undefined && { currency: data.currency }),
+        },
+        include: barbershopInclude,
+      });
+
+      advancedLogger.business({
+        type: 'BARBERSHOP_UPDATE',
+        entity: 'barbershop',
+        entityId: barbershop.id,
+        action: 'UPDATE',
+        userId,
+        metadata: { fields: Object.keys(data) },
+      });
+
+      return barbershop;
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover barbearia
+   * Só é permitido quando não há barbeiros, serviços ou agendamentos vinculados
+   */
+  static async delete(id: string, userId: string): Promise<void> {
+    try {
+      const barbershop = await BarbershopService.getById(id);
+
+      const { barbers, services, appointments } = barbershop._count;
+      if (barbers > 0 || services > 0 || appointments > 0) {
+        throw new Error('Barbearia possui barbeiros, serviços ou agendamentos vinculados');
+      }
+
+      await prisma.$transaction([
+        prisma.globalSchedule.deleteMany({ where: { barbershopId: id } }),
+        prisma.globalException.deleteMany({ where: { barbershopId: id } }),
+        prisma.barbershop.delete({ where: { id } }),
+      ]);
+
+      advancedLogger.business({
+        type: 'BARBERSHOP_DELETION',
+        entity: 'barbershop',
+        entityId: id,
+        action: 'DELETE',
+        userId,
+        metadata: { name: barbershop.name },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao remover barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Slug do link público a partir do nome, com sufixo numérico se já estiver em uso
+   * (ex: "barbearia-centro", "barbearia-centro-2"). Não muda quando o nome é alterado,
+   * para não quebrar links já divulgados
+   */
+  private static async uniqueSlug(name: string): Promise<string> {
+    const base = generateSlug(name) || 'barbearia';
+    const existing = await prisma.barbershop.findMany({
+      where: { slug: { startsWith: base } },
+      select: { slug: true },
+    });
+    const taken = new Set(existing.map(({ slug }) => slug));
+
+    let slug = base;
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+
+    return slug;
+  }
+
+  /**
+   * Criar com o slug livre; se outra barbearia de mesmo nome ocupar o slug entre a consulta
+   * e a gravação (P2002 no slug), o slug é calculado de novo
+   */
+  private static async createWithUniqueSlug<T>(
+    name: string,
+    create: (slug: string) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await create(await BarbershopService.uniqueSlug(name));
+      } catch (error) {
+        const slugTaken =
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002' &&
+          (error.meta?.['target'] as string[] | undefined)?.includes('slug');
+
+        if (!slugTaken || attempt >= BarbershopService.SLUG_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Serviço de Email
+ * Envio desacoplado do transporte: console e arquivo para desenvolvimento/testes, SMTP em produção
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '@/config/env';
+import { advancedLogger } from '@/config/logger';
+import {
+  AppointmentChangeEmail,
+  BarberInviteEmail,
+  EmailMessage,
+  EmailTransport,
+  PasswordResetEmail,
+  WaitlistOfferEmail,
+} from '@/types/email';
+
+/**
+ * Escapar valor interpolado no HTML dos emails
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Transporte que apenas registra destinatário e assunto no log (o corpo pode conter tokens)
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    advancedLogger.info(`Email para ${message.to}: ${message.subject}`, {
+      metadata: { to: message.to, subject: message.subject },
+    });
+  }
+}
+
+/**
+ * Transporte que grava cada email como JSON em um diretório (caixa de saída local)
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const content = { ...message, createdAt: new Date().toISOString() };
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(content, null, 2));
+  }
+}
+
+/**
+ * Transporte SMTP via nodemailer
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter = nodemailer.createTransport({
+    host: config.email.host,
+    port: config.email.port,
+    secure: config.email.port === 465,
+    auth: config.email.user ? { user: config.email.user, pass: config.email.pass } : undefined,
+  });
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.email.fromName
+        ? `"${config.email.fromName}" <${config.email.from}>`
+        : config.email.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * Criar transporte a partir de EMAIL_TRANSPORT
+ */
+export function createEmailTransport(): EmailTransport {
+  switch (config.email.transport) {
+    case 'smtp':
+      return new SmtpEmailTransport();
+    case 'file':
+      return new FileEmailTransport(config.email.outboxDir);
+    default:
+      return new ConsoleEmailTransport();
+  }
+}
+
+class EmailService {
+  constructor(private transport: EmailTransport) {}
+
+  /**
+   * Trocar o transporte (ex: em testes)
+   */
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Enviar email pelo transporte configurado
+   */
+  async send(message: EmailMessage): Promise<void> {
+    try {
+      await this.transport.send(message);
+
+      advancedLogger.debug('Email enviado', {
+        metadata: { to: message.to, subject: message.subject, transport: this.transport.name },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao enviar email', error as Error, {
+        metadata: { to: message.to, subject: message.subject, transport: this.transport.name },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Enviar link de redefinição de senha
+   */
+  async sendPasswordResetEmail(data: PasswordResetEmail): Promise<void> {
+    const resetUrl = `${config.frontend.url}/reset-password?token=${encodeURIComponent(data.token)}`;
+    const expiresAt = data.expiresAt.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+    await this.send({
+      to: data.to,
+      subject: 'Redefinição de senha',
+      text: [
+        `Olá, ${data.name}!`,
+        '',
+        'Recebemos uma solicitação para redefinir sua senha.',
+        `Acesse o link abaixo até ${expiresAt}:`,
+        resetUrl,
+        '',
+        'Se você não solicitou a redefinição, ignore este email.',
+      ].join('\n'),
+      html: [
+        `<p>Olá, ${escapeHtml(data.name)}!</p>`,
+        '<p>Recebemos uma solicitação para redefinir sua senha.</p>',
+        `<p><a href="${escapeHtml(resetUrl)}">Redefinir senha</a> (válido até ${escapeHtml(expiresAt)})</p>`,
+        '<p>Se você não solicitou a redefinição, ignore este email.</p>',
+      ].join(''),
+    });
+  }
+
+  /**
+   * Enviar convite para integrar a equipe de uma barbearia
+   */
+  async sendBarberInviteEmail(data: BarberInviteEmail): Promise<void> {
+    const inviteUrl = `${config.frontend.url}/accept-invite?token=${encodeURIComponent(data.token)}`;
+    const expiresAt = data.expiresAt.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+    const greeting = data.name ? `Olá, ${data.name}!` : 'Olá!';
+
+    await this.send({
+      to: data.to,
+      subject: `Convite para a equipe da ${data.barbershopName}`,
+      text: [
+        greeting,
+        '',
+        `Você foi convidado para fazer parte da equipe da ${data.barbershopName}.`,
+        `Acesse o link abaixo até ${expiresAt} para criar sua senha:`,
+        inviteUrl,
+      ].join('\n'),
+      html: [
+        `<p>${escapeHtml(greeting)}</p>`,
+        `<p>Você foi convidado para fazer parte da equipe da ${escapeHtml(data.barbershopName)}.</p>`,
+        `<p><a href="${escapeHtml(inviteUrl)}">Aceitar convite</a> (válido até ${escapeHtml(expiresAt)})</p>`,
+      ].join(''),
+    });
+  }
+
+  /**
+   * Avisar o cliente sobre agendamento remanejado ou cancelado pela barbearia
+   */
+  async sendAppointmentChangeEmail(data: AppointmentChangeEmail): Promise<void> {
+    const startTime = data.startTime.toLocaleString('pt-BR', { timeZone: data.timezone });
+    const summary =
+      data.change === 'REASSIGNED'
+        ? `Seu horário de ${startTime} foi mantido e passará a ser atendido por ${data.barberName}.`
+        : `Seu horário de ${startTime} foi cancelado pela barbearia.`;
+    const reason = data.reason ? `Motivo: ${data.reason}` : undefined;
+
+    await this.send({
+      to: data.to,
+      subject:
+        data.change === 'REASSIGNED'
+          ? `Alteração no seu agendamento - ${data.barbershopName}`
+          : `Agendamento cancelado - ${data.barbershopName}`,
+      text: [`Olá, ${data.name}!`, '', summary, ...(reason ? [reason] : [])].join('\n'),
+      html: [
+        `<p>Olá, ${escapeHtml(data.name)}!</p>`,
+        `<p>${escapeHtml(summary)}</p>`,
+        ...(reason ? [`<p>${escapeHtml(reason)}</p>`] : []),
+      ].join(''),
+    });
+  }
+
+  /**
+   * Oferecer a um cliente da lista de espera um horário que foi liberado
+   */
+  async sendWaitlistOfferEmail(data: WaitlistOfferEmail): Promise<void> {
+    const offerUrl = `${config.frontend.url}/waitlist/${encodeURIComponent(data.entryId)}`;
+    const startTime = data.startTime.toLocaleString('pt-BR', { timeZone: data.timezone });
+    const expiresAt = data.expiresAt.toLocaleString('pt-BR', { timeZone: data.timezone });
+    const summary = `Abriu um horário para ${data.serviceName} com ${data.barberName} em ${startTime}.`;
+
+    await this.send({
+      to: data.to,
+      subject: `Horário disponível - ${data.barbershopName}`,
+      text: [
+        `Olá, ${data.name}!`,
+        '',
+        summary,
+        `O horário fica reservado para você até ${expiresAt}. Confirme pelo link:`,
+        offerUrl,
+      ].join('\n'),
+      html: [
+        `<p>Olá, ${escapeHtml(data.name)}!</p>`,
+        `<p>${escapeHtml(summary)}</p>`,
+        `<p><a href="${escapeHtml(offerUrl)}">Confirmar horário</a> (reservado até ${escapeHtml(expiresAt)})</p>`,
+      ].join(''),
+    });
+  }
+}
+
+// Instância singleton do serviço de email
+export const emailService = new EmailService(createEmailTransport());
+export default emailService;
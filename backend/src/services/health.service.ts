@@ -0,0 +1,136 @@
+/**
+ * Verificação de saúde da aplicação
+ * Consulta as dependências com tempo limite e controla a prontidão para receber tráfego
+ * (usada pelos probes /health/live e /health/ready e pelo health check do monitoramento).
+ */
+
+import { checkDatabaseHealth } from '@/config/database';
+import { checkRedisHealth } from '@/config/redis';
+import { config } from '@/config/env';
+import { JiraService } from '@/services/jira.service';
+import { DependencyCheck, DependencyName, HealthReport, HealthStatus } from '@/types/health';
+
+export class HealthService {
+  static readonly PROBE_TIMEOUT_MS = 2000;
+
+  private static accepting = false;
+
+  /**
+   * Servidor escutando: passa a aceitar tráfego
+   */
+  static markReady(): void {
+    HealthService.accepting = true;
+  }
+
+  /**
+   * Início do graceful shutdown: o readiness passa a falhar para o orquestrador tirar a instância do balanceamento
+   */
+  static markShuttingDown(): void {
+    HealthService.accepting = false;
+  }
+
+  static isAccepting(): boolean {
+    return HealthService.accepting;
+  }
+
+  /**
+   * Readiness: banco obrigatório e Redis opcional (Jira fica de fora para não tirar instâncias do ar por causa dele)
+   */
+  static async checkReadiness(): Promise<HealthReport> {
+    return HealthService.buildReport(['database', 'redis']);
+  }
+
+  /**
+   * Verificação completa, incluindo integrações externas
+   */
+  static async checkAll(): Promise<HealthReport> {
+    return HealthService.buildReport(['database', 'redis', 'jira']);
+  }
+
+  private static async buildReport(names: DependencyName[]): Promise<HealthReport> {
+    const results = await Promise.all(
+      names.map(async (name) => [name, await HealthService.probe(name)] as const)
+    );
+    const checks: HealthReport['checks'] = Object.fromEntries(results);
+
+    const status = HealthService.summarize(results.map(([, check]) => check));
+
+    return {
+      status,
+      ready: HealthService.accepting && status !== 'unhealthy',
+      checks,
+    };
+  }
+
+  private static summarize(checks: DependencyCheck[]): HealthStatus {
+    const down = checks.filter((check) => check.status === 'down');
+
+    if (down.some((check) => check.required)) {
+      return 'unhealthy';
+    }
+
+    return down.length > 0 ? 'degraded' : 'healthy';
+  }
+
+  private static async probe(name: DependencyName): Promise<DependencyCheck> {
+    switch (name) {
+      case 'database':
+        return HealthService.measure(true, async () => {
+          if (!(await checkDatabaseHealth())) {
+            throw new Error('Banco de dados não respondeu');
+          }
+        });
+
+      case 'redis':
+        return HealthService.measure(false, async () => {
+          const result = await checkRedisHealth();
+          if (result.status !== 'healthy') {
+            throw new Error(result.error ?? 'Redis não respondeu');
+          }
+        });
+
+      case 'jira':
+        if (!config.jira.baseUrl || !config.jira.email || !config.jira.apiToken) {
+          return { status: 'not_configured', required: false };
+        }
+
+        return HealthService.measure(false, async () => {
+          if (!(await JiraService.testConnection())) {
+            throw new Error('Jira não respondeu');
+          }
+        });
+    }
+  }
+
+  // Executa a verificação com tempo limite e mede a latência
+  private static async measure(
+    required: boolean,
+    check: () => Promise<void>
+  ): Promise<DependencyCheck> {
+    const start = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Sem resposta em ${HealthService.PROBE_TIMEOUT_MS}ms`)),
+            HealthService.PROBE_TIMEOUT_MS
+          );
+        }),
+      ]);
+
+      return { status: 'up', required, latency: Date.now() - start };
+    } catch (error) {
+      return {
+        status: 'down',
+        required,
+        latency: Date.now() - start,
+        error: (error as Error).message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
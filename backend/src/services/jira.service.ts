@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { config } from '@/config/env';
 import { logger } from '@/config/logger';
+import { REQUEST_ID_HEADER, getRequestId } from '@/utils/request-context';
 import {
   JiraIssue,
   JiraProject,
@@ -40,6 +41,15 @@ export class JiraService {
         timeout: 10000,
       });
 
+      // Repassa o ID da requisição atual para correlacionar com os logs do Jira
+      JiraService.client.interceptors.request.use((request) => {
+        const requestId = getRequestId();
+        if (requestId) {
+          request.headers[REQUEST_ID_HEADER] = requestId;
+        }
+        return request;
+      });
+
       // Interceptor para log de erros
       JiraService.client.interceptors.response.use(
         (response) => response,
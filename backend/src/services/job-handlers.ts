@@ -0,0 +1,49 @@
+/**
+ * Executores das tarefas da fila em segundo plano
+ */
+
+import { advancedLogger } from '@/config/logger';
+import { AppointmentReminderService } from '@/services/appointment-reminder.service';
+import { cacheService } from '@/services/cache.service';
+import { JiraService } from '@/services/jira.service';
+import { JobQueueService } from '@/services/job-queue.service';
+import { JobType } from '@/types/job';
+
+/**
+ * Registrar os executores de todos os tipos de tarefa
+ */
+export function registerJobHandlers(): void {
+  JobQueueService.register(JobType.CACHE_INVALIDATION, async ({ pattern, keys, prefix }) => {
+    if (pattern) {
+      await cacheService.invalidatePattern(pattern, prefix);
+    }
+
+    for (const key of keys ?? []) {
+      await cacheService.delete(key, { prefix });
+    }
+
+    advancedLogger.info('Cache invalidado pela fila de tarefas', {
+      metadata: { pattern, keys, prefix },
+    });
+  });
+
+  JobQueueService.register(JobType.JIRA_UPDATE_ISSUE, ({ issueKey, data }) =>
+    JiraService.updateIssue(issueKey, data)
+  );
+
+  JobQueueService.register(JobType.JIRA_TRANSITION_ISSUE, ({ issueKey, transitionId }) =>
+    JiraService.transitionIssue(issueKey, transitionId)
+  );
+
+  JobQueueService.register(JobType.JIRA_ADD_COMMENT, async ({ issueKey, comment }) => {
+    await JiraService.addComment(issueKey, comment);
+  });
+
+  JobQueueService.register(JobType.APPOINTMENT_REMINDER, ({ appointmentId, startTime }) =>
+    AppointmentReminderService.sendReminder(appointmentId, new Date(startTime))
+  );
+
+  JobQueueService.register(JobType.APPOINTMENT_NO_SHOW, ({ appointmentId, startTime }) =>
+    AppointmentReminderService.markNoShow(appointmentId, new Date(startTime))
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * Fila de tarefas em segundo plano
+ * Tarefas ficam no Redis: um sorted set com as prontas/aguardando nova tentativa (score = próxima
+ * execução) e outro com as que esgotaram as tentativas (fila de falhas). Falhas são reenviadas com
+ * espera exponencial; chaves de idempotência evitam enfileirar a mesma tarefa duas vezes.
+ */
+
+import { randomUUID } from 'crypto';
+import { redis, CACHE_PREFIXES } from '@/config/redis';
+import { advancedLogger } from '@/config/logger';
+import { getRequestId, runWithRequestContext } from '@/utils/request-context';
+import {
+  EnqueueOptions,
+  Job,
+  JobError,
+  JobHandler,
+  JobListFilters,
+  JobPayloads,
+  JobType,
+} from '@/types/job';
+
+export class JobQueueService {
+  static readonly POLL_INTERVAL_MS = 1000;
+  static readonly BATCH_SIZE = 20;
+  static readonly DEFAULT_MAX_ATTEMPTS = 5;
+  static readonly BACKOFF_BASE_MS = 5000;
+  static readonly BACKOFF_MAX_MS = 10 * 60000;
+  static readonly IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+  static readonly IDEMPOTENCY_HEADER = 'Idempotency-Key';
+  static readonly DEAD_TTL_SECONDS = 7 * 24 * 60 * 60;
+  private static readonly DEFAULT_LIST_LIMIT = 50;
+
+  private static readonly QUEUE_KEY = `${CACHE_PREFIXES.JOBS}queue`;
+  private static readonly DEAD_KEY = `${CACHE_PREFIXES.JOBS}dead`;
+  private static readonly handlers = new Map<JobType, JobHandler<any>>();
+
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static current: Promise<number> | null = null;
+
+  /**
+   * Registrar o executor de um tipo de tarefa
+   */
+  static register<T extends JobType>(type: T, handler: JobHandler<T>): void {
+    JobQueueService.handlers.set(type, handler);
+  }
+
+  /**
+   * Enfileirar tarefa
+   * Com idempotencyKey, a mesma chave devolve a tarefa já enfileirada até 24h após a execução
+   */
+  static async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: EnqueueOptions = {}
+  ): Promise<Job<T>> {
+    const now = Date.now();
+    const job: Job<T> = {
+      id: randomUUID(),
+      type,
+      payload,
+      state: 'queued',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? JobQueueService.DEFAULT_MAX_ATTEMPTS,
+      idempotencyKey: options.idempotencyKey,
+      requestId: getRequestId(),
+      createdAt: new Date(now).toISOString(),
+      runAt: new Date(now + (options.delayMs ?? 0)).toISOString(),
+    };
+
+    if (options.idempotencyKey) {
+      const key = JobQueueService.idempotencyKey(options.idempotencyKey);
+      // Tarefas com atraso (ex: lembretes dias antes) mantêm a chave até a execução
+      const ttlSeconds =
+        JobQueueService.IDEMPOTENCY_TTL_SECONDS + Math.ceil((options.delayMs ?? 0) / 1000);
+      const claimed = await redis.set(key, job.id, 'EX', ttlSeconds, 'NX');
+
+      if (!claimed) {
+        const existingId = await redis.get(key);
+        const existing = existingId ? await JobQueueService.get(existingId) : null;
+
+        if (existing) {
+          return existing as Job<T>;
+        }
+
+        // Registro anterior expirou: a chave passa a apontar para a nova tarefa
+        await redis.set(key, job.id, 'EX', ttlSeconds);
+      }
+    }
+
+    await JobQueueService.save(job);
+    await redis.zadd(JobQueueService.QUEUE_KEY, Date.parse(job.runAt), job.id);
+
+    advancedLogger.debug('Tarefa enfileirada', {
+      metadata: { jobId: job.id, type, idempotencyKey: options.idempotencyKey },
+    });
+
+    return job;
+  }
+
+  /**
+   * Executar as tarefas vencidas
+   * Só executa quem conseguir retirar a tarefa da fila (várias instâncias consomem a mesma fila)
+   */
+  static async processDue(now: Date = new Date()): Promise<number> {
+    let processed = 0;
+
+    try {
+      const due = await redis.zrangebyscore(
+        JobQueueService.QUEUE_KEY,
+        0,
+        now.getTime(),
+        'LIMIT',
+        0,
+        JobQueueService.BATCH_SIZE
+      );
+
+      for (const id of due) {
+        if ((await redis.zrem(JobQueueService.QUEUE_KEY, id)) === 0) {
+          continue;
+        }
+
+        const job = await JobQueueService.get(id);
+
+        if (job) {
+          await JobQueueService.run(job);
+          processed++;
+        }
+      }
+
+      return processed;
+    } catch (error) {
+      advancedLogger.error('Erro ao processar fila de tarefas', error as Error, {
+        metadata: { processed },
+      });
+      return processed;
+    }
+  }
+
+  /**
+   * Iniciar o consumo periódico da fila
+   */
+  static start(): void {
+    if (JobQueueService.timer) {
+      return;
+    }
+
+    JobQueueService.timer = setInterval(() => {
+      // Não sobrepõe rodadas quando uma tarefa demora mais que o intervalo
+      if (!JobQueueService.current) {
+        JobQueueService.current = JobQueueService.processDue().finally(() => {
+          JobQueueService.current = null;
+        });
+      }
+    }, JobQueueService.POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Parar o consumo e aguardar a rodada em andamento (graceful shutdown)
+   */
+  static async stop(): Promise<void> {
+    if (JobQueueService.timer) {
+      clearInterval(JobQueueService.timer);
+      JobQueueService.timer = null;
+    }
+
+    await JobQueueService.current;
+  }
+
+  /**
+   * Listar tarefas na fila (próximas primeiro) ou na fila de falhas (mais recentes primeiro)
+   */
+  static async list(filters: JobListFilters = {}) {
+    const state = filters.state ?? 'queued';
+    const limit = filters.limit ?? JobQueueService.DEFAULT_LIST_LIMIT;
+
+    const [ids, queued, dead] = await Promise.all([
+      state === 'queued'
+        ? redis.zrange(JobQueueService.QUEUE_KEY, 0, limit - 1)
+        : redis.zrevrange(JobQueueService.DEAD_KEY, 0, limit - 1),
+      redis.zcard(JobQueueService.QUEUE_KEY),
+      redis.zcard(JobQueueService.DEAD_KEY),
+    ]);
+
+    const jobs = ids.length > 0 ? await redis.mget(...ids.map(JobQueueService.jobKey)) : [];
+
+    return {
+      state,
+      counts: { queued, dead },
+      jobs: jobs.filter((raw): raw is string => raw !== null).map((raw) => JSON.parse(raw) as Job),
+    };
+  }
+
+  /**
+   * Reenviar tarefa da fila de falhas, com as tentativas zeradas
+   */
+  static async retry(id: string): Promise<Job> {
+    const job = await JobQueueService.get(id);
+
+    if (!job) {
+      throw new Error(JobError.NOT_FOUND);
+    }
+
+    if (job.state !== 'dead') {
+      throw new Error(JobError.NOT_DEAD);
+    }
+
+    const retried: Job = {
+      ...job,
+      state: 'queued',
+      attempts: 0,
+      runAt: new Date().toISOString(),
+      failedAt: undefined,
+    };
+
+    await redis.zrem(JobQueueService.DEAD_KEY, id);
+    await JobQueueService.save(retried);
+    await redis.zadd(JobQueueService.QUEUE_KEY, Date.parse(retried.runAt), id);
+
+    advancedLogger.info('Tarefa reenviada da fila de falhas', {
+      metadata: { jobId: id, type: job.type },
+    });
+
+    return retried;
+  }
+
+  /**
+   * Obter tarefa pelo ID
+   */
+  static async get(id: string): Promise<Job | null> {
+    const raw = await redis.get(JobQueueService.jobKey(id));
+    return raw ? (JSON.parse(raw) as Job) : null;
+  }
+
+  /**
+   * Executar uma tarefa e registrar o resultado
+   */
+  private static async run(job: Job): Promise<void> {
+    const attempts = job.attempts + 1;
+    const handler = JobQueueService.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`Nenhum executor registrado para ${job.type}`);
+      }
+
+      // Executa no contexto da requisição de origem: logs e chamadas ao Jira levam o mesmo ID
+      await runWithRequestContext({ requestId: job.requestId }, () => handler(job.payload, job));
+
+      // Com chave de idempotência, o registro concluído responde a novos enfileiramentos
+      if (job.idempotencyKey) {
+        await JobQueueService.save(
+          { ...job, state: 'completed', attempts, lastError: undefined },
+          JobQueueService.IDEMPOTENCY_TTL_SECONDS
+        );
+      } else {
+        await redis.del(JobQueueService.jobKey(job.id));
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (attempts >= job.maxAttempts) {
+        const failedAt = new Date();
+
+        await JobQueueService.save(
+          { ...job, state: 'dead', attempts, lastError: message, failedAt: failedAt.toISOString() },
+          JobQueueService.DEAD_TTL_SECONDS
+        );
+        await redis.zadd(JobQueueService.DEAD_KEY, failedAt.getTime(), job.id);
+
+        advancedLogger.error('Tarefa movida para a fila de falhas', error as Error, {
+          metadata: { jobId: job.id, type: job.type, attempts },
+        });
+        return;
+      }
+
+      const runAt = Date.now() + JobQueueService.backoff(attempts);
+
+      await JobQueueService.save({
+        ...job,
+        attempts,
+        lastError: message,
+        runAt: new Date(runAt).toISOString(),
+      });
+      await redis.zadd(JobQueueService.QUEUE_KEY, runAt, job.id);
+
+      advancedLogger.warn('Tarefa falhou, nova tentativa agendada', {
+        metadata: { jobId: job.id, type: job.type, attempts, error: message },
+      });
+    }
+  }
+
+  /**
+   * Espera antes da próxima tentativa: 5s, 10s, 20s... até 10 minutos
+   */
+  private static backoff(attempts: number): number {
+    return Math.min(
+      JobQueueService.BACKOFF_BASE_MS * 2 ** (attempts - 1),
+      JobQueueService.BACKOFF_MAX_MS
+    );
+  }
+
+  private static async save(job: Job, ttlSeconds?: number): Promise<void> {
+    const key = JobQueueService.jobKey(job.id);
+
+    if (ttlSeconds) {
+      await redis.set(key, JSON.stringify(job), 'EX', ttlSeconds);
+    } else {
+      await redis.set(key, JSON.stringify(job));
+    }
+  }
+
+  private static jobKey(id: string): string {
+    return `${CACHE_PREFIXES.JOBS}job:${id}`;
+  }
+
+  private static idempotencyKey(key: string): string {
+    return `${CACHE_PREFIXES.JOBS}idempotency:${key}`;
+  }
+}
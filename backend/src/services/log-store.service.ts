@@ -0,0 +1,313 @@
+/**
+ * Armazenamento consultável de logs
+ * Um transport do winston acumula as entradas em memória e grava em lote na tabela log_entries;
+ * a API de monitoramento filtra por nível, categoria, usuário, requisição, período e texto.
+ */
+
+import Transport from 'winston-transport';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/env';
+import { logger } from '@/config/logger';
+import {
+  LogCategory,
+  LogQueryError,
+  LogQueryFilters,
+  STORED_LOG_LEVELS,
+  StoredLogEntry,
+  StoredLogLevel,
+} from '@/types/logging';
+
+// Campos que viram colunas próprias ou não precisam ser guardados no contexto
+const COLUMN_FIELDS = new Set([
+  'level',
+  'message',
+  'timestamp',
+  'service',
+  'category',
+  'userId',
+  'requestId',
+]);
+
+const CATEGORIES: ReadonlySet<string> = new Set(Object.values(LogCategory));
+
+// Campos do contexto que nunca são gravados (credenciais e corpo de emails/mensagens)
+const SECRET_FIELD = /pass(word)?|secret|token|authorization|cookie|^(text|html)$/i;
+
+// Parâmetros de URL com tokens de uso único (redefinição de senha, convite, lembrete)
+const TOKEN_PARAM = /([?&](?:token|access_token|code)=)[^&\s"'<>]+/gi;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Remover segredos de um valor do log antes de gravá-lo
+ */
+function redact(value: unknown, field = ''): unknown {
+  if (SECRET_FIELD.test(field)) {
+    return REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    return value.replace(TOKEN_PARAM, `$1${REDACTED}`);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item));
+  }
+
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, redact(nested, key)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Transport do winston que repassa as entradas ao armazenamento
+ */
+class LogStoreTransport extends Transport {
+  constructor(
+    private readonly sink: (entry: StoredLogEntry) => void,
+    level: StoredLogLevel
+  ) {
+    super({ level });
+  }
+
+  override log(info: Record<string, any>, callback: () => void): void {
+    const context = Object.fromEntries(
+      Object.entries(info)
+        .filter(([key, value]) => !COLUMN_FIELDS.has(key) && value !== undefined)
+        .map(([key, value]) => [key, redact(value, key)])
+    );
+
+    this.sink({
+      timestamp: new Date(),
+      level: info['level'] as StoredLogLevel,
+      category: CATEGORIES.has(info['category']) ? info['category'] : LogCategory.SYSTEM,
+      message: redact(String(info['message'])) as string,
+      userId: typeof info['userId'] === 'string' ? info['userId'] : undefined,
+      requestId: typeof info['requestId'] === 'string' ? info['requestId'] : undefined,
+      context: Object.keys(context).length > 0 ? context : undefined,
+    });
+
+    callback();
+  }
+}
+
+export class LogStoreService {
+  static readonly FLUSH_INTERVAL_MS = 2000;
+  static readonly BATCH_SIZE = 500;
+  static readonly MAX_BUFFER = 5000;
+  static readonly PURGE_INTERVAL_MS = 60 * 60000;
+  static readonly DEFAULT_LIMIT = 50;
+
+  private static buffer: StoredLogEntry[] = [];
+  private static transport: LogStoreTransport | null = null;
+  private static flushTimer: ReturnType<typeof setInterval> | null = null;
+  private static purgeTimer: ReturnType<typeof setInterval> | null = null;
+  private static flushing: Promise<void> | null = null;
+  private static failing = false;
+
+  /**
+   * Passar a gravar os logs no banco (a partir de LOG_STORE_LEVEL)
+   */
+  static start(): void {
+    if (LogStoreService.transport) {
+      return;
+    }
+
+    LogStoreService.transport = new LogStoreTransport(
+      (entry) => LogStoreService.push(entry),
+      config.logging.storeLevel
+    );
+    logger.add(LogStoreService.transport);
+
+    LogStoreService.flushTimer = setInterval(() => {
+      void LogStoreService.flush();
+    }, LogStoreService.FLUSH_INTERVAL_MS);
+    LogStoreService.purgeTimer = setInterval(() => {
+      void LogStoreService.purgeExpired();
+    }, LogStoreService.PURGE_INTERVAL_MS);
+  }
+
+  /**
+   * Parar a gravação e descarregar o que ainda está em memória (graceful shutdown)
+   */
+  static async stop(): Promise<void> {
+    if (LogStoreService.flushTimer) {
+      clearInterval(LogStoreService.flushTimer);
+      LogStoreService.flushTimer = null;
+    }
+
+    if (LogStoreService.purgeTimer) {
+      clearInterval(LogStoreService.purgeTimer);
+      LogStoreService.purgeTimer = null;
+    }
+
+    if (LogStoreService.transport) {
+      logger.remove(LogStoreService.transport);
+      LogStoreService.transport = null;
+    }
+
+    await LogStoreService.flush();
+  }
+
+  /**
+   * Acumular entrada para a próxima gravação
+   * Com o banco fora do ar, as entradas mais antigas são descartadas acima de MAX_BUFFER
+   */
+  static push(entry: StoredLogEntry): void {
+    LogStoreService.buffer.push(entry);
+
+    if (LogStoreService.buffer.length > LogStoreService.MAX_BUFFER) {
+      LogStoreService.buffer.splice(0, LogStoreService.buffer.length - LogStoreService.MAX_BUFFER);
+    }
+
+    if (LogStoreService.buffer.length >= LogStoreService.BATCH_SIZE) {
+      void LogStoreService.flush();
+    }
+  }
+
+  /**
+   * Gravar as entradas acumuladas (uma gravação por vez)
+   */
+  static flush(): Promise<void> {
+    if (!LogStoreService.flushing) {
+      LogStoreService.flushing = LogStoreService.writeBuffered().finally(() => {
+        LogStoreService.flushing = null;
+      });
+    }
+
+    return LogStoreService.flushing;
+  }
+
+  /**
+   * Consultar logs, do mais recente para o mais antigo, com paginação por cursor
+   */
+  static async query(filters: LogQueryFilters = {}) {
+    const limit = filters.limit ?? LogStoreService.DEFAULT_LIMIT;
+    const cursor = filters.cursor ? LogStoreService.decodeCursor(filters.cursor) : null;
+
+    const where: Prisma.LogEntryWhereInput = {
+      ...(filters.level && { level: { in: LogStoreService.levelsUpTo(filters.level) } }),
+      ...(filters.category && { category: filters.category }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.requestId && { requestId: filters.requestId }),
+      ...((filters.from || filters.to) && {
+        timestamp: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+      ...(filters.search && { message: { contains: filters.search, mode: 'insensitive' } }),
+      // Continua depois da última entrada da página anterior (empates de horário pelo id)
+      ...(cursor && {
+        OR: [
+          { timestamp: { lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { lt: cursor.id } },
+        ],
+      }),
+    };
+
+    const entries = await prisma.logEntry.findMany({
+      where,
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      entries: page,
+      nextCursor: entries.length > limit && last ? LogStoreService.encodeCursor(last) : null,
+    };
+  }
+
+  /**
+   * Remover entradas mais antigas que LOG_RETENTION_DAYS
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const cutoff = new Date(now.getTime() - config.logging.retentionDays * 24 * 3600000);
+      const { count } = await prisma.logEntry.deleteMany({ where: { timestamp: { lt: cutoff } } });
+
+      if (count > 0) {
+        logger.info(`Logs expirados removidos: ${count}`);
+      }
+
+      return count;
+    } catch (error) {
+      logger.error('Erro ao remover logs expirados:', error);
+      return 0;
+    }
+  }
+
+  private static async writeBuffered(): Promise<void> {
+    while (LogStoreService.buffer.length > 0) {
+      const batch = LogStoreService.buffer.splice(0, LogStoreService.BATCH_SIZE);
+
+      try {
+        await prisma.logEntry.createMany({ data: batch.map(LogStoreService.toRow) });
+        LogStoreService.failing = false;
+      } catch (error) {
+        // Devolve o lote para a próxima tentativa; o aviso sai só na primeira falha
+        LogStoreService.buffer.unshift(...batch);
+
+        if (!LogStoreService.failing) {
+          LogStoreService.failing = true;
+          console.error('Falha ao gravar logs no banco:', (error as Error).message);
+        }
+        return;
+      }
+    }
+  }
+
+  private static toRow(entry: StoredLogEntry): Prisma.LogEntryCreateManyInput {
+    return {
+      timestamp: entry.timestamp,
+      level: entry.level,
+      category: entry.category,
+      message: entry.message,
+      userId: entry.userId ?? null,
+      requestId: entry.requestId ?? null,
+      context: LogStoreService.serializeContext(entry.context),
+    };
+  }
+
+  // Contexto com valores não serializáveis (referências circulares, BigInt) é descartado
+  private static serializeContext(
+    context: Record<string, any> | undefined
+  ): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    if (!context) {
+      return Prisma.JsonNull;
+    }
+
+    try {
+      return JSON.parse(JSON.stringify(context)) as Prisma.InputJsonValue;
+    } catch {
+      return Prisma.JsonNull;
+    }
+  }
+
+  private static levelsUpTo(level: StoredLogLevel): StoredLogLevel[] {
+    return STORED_LOG_LEVELS.slice(0, STORED_LOG_LEVELS.indexOf(level) + 1);
+  }
+
+  private static encodeCursor(entry: { timestamp: Date; id: string }): string {
+    return Buffer.from(`${entry.timestamp.toISOString()}|${entry.id}`).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): { timestamp: Date; id: string } {
+    const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const date = new Date(timestamp ?? '');
+
+    if (!id || Number.isNaN(date.getTime())) {
+      throw new Error(LogQueryError.INVALID_CURSOR);
+    }
+
+    return { timestamp: date, id };
+  }
+}
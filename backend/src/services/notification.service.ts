@@ -0,0 +1,574 @@
+/**
+ * Serviço de Notificações
+ * Renderiza os templates pt-BR e entrega pelos canais aceitos pelo usuário (email, WhatsApp,
+ * SMS e in-app). Cada entrega fica registrada; falhas são reenviadas com espera crescente.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { DeliveryStatus, Notification, NotificationChannel, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/env';
+import { advancedLogger } from '@/config/logger';
+import { emailService } from '@/services/email.service';
+import { BarbershopPagination } from '@/types/barbershop';
+import {
+  ChannelMessage,
+  ChannelPreference,
+  InboxFilters,
+  MessagingProvider,
+  NotificationChannelAdapter,
+  NotificationError,
+  NotificationTemplate,
+  NotificationVariables,
+  NotifyRequest,
+  RetryResult,
+} from '@/types/notification';
+import { formatDateVariables, renderTemplate } from '@/utils/notification-templates';
+
+// Canais de mensagem de texto, que recebem a versão curta do template
+type TextChannel = 'WHATSAPP' | 'SMS';
+
+// Canais aceitos quando o usuário não definiu preferência
+const DEFAULT_PREFERENCES: Record<NotificationChannel, boolean> = {
+  [NotificationChannel.EMAIL]: true,
+  [NotificationChannel.IN_APP]: true,
+  [NotificationChannel.WHATSAPP]: false,
+  [NotificationChannel.SMS]: false,
+};
+
+/**
+ * Canal de email, usando o transporte configurado no serviço de email
+ */
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+
+  async send(message: ChannelMessage): Promise<void> {
+    await emailService.send({ to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+/**
+ * Canal in-app: o próprio registro da notificação é a mensagem exibida no aplicativo
+ */
+export class InAppChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.IN_APP;
+
+  async send(): Promise<void> {
+    // Nada a enviar
+  }
+}
+
+/**
+ * Canal de WhatsApp ou SMS através de um provedor de mensagens
+ */
+export class TextMessageChannel implements NotificationChannelAdapter {
+  constructor(
+    readonly channel: TextChannel,
+    private readonly provider: MessagingProvider
+  ) {}
+
+  async send(message: ChannelMessage): Promise<void> {
+    await this.provider.sendText(this.channel, message.to, message.text);
+  }
+}
+
+/**
+ * Provedor que apenas registra canal e destinatário no log (o texto pode conter tokens)
+ */
+export class ConsoleMessagingProvider implements MessagingProvider {
+  readonly name = 'console';
+
+  async sendText(channel: TextChannel, to: string): Promise<void> {
+    advancedLogger.info(`${channel} para ${to}`, { metadata: { channel, to } });
+  }
+}
+
+/**
+ * Provedor que grava cada mensagem como JSON em um diretório (caixa de saída local)
+ */
+export class FileMessagingProvider implements MessagingProvider {
+  readonly name = 'file';
+
+  constructor(private readonly outboxDir: string) {}
+
+  async sendText(channel: TextChannel, to: string, text: string): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const content = { channel, to, text, createdAt: new Date().toISOString() };
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(content, null, 2));
+  }
+}
+
+/**
+ * Provedor HTTP genérico: POST { channel, to, text } com token Bearer
+ */
+export class HttpMessagingProvider implements MessagingProvider {
+  readonly name = 'http';
+
+  constructor(
+    private readonly apiUrl: string | undefined,
+    private readonly apiToken: string | undefined
+  ) {}
+
+  async sendText(channel: TextChannel, to: string, text: string): Promise<void> {
+    if (!this.apiUrl) {
+      throw new Error('MESSAGING_API_URL não configurada');
+    }
+
+    await axios.post(
+      this.apiUrl,
+      { channel: channel.toLowerCase(), to, text },
+      {
+        timeout: 10000,
+        headers: this.apiToken ? { Authorization: `Bearer ${this.apiToken}` } : {},
+      }
+    );
+  }
+}
+
+/**
+ * Criar provedor de mensagens a partir de MESSAGING_TRANSPORT
+ */
+export function createMessagingProvider(): MessagingProvider {
+  switch (config.messaging.transport) {
+    case 'http':
+      return new HttpMessagingProvider(config.messaging.apiUrl, config.messaging.apiToken);
+    case 'file':
+      return new FileMessagingProvider(config.messaging.outboxDir);
+    default:
+      return new ConsoleMessagingProvider();
+  }
+}
+
+/**
+ * Criar os adaptadores de todos os canais
+ */
+export function createChannelAdapters(): NotificationChannelAdapter[] {
+  const provider = createMessagingProvider();
+
+  return [
+    new EmailChannel(),
+    new InAppChannel(),
+    new TextMessageChannel(NotificationChannel.WHATSAPP, provider),
+    new TextMessageChannel(NotificationChannel.SMS, provider),
+  ];
+}
+
+class NotificationService {
+  static readonly MAX_ATTEMPTS = 4;
+  static readonly RETRY_DELAYS_MINUTES = [1, 5, 30];
+  static readonly RETRY_BATCH_SIZE = 50;
+  static readonly RETRY_INTERVAL_MS = 60000;
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+
+  private readonly adapters = new Map<NotificationChannel, NotificationChannelAdapter>();
+
+  constructor(adapters: NotificationChannelAdapter[]) {
+    adapters.forEach((adapter) => this.setAdapter(adapter));
+  }
+
+  /**
+   * Trocar o adaptador de um canal (ex: em testes)
+   */
+  setAdapter(adapter: NotificationChannelAdapter): void {
+    this.adapters.set(adapter.channel, adapter);
+  }
+
+  /**
+   * Notificar um usuário pelos canais que ele aceita
+   * Falhas são registradas e nunca interrompem quem pediu a notificação
+   */
+  async notify(request: NotifyRequest): Promise<Notification[]> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: request.userId },
+        select: {
+          id: true,
+          email: true,
+          phone: true,
+          notificationPrefs: { select: { channel: true, enabled: true } },
+        },
+      });
+
+      if (!user) {
+        advancedLogger.warn('Notificação para usuário inexistente', {
+          metadata: { userId: request.userId, template: request.template },
+        });
+        return [];
+      }
+
+      const channels = this.mergePreferences(user.notificationPrefs)
+        .filter((preference) => preference.enabled)
+        .map((preference) => preference.channel)
+        .filter((channel) => !request.channels || request.channels.includes(channel));
+
+      const rendered = renderTemplate(request.template, request.variables);
+      const notifications: Notification[] = [];
+
+      for (const channel of channels) {
+        const recipient = this.recipientFor(channel, user);
+
+        if (!recipient) {
+          continue;
+        }
+
+        const notification = await prisma.notification.create({
+          data: {
+            userId: user.id,
+            channel,
+            template: request.template,
+            recipient,
+            subject: rendered.subject,
+            body: this.isTextChannel(channel) ? rendered.short : rendered.text,
+            variables: request.variables,
+          },
+        });
+
+        notifications.push(await this.deliver(notification));
+      }
+
+      return notifications;
+    } catch (error) {
+      advancedLogger.error('Erro ao registrar notificação', error as Error, {
+        userId: request.userId,
+        metadata: { template: request.template },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Notificar o cliente de um agendamento com os dados no fuso da barbearia
+   */
+  async notifyAppointment(
+    appointmentId: string,
+    template: NotificationTemplate,
+    variables: NotificationVariables = {}
+  ): Promise<Notification[]> {
+    try {
+      const appointment = await prisma.appointment.findUnique({
+        where: { id: appointmentId },
+        include: {
+          client: { select: { id: true, name: true } },
+          barber: { select: { user: { select: { name: true } } } },
+          barbershop: { select: { name: true, timezone: true } },
+          service: { select: { name: true } },
+          items: { select: { service: { select: { name: true } } }, orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!appointment) {
+        return [];
+      }
+
+      const serviceNames = appointment.items.map((item) => item.service.name);
+
+      return await this.notify({
+        userId: appointment.client.id,
+        template,
+        variables: {
+          clientName: appointment.client.name,
+          barberName: appointment.barber.user.name,
+          barbershopName: appointment.barbershop.name,
+          serviceName:
+            serviceNames.length > 0 ? serviceNames.join(' + ') : appointment.service.name,
+          ...formatDateVariables(appointment.startTime, appointment.barbershop.timezone),
+          ...variables,
+        },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao notificar cliente do agendamento', error as Error, {
+        metadata: { appointmentId, template },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Reenviar notificações com nova tentativa vencida
+   */
+  async retryFailed(): Promise<RetryResult> {
+    const result: RetryResult = { sent: 0, failed: 0 };
+
+    try {
+      const due = await prisma.notification.findMany({
+        where: { status: DeliveryStatus.RETRYING, nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: NotificationService.RETRY_BATCH_SIZE,
+      });
+
+      for (const notification of due) {
+        // Reserva a notificação para que outra instância não a reenvie ao mesmo tempo
+        const { count } = await prisma.notification.updateMany({
+          where: { id: notification.id, status: DeliveryStatus.RETRYING },
+          data: { status: DeliveryStatus.PENDING },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        const delivered = await this.deliver(notification);
+        result[delivered.status === DeliveryStatus.SENT ? 'sent' : 'failed']++;
+      }
+
+      return result;
+    } catch (error) {
+      advancedLogger.error('Erro ao reenviar notificações', error as Error, {
+        metadata: { ...result },
+      });
+      return result;
+    }
+  }
+
+  /**
+   * Caixa de entrada in-app do usuário (mais recentes primeiro)
+   */
+  async listInbox(userId: string, filters: InboxFilters = {}) {
+    try {
+      const page = filters.page ?? 1;
+      const limit = filters.limit ?? NotificationService.DEFAULT_PAGE_SIZE;
+      const inbox: Prisma.NotificationWhereInput = { userId, channel: NotificationChannel.IN_APP };
+      const where: Prisma.NotificationWhereInput = {
+        ...inbox,
+        ...(filters.unreadOnly && { readAt: null }),
+      };
+
+      const [notifications, total, unread] = await prisma.$transaction([
+        prisma.notification.findMany({
+          where,
+          select: {
+            id: true,
+            template: true,
+            subject: true,
+            body: true,
+            readAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { ...inbox, readAt: null } }),
+      ]);
+
+      const pagination: BarbershopPagination = {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      };
+
+      return { data: notifications, pagination, unread };
+    } catch (error) {
+      advancedLogger.error('Erro ao listar notificações', error as Error, {
+        userId,
+        metadata: { filters },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar notificação in-app como lida
+   */
+  async markRead(id: string, userId: string) {
+    try {
+      const notification = await prisma.notification.findFirst({
+        where: { id, userId, channel: NotificationChannel.IN_APP },
+      });
+
+      if (!notification) {
+        throw new Error(NotificationError.NOT_FOUND);
+      }
+
+      if (notification.readAt) {
+        return notification;
+      }
+
+      return await prisma.notification.update({
+        where: { id },
+        data: { readAt: new Date() },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao marcar notificação como lida', error as Error, {
+        userId,
+        metadata: { notificationId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar todas as notificações in-app como lidas
+   */
+  async markAllRead(userId: string): Promise<number> {
+    try {
+      const { count } = await prisma.notification.updateMany({
+        where: { userId, channel: NotificationChannel.IN_APP, readAt: null },
+        data: { readAt: new Date() },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao marcar notificações como lidas', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Preferências de todos os canais (padrão do canal quando não definida)
+   */
+  async getPreferences(userId: string): Promise<ChannelPreference[]> {
+    try {
+      const stored = await prisma.notificationPreference.findMany({
+        where: { userId },
+        select: { channel: true, enabled: true },
+      });
+
+      return this.mergePreferences(stored);
+    } catch (error) {
+      advancedLogger.error('Erro ao obter preferências de notificação', error as Error, {
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar preferências dos canais informados
+   */
+  async updatePreferences(
+    userId: string,
+    preferences: ChannelPreference[]
+  ): Promise<ChannelPreference[]> {
+    try {
+      await prisma.$transaction(
+        preferences.map(({ channel, enabled }) =>
+          prisma.notificationPreference.upsert({
+            where: { userId_channel: { userId, channel } },
+            create: { userId, channel, enabled },
+            update: { enabled },
+          })
+        )
+      );
+
+      advancedLogger.business({
+        type: 'NOTIFICATION_PREFERENCES_UPDATE',
+        entity: 'user',
+        entityId: userId,
+        action: 'UPDATE',
+        userId,
+        metadata: { preferences },
+      });
+
+      return await this.getPreferences(userId);
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar preferências de notificação', error as Error, {
+        userId,
+        metadata: { preferences },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Tentar entregar a notificação e registrar o resultado
+   */
+  private async deliver(notification: Notification): Promise<Notification> {
+    const attempts = notification.attempts + 1;
+    const adapter = this.adapters.get(notification.channel);
+
+    try {
+      if (!adapter) {
+        throw new Error(`Canal ${notification.channel} não configurado`);
+      }
+
+      await adapter.send({
+        to: notification.recipient,
+        subject: notification.subject,
+        text: notification.body,
+      });
+
+      return await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: DeliveryStatus.SENT,
+          attempts,
+          sentAt: new Date(),
+          lastError: null,
+          nextAttemptAt: null,
+        },
+      });
+    } catch (error) {
+      const exhausted = attempts >= NotificationService.MAX_ATTEMPTS;
+      const delays = NotificationService.RETRY_DELAYS_MINUTES;
+      const delay = delays[Math.min(attempts, delays.length) - 1] ?? 1;
+
+      advancedLogger.warn('Falha na entrega de notificação', {
+        userId: notification.userId,
+        metadata: {
+          notificationId: notification.id,
+          channel: notification.channel,
+          attempts,
+          exhausted,
+          error: (error as Error).message,
+        },
+      });
+
+      return prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: exhausted ? DeliveryStatus.FAILED : DeliveryStatus.RETRYING,
+          attempts,
+          lastError: (error as Error).message,
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + delay * 60000),
+        },
+      });
+    }
+  }
+
+  /**
+   * Completar as preferências gravadas com o padrão de cada canal
+   */
+  private mergePreferences(stored: ChannelPreference[]): ChannelPreference[] {
+    return Object.values(NotificationChannel).map((channel) => ({
+      channel,
+      enabled:
+        stored.find((preference) => preference.channel === channel)?.enabled ??
+        DEFAULT_PREFERENCES[channel],
+    }));
+  }
+
+  /**
+   * Destinatário do canal: email, telefone ou o próprio usuário (in-app)
+   */
+  private recipientFor(
+    channel: NotificationChannel,
+    user: { id: string; email: string; phone: string | null }
+  ): string | null {
+    switch (channel) {
+      case NotificationChannel.EMAIL:
+        return user.email;
+      case NotificationChannel.IN_APP:
+        return user.id;
+      default:
+        return user.phone;
+    }
+  }
+
+  private isTextChannel(channel: NotificationChannel): channel is TextChannel {
+    return channel === NotificationChannel.WHATSAPP || channel === NotificationChannel.SMS;
+  }
+}
+
+// Instância singleton do serviço de notificações
+export const notificationService = new NotificationService(createChannelAdapters());
+export { NotificationService };
+export default notificationService;
@@ -0,0 +1,185 @@
+/**
+ * Serviço de Permissões
+ * Combina as permissões padrão da role com as concedidas pelo admin a barbeiros
+ */
+
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { CACHE_PREFIXES, CACHE_TTL } from '@/config/redis';
+import { cacheService } from '@/services/cache.service';
+import {
+  AuthenticatedUser,
+  GRANTABLE_PERMISSIONS,
+  GrantablePermission,
+  Permission,
+  PermissionError,
+  ROLE_PERMISSIONS,
+  UserPermissions,
+} from '@/types/auth';
+
+export class PermissionService {
+  /**
+   * Chave de cache das permissões concedidas a um barbeiro
+   */
+  private static grantsCacheKey(barberId: string): string {
+    return `permissions:${barberId}`;
+  }
+
+  /**
+   * Obter permissões efetivas do usuário
+   */
+  static async getUserPermissions(user: AuthenticatedUser): Promise<UserPermissions> {
+    const granted =
+      user.role === Role.BARBER && user.barberId ? await this.getGrants(user.barberId) : [];
+    const permissions = Array.from(
+      new Set<Permission>([...ROLE_PERMISSIONS[user.role], ...granted])
+    );
+
+    return {
+      role: user.role,
+      barbershopId: user.barbershopId,
+      permissions,
+      granted,
+    };
+  }
+
+  /**
+   * Verificar se o usuário possui ao menos uma das permissões
+   * Com barbershopId informado, só vale dentro da barbearia do usuário (exceto SuperAdmin)
+   */
+  static async hasPermission(
+    user: AuthenticatedUser,
+    required: Permission[],
+    barbershopId?: string
+  ): Promise<boolean> {
+    if (user.role === Role.SUPER_ADMIN) {
+      return true;
+    }
+
+    if (barbershopId !== undefined && user.barbershopId !== barbershopId) {
+      return false;
+    }
+
+    const { permissions } = await this.getUserPermissions(user);
+    return required.some((permission) => permissions.includes(permission));
+  }
+
+  /**
+   * Listar permissões concedidas a um barbeiro da barbearia
+   */
+  static async listBarberGrants(
+    barbershopId: string,
+    barberId: string
+  ): Promise<GrantablePermission[]> {
+    try {
+      await this.assertBarberInBarbershop(barbershopId, barberId);
+      return await this.getGrants(barberId);
+    } catch (error) {
+      advancedLogger.error('Erro ao listar permissões do barbeiro', error as Error, {
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Definir o conjunto de permissões extras de um barbeiro (substitui as anteriores)
+   */
+  static async setBarberGrants(
+    barbershopId: string,
+    barberId: string,
+    permissions: Permission[],
+    grantedById: string
+  ): Promise<GrantablePermission[]> {
+    try {
+      await this.assertBarberInBarbershop(barbershopId, barberId);
+
+      const grants = Array.from(new Set(permissions));
+      if (!grants.every((permission) => this.isGrantable(permission))) {
+        throw new Error(PermissionError.NOT_GRANTABLE);
+      }
+
+      await prisma.$transaction([
+        prisma.barberPermission.deleteMany({
+          where: { barberId, permission: { notIn: grants } },
+        }),
+        prisma.barberPermission.createMany({
+          data: grants.map((permission) => ({ barberId, permission, grantedById })),
+          skipDuplicates: true,
+        }),
+      ]);
+
+      await cacheService.delete(this.grantsCacheKey(barberId), { prefix: CACHE_PREFIXES.USER });
+
+      advancedLogger.business({
+        type: 'BARBER_PERMISSIONS_UPDATE',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId: grantedById,
+        metadata: { barbershopId, permissions: grants },
+      });
+
+      return grants as GrantablePermission[];
+    } catch (error) {
+      advancedLogger.error('Erro ao definir permissões do barbeiro', error as Error, {
+        userId: grantedById,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar permissões concedidas (com cache)
+   */
+  private static async getGrants(barberId: string): Promise<GrantablePermission[]> {
+    const cacheKey = this.grantsCacheKey(barberId);
+    const cached = await cacheService.get<GrantablePermission[]>(cacheKey, {
+      prefix: CACHE_PREFIXES.USER,
+    });
+
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await prisma.barberPermission.findMany({
+      where: { barberId },
+      select: { permission: true },
+    });
+
+    // Ignorar valores que deixaram de existir no catálogo
+    const grants = rows
+      .map((row) => row.permission)
+      .filter((permission): permission is GrantablePermission => this.isGrantable(permission));
+
+    await cacheService.set(cacheKey, grants, {
+      prefix: CACHE_PREFIXES.USER,
+      ttl: CACHE_TTL.MEDIUM,
+    });
+
+    return grants;
+  }
+
+  /**
+   * Garantir que o barbeiro pertence à barbearia
+   */
+  private static async assertBarberInBarbershop(
+    barbershopId: string,
+    barberId: string
+  ): Promise<void> {
+    const barber = await prisma.barber.findFirst({
+      where: { id: barberId, barbershopId },
+      select: { id: true },
+    });
+
+    if (!barber) {
+      throw new Error(PermissionError.BARBER_NOT_FOUND);
+    }
+  }
+
+  private static isGrantable(permission: string): permission is GrantablePermission {
+    return (GRANTABLE_PERMISSIONS as readonly string[]).includes(permission);
+  }
+}
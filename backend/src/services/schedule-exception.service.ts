@@ -0,0 +1,602 @@
+/**
+ * Calendário de exceções
+ * Feriados, férias e horários especiais da barbearia (GlobalException) e dos barbeiros (BarberException).
+ * Períodos de vários dias viram um registro por data, como exigem as restrições únicas por dia.
+ */
+
+import { BarberException, ExceptionType, GlobalException } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { SchedulingService, toDateKey } from '@/services/scheduling.service';
+import { WeeklyScheduleService } from '@/services/weekly-schedule.service';
+import { AuthenticatedUser } from '@/types/auth';
+import {
+  CreateBarberExceptionRequest,
+  CreateGlobalExceptionRequest,
+  DateRange,
+  ExceptionChangeResult,
+  ExceptionError,
+  HolidayImportResult,
+  ImportHolidaysRequest,
+  TIMED_EXCEPTION_TYPES,
+  UpdateBarberExceptionRequest,
+  UpdateGlobalExceptionRequest,
+} from '@/types/schedule-exception';
+import { getBrazilianHolidays } from '@/utils/holidays';
+import { addDaysToDate, daysBetween, toDbDate } from '@/utils/timezone';
+
+export class ScheduleExceptionService {
+  static readonly MAX_RANGE_DAYS = 92;
+
+  /**
+   * Listar exceções da barbearia (por padrão, de hoje em diante)
+   */
+  static async listGlobal(
+    barbershopId: string,
+    range: Partial<DateRange> = {}
+  ): Promise<GlobalException[]> {
+    try {
+      return await prisma.globalException.findMany({
+        where: { barbershopId, date: ScheduleExceptionService.dateFilter(range) },
+        orderBy: { date: 'asc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar exceções da barbearia', error as Error, {
+        metadata: { barbershopId, range },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Criar exceção da barbearia para um período
+   * Com dryRun, nada é gravado e apenas os agendamentos em conflito são listados
+   */
+  static async createGlobal(
+    barbershopId: string,
+    data: CreateGlobalExceptionRequest,
+    userId: string
+  ): Promise<ExceptionChangeResult<Omit<GlobalException, 'id'>>> {
+    try {
+      const dates = ScheduleExceptionService.expandDates(data);
+      const times = ScheduleExceptionService.specialTimes(
+        data.type,
+        data.specialOpenTime,
+        data.specialCloseTime
+      );
+
+      const taken = await prisma.globalException.count({
+        where: { barbershopId, date: { in: dates.map(toDbDate) } },
+      });
+
+      if (taken > 0) {
+        throw new Error(ExceptionError.DATE_TAKEN);
+      }
+
+      const exceptions = dates.map((date) => ({
+        barbershopId,
+        date: toDbDate(date),
+        type: data.type,
+        reason: data.reason,
+        specialOpenTime: times.start,
+        specialCloseTime: times.end,
+      }));
+
+      const conflicts = await SchedulingService.findOrphanedAppointments(
+        barbershopId,
+        { globalExceptions: new Map(exceptions.map((item) => [toDateKey(item.date), item])) },
+        { startDate: dates[0], endDate: dates[dates.length - 1] }
+      );
+
+      if (data.dryRun) {
+        return { applied: false, exceptions, conflicts };
+      }
+
+      await prisma.globalException.createMany({ data: exceptions });
+
+      advancedLogger.business({
+        type: 'GLOBAL_EXCEPTION_CREATION',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'CREATE',
+        userId,
+        metadata: { type: data.type, dates: dates.length, conflicts: conflicts.length },
+      });
+
+      return { applied: true, exceptions, conflicts };
+    } catch (error) {
+      advancedLogger.error('Erro ao criar exceção da barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar exceção da barbearia em uma data
+   */
+  static async updateGlobal(
+    barbershopId: string,
+    exceptionId: string,
+    data: UpdateGlobalExceptionRequest,
+    userId: string
+  ): Promise<GlobalException> {
+    try {
+      const existing = await prisma.globalException.findFirst({
+        where: { id: exceptionId, barbershopId },
+      });
+
+      if (!existing) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      const type = data.type ?? existing.type;
+      const times = ScheduleExceptionService.specialTimes(
+        type,
+        data.specialOpenTime !== undefined ? data.specialOpenTime : existing.specialOpenTime,
+        data.specialCloseTime !== undefined ? data.specialCloseTime : existing.specialCloseTime
+      );
+
+      const exception = await prisma.globalException.update({
+        where: { id: exceptionId },
+        data: {
+          type,
+          ...(data.reason !== undefined && { reason: data.reason }),
+          specialOpenTime: times.start,
+          specialCloseTime: times.end,
+        },
+      });
+
+      advancedLogger.business({
+        type: 'GLOBAL_EXCEPTION_UPDATE',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'UPDATE',
+        userId,
+        metadata: { exceptionId, type },
+      });
+
+      return exception;
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar exceção da barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId, exceptionId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover exceção da barbearia em uma data
+   */
+  static async deleteGlobal(
+    barbershopId: string,
+    exceptionId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const { count } = await prisma.globalException.deleteMany({
+        where: { id: exceptionId, barbershopId },
+      });
+
+      if (count === 0) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      advancedLogger.business({
+        type: 'GLOBAL_EXCEPTION_DELETION',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'DELETE',
+        userId,
+        metadata: { exceptionId },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao remover exceção da barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId, exceptionId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover exceções da barbearia de um período
+   */
+  static async deleteGlobalRange(
+    barbershopId: string,
+    range: DateRange,
+    userId: string
+  ): Promise<number> {
+    try {
+      const dates = ScheduleExceptionService.expandDates(range);
+      const { count } = await prisma.globalException.deleteMany({
+        where: { barbershopId, date: { in: dates.map(toDbDate) } },
+      });
+
+      if (count === 0) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      advancedLogger.business({
+        type: 'GLOBAL_EXCEPTION_DELETION',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'DELETE',
+        userId,
+        metadata: { ...range, count },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao remover exceções da barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId, range },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Importar feriados nacionais (e municipais, se informado o município) como fechamento
+   * Datas que já têm exceção são mantidas e listadas em skipped
+   */
+  static async importHolidays(
+    barbershopId: string,
+    data: ImportHolidaysRequest,
+    userId: string
+  ): Promise<HolidayImportResult> {
+    try {
+      const holidays = getBrazilianHolidays(data.year, {
+        municipality: data.municipality,
+        includeOptional: data.includeOptional,
+      });
+
+      if (!holidays) {
+        throw new Error(ExceptionError.MUNICIPALITY_NOT_FOUND);
+      }
+
+      // Um registro por data (o primeiro feriado da lista dá nome ao dia)
+      const unique = holidays.filter(
+        (holiday, index) => holidays.findIndex((item) => item.date === holiday.date) === index
+      );
+
+      const existing = await prisma.globalException.findMany({
+        where: { barbershopId, date: { in: unique.map((holiday) => toDbDate(holiday.date)) } },
+        select: { date: true },
+      });
+      const takenDates = new Set(existing.map((item) => toDateKey(item.date)));
+
+      const imported = unique.filter((holiday) => !takenDates.has(holiday.date));
+      const skipped = unique.filter((holiday) => takenDates.has(holiday.date));
+
+      const conflicts = await SchedulingService.findOrphanedAppointments(
+        barbershopId,
+        {
+          globalExceptions: new Map(
+            imported.map((holiday) => [
+              holiday.date,
+              { type: ExceptionType.CLOSED, specialOpenTime: null, specialCloseTime: null },
+            ])
+          ),
+        },
+        { startDate: `${data.year}-01-01`, endDate: `${data.year}-12-31` }
+      );
+
+      if (data.dryRun) {
+        return { applied: false, imported, skipped, conflicts };
+      }
+
+      await prisma.globalException.createMany({
+        data: imported.map((holiday) => ({
+          barbershopId,
+          date: toDbDate(holiday.date),
+          type: ExceptionType.CLOSED,
+          reason: holiday.name,
+        })),
+      });
+
+      advancedLogger.business({
+        type: 'HOLIDAY_IMPORT',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'CREATE',
+        userId,
+        metadata: {
+          year: data.year,
+          municipality: data.municipality,
+          imported: imported.length,
+          skipped: skipped.length,
+        },
+      });
+
+      return { applied: true, imported, skipped, conflicts };
+    } catch (error) {
+      advancedLogger.error('Erro ao importar feriados', error as Error, {
+        userId,
+        metadata: { barbershopId, year: data.year, municipality: data.municipality },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Listar exceções do barbeiro (por padrão, de hoje em diante)
+   */
+  static async listBarber(
+    barbershopId: string,
+    barberId: string,
+    range: Partial<DateRange>,
+    user: AuthenticatedUser
+  ): Promise<BarberException[]> {
+    try {
+      await WeeklyScheduleService.assertCanManageBarber(barbershopId, barberId, user);
+
+      return await prisma.barberException.findMany({
+        where: { barberId, date: ScheduleExceptionService.dateFilter(range) },
+        orderBy: { date: 'asc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar exceções do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId, range },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Criar exceção do barbeiro para um período (ex: férias de vários dias)
+   * Com dryRun, nada é gravado e apenas os agendamentos em conflito são listados
+   */
+  static async createBarber(
+    barbershopId: string,
+    barberId: string,
+    data: CreateBarberExceptionRequest,
+    user: AuthenticatedUser
+  ): Promise<ExceptionChangeResult<Omit<BarberException, 'id'>>> {
+    try {
+      await WeeklyScheduleService.assertCanManageBarber(barbershopId, barberId, user);
+
+      const dates = ScheduleExceptionService.expandDates(data);
+      const times = ScheduleExceptionService.specialTimes(
+        data.type,
+        data.specialStartTime,
+        data.specialEndTime
+      );
+
+      const taken = await prisma.barberException.count({
+        where: { barberId, date: { in: dates.map(toDbDate) } },
+      });
+
+      if (taken > 0) {
+        throw new Error(ExceptionError.DATE_TAKEN);
+      }
+
+      const exceptions = dates.map((date) => ({
+        barberId,
+        date: toDbDate(date),
+        type: data.type,
+        reason: data.reason,
+        specialStartTime: times.start,
+        specialEndTime: times.end,
+      }));
+
+      const conflicts = await SchedulingService.findOrphanedAppointments(
+        barbershopId,
+        { barberExceptions: new Map(exceptions.map((item) => [toDateKey(item.date), item])) },
+        { barberId, startDate: dates[0], endDate: dates[dates.length - 1] }
+      );
+
+      if (data.dryRun) {
+        return { applied: false, exceptions, conflicts };
+      }
+
+      await prisma.barberException.createMany({ data: exceptions });
+
+      advancedLogger.business({
+        type: 'BARBER_EXCEPTION_CREATION',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'CREATE',
+        userId: user.id,
+        metadata: {
+          barbershopId,
+          type: data.type,
+          dates: dates.length,
+          conflicts: conflicts.length,
+        },
+      });
+
+      return { applied: true, exceptions, conflicts };
+    } catch (error) {
+      advancedLogger.error('Erro ao criar exceção do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar exceção do barbeiro em uma data
+   */
+  static async updateBarber(
+    barbershopId: string,
+    barberId: string,
+    exceptionId: string,
+    data: UpdateBarberExceptionRequest,
+    user: AuthenticatedUser
+  ): Promise<BarberException> {
+    try {
+      await WeeklyScheduleService.assertCanManageBarber(barbershopId, barberId, user);
+
+      const existing = await prisma.barberException.findFirst({
+        where: { id: exceptionId, barberId },
+      });
+
+      if (!existing) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      const type = data.type ?? existing.type;
+      const times = ScheduleExceptionService.specialTimes(
+        type,
+        data.specialStartTime !== undefined ? data.specialStartTime : existing.specialStartTime,
+        data.specialEndTime !== undefined ? data.specialEndTime : existing.specialEndTime
+      );
+
+      const exception = await prisma.barberException.update({
+        where: { id: exceptionId },
+        data: {
+          type,
+          ...(data.reason !== undefined && { reason: data.reason }),
+          specialStartTime: times.start,
+          specialEndTime: times.end,
+        },
+      });
+
+      advancedLogger.business({
+        type: 'BARBER_EXCEPTION_UPDATE',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: { barbershopId, exceptionId, type },
+      });
+
+      return exception;
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar exceção do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId, exceptionId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover exceção do barbeiro em uma data
+   */
+  static async deleteBarber(
+    barbershopId: string,
+    barberId: string,
+    exceptionId: string,
+    user: AuthenticatedUser
+  ): Promise<void> {
+    try {
+      await WeeklyScheduleService.assertCanManageBarber(barbershopId, barberId, user);
+
+      const { count } = await prisma.barberException.deleteMany({
+        where: { id: exceptionId, barberId },
+      });
+
+      if (count === 0) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      advancedLogger.business({
+        type: 'BARBER_EXCEPTION_DELETION',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'DELETE',
+        userId: user.id,
+        metadata: { barbershopId, exceptionId },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao remover exceção do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId, exceptionId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover exceções do barbeiro de um período
+   */
+  static async deleteBarberRange(
+    barbershopId: string,
+    barberId: string,
+    range: DateRange,
+    user: AuthenticatedUser
+  ): Promise<number> {
+    try {
+      await WeeklyScheduleService.assertCanManageBarber(barbershopId, barberId, user);
+
+      const dates = ScheduleExceptionService.expandDates(range);
+      const { count } = await prisma.barberException.deleteMany({
+        where: { barberId, date: { in: dates.map(toDbDate) } },
+      });
+
+      if (count === 0) {
+        throw new Error(ExceptionError.EXCEPTION_NOT_FOUND);
+      }
+
+      advancedLogger.business({
+        type: 'BARBER_EXCEPTION_DELETION',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'DELETE',
+        userId: user.id,
+        metadata: { barbershopId, ...range, count },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao remover exceções do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId, range },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Expandir um período em datas locais ("YYYY-MM-DD"), uma por dia
+   */
+  static expandDates(range: DateRange): string[] {
+    const endDate = range.endDate ?? range.startDate;
+    const length = daysBetween(range.startDate, endDate);
+
+    if (length < 0) {
+      throw new Error(ExceptionError.INVALID_RANGE);
+    }
+
+    if (length >= ScheduleExceptionService.MAX_RANGE_DAYS) {
+      throw new Error(ExceptionError.RANGE_TOO_LONG);
+    }
+
+    return Array.from({ length: length + 1 }, (_, index) => addDaysToDate(range.startDate, index));
+  }
+
+  /**
+   * Horários da exceção: obrigatórios para SPECIAL_HOURS/AVAILABLE, descartados nos demais tipos
+   */
+  private static specialTimes(
+    type: ExceptionType,
+    start: string | null | undefined,
+    end: string | null | undefined
+  ): { start: string | null; end: string | null } {
+    if (!TIMED_EXCEPTION_TYPES.includes(type)) {
+      return { start: null, end: null };
+    }
+
+    if (!start || !end || start >= end) {
+      throw new Error(ExceptionError.SPECIAL_TIMES_REQUIRED);
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Filtro de datas da listagem (sem início informado, a partir de hoje)
+   */
+  private static dateFilter(range: Partial<DateRange>) {
+    return {
+      gte: toDbDate(range.startDate ?? toDateKey(new Date())),
+      ...(range.endDate && { lte: toDbDate(range.endDate) }),
+    };
+  }
+}
@@ -0,0 +1,519 @@
+/**
+ * Motor de disponibilidade
+ * Implementa as regras de precedência de docs/regras_agendamento.md:
+ * Exceção Individual > Horário Individual > Exceção Global > Horário Global
+ */
+
+import { AppointmentStatus, ExceptionType } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { WaitlistService } from '@/services/waitlist.service';
+import {
+  addDaysToDate,
+  daysBetween,
+  formatDateInTimezone,
+  getDayOfWeek,
+  getMinutesInTimezone,
+  timeToMinutes,
+  zonedTimeToUtc,
+} from '@/utils/timezone';
+import {
+  AvailabilityQuery,
+  AvailabilityResponse,
+  AvailableSlot,
+  BusyInterval,
+  DayScheduleRules,
+  OrphanedAppointment,
+  OrphanedAppointmentsFilter,
+  ProposedScheduleRules,
+  ScheduleError,
+  TimeRange,
+  TimeSlot,
+  WorkingHours,
+} from '@/types/scheduling';
+
+// Status que não ocupam a agenda do barbeiro
+export const NON_BLOCKING_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.CANCELLED,
+  AppointmentStatus.NO_SHOW,
+];
+
+export class SchedulingService {
+  static readonly SLOT_INTERVAL_MINUTES = 30;
+  static readonly MIN_BOOKING_NOTICE_MINUTES = 60;
+  static readonly MAX_RANGE_DAYS = 31;
+
+  /**
+   * Resolver o horário de trabalho de um barbeiro em uma data
+   * Retorna null quando o barbeiro não atende na data
+   */
+  static resolveWorkingHours(rules: DayScheduleRules): WorkingHours | null {
+    // 1. Exceção individual (prioridade absoluta)
+    const { barberException } = rules;
+    if (barberException) {
+      if (
+        barberException.type === ExceptionType.SPECIAL_HOURS ||
+        barberException.type === ExceptionType.AVAILABLE
+      ) {
+        return SchedulingService.buildHours(
+          barberException.specialStartTime,
+          barberException.specialEndTime,
+          [],
+          'BARBER_EXCEPTION'
+        );
+      }
+
+      // OFF, VACATION e CLOSED: barbeiro indisponível
+      return null;
+    }
+
+    // 2. Horário individual
+    const { barberSchedule } = rules;
+    if (barberSchedule) {
+      if (!barberSchedule.isWorking) {
+        return null;
+      }
+
+      return SchedulingService.buildHours(
+        barberSchedule.startTime,
+        barberSchedule.endTime,
+        SchedulingService.buildBreaks(barberSchedule.breakStart, barberSchedule.breakEnd),
+        'BARBER_SCHEDULE'
+      );
+    }
+
+    // 3. Exceção global (apenas sem configuração individual)
+    const { globalException } = rules;
+    if (globalException && globalException.type !== ExceptionType.AVAILABLE) {
+      if (globalException.type === ExceptionType.SPECIAL_HOURS) {
+        return SchedulingService.buildHours(
+          globalException.specialOpenTime,
+          globalException.specialCloseTime,
+          [],
+          'GLOBAL_EXCEPTION'
+        );
+      }
+
+      // CLOSED, OFF e VACATION: barbearia fechada
+      return null;
+    }
+
+    // 4. Horário global (fallback)
+    const { globalSchedule } = rules;
+    if (!globalSchedule || !globalSchedule.isOpen) {
+      return null;
+    }
+
+    return SchedulingService.buildHours(
+      globalSchedule.openTime,
+      globalSchedule.closeTime,
+      SchedulingService.buildBreaks(globalSchedule.lunchStart, globalSchedule.lunchEnd),
+      'GLOBAL_SCHEDULE'
+    );
+  }
+
+  /**
+   * Verificar se um intervalo (minutos locais) cabe no horário de trabalho, fora dos intervalos
+   */
+  static fitsWorkingHours(hours: WorkingHours, range: TimeRange): boolean {
+    if (range.start < hours.start || range.end > hours.end) {
+      return false;
+    }
+
+    return !hours.breaks.some((pause) => range.start < pause.end && range.end > pause.start);
+  }
+
+  /**
+   * Carregar as regras de horário aplicáveis a um barbeiro em uma data
+   */
+  static async getDayRules(
+    barbershopId: string,
+    barberId: string,
+    date: string
+  ): Promise<DayScheduleRules> {
+    const day = new Date(`${date}T00:00:00.000Z`);
+    const dayOfWeek = getDayOfWeek(date);
+
+    const [barberException, barberSchedule, globalException, globalSchedule] = await Promise.all([
+      prisma.barberException.findFirst({ where: { barberId, date: day } }),
+      prisma.barberSchedule.findFirst({ where: { barberId, dayOfWeek } }),
+      prisma.globalException.findFirst({ where: { barbershopId, date: day } }),
+      prisma.globalSchedule.findFirst({ where: { barbershopId, dayOfWeek } }),
+    ]);
+
+    return { barberException, barberSchedule, globalException, globalSchedule };
+  }
+
+  /**
+   * Gerar slots de uma data que comportam a duração do serviço
+   * Descarta slots em intervalos, ocupados ou anteriores a notBefore
+   */
+  static generateSlots(params: {
+    date: string;
+    timezone: string;
+    hours: WorkingHours;
+    duration: number;
+    busy?: BusyInterval[];
+    notBefore?: Date;
+    interval?: number;
+  }): TimeSlot[] {
+    const { date, timezone, hours, duration } = params;
+    const busy = params.busy ?? [];
+    const interval = params.interval ?? SchedulingService.SLOT_INTERVAL_MINUTES;
+    const slots: TimeSlot[] = [];
+
+    for (let start = hours.start; start + duration <= hours.end; start += interval) {
+      const end = start + duration;
+
+      // Não pode atender durante intervalos
+      if (!SchedulingService.fitsWorkingHours(hours, { start, end })) {
+        continue;
+      }
+
+      const slot = {
+        start: zonedTimeToUtc(date, start, timezone),
+        end: zonedTimeToUtc(date, end, timezone),
+      };
+
+      if (params.notBefore && slot.start < params.notBefore) {
+        continue;
+      }
+
+      // Conflito se: (inicio < fim_existente) E (fim > inicio_existente)
+      if (busy.some((item) => slot.start < item.endTime && slot.end > item.startTime)) {
+        continue;
+      }
+
+      slots.push(slot);
+    }
+
+    return slots;
+  }
+
+  /**
+   * Consultar slots disponíveis de um ou mais serviços em uma barbearia
+   * Com vários serviços, o slot precisa comportar a duração somada com o mesmo barbeiro
+   */
+  static async getAvailability(
+    barbershopId: string,
+    query: AvailabilityQuery,
+    clientId?: string
+  ): Promise<AvailabilityResponse> {
+    try {
+      const startDate = query.startDate;
+      const endDate = query.endDate ?? query.startDate;
+
+      if (daysBetween(startDate, endDate) < 0) {
+        throw new Error('Data final deve ser posterior à data inicial');
+      }
+
+      if (daysBetween(startDate, endDate) >= SchedulingService.MAX_RANGE_DAYS) {
+        throw new Error(`Período máximo de consulta é de ${SchedulingService.MAX_RANGE_DAYS} dias`);
+      }
+
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id: barbershopId },
+        select: { id: true, timezone: true },
+      });
+
+      if (!barbershop) {
+        throw new Error('Barbearia não encontrada');
+      }
+
+      const serviceIds = query.serviceIds ?? (query.serviceId ? [query.serviceId] : []);
+      const found = await prisma.service.findMany({
+        where: { id: { in: serviceIds }, barbershopId, isActive: true },
+      });
+      const services = serviceIds.flatMap((id) => found.filter((service) => service.id === id));
+
+      if (services.length === 0 || services.length !== serviceIds.length) {
+        throw new Error('Serviço não encontrado');
+      }
+
+      const duration = services.reduce((total, service) => total + service.duration, 0);
+
+      const rangeStartDate = new Date(`${startDate}T00:00:00.000Z`);
+      const rangeEndDate = new Date(`${endDate}T00:00:00.000Z`);
+
+      const barbers = await prisma.barber.findMany({
+        where: {
+          barbershopId,
+          isActive: true,
+          ...(query.barberId && { id: query.barberId }),
+          AND: serviceIds.map((serviceId) => ({
+            services: { some: { serviceId, isActive: true } },
+          })),
+        },
+        include: {
+          user: { select: { name: true } },
+          schedules: true,
+          exceptions: { where: { date: { gte: rangeStartDate, lte: rangeEndDate } } },
+          services: {
+            where: { serviceId: { in: serviceIds } },
+            select: { serviceId: true, customPrice: true },
+          },
+        },
+      });
+
+      if (query.barberId && barbers.length === 0) {
+        throw new Error('Este barbeiro não executa este serviço');
+      }
+
+      const [globalSchedules, globalExceptions] = await Promise.all([
+        prisma.globalSchedule.findMany({ where: { barbershopId } }),
+        prisma.globalException.findMany({
+          where: { barbershopId, date: { gte: rangeStartDate, lte: rangeEndDate } },
+        }),
+      ]);
+
+      const rangeStart = zonedTimeToUtc(startDate, 0, barbershop.timezone);
+      const rangeEnd = zonedTimeToUtc(addDaysToDate(endDate, 1), 0, barbershop.timezone);
+
+      const appointments = await prisma.appointment.findMany({
+        where: {
+          barberId: { in: barbers.map((barber) => barber.id) },
+          status: { notIn: NON_BLOCKING_STATUSES },
+          startTime: { lt: rangeEnd },
+          endTime: { gt: rangeStart },
+        },
+        select: { barberId: true, startTime: true, endTime: true },
+      });
+      // Horários oferecidos à lista de espera ficam fora, exceto para o cliente que recebeu a oferta
+      const holds = await WaitlistService.heldSlots(
+        barbers.map((barber) => barber.id),
+        clientId
+      );
+      const busy = [...appointments, ...holds];
+
+      const notBefore = new Date(Date.now() + SchedulingService.MIN_BOOKING_NOTICE_MINUTES * 60000);
+      const slots: AvailableSlot[] = [];
+
+      for (let date = startDate; date <= endDate; date = addDaysToDate(date, 1)) {
+        const dayOfWeek = getDayOfWeek(date);
+        const globalRules = {
+          globalException: globalExceptions.find((item) => toDateKey(item.date) === date),
+          globalSchedule: globalSchedules.find((item) => item.dayOfWeek === dayOfWeek),
+        };
+
+        for (const barber of barbers) {
+          const hours = SchedulingService.resolveWorkingHours({
+            ...globalRules,
+            barberException: barber.exceptions.find((item) => toDateKey(item.date) === date),
+            barberSchedule: barber.schedules.find((item) => item.dayOfWeek === dayOfWeek),
+          });
+
+          if (!hours) {
+            continue;
+          }
+
+          const price = services.reduce((total, service) => {
+            const barberService = barber.services.find((item) => item.serviceId === service.id);
+            return total + Number(barberService?.customPrice ?? service.price);
+          }, 0);
+          const barberSlots = SchedulingService.generateSlots({
+            date,
+            timezone: barbershop.timezone,
+            hours,
+            duration,
+            busy: busy.filter((interval) => interval.barberId === barber.id),
+            notBefore,
+          });
+
+          slots.push(
+            ...barberSlots.map((slot) => ({
+              ...slot,
+              date,
+              barberId: barber.id,
+              barberName: barber.user.name,
+              price,
+            }))
+          );
+        }
+      }
+
+      slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      return {
+        barbershopId,
+        timezone: barbershop.timezone,
+        services: services.map((service) => ({
+          id: service.id,
+          name: service.name,
+          duration: service.duration,
+        })),
+        duration,
+        startDate,
+        endDate,
+        slots,
+      };
+    } catch (error) {
+      advancedLogger.error('Erro ao consultar disponibilidade', error as Error, {
+        metadata: { barbershopId, query },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Agendamentos futuros que cabem no horário atual e deixariam de caber com as regras propostas
+   * Usado para avisar o admin antes de alterar horários ou criar exceções
+   */
+  static async findOrphanedAppointments(
+    barbershopId: string,
+    proposed: ProposedScheduleRules,
+    filter: OrphanedAppointmentsFilter = {}
+  ): Promise<OrphanedAppointment[]> {
+    const barbershop = await prisma.barbershop.findUnique({
+      where: { id: barbershopId },
+      select: { timezone: true },
+    });
+
+    if (!barbershop) {
+      throw new Error(ScheduleError.BARBERSHOP_NOT_FOUND);
+    }
+
+    const { timezone } = barbershop;
+    const now = new Date();
+    const rangeStart = filter.startDate ? zonedTimeToUtc(filter.startDate, 0, timezone) : now;
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        barbershopId,
+        ...(filter.barberId && { barberId: filter.barberId }),
+        status: { in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+        startTime: {
+          gt: rangeStart > now ? rangeStart : now,
+          ...(filter.endDate && {
+            lt: zonedTimeToUtc(addDaysToDate(filter.endDate, 1), 0, timezone),
+          }),
+        },
+      },
+      include: {
+        barber: { select: { user: { select: { name: true } } } },
+        client: { select: { name: true } },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    if (appointments.length === 0) {
+      return [];
+    }
+
+    const dates = [
+      ...new Set(appointments.map((item) => formatDateInTimezone(item.startTime, timezone))),
+    ].map((date) => new Date(`${date}T00:00:00.000Z`));
+    const barberIds = [...new Set(appointments.map((item) => item.barberId))];
+
+    const [globalSchedules, barberSchedules, globalExceptions, barberExceptions] =
+      await Promise.all([
+        prisma.globalSchedule.findMany({ where: { barbershopId } }),
+        prisma.barberSchedule.findMany({ where: { barberId: { in: barberIds } } }),
+        prisma.globalException.findMany({ where: { barbershopId, date: { in: dates } } }),
+        prisma.barberException.findMany({
+          where: { barberId: { in: barberIds }, date: { in: dates } },
+        }),
+      ]);
+
+    const fits = (rules: DayScheduleRules, range: TimeRange) => {
+      const hours = SchedulingService.resolveWorkingHours(rules);
+      return hours !== null && SchedulingService.fitsWorkingHours(hours, range);
+    };
+
+    const orphaned: OrphanedAppointment[] = [];
+
+    for (const appointment of appointments) {
+      const date = formatDateInTimezone(appointment.startTime, timezone);
+      const dayOfWeek = getDayOfWeek(date);
+      const start = getMinutesInTimezone(appointment.startTime, timezone);
+      const range = {
+        start,
+        end:
+          start +
+          Math.round((appointment.endTime.getTime() - appointment.startTime.getTime()) / 60000),
+      };
+
+      const current: DayScheduleRules = {
+        barberException: barberExceptions.find(
+          (item) => item.barberId === appointment.barberId && toDateKey(item.date) === date
+        ),
+        barberSchedule: barberSchedules.find(
+          (item) => item.barberId === appointment.barberId && item.dayOfWeek === dayOfWeek
+        ),
+        globalException: globalExceptions.find((item) => toDateKey(item.date) === date),
+        globalSchedule: globalSchedules.find((item) => item.dayOfWeek === dayOfWeek),
+      };
+
+      // Regras individuais propostas só valem para o barbeiro do filtro
+      const ownBarber = filter.barberId === appointment.barberId;
+      const next: DayScheduleRules = {
+        ...current,
+        ...(proposed.globalSchedules?.has(dayOfWeek) && {
+          globalSchedule: proposed.globalSchedules.get(dayOfWeek),
+        }),
+        ...(proposed.globalExceptions?.has(date) && {
+          globalException: proposed.globalExceptions.get(date),
+        }),
+        ...(ownBarber &&
+          proposed.barberSchedules?.has(dayOfWeek) && {
+            barberSchedule: proposed.barberSchedules.get(dayOfWeek),
+          }),
+        ...(ownBarber &&
+          proposed.barberExceptions?.has(date) && {
+            barberException: proposed.barberExceptions.get(date),
+          }),
+      };
+
+      if (fits(current, range) && !fits(next, range)) {
+        orphaned.push({
+          appointmentId: appointment.id,
+          barberId: appointment.barberId,
+          barberName: appointment.barber.user.name,
+          clientName: appointment.client.name,
+          startTime: appointment.startTime,
+          endTime: appointment.endTime,
+        });
+      }
+    }
+
+    return orphaned;
+  }
+
+  /**
+   * Montar horário de trabalho a partir de strings "HH:MM"
+   */
+  private static buildHours(
+    start: string | null,
+    end: string | null,
+    breaks: TimeRange[],
+    source: WorkingHours['source']
+  ): WorkingHours | null {
+    if (!start || !end) {
+      return null;
+    }
+
+    const range = { start: timeToMinutes(start), end: timeToMinutes(end) };
+    if (range.start >= range.end) {
+      return null;
+    }
+
+    return { ...range, breaks, source };
+  }
+
+  /**
+   * Montar lista de intervalos (almoço/pausa pessoal)
+   */
+  private static buildBreaks(start: string | null, end: string | null): TimeRange[] {
+    if (!start || !end) {
+      return [];
+    }
+
+    return [{ start: timeToMinutes(start), end: timeToMinutes(end) }];
+  }
+}
+
+/**
+ * Chave "YYYY-MM-DD" de uma coluna @db.Date
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,429 @@
+/**
+ * Serviço do Catálogo de Serviços
+ * Cadastro de serviços e categorias da barbearia e atribuição de serviços aos barbeiros
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { CACHE_PREFIXES } from '@/config/redis';
+import { cacheService } from '@/services/cache.service';
+import {
+  AssignBarberServiceRequest,
+  CatalogError,
+  CreateServiceRequest,
+  ServiceAvailability,
+  ServiceCategorySummary,
+  UpdateServiceRequest,
+} from '@/types/service-catalog';
+
+// Barbeiros que executam o serviço (gestão do catálogo)
+const catalogInclude = {
+  barberServices: {
+    select: {
+      id: true,
+      customPrice: true,
+      isActive: true,
+      barber: {
+        select: {
+          id: true,
+          isActive: true,
+          user: { select: { name: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ServiceInclude;
+
+export class ServiceCatalogService {
+  /**
+   * Chave do cache HTTP da listagem pública de serviços
+   */
+  static availabilityCacheKey(barbershopId: string): string {
+    return `barbershops:${barbershopId}:services`;
+  }
+
+  /**
+   * Invalidar a listagem pública de serviços da barbearia
+   */
+  static async invalidateCache(barbershopId: string): Promise<void> {
+    await cacheService.delete(this.availabilityCacheKey(barbershopId), {
+      prefix: CACHE_PREFIXES.API,
+    });
+  }
+
+  /**
+   * Serviços ativos com os barbeiros disponíveis e o preço efetivo de cada um
+   */
+  static async listAvailability(barbershopId: string): Promise<ServiceAvailability[]> {
+    try {
+      await this.assertBarbershop(barbershopId);
+
+      const services = await prisma.service.findMany({
+        where: { barbershopId, isActive: true },
+        orderBy: [{ category: { sort: 'asc', nulls: 'last' } }, { name: 'asc' }],
+        include: {
+          barberServices: {
+            where: { isActive: true, barber: { isActive: true } },
+            select: {
+              customPrice: true,
+              barber: { select: { id: true, user: { select: { name: true } } } },
+            },
+          },
+        },
+      });
+
+      return services.map((service) => ({
+        serviceId: service.id,
+        serviceName: service.name,
+        description: service.description,
+        category: service.category,
+        duration: service.duration,
+        availableBarbers: service.barberServices
+          .map((barberService) => ({
+            barberId: barberService.barber.id,
+            barberName: barberService.barber.user.name,
+            price: barberService.customPrice ?? service.price,
+          }))
+          .sort((a, b) => a.barberName.localeCompare(b.barberName, 'pt-BR')),
+      }));
+    } catch (error) {
+      advancedLogger.error('Erro ao listar serviços da barbearia', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Catálogo completo para gestão (inclui serviços e atribuições inativos)
+   */
+  static async listCatalog(barbershopId: string) {
+    try {
+      return await prisma.service.findMany({
+        where: { barbershopId },
+        orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+        include: catalogInclude,
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar catálogo de serviços', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Criar serviço
+   */
+  static async createService(barbershopId: string, data: CreateServiceRequest, userId: string) {
+    try {
+      const service = await prisma.service.create({
+        data: {
+          barbershopId,
+          name: data.name,
+          description: data.description ?? null,
+          duration: data.duration,
+          price: data.price,
+          category: data.category ?? null,
+        },
+        include: catalogInclude,
+      });
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'SERVICE_CREATION',
+        entity: 'service',
+        entityId: service.id,
+        action: 'CREATE',
+        userId,
+        metadata: { barbershopId, name: service.name },
+      });
+
+      return service;
+    } catch (error) {
+      advancedLogger.error('Erro ao criar serviço', error as Error, {
+        userId,
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar serviço (também reativa/desativa via isActive)
+   */
+  static async updateService(
+    barbershopId: string,
+    serviceId: string,
+    data: UpdateServiceRequest,
+    userId: string
+  ) {
+    try {
+      await this.assertService(barbershopId, serviceId);
+
+      const service = await prisma.service.update({
+        where: { id: serviceId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.duration !== undefined && { duration: data.duration }),
+          ...(data.price !== undefined && { price: data.price }),
+          ...(data.category !== undefined && { category: data.category }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+        include: catalogInclude,
+      });
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'SERVICE_UPDATE',
+        entity: 'service',
+        entityId: serviceId,
+        action: 'UPDATE',
+        userId,
+        metadata: { barbershopId, fields: Object.keys(data) },
+      });
+
+      return service;
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar serviço', error as Error, {
+        userId,
+        metadata: { barbershopId, serviceId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Desativar serviço
+   * Serviços não são removidos para preservar o histórico de agendamentos
+   */
+  static async deactivateService(barbershopId: string, serviceId: string, userId: string) {
+    return this.updateService(barbershopId, serviceId, { isActive: false }, userId);
+  }
+
+  /**
+   * Listar categorias usadas pelos serviços ativos
+   */
+  static async listCategories(barbershopId: string): Promise<ServiceCategorySummary[]> {
+    try {
+      const groups = await prisma.service.groupBy({
+        by: ['category'],
+        where: { barbershopId, isActive: true, category: { not: null } },
+        _count: { _all: true },
+        orderBy: { category: 'asc' },
+      });
+
+      return groups.map((group) => ({
+        name: group.category as string,
+        services: group._count._all,
+      }));
+    } catch (error) {
+      advancedLogger.error('Erro ao listar categorias de serviços', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Renomear categoria em todos os serviços da barbearia
+   */
+  static async renameCategory(
+    barbershopId: string,
+    category: string,
+    name: string,
+    userId: string
+  ): Promise<number> {
+    try {
+      const { count } = await prisma.service.updateMany({
+        where: { barbershopId, category },
+        data: { category: name },
+      });
+
+      if (count === 0) {
+        throw new Error(CatalogError.CATEGORY_NOT_FOUND);
+      }
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'SERVICE_CATEGORY_UPDATE',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'UPDATE',
+        userId,
+        metadata: { from: category, to: name, services: count },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao renomear categoria de serviços', error as Error, {
+        userId,
+        metadata: { barbershopId, category },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Desativar todos os serviços ativos de uma categoria
+   */
+  static async deactivateCategory(
+    barbershopId: string,
+    category: string,
+    userId: string
+  ): Promise<number> {
+    try {
+      const { count } = await prisma.service.updateMany({
+        where: { barbershopId, category, isActive: true },
+        data: { isActive: false },
+      });
+
+      if (count === 0) {
+        throw new Error(CatalogError.CATEGORY_NOT_FOUND);
+      }
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'SERVICE_CATEGORY_DEACTIVATION',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'UPDATE',
+        userId,
+        metadata: { category, services: count },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao desativar categoria de serviços', error as Error, {
+        userId,
+        metadata: { barbershopId, category },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atribuir serviço a um barbeiro (ou atualizar preço/status da atribuição)
+   */
+  static async assignToBarber(
+    barbershopId: string,
+    barberId: string,
+    serviceId: string,
+    data: AssignBarberServiceRequest,
+    userId: string
+  ) {
+    try {
+      await this.assertBarber(barbershopId, barberId);
+      await this.assertService(barbershopId, serviceId);
+
+      const barberService = await prisma.barberService.upsert({
+        where: { barberId_serviceId: { barberId, serviceId } },
+        create: {
+          barberId,
+          serviceId,
+          customPrice: data.customPrice ?? null,
+          isActive: data.isActive ?? true,
+        },
+        update: {
+          ...(data.customPrice !== undefined && { customPrice: data.customPrice }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+      });
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'BARBER_SERVICE_ASSIGNMENT',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId,
+        metadata: { barbershopId, serviceId, ...data },
+      });
+
+      return barberService;
+    } catch (error) {
+      advancedLogger.error('Erro ao atribuir serviço ao barbeiro', error as Error, {
+        userId,
+        metadata: { barbershopId, barberId, serviceId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remover serviço de um barbeiro
+   */
+  static async removeFromBarber(
+    barbershopId: string,
+    barberId: string,
+    serviceId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const { count } = await prisma.barberService.deleteMany({
+        where: { barberId, serviceId, barber: { barbershopId } },
+      });
+
+      if (count === 0) {
+        throw new Error(CatalogError.ASSIGNMENT_NOT_FOUND);
+      }
+
+      await this.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'BARBER_SERVICE_REMOVAL',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'DELETE',
+        userId,
+        metadata: { barbershopId, serviceId },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao remover serviço do barbeiro', error as Error, {
+        userId,
+        metadata: { barbershopId, barberId, serviceId },
+      });
+      throw error;
+    }
+  }
+
+  private static async assertBarbershop(barbershopId: string): Promise<void> {
+    const barbershop = await prisma.barbershop.findUnique({
+      where: { id: barbershopId },
+      select: { id: true },
+    });
+
+    if (!barbershop) {
+      throw new Error(CatalogError.BARBERSHOP_NOT_FOUND);
+    }
+  }
+
+  private static async assertService(barbershopId: string, serviceId: string): Promise<void> {
+    const service = await prisma.service.findFirst({
+      where: { id: serviceId, barbershopId },
+      select: { id: true },
+    });
+
+    if (!service) {
+      throw new Error(CatalogError.SERVICE_NOT_FOUND);
+    }
+  }
+
+  private static async assertBarber(barbershopId: string, barberId: string): Promise<void> {
+    const barber = await prisma.barber.findFirst({
+      where: { id: barberId, barbershopId },
+      select: { id: true },
+    });
+
+    if (!barber) {
+      throw new Error(CatalogError.BARBER_NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Serviço de Sessões
+ * Registra os dispositivos conectados e coordena a revogação no Redis
+ */
+
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { TokenRevocationService } from '@/services/token-revocation.service';
+import { getRefreshTokenExpirationTime } from '@/utils/jwt';
+import { describeDevice } from '@/utils/user-agent';
+import { SessionContext, SessionInfo } from '@/types/auth';
+
+export class SessionService {
+  /**
+   * Abrir sessão no login/registro
+   */
+  static async start(
+    userId: string,
+    sessionId: string,
+    refreshJti: string,
+    context: SessionContext
+  ): Promise<void> {
+    await TokenRevocationService.startSession(userId, sessionId, refreshJti);
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        device: describeDevice(context.userAgent),
+        userAgent: context.userAgent ?? null,
+        ip: context.ip ?? null,
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+  }
+
+  /**
+   * Atualizar último acesso após rotação do refresh token
+   */
+  static async touch(sessionId: string, context: SessionContext): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: {
+        lastSeenAt: new Date(),
+        expiresAt: this.refreshExpiry(),
+        ...(context.ip !== undefined && { ip: context.ip }),
+      },
+    });
+  }
+
+  /**
+   * Listar sessões ativas do usuário
+   */
+  static async list(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+
+      return sessions.map((session) => ({
+        id: session.id,
+        device: session.device,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.id === currentSessionId,
+      }));
+    } catch (error) {
+      advancedLogger.error('Erro ao listar sessões', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Revogar uma sessão do usuário
+   * Retorna false se a sessão não existir, já estiver revogada ou pertencer a outro usuário
+   */
+  static async revoke(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      const session = await prisma.session.findFirst({
+        where: { id: sessionId, userId, revokedAt: null },
+      });
+
+      if (!session) {
+        return false;
+      }
+
+      // Redis primeiro: é ele que derruba os tokens, o banco só registra
+      await TokenRevocationService.revokeSession(userId, sessionId);
+
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { revokedAt: new Date() },
+      });
+
+      return true;
+    } catch (error) {
+      advancedLogger.error('Erro ao revogar sessão', error as Error, {
+        userId,
+        metadata: { sessionId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revogar todas as sessões do usuário
+   */
+  static async revokeAll(userId: string): Promise<number> {
+    try {
+      await TokenRevocationService.revokeAllSessions(userId);
+
+      const { count } = await prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return count;
+    } catch (error) {
+      advancedLogger.error('Erro ao revogar sessões', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Vencimento do refresh token emitido agora
+   */
+  private static refreshExpiry(): Date {
+    return new Date(Date.now() + getRefreshTokenExpirationTime() * 1000);
+  }
+}
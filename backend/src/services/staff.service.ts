@@ -0,0 +1,298 @@
+/**
+ * Serviço de Gestão da Equipe
+ * Listagem, edição, desativação e reativação de barbeiros da barbearia
+ */
+
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { AppointmentService } from '@/services/appointment.service';
+import { emailService } from '@/services/email.service';
+import { ServiceCatalogService } from '@/services/service-catalog.service';
+import { SessionService } from '@/services/session.service';
+import { AuthenticatedUser } from '@/types/auth';
+import {
+  BarberError,
+  DeactivateBarberRequest,
+  DeactivationSummary,
+  UpdateBarberRequest,
+} from '@/types/barber';
+import { AppointmentChangeEmail } from '@/types/email';
+
+// Campos retornados nas consultas de barbeiros
+const barberInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      avatar: true,
+    },
+  },
+  _count: {
+    select: {
+      services: true,
+    },
+  },
+} satisfies Prisma.BarberInclude;
+
+// Agendamentos futuros que ainda ocupam a agenda do barbeiro
+const PENDING_STATUSES = [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED];
+
+export class StaffService {
+  private static readonly DEFAULT_CANCEL_REASON = 'Barbeiro indisponível';
+
+  /**
+   * Listar barbeiros da barbearia
+   */
+  static async list(barbershopId: string, includeInactive = false) {
+    try {
+      return await prisma.barber.findMany({
+        where: { barbershopId, ...(!includeInactive && { isActive: true }) },
+        include: barberInclude,
+        orderBy: [{ isActive: 'desc' }, { user: { name: 'asc' } }],
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar barbeiros', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualizar perfil profissional do barbeiro
+   */
+  static async update(
+    barbershopId: string,
+    barberId: string,
+    data: UpdateBarberRequest,
+    userId: string
+  ) {
+    try {
+      await this.findBarber(barbershopId, barberId);
+
+      const barber = await prisma.barber.update({
+        where: { id: barberId },
+        data: {
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.experience !== undefined && { experience: data.experience }),
+          ...(data.specialties !== undefined && { specialties: data.specialties }),
+        },
+        include: barberInclude,
+      });
+
+      advancedLogger.business({
+        type: 'BARBER_UPDATE',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId,
+        metadata: { barbershopId, fields: Object.keys(data) },
+      });
+
+      return barber;
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar barbeiro', error as Error, {
+        userId,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Desativar barbeiro
+   * Os agendamentos futuros são remanejados para outro barbeiro ou cancelados, com aviso ao cliente.
+   * Quando o remanejamento não é possível (conflito, serviço não executado), o agendamento é cancelado.
+   */
+  static async deactivate(
+    barbershopId: string,
+    barberId: string,
+    data: DeactivateBarberRequest,
+    admin: AuthenticatedUser
+  ): Promise<DeactivationSummary> {
+    try {
+      const barber = await this.findBarber(barbershopId, barberId);
+
+      if (!barber.isActive) {
+        throw new Error(BarberError.ALREADY_INACTIVE);
+      }
+
+      const target =
+        data.futureAppointments === 'reassign'
+          ? await this.findReassignTarget(barbershopId, barberId, data.reassignToBarberId)
+          : null;
+
+      // Desativar primeiro impede novos agendamentos durante o remanejamento
+      await prisma.barber.update({ where: { id: barberId }, data: { isActive: false } });
+      await SessionService.revokeAll(barber.userId);
+
+      const appointments = await prisma.appointment.findMany({
+        where: {
+          barberId,
+          status: { in: PENDING_STATUSES },
+          startTime: { gt: new Date() },
+        },
+        include: {
+          client: { select: { name: true, email: true } },
+          barbershop: { select: { name: true, timezone: true } },
+        },
+        orderBy: { startTime: 'asc' },
+      });
+
+      const summary: DeactivationSummary = { reassigned: [], cancelled: [] };
+      const reason = data.reason ?? StaffService.DEFAULT_CANCEL_REASON;
+
+      for (const appointment of appointments) {
+        const notice = {
+          to: appointment.client.email,
+          name: appointment.client.name,
+          barbershopName: appointment.barbershop.name,
+          startTime: appointment.startTime,
+          timezone: appointment.barbershop.timezone,
+        };
+
+        if (target) {
+          try {
+            // Mantém status e preço; o aviso ao cliente é o email de remanejamento abaixo
+            await AppointmentService.reassignBarber(appointment.id, admin, target.id);
+
+            summary.reassigned.push(appointment.id);
+            await this.notify({ ...notice, change: 'REASSIGNED', barberName: target.user.name });
+            continue;
+          } catch (error) {
+            advancedLogger.warn('Agendamento não pôde ser remanejado, será cancelado', {
+              userId: admin.id,
+              metadata: {
+                appointmentId: appointment.id,
+                targetBarberId: target.id,
+                reason: (error as Error).message,
+              },
+            });
+          }
+        }
+
+        await AppointmentService.cancel(appointment.id, admin, { reason }, { notify: false });
+        summary.cancelled.push(appointment.id);
+        await this.notify({ ...notice, change: 'CANCELLED', reason });
+      }
+
+      await ServiceCatalogService.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'BARBER_DEACTIVATION',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId: admin.id,
+        metadata: {
+          barbershopId,
+          futureAppointments: data.futureAppointments,
+          reassigned: summary.reassigned.length,
+          cancelled: summary.cancelled.length,
+        },
+      });
+
+      return summary;
+    } catch (error) {
+      advancedLogger.error('Erro ao desativar barbeiro', error as Error, {
+        userId: admin.id,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reativar barbeiro
+   */
+  static async reactivate(barbershopId: string, barberId: string, userId: string) {
+    try {
+      const existing = await this.findBarber(barbershopId, barberId);
+
+      if (existing.isActive) {
+        throw new Error(BarberError.ALREADY_ACTIVE);
+      }
+
+      const barber = await prisma.barber.update({
+        where: { id: barberId },
+        data: { isActive: true },
+        include: barberInclude,
+      });
+
+      await ServiceCatalogService.invalidateCache(barbershopId);
+
+      advancedLogger.business({
+        type: 'BARBER_REACTIVATION',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId,
+        metadata: { barbershopId },
+      });
+
+      return barber;
+    } catch (error) {
+      advancedLogger.error('Erro ao reativar barbeiro', error as Error, {
+        userId,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  private static async findBarber(barbershopId: string, barberId: string) {
+    const barber = await prisma.barber.findFirst({
+      where: { id: barberId, barbershopId },
+    });
+
+    if (!barber) {
+      throw new Error(BarberError.NOT_FOUND);
+    }
+
+    return barber;
+  }
+
+  private static async findReassignTarget(
+    barbershopId: string,
+    barberId: string,
+    targetId: string | undefined
+  ) {
+    if (!targetId) {
+      throw new Error(BarberError.REASSIGN_TARGET_REQUIRED);
+    }
+
+    const target =
+      targetId === barberId
+        ? null
+        : await prisma.barber.findFirst({
+            where: { id: targetId, barbershopId, isActive: true },
+            include: { user: { select: { name: true } } },
+          });
+
+    if (!target) {
+      throw new Error(BarberError.REASSIGN_TARGET_INVALID);
+    }
+
+    return target;
+  }
+
+  /**
+   * Avisar o cliente sem interromper o processamento em caso de falha no envio
+   */
+  private static async notify(data: AppointmentChangeEmail): Promise<void> {
+    try {
+      await emailService.sendAppointmentChangeEmail(data);
+    } catch (error) {
+      advancedLogger.error(
+        'Erro ao avisar cliente sobre alteração de agendamento',
+        error as Error,
+        {
+          metadata: { to: data.to, change: data.change },
+        }
+      );
+    }
+  }
+}
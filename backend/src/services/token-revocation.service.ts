@@ -0,0 +1,133 @@
+/**
+ * Serviço de Revogação de Tokens
+ * Controla sessões (famílias de refresh tokens) e a denylist de access tokens no Redis
+ */
+
+import { redis, CACHE_PREFIXES } from '@/config/redis';
+import { advancedLogger } from '@/config/logger';
+import { getRefreshTokenExpirationTime } from '@/utils/jwt';
+import { JWTPayload, RefreshRotationResult } from '@/types/auth';
+
+export class TokenRevocationService {
+  /**
+   * Chave com o jti do refresh token vigente da sessão
+   */
+  private static sessionKey(sessionId: string): string {
+    return `${CACHE_PREFIXES.SESSION}family:${sessionId}`;
+  }
+
+  /**
+   * Conjunto com as sessões ativas do usuário
+   */
+  private static userSessionsKey(userId: string): string {
+    return `${CACHE_PREFIXES.SESSION}user:${userId}`;
+  }
+
+  /**
+   * Chave de um access token revogado antes do vencimento
+   */
+  private static denylistKey(jti: string): string {
+    return `${CACHE_PREFIXES.SESSION}denylist:${jti}`;
+  }
+
+  /**
+   * Registrar nova sessão com o primeiro refresh token da família
+   */
+  static async startSession(userId: string, sessionId: string, refreshJti: string): Promise<void> {
+    const ttl = getRefreshTokenExpirationTime();
+
+    await redis.set(this.sessionKey(sessionId), refreshJti, 'EX', ttl);
+    await redis.sadd(this.userSessionsKey(userId), sessionId);
+    await redis.expire(this.userSessionsKey(userId), ttl);
+  }
+
+  /**
+   * Rotacionar o refresh token da sessão
+   * A troca é atômica (SET XX GET): só o portador do jti vigente consegue rotacionar,
+   * qualquer outro jti da mesma família indica reutilização de um token já trocado
+   */
+  static async rotateRefreshToken(
+    sessionId: string,
+    presentedJti: string,
+    nextJti: string
+  ): Promise<RefreshRotationResult> {
+    const key = this.sessionKey(sessionId);
+    const currentJti = await redis.set(
+      key,
+      nextJti,
+      'EX',
+      getRefreshTokenExpirationTime(),
+      'XX',
+      'GET'
+    );
+
+    if (currentJti === null) {
+      return 'revoked';
+    }
+
+    if (currentJti !== presentedJti) {
+      return 'reused';
+    }
+
+    return 'rotated';
+  }
+
+  /**
+   * Revogar uma sessão (família inteira de refresh tokens e access tokens emitidos por ela)
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await redis.del(this.sessionKey(sessionId));
+    await redis.srem(this.userSessionsKey(userId), sessionId);
+
+    advancedLogger.info('Sessão revogada', { userId, metadata: { sessionId } });
+  }
+
+  /**
+   * Revogar todas as sessões do usuário
+   */
+  static async revokeAllSessions(userId: string): Promise<number> {
+    const sessionIds = await redis.smembers(this.userSessionsKey(userId));
+
+    if (sessionIds.length > 0) {
+      await redis.del(...sessionIds.map((sessionId) => this.sessionKey(sessionId)));
+    }
+    await redis.del(this.userSessionsKey(userId));
+
+    advancedLogger.info('Todas as sessões do usuário revogadas', {
+      userId,
+      metadata: { sessions: sessionIds.length },
+    });
+
+    return sessionIds.length;
+  }
+
+  /**
+   * Incluir access token na denylist até o seu vencimento
+   */
+  static async denyAccessToken(payload: Pick<JWTPayload, 'jti' | 'exp'>): Promise<void> {
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+
+    if (!payload.jti || ttl <= 0) {
+      return;
+    }
+
+    await redis.set(this.denylistKey(payload.jti), '1', 'EX', ttl);
+  }
+
+  /**
+   * Verificar se o access token foi revogado (denylist ou sessão encerrada)
+   */
+  static async isAccessTokenRevoked(payload: Pick<JWTPayload, 'jti' | 'sid'>): Promise<boolean> {
+    // Tokens sem jti/sid foram emitidos antes da revogação por sessão
+    if (!payload.jti || !payload.sid) {
+      return false;
+    }
+
+    const [denied, currentRefreshJti] = await redis.mget(
+      this.denylistKey(payload.jti),
+      this.sessionKey(payload.sid)
+    );
+
+    return denied !== null || currentRefreshJti === null;
+  }
+}
@@ -0,0 +1,714 @@
+/**
+ * Serviço de Lista de Espera
+ * Quando um horário é liberado (cancelamento ou remarcação), ele é oferecido aos clientes
+ * da lista de espera em ordem de inscrição, com reserva temporária (hold) no Redis.
+ * A oferta aceita vira um agendamento; recusada ou vencida, passa para o próximo da fila.
+ */
+
+import { Prisma, Role, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { redis, CACHE_PREFIXES } from '@/config/redis';
+import { AppointmentService } from '@/services/appointment.service';
+import { emailService } from '@/services/email.service';
+import { SchedulingService } from '@/services/scheduling.service';
+import { AppointmentError } from '@/types/appointment';
+import { AuthenticatedUser } from '@/types/auth';
+import { WaitlistOfferEmail } from '@/types/email';
+import { BusyInterval } from '@/types/scheduling';
+import {
+  FreedSlot,
+  JoinWaitlistRequest,
+  WaitlistError,
+  WaitlistFilters,
+  WaitlistHold,
+  WaitlistSweepResult,
+} from '@/types/waitlist';
+import {
+  addDaysToDate,
+  formatDateInTimezone,
+  getMinutesInTimezone,
+  timeToMinutes,
+  toDbDate,
+} from '@/utils/timezone';
+
+// Inscrições que ainda aguardam ou têm oferta pendente
+const ACTIVE_STATUSES: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+// Campos retornados nas consultas da lista de espera
+const entryInclude = {
+  client: { select: { id: true, name: true, email: true } },
+  barber: { select: { id: true, user: { select: { name: true } } } },
+  service: { select: { id: true, name: true, duration: true } },
+} satisfies Prisma.WaitlistEntryInclude;
+
+export class WaitlistService {
+  static readonly HOLD_MINUTES = 15;
+  static readonly SWEEP_INTERVAL_MS = 60 * 1000;
+
+  /**
+   * Reservas ativas na agenda do barbeiro (hash inscrição -> hold)
+   */
+  private static holdsKey(barberId: string): string {
+    return `${CACHE_PREFIXES.WAITLIST}holds:${barberId}`;
+  }
+
+  /**
+   * Inscrições que já receberam a oferta de um horário (para não oferecer de novo)
+   */
+  private static offeredKey(barberId: string, startTime: Date): string {
+    return `${CACHE_PREFIXES.WAITLIST}offered:${barberId}:${startTime.toISOString()}`;
+  }
+
+  /**
+   * Entrar na lista de espera
+   * Clientes se inscrevem; administradores podem inscrever um cliente
+   */
+  static async join(user: AuthenticatedUser, data: JoinWaitlistRequest) {
+    try {
+      if (user.role === Role.ADMIN && user.barbershopId !== data.barbershopId) {
+        throw new Error(WaitlistError.ACCESS_DENIED);
+      }
+
+      const clientId = user.role === Role.CLIENT ? user.id : (data.clientId ?? user.id);
+
+      const barbershop = await prisma.barbershop.findUnique({
+        where: { id: data.barbershopId },
+        select: { id: true, timezone: true },
+      });
+
+      if (!barbershop) {
+        throw new Error(WaitlistError.BARBERSHOP_NOT_FOUND);
+      }
+
+      if (data.desiredDate < formatDateInTimezone(new Date(), barbershop.timezone)) {
+        throw new Error(WaitlistError.PAST_DATE);
+      }
+
+      const service = await prisma.service.findFirst({
+        where: { id: data.serviceId, barbershopId: barbershop.id, isActive: true },
+        select: { id: true, duration: true },
+      });
+
+      if (!service) {
+        throw new Error(WaitlistError.SERVICE_NOT_FOUND);
+      }
+
+      if (data.barberId) {
+        const barber = await prisma.barber.findFirst({
+          where: { id: data.barberId, barbershopId: barbershop.id, isActive: true },
+          include: { services: { where: { serviceId: service.id, isActive: true } } },
+        });
+
+        if (!barber) {
+          throw new Error(WaitlistError.BARBER_NOT_FOUND);
+        }
+
+        if (barber.services.length === 0) {
+          throw new Error(WaitlistError.SERVICE_NOT_OFFERED);
+        }
+      }
+
+      if (timeToMinutes(data.windowEnd) - timeToMinutes(data.windowStart) < service.duration) {
+        throw new Error(WaitlistError.WINDOW_TOO_SHORT);
+      }
+
+      const desiredDate = toDbDate(data.desiredDate);
+      const duplicate = await prisma.waitlistEntry.findFirst({
+        where: {
+          clientId,
+          barbershopId: barbershop.id,
+          serviceId: service.id,
+          desiredDate,
+          status: { in: ACTIVE_STATUSES },
+        },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        throw new Error(WaitlistError.ALREADY_WAITING);
+      }
+
+      const entry = await prisma.waitlistEntry.create({
+        data: {
+          barbershopId: barbershop.id,
+          clientId,
+          barberId: data.barberId ?? null,
+          serviceId: service.id,
+          desiredDate,
+          windowStart: data.windowStart,
+          windowEnd: data.windowEnd,
+        },
+        include: entryInclude,
+      });
+
+      advancedLogger.business({
+        type: 'WAITLIST_JOIN',
+        entity: 'waitlist',
+        entityId: entry.id,
+        action: 'CREATE',
+        userId: user.id,
+        metadata: {
+          barbershopId: barbershop.id,
+          clientId,
+          serviceId: service.id,
+          barberId: data.barberId,
+          desiredDate: data.desiredDate,
+        },
+      });
+
+      return entry;
+    } catch (error) {
+      advancedLogger.error('Erro ao entrar na lista de espera', error as Error, {
+        userId: user.id,
+        metadata: { data },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Listar inscrições visíveis ao usuário (por padrão, apenas as ativas)
+   */
+  static async list(user: AuthenticatedUser, filters: WaitlistFilters = {}) {
+    try {
+      return await prisma.waitlistEntry.findMany({
+        where: {
+          ...WaitlistService.buildScope(user),
+          ...(filters.barbershopId && { barbershopId: filters.barbershopId }),
+          ...(filters.date && { desiredDate: toDbDate(filters.date) }),
+          status: filters.status ?? { in: ACTIVE_STATUSES },
+        },
+        include: entryInclude,
+        orderBy: [{ desiredDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao listar lista de espera', error as Error, {
+        userId: user.id,
+        metadata: { filters },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sair da lista de espera
+   * Uma oferta pendente é liberada e passa para o próximo da fila
+   */
+  static async leave(id: string, user: AuthenticatedUser): Promise<void> {
+    try {
+      const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+
+      if (!entry) {
+        throw new Error(WaitlistError.NOT_FOUND);
+      }
+
+      WaitlistService.assertAccess(entry, user);
+
+      const { count } = await prisma.waitlistEntry.updateMany({
+        where: { id, status: { in: ACTIVE_STATUSES } },
+        data: { status: WaitlistStatus.CANCELLED, offerExpiresAt: null },
+      });
+
+      if (count === 0) {
+        throw new Error(WaitlistError.NOT_ACTIVE);
+      }
+
+      advancedLogger.business({
+        type: 'WAITLIST_LEAVE',
+        entity: 'waitlist',
+        entityId: id,
+        action: 'DELETE',
+        userId: user.id,
+        metadata: { barbershopId: entry.barbershopId, status: entry.status },
+      });
+
+      if (entry.status === WaitlistStatus.OFFERED) {
+        await WaitlistService.passOffer(entry);
+      }
+    } catch (error) {
+      advancedLogger.error('Erro ao sair da lista de espera', error as Error, {
+        userId: user.id,
+        metadata: { entryId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Aceitar a oferta de horário, criando o agendamento
+   */
+  static async accept(id: string, user: AuthenticatedUser) {
+    try {
+      const entry = await WaitlistService.findOwnOffer(id, user);
+      const hold = await WaitlistService.getHold(entry.offeredBarberId, entry.id);
+
+      if (!hold || new Date(hold.expiresAt).getTime() <= Date.now()) {
+        await WaitlistService.resetOffer(entry);
+        await WaitlistService.passOffer(entry);
+        throw new Error(WaitlistError.OFFER_EXPIRED);
+      }
+
+      let appointment;
+      try {
+        appointment = await AppointmentService.create(user, {
+          barbershopId: entry.barbershopId,
+          barberId: entry.offeredBarberId,
+          serviceId: entry.serviceId,
+          startTime: hold.startTime,
+        });
+      } catch (error) {
+        // Horário deixou de estar disponível: a inscrição volta a aguardar
+        await WaitlistService.resetOffer(entry);
+        throw error;
+      }
+
+      await prisma.waitlistEntry.update({
+        where: { id },
+        data: {
+          status: WaitlistStatus.BOOKED,
+          appointmentId: appointment.id,
+          offerExpiresAt: null,
+        },
+      });
+      await WaitlistService.releaseHold(entry.offeredBarberId, entry.id);
+
+      advancedLogger.business({
+        type: 'WAITLIST_OFFER_ACCEPTED',
+        entity: 'waitlist',
+        entityId: id,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: { appointmentId: appointment.id, barberId: entry.offeredBarberId },
+      });
+
+      return appointment;
+    } catch (error) {
+      advancedLogger.error('Erro ao aceitar oferta da lista de espera', error as Error, {
+        userId: user.id,
+        metadata: { entryId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Recusar a oferta de horário (a inscrição continua na fila para outros horários)
+   */
+  static async decline(id: string, user: AuthenticatedUser): Promise<void> {
+    try {
+      const entry = await WaitlistService.findOwnOffer(id, user);
+
+      if (await WaitlistService.resetOffer(entry)) {
+        await WaitlistService.passOffer(entry);
+      }
+
+      advancedLogger.business({
+        type: 'WAITLIST_OFFER_DECLINED',
+        entity: 'waitlist',
+        entityId: id,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: { barberId: entry.offeredBarberId },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao recusar oferta da lista de espera', error as Error, {
+        userId: user.id,
+        metadata: { entryId: id },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Oferecer um horário liberado ao primeiro cliente compatível da fila
+   * Compatível: mesma data, barbeiro indiferente ou o mesmo, serviço executado pelo barbeiro
+   * e que caiba no intervalo livre e na janela desejada. Falhas são registradas sem propagar,
+   * pois a liberação do horário (cancelamento/remarcação) já foi concluída.
+   */
+  static async offerFreedSlot(slot: FreedSlot): Promise<string | null> {
+    try {
+      const notBefore = Date.now() + SchedulingService.MIN_BOOKING_NOTICE_MINUTES * 60000;
+
+      if (slot.startTime.getTime() < notBefore) {
+        return null;
+      }
+
+      const [barbershop, barber] = await Promise.all([
+        prisma.barbershop.findUnique({
+          where: { id: slot.barbershopId },
+          select: { name: true, timezone: true },
+        }),
+        prisma.barber.findUnique({
+          where: { id: slot.barberId },
+          select: {
+            isActive: true,
+            user: { select: { name: true } },
+            services: { where: { isActive: true }, select: { serviceId: true } },
+          },
+        }),
+      ]);
+
+      if (!barbershop || !barber?.isActive) {
+        return null;
+      }
+
+      const offeredKey = WaitlistService.offeredKey(slot.barberId, slot.startTime);
+      const [alreadyOffered, holds] = await Promise.all([
+        redis.smembers(offeredKey),
+        WaitlistService.activeHolds(slot.barberId),
+      ]);
+
+      const candidates = await prisma.waitlistEntry.findMany({
+        where: {
+          barbershopId: slot.barbershopId,
+          status: WaitlistStatus.WAITING,
+          desiredDate: toDbDate(formatDateInTimezone(slot.startTime, barbershop.timezone)),
+          OR: [{ barberId: null }, { barberId: slot.barberId }],
+          ...(alreadyOffered.length > 0 && { id: { notIn: alreadyOffered } }),
+        },
+        include: entryInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const servedIds = new Set(barber.services.map((item) => item.serviceId));
+      const start = getMinutesInTimezone(slot.startTime, barbershop.timezone);
+      const freeMinutes = Math.round((slot.endTime.getTime() - slot.startTime.getTime()) / 60000);
+
+      for (const entry of candidates) {
+        const duration = entry.service.duration;
+
+        if (
+          !servedIds.has(entry.serviceId) ||
+          duration > freeMinutes ||
+          start < timeToMinutes(entry.windowStart) ||
+          start + duration > timeToMinutes(entry.windowEnd)
+        ) {
+          continue;
+        }
+
+        const endTime = new Date(slot.startTime.getTime() + duration * 60000);
+        const held = holds.some(
+          (hold) => new Date(hold.startTime) < endTime && new Date(hold.endTime) > slot.startTime
+        );
+
+        if (held) {
+          return null;
+        }
+
+        const expiresAt = new Date(Date.now() + WaitlistService.HOLD_MINUTES * 60000);
+
+        // Condiciona ao status lido para não disputar a inscrição com outra oferta
+        const { count } = await prisma.waitlistEntry.updateMany({
+          where: { id: entry.id, status: WaitlistStatus.WAITING },
+          data: {
+            status: WaitlistStatus.OFFERED,
+            offeredBarberId: slot.barberId,
+            offeredStartTime: slot.startTime,
+            offeredEndTime: slot.endTime,
+            offerExpiresAt: expiresAt,
+          },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        await WaitlistService.placeHold(slot.barberId, {
+          entryId: entry.id,
+          clientId: entry.clientId,
+          startTime: slot.startTime.toISOString(),
+          endTime: endTime.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+        });
+        await redis.sadd(offeredKey, entry.id);
+        await redis.expire(offeredKey, 24 * 60 * 60);
+
+        advancedLogger.business({
+          type: 'WAITLIST_OFFER',
+          entity: 'waitlist',
+          entityId: entry.id,
+          action: 'UPDATE',
+          metadata: {
+            barbershopId: slot.barbershopId,
+            barberId: slot.barberId,
+            startTime: slot.startTime.toISOString(),
+            expiresAt: expiresAt.toISOString(),
+          },
+        });
+
+        await WaitlistService.notify({
+          to: entry.client.email,
+          name: entry.client.name,
+          barbershopName: barbershop.name,
+          serviceName: entry.service.name,
+          barberName: barber.user.name,
+          startTime: slot.startTime,
+          timezone: barbershop.timezone,
+          entryId: entry.id,
+          expiresAt,
+        });
+
+        return entry.id;
+      }
+
+      return null;
+    } catch (error) {
+      advancedLogger.error('Erro ao oferecer horário da lista de espera', error as Error, {
+        metadata: {
+          barbershopId: slot.barbershopId,
+          barberId: slot.barberId,
+          startTime: slot.startTime.toISOString(),
+        },
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Horários reservados na agenda dos barbeiros para outros clientes da lista de espera
+   * Sem Redis disponível, nenhum horário é tratado como reservado
+   */
+  static async heldSlots(
+    barberIds: string[],
+    clientId?: string
+  ): Promise<Array<BusyInterval & { barberId: string }>> {
+    try {
+      const holds = await Promise.all(
+        barberIds.map(async (barberId) =>
+          (await WaitlistService.activeHolds(barberId))
+            .filter((hold) => hold.clientId !== clientId)
+            .map((hold) => ({
+              barberId,
+              startTime: new Date(hold.startTime),
+              endTime: new Date(hold.endTime),
+            }))
+        )
+      );
+      return holds.flat();
+    } catch (error) {
+      advancedLogger.warn('Não foi possível consultar reservas da lista de espera', {
+        metadata: { barberIds, error: (error as Error).message },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Impedir que outro cliente agende um horário reservado para a lista de espera
+   * Sem Redis disponível, o agendamento segue normalmente
+   */
+  static async assertSlotNotHeld(
+    barberId: string,
+    startTime: Date,
+    endTime: Date,
+    clientId: string
+  ): Promise<void> {
+    let holds: WaitlistHold[];
+
+    try {
+      holds = await WaitlistService.activeHolds(barberId);
+    } catch (error) {
+      advancedLogger.warn('Não foi possível consultar reservas da lista de espera', {
+        metadata: { barberId, error: (error as Error).message },
+      });
+      return;
+    }
+
+    const blocking = holds.some(
+      (hold) =>
+        hold.clientId !== clientId &&
+        new Date(hold.startTime) < endTime &&
+        new Date(hold.endTime) > startTime
+    );
+
+    if (blocking) {
+      throw new Error(AppointmentError.SLOT_ON_HOLD);
+    }
+  }
+
+  /**
+   * Varredura periódica: ofertas vencidas passam para o próximo da fila
+   * e inscrições com data já passada são encerradas
+   */
+  static async processExpiredOffers(): Promise<WaitlistSweepResult> {
+    try {
+      const expired = await prisma.waitlistEntry.findMany({
+        where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { lte: new Date() } },
+        orderBy: { offerExpiresAt: 'asc' },
+      });
+
+      let expiredOffers = 0;
+      for (const entry of expired) {
+        if (await WaitlistService.resetOffer(entry)) {
+          expiredOffers++;
+          await WaitlistService.passOffer(entry);
+        }
+      }
+
+      // Margem de um dia cobre barbearias em qualquer fuso
+      const cutoff = addDaysToDate(new Date().toISOString().slice(0, 10), -1);
+      const { count: expiredEntries } = await prisma.waitlistEntry.updateMany({
+        where: { status: WaitlistStatus.WAITING, desiredDate: { lt: toDbDate(cutoff) } },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+
+      if (expiredOffers > 0 || expiredEntries > 0) {
+        advancedLogger.info('Lista de espera atualizada', {
+          metadata: { expiredOffers, expiredEntries },
+        });
+      }
+
+      return { expiredOffers, expiredEntries };
+    } catch (error) {
+      advancedLogger.error('Erro ao processar ofertas vencidas da lista de espera', error as Error);
+      return { expiredOffers: 0, expiredEntries: 0 };
+    }
+  }
+
+  /**
+   * Inscrição do próprio usuário com oferta pendente
+   */
+  private static async findOwnOffer(id: string, user: AuthenticatedUser) {
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+
+    if (!entry) {
+      throw new Error(WaitlistError.NOT_FOUND);
+    }
+
+    if (entry.clientId !== user.id) {
+      throw new Error(WaitlistError.ACCESS_DENIED);
+    }
+
+    if (
+      entry.status !== WaitlistStatus.OFFERED ||
+      !entry.offeredBarberId ||
+      !entry.offeredStartTime ||
+      !entry.offeredEndTime
+    ) {
+      throw new Error(WaitlistError.NO_ACTIVE_OFFER);
+    }
+
+    return { ...entry, offeredBarberId: entry.offeredBarberId };
+  }
+
+  /**
+   * Devolver a inscrição com oferta pendente para a fila e liberar a reserva
+   * Retorna false se a oferta já foi resolvida por outra operação
+   */
+  private static async resetOffer(entry: WaitlistEntry): Promise<boolean> {
+    const { count } = await prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: WaitlistStatus.OFFERED },
+      data: {
+        status: WaitlistStatus.WAITING,
+        offeredBarberId: null,
+        offeredStartTime: null,
+        offeredEndTime: null,
+        offerExpiresAt: null,
+      },
+    });
+
+    if (entry.offeredBarberId) {
+      await WaitlistService.releaseHold(entry.offeredBarberId, entry.id);
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * Oferecer ao próximo da fila o horário que estava com a inscrição
+   */
+  private static async passOffer(entry: WaitlistEntry): Promise<void> {
+    if (!entry.offeredBarberId || !entry.offeredStartTime || !entry.offeredEndTime) {
+      return;
+    }
+
+    await WaitlistService.releaseHold(entry.offeredBarberId, entry.id);
+    await WaitlistService.offerFreedSlot({
+      barbershopId: entry.barbershopId,
+      barberId: entry.offeredBarberId,
+      startTime: entry.offeredStartTime,
+      endTime: entry.offeredEndTime,
+    });
+  }
+
+  /**
+   * Reservas ainda válidas na agenda do barbeiro
+   */
+  private static async activeHolds(barberId: string): Promise<WaitlistHold[]> {
+    const stored = await redis.hgetall(WaitlistService.holdsKey(barberId));
+    const now = Date.now();
+
+    return Object.values(stored)
+      .map((value) => JSON.parse(value) as WaitlistHold)
+      .filter((hold) => new Date(hold.expiresAt).getTime() > now);
+  }
+
+  private static async getHold(barberId: string, entryId: string): Promise<WaitlistHold | null> {
+    const value = await redis.hget(WaitlistService.holdsKey(barberId), entryId);
+    return value ? (JSON.parse(value) as WaitlistHold) : null;
+  }
+
+  /**
+   * Gravar a reserva; o hash inteiro expira junto com a reserva mais recente
+   */
+  private static async placeHold(barberId: string, hold: WaitlistHold): Promise<void> {
+    const key = WaitlistService.holdsKey(barberId);
+
+    await redis.hset(key, hold.entryId, JSON.stringify(hold));
+    await redis.expire(key, WaitlistService.HOLD_MINUTES * 60);
+  }
+
+  private static async releaseHold(barberId: string, entryId: string): Promise<void> {
+    await redis.hdel(WaitlistService.holdsKey(barberId), entryId);
+  }
+
+  /**
+   * Filtro de visibilidade por papel do usuário
+   */
+  private static buildScope(user: AuthenticatedUser): Prisma.WaitlistEntryWhereInput {
+    switch (user.role) {
+      case Role.SUPER_ADMIN:
+        return {};
+      case Role.ADMIN:
+        return { barbershopId: user.barbershopId ?? '' };
+      case Role.BARBER:
+        return {
+          barbershopId: user.barbershopId ?? '',
+          OR: [{ barberId: null }, { barberId: user.barberId ?? '' }],
+        };
+      default:
+        return { clientId: user.id };
+    }
+  }
+
+  /**
+   * Garantir que o usuário pode alterar a inscrição (o próprio cliente ou a barbearia)
+   */
+  private static assertAccess(
+    entry: { clientId: string; barbershopId: string },
+    user: AuthenticatedUser
+  ): void {
+    const allowed =
+      user.role === Role.SUPER_ADMIN ||
+      (user.role === Role.ADMIN && entry.barbershopId === user.barbershopId) ||
+      entry.clientId === user.id;
+
+    if (!allowed) {
+      throw new Error(WaitlistError.ACCESS_DENIED);
+    }
+  }
+
+  /**
+   * Avisar o cliente sem interromper o processamento em caso de falha no envio
+   */
+  private static async notify(data: WaitlistOfferEmail): Promise<void> {
+    try {
+      await emailService.sendWaitlistOfferEmail(data);
+    } catch (error) {
+      advancedLogger.error('Erro ao enviar oferta da lista de espera', error as Error, {
+        metadata: { to: data.to, entryId: data.entryId },
+      });
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Editor de horários semanais
+ * Atualização em lote do horário da barbearia (GlobalSchedule) e dos barbeiros (BarberSchedule),
+ * com relatório dos agendamentos futuros que deixariam de caber no novo horário
+ */
+
+import { BarberSchedule, GlobalSchedule, Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { PermissionService } from '@/services/permission.service';
+import { SchedulingService } from '@/services/scheduling.service';
+import { AuthenticatedUser } from '@/types/auth';
+import {
+  BarberScheduleDay,
+  DayScheduleRules,
+  GlobalScheduleDay,
+  OrphanedAppointment,
+  ScheduleChangeResult,
+  ScheduleError,
+} from '@/types/scheduling';
+
+export class WeeklyScheduleService {
+  /**
+   * Horário de funcionamento da barbearia na semana
+   */
+  static async getGlobalWeek(barbershopId: string): Promise<GlobalSchedule[]> {
+    try {
+      return await prisma.globalSchedule.findMany({
+        where: { barbershopId },
+        orderBy: { dayOfWeek: 'asc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao obter horário da barbearia', error as Error, {
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Agendamentos futuros que a alteração do horário da barbearia deixaria sem horário
+   */
+  static async previewGlobalWeek(
+    barbershopId: string,
+    days: GlobalScheduleDay[]
+  ): Promise<OrphanedAppointment[]> {
+    return SchedulingService.findOrphanedAppointments(barbershopId, {
+      globalSchedules: new Map(days.map((day) => [day.dayOfWeek, toGlobalRules(day)])),
+    });
+  }
+
+  /**
+   * Atualizar em lote o horário da barbearia
+   * Com agendamentos afetados, só aplica quando force = true
+   */
+  static async updateGlobalWeek(
+    barbershopId: string,
+    days: GlobalScheduleDay[],
+    force: boolean,
+    userId: string
+  ): Promise<ScheduleChangeResult<GlobalSchedule>> {
+    try {
+      const orphaned = await this.previewGlobalWeek(barbershopId, days);
+
+      if (orphaned.length > 0 && !force) {
+        return { applied: false, schedule: await this.getGlobalWeek(barbershopId), orphaned };
+      }
+
+      await prisma.$transaction(
+        days.map((day) => {
+          const data = {
+            isOpen: day.isOpen,
+            openTime: day.openTime,
+            closeTime: day.closeTime,
+            lunchStart: day.lunchStart ?? null,
+            lunchEnd: day.lunchEnd ?? null,
+          };
+
+          return prisma.globalSchedule.upsert({
+            where: { barbershopId_dayOfWeek: { barbershopId, dayOfWeek: day.dayOfWeek } },
+            create: { barbershopId, dayOfWeek: day.dayOfWeek, ...data },
+            update: data,
+          });
+        })
+      );
+
+      advancedLogger.business({
+        type: 'GLOBAL_SCHEDULE_UPDATE',
+        entity: 'barbershop',
+        entityId: barbershopId,
+        action: 'UPDATE',
+        userId,
+        metadata: { days: days.map((day) => day.dayOfWeek), orphaned: orphaned.length },
+      });
+
+      return { applied: true, schedule: await this.getGlobalWeek(barbershopId), orphaned };
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar horário da barbearia', error as Error, {
+        userId,
+        metadata: { barbershopId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Horário individual do barbeiro na semana
+   * Dias sem registro seguem o horário da barbearia
+   */
+  static async getBarberWeek(
+    barbershopId: string,
+    barberId: string,
+    user: AuthenticatedUser
+  ): Promise<BarberSchedule[]> {
+    try {
+      await this.assertCanManageBarber(barbershopId, barberId, user);
+
+      return await prisma.barberSchedule.findMany({
+        where: { barberId },
+        orderBy: { dayOfWeek: 'asc' },
+      });
+    } catch (error) {
+      advancedLogger.error('Erro ao obter horário do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Agendamentos futuros do barbeiro que a alteração deixaria sem horário
+   */
+  static async previewBarberWeek(
+    barbershopId: string,
+    barberId: string,
+    days: BarberScheduleDay[],
+    user: AuthenticatedUser
+  ): Promise<OrphanedAppointment[]> {
+    await this.assertCanManageBarber(barbershopId, barberId, user);
+
+    return SchedulingService.findOrphanedAppointments(
+      barbershopId,
+      { barberSchedules: new Map(days.map((day) => [day.dayOfWeek, toBarberRules(day)])) },
+      { barberId }
+    );
+  }
+
+  /**
+   * Atualizar em lote o horário individual do barbeiro
+   * Com agendamentos afetados, só aplica quando force = true
+   */
+  static async updateBarberWeek(
+    barbershopId: string,
+    barberId: string,
+    days: BarberScheduleDay[],
+    force: boolean,
+    user: AuthenticatedUser
+  ): Promise<ScheduleChangeResult<BarberSchedule>> {
+    try {
+      const orphaned = await this.previewBarberWeek(barbershopId, barberId, days, user);
+
+      if (orphaned.length > 0 && !force) {
+        return {
+          applied: false,
+          schedule: await prisma.barberSchedule.findMany({
+            where: { barberId },
+            orderBy: { dayOfWeek: 'asc' },
+          }),
+          orphaned,
+        };
+      }
+
+      await prisma.$transaction(
+        days.map((day) => {
+          const data = {
+            isWorking: day.isWorking,
+            startTime: day.startTime,
+            endTime: day.endTime,
+            breakStart: day.breakStart ?? null,
+            breakEnd: day.breakEnd ?? null,
+          };
+
+          return prisma.barberSchedule.upsert({
+            where: { barberId_dayOfWeek: { barberId, dayOfWeek: day.dayOfWeek } },
+            create: { barberId, dayOfWeek: day.dayOfWeek, ...data },
+            update: data,
+          });
+        })
+      );
+
+      advancedLogger.business({
+        type: 'BARBER_SCHEDULE_UPDATE',
+        entity: 'barber',
+        entityId: barberId,
+        action: 'UPDATE',
+        userId: user.id,
+        metadata: {
+          barbershopId,
+          days: days.map((day) => day.dayOfWeek),
+          orphaned: orphaned.length,
+        },
+      });
+
+      return {
+        applied: true,
+        schedule: await prisma.barberSchedule.findMany({
+          where: { barberId },
+          orderBy: { dayOfWeek: 'asc' },
+        }),
+        orphaned,
+      };
+    } catch (error) {
+      advancedLogger.error('Erro ao atualizar horário do barbeiro', error as Error, {
+        userId: user.id,
+        metadata: { barbershopId, barberId },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Barbeiros sem schedule:manage só alteram o próprio horário (schedule:manage:self)
+   */
+  static async assertCanManageBarber(
+    barbershopId: string,
+    barberId: string,
+    user: AuthenticatedUser
+  ): Promise<void> {
+    const barber = await prisma.barber.findFirst({
+      where: { id: barberId, barbershopId },
+      select: { id: true },
+    });
+
+    if (!barber) {
+      throw new Error(ScheduleError.BARBER_NOT_FOUND);
+    }
+
+    if (user.role !== Role.BARBER || user.barberId === barberId) {
+      return;
+    }
+
+    const canManageAll = await PermissionService.hasPermission(
+      user,
+      ['schedule:manage'],
+      barbershopId
+    );
+
+    if (!canManageAll) {
+      throw new Error(ScheduleError.SELF_ONLY);
+    }
+  }
+}
+
+function toGlobalRules(day: GlobalScheduleDay): DayScheduleRules['globalSchedule'] {
+  return {
+    isOpen: day.isOpen,
+    openTime: day.openTime,
+    closeTime: day.closeTime,
+    lunchStart: day.lunchStart ?? null,
+    lunchEnd: day.lunchEnd ?? null,
+  };
+}
+
+function toBarberRules(day: BarberScheduleDay): DayScheduleRules['barberSchedule'] {
+  return {
+    isWorking: day.isWorking,
+    startTime: day.startTime,
+    endTime: day.endTime,
+    breakStart: day.breakStart ?? null,
+    breakEnd: day.breakEnd ?? null,
+  };
+}
@@ -0,0 +1,298 @@
+import { AppointmentStatus } from '@prisma/client';
+import { AppointmentReminderService } from '@/services/appointment-reminder.service';
+import { AppointmentService } from '@/services/appointment.service';
+import { notificationService } from '@/services/notification.service';
+import { JobQueueService } from '@/services/job-queue.service';
+import { prisma } from '@/config/database';
+import { AppointmentError } from '@/types/appointment';
+import { NotificationTemplate } from '@/types/notification';
+import { JobType } from '@/types/job';
+import { JWTManager } from '@/utils/jwt';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    appointment: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('@/services/appointment.service', () => ({
+  MUTABLE_STATUSES: ['SCHEDULED', 'CONFIRMED'],
+  AppointmentService: {
+    applyUnattendedStatus: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/notification.service', () => ({
+  notificationService: {
+    notifyAppointment: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/job-queue.service', () => ({
+  JobQueueService: {
+    enqueue: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  logger: { error: jest.fn() },
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+describe('AppointmentReminderService', () => {
+  const hour = 3600000;
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('schedule', () => {
+    it('deve enfileirar lembrete 24h antes e verificação de falta após a tolerância', async () => {
+      // Arrange
+      jest.useFakeTimers({ now: new Date('2030-03-02T13:00:00.000Z'), doNotFake: ['nextTick'] });
+      const startTime = new Date('2030-03-04T13:00:00.000Z');
+      const payload = { appointmentId: 'appointment-id', startTime: '2030-03-04T13:00:00.000Z' };
+
+      // Act
+      await AppointmentReminderService.schedule({ id: 'appointment-id', startTime });
+
+      // Assert
+      expect(JobQueueService.enqueue).toHaveBeenCalledWith(JobType.APPOINTMENT_REMINDER, payload, {
+        delayMs: 24 * hour,
+        idempotencyKey: 'appointment-reminder:appointment-id:2030-03-04T13:00:00.000Z',
+      });
+      expect(JobQueueService.enqueue).toHaveBeenCalledWith(JobType.APPOINTMENT_NO_SHOW, payload, {
+        delayMs: 48 * hour + 30 * 60000,
+        idempotencyKey: 'appointment-no-show:appointment-id:2030-03-04T13:00:00.000Z',
+      });
+    });
+
+    it('não deve enfileirar lembrete quando o horário de envio já passou', async () => {
+      // Arrange
+      const startTime = new Date(Date.now() + 3 * hour);
+
+      // Act
+      await AppointmentReminderService.schedule({ id: 'appointment-id', startTime });
+
+      // Assert
+      expect(JobQueueService.enqueue).toHaveBeenCalledTimes(1);
+      expect(JobQueueService.enqueue).toHaveBeenCalledWith(
+        JobType.APPOINTMENT_NO_SHOW,
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('não deve falhar o agendamento quando o Redis estiver indisponível', async () => {
+      // Arrange
+      (JobQueueService.enqueue as jest.Mock).mockRejectedValue(new Error('Redis offline'));
+
+      // Act & Assert
+      await expect(
+        AppointmentReminderService.schedule({
+          id: 'appointment-id',
+          startTime: new Date(Date.now() + 48 * hour),
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sendReminder', () => {
+    it('deve enviar lembrete com "amanhã" no fuso da barbearia e links assinados', async () => {
+      // Arrange
+      jest.useFakeTimers({ now: new Date('2030-03-03T13:00:00.000Z'), doNotFake: ['nextTick'] });
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        status: AppointmentStatus.SCHEDULED,
+        startTime: new Date('2030-03-04T13:00:00.000Z'),
+        barbershop: { timezone: 'America/Sao_Paulo' },
+      });
+
+      // Act
+      await AppointmentReminderService.sendReminder(
+        'appointment-id',
+        new Date('2030-03-04T13:00:00.000Z')
+      );
+
+      // Assert
+      expect(notificationService.notifyAppointment).toHaveBeenCalledWith(
+        'appointment-id',
+        NotificationTemplate.APPOINTMENT_REMINDER,
+        expect.objectContaining({
+          when: 'amanhã',
+          confirmUrl: expect.stringContaining('/appointments/respond?token='),
+        })
+      );
+
+      const { confirmUrl } = (notificationService.notifyAppointment as jest.Mock).mock.calls[0][2];
+      const token = new URL(confirmUrl).searchParams.get('token')!;
+      expect(JWTManager.verifyAppointmentActionToken(token)).toEqual({
+        appointmentId: 'appointment-id',
+        action: 'confirm',
+      });
+    });
+
+    it('não deve enviar lembrete de agendamento cancelado', async () => {
+      // Arrange
+      const startTime = new Date(Date.now() + 24 * hour);
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        status: AppointmentStatus.CANCELLED,
+        startTime,
+        barbershop: { timezone: 'America/Sao_Paulo' },
+      });
+
+      // Act
+      await AppointmentReminderService.sendReminder('appointment-id', startTime);
+
+      // Assert
+      expect(notificationService.notifyAppointment).not.toHaveBeenCalled();
+    });
+
+    it('deve ignorar a tarefa de um horário anterior à remarcação', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        status: AppointmentStatus.SCHEDULED,
+        startTime: new Date(Date.now() + 48 * hour),
+        barbershop: { timezone: 'America/Sao_Paulo' },
+      });
+
+      // Act
+      await AppointmentReminderService.sendReminder(
+        'appointment-id',
+        new Date(Date.now() + 24 * hour)
+      );
+
+      // Assert
+      expect(notificationService.notifyAppointment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markNoShow', () => {
+    const scheduledStart = new Date('2030-03-04T13:00:00.000Z');
+
+    beforeEach(() => {
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        startTime: scheduledStart,
+      });
+    });
+
+    it('deve registrar falta sem usuário responsável', async () => {
+      // Act
+      await AppointmentReminderService.markNoShow('appointment-id', scheduledStart);
+
+      // Assert
+      expect(AppointmentService.applyUnattendedStatus).toHaveBeenCalledWith('appointment-id', {
+        status: AppointmentStatus.NO_SHOW,
+        allowedFrom: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+        changedById: null,
+        reason: AppointmentReminderService.NO_SHOW_REASON,
+      });
+    });
+
+    it('deve ignorar atendimento que já começou', async () => {
+      // Arrange
+      (AppointmentService.applyUnattendedStatus as jest.Mock).mockRejectedValue(
+        new Error(AppointmentError.INVALID_STATUS)
+      );
+
+      // Act & Assert
+      await expect(
+        AppointmentReminderService.markNoShow('appointment-id', scheduledStart)
+      ).resolves.toBeUndefined();
+    });
+
+    it('não deve registrar falta de agendamento remarcado', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        startTime: new Date('2030-03-05T13:00:00.000Z'),
+      });
+
+      // Act
+      await AppointmentReminderService.markNoShow('appointment-id', scheduledStart);
+
+      // Assert
+      expect(AppointmentService.applyUnattendedStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyAction', () => {
+    const startTime = () => new Date(Date.now() + 24 * hour);
+    const tokenFor = (action: 'confirm' | 'cancel') =>
+      JWTManager.generateAppointmentActionToken(
+        { appointmentId: 'appointment-id', action },
+        startTime()
+      );
+
+    beforeEach(() => {
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'appointment-id',
+        clientId: 'client-id',
+        status: AppointmentStatus.SCHEDULED,
+        startTime: startTime(),
+      });
+      (AppointmentService.applyUnattendedStatus as jest.Mock).mockImplementation(
+        (id: string, change: { status: AppointmentStatus }) =>
+          Promise.resolve({ id, status: change.status, startTime: startTime() })
+      );
+    });
+
+    it('deve confirmar o agendamento em nome do cliente', async () => {
+      // Act
+      const result = await AppointmentReminderService.applyAction(tokenFor('confirm'));
+
+      // Assert
+      expect(result.status).toBe(AppointmentStatus.CONFIRMED);
+      expect(AppointmentService.applyUnattendedStatus).toHaveBeenCalledWith('appointment-id', {
+        status: AppointmentStatus.CONFIRMED,
+        allowedFrom: [AppointmentStatus.SCHEDULED],
+        changedById: 'client-id',
+      });
+    });
+
+    it('deve tratar confirmação repetida sem alterar o agendamento', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'appointment-id',
+        clientId: 'client-id',
+        status: AppointmentStatus.CONFIRMED,
+        startTime: startTime(),
+      });
+
+      // Act
+      const result = await AppointmentReminderService.applyAction(tokenFor('confirm'));
+
+      // Assert
+      expect(result.status).toBe(AppointmentStatus.CONFIRMED);
+      expect(AppointmentService.applyUnattendedStatus).not.toHaveBeenCalled();
+    });
+
+    it('deve respeitar a antecedência mínima para cancelar', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'appointment-id',
+        clientId: 'client-id',
+        status: AppointmentStatus.SCHEDULED,
+        startTime: new Date(Date.now() + hour),
+      });
+
+      // Act & Assert
+      await expect(AppointmentReminderService.applyAction(tokenFor('cancel'))).rejects.toThrow(
+        AppointmentError.CANCEL_CUTOFF
+      );
+    });
+
+    it('deve rejeitar token adulterado', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentReminderService.applyAction(`${tokenFor('confirm')}x`)
+      ).rejects.toThrow(AppointmentError.ACTION_LINK_INVALID);
+    });
+  });
+});
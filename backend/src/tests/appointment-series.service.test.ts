@@ -0,0 +1,329 @@
+import { AppointmentStatus, Role } from '@prisma/client';
+import { AppointmentSeriesService } from '@/services/appointment-series.service';
+import { AppointmentService } from '@/services/appointment.service';
+import { prisma } from '@/config/database';
+import { AppointmentError } from '@/types/appointment';
+import { AuthenticatedUser } from '@/types/auth';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barbershop: { findUnique: jest.fn() },
+    appointment: { findMany: jest.fn(), count: jest.fn(), updateMany: jest.fn() },
+    appointmentSeries: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/services/appointment.service', () => ({
+  AppointmentService: {
+    create: jest.fn(),
+    reschedule: jest.fn(),
+    cancel: jest.fn(),
+    getById: jest.fn(),
+  },
+  MUTABLE_STATUSES: ['SCHEDULED', 'CONFIRMED'],
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const client: AuthenticatedUser = {
+  id: 'client-id',
+  email: 'cliente@exemplo.com',
+  name: 'Cliente',
+  role: Role.CLIENT,
+};
+
+const timezone = 'America/Sao_Paulo';
+
+// Terças-feiras às 10:00 em São Paulo (13:00 UTC)
+const createData = {
+  barbershopId: 'barbershop-id',
+  barberId: 'barber-id',
+  serviceId: 'service-id',
+  startTime: '2030-03-05T13:00:00.000Z',
+};
+
+const series = {
+  id: 'series-id',
+  barbershopId: 'barbershop-id',
+  clientId: 'client-id',
+  barberId: 'barber-id',
+  serviceId: 'service-id',
+  intervalWeeks: 2,
+  startDate: new Date('2030-03-05T00:00:00.000Z'),
+  endDate: new Date('2030-04-30T00:00:00.000Z'),
+  time: '10:00',
+  barbershop: { timezone },
+};
+
+describe('AppointmentSeriesService', () => {
+  beforeEach(() => {
+    (prisma.barbershop.findUnique as jest.Mock).mockResolvedValue({
+      id: 'barbershop-id',
+      timezone,
+    });
+    (prisma.appointmentSeries.create as jest.Mock).mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'new-series-id', ...data })
+    );
+  });
+
+  describe('expandOccurrences', () => {
+    it('deve repetir o mesmo horário local a cada N semanas até a quantidade', () => {
+      // Act
+      const occurrences = AppointmentSeriesService.expandOccurrences(
+        new Date(createData.startTime),
+        timezone,
+        { intervalWeeks: 2, count: 3 }
+      );
+
+      // Assert
+      expect(occurrences.map((date) => date.toISOString())).toEqual([
+        '2030-03-05T13:00:00.000Z',
+        '2030-03-19T13:00:00.000Z',
+        '2030-04-02T13:00:00.000Z',
+      ]);
+    });
+
+    it('deve incluir a data final e rejeitar períodos acima do limite', () => {
+      // Act
+      const occurrences = AppointmentSeriesService.expandOccurrences(
+        new Date(createData.startTime),
+        timezone,
+        { intervalWeeks: 1, endDate: '2030-03-19' }
+      );
+
+      // Assert
+      expect(occurrences).toHaveLength(3);
+      expect(() =>
+        AppointmentSeriesService.expandOccurrences(new Date(createData.startTime), timezone, {
+          intervalWeeks: 1,
+          endDate: '2031-12-31',
+        })
+      ).toThrow(AppointmentError.RECURRENCE_TOO_LONG);
+    });
+  });
+
+  describe('create', () => {
+    it('deve criar as ocorrências e pular as que colidem com a agenda', async () => {
+      // Arrange - segunda ocorrência cai em férias do barbeiro
+      (AppointmentService.create as jest.Mock)
+        .mockResolvedValueOnce({ id: 'appointment-1', serviceId: 'service-id' })
+        .mockRejectedValueOnce(new Error(AppointmentError.BARBER_ON_VACATION))
+        .mockResolvedValueOnce({ id: 'appointment-3', serviceId: 'service-id' });
+
+      // Act
+      const result = await AppointmentSeriesService.create(client, {
+        ...createData,
+        recurrence: { intervalWeeks: 1, count: 3 },
+      });
+
+      // Assert
+      expect(AppointmentService.create).toHaveBeenCalledTimes(3);
+      expect(result.appointments.map((appointment) => appointment.id)).toEqual([
+        'appointment-1',
+        'appointment-3',
+      ]);
+      expect(result.skipped).toEqual([
+        {
+          appointmentId: undefined,
+          startTime: new Date('2030-03-12T13:00:00.000Z'),
+          reason: AppointmentError.BARBER_ON_VACATION,
+        },
+      ]);
+      expect(prisma.appointmentSeries.create).toHaveBeenCalledWith({
+        data: {
+          barbershopId: 'barbershop-id',
+          clientId: 'client-id',
+          barberId: 'barber-id',
+          serviceId: 'service-id',
+          intervalWeeks: 1,
+          startDate: new Date('2030-03-05T00:00:00.000Z'),
+          endDate: new Date('2030-03-19T00:00:00.000Z'),
+          time: '10:00',
+        },
+      });
+      expect(prisma.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['appointment-1', 'appointment-3'] } },
+        data: { seriesId: 'new-series-id' },
+      });
+    });
+
+    it('deve interromper em erros que não são de agenda', async () => {
+      // Arrange
+      (AppointmentService.create as jest.Mock).mockRejectedValue(
+        new Error(AppointmentError.SERVICE_NOT_OFFERED)
+      );
+
+      // Act & Assert
+      await expect(
+        AppointmentSeriesService.create(client, {
+          ...createData,
+          recurrence: { intervalWeeks: 1, count: 4 },
+        })
+      ).rejects.toThrow(AppointmentError.SERVICE_NOT_OFFERED);
+      expect(AppointmentService.create).toHaveBeenCalledTimes(1);
+      expect(prisma.appointmentSeries.create).not.toHaveBeenCalled();
+    });
+
+    it('deve falhar quando nenhuma ocorrência pode ser agendada', async () => {
+      // Arrange
+      (AppointmentService.create as jest.Mock).mockRejectedValue(
+        new Error(AppointmentError.TIME_CONFLICT)
+      );
+
+      // Act & Assert
+      await expect(
+        AppointmentSeriesService.create(client, {
+          ...createData,
+          recurrence: { intervalWeeks: 1, count: 2 },
+        })
+      ).rejects.toThrow(AppointmentError.NO_VALID_OCCURRENCES);
+      expect(prisma.appointmentSeries.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rescheduleFollowing', () => {
+    beforeEach(() => {
+      // Terceira ocorrência (02/04) da série quinzenal
+      (AppointmentService.getById as jest.Mock).mockResolvedValue({
+        id: 'appointment-3',
+        seriesId: 'series-id',
+        startTime: new Date('2030-04-02T13:00:00.000Z'),
+        status: AppointmentStatus.SCHEDULED,
+      });
+      (prisma.appointmentSeries.findUnique as jest.Mock).mockResolvedValue(series);
+      (prisma.appointment.findMany as jest.Mock).mockResolvedValue([
+        { id: 'appointment-3', startTime: new Date('2030-04-02T13:00:00.000Z') },
+        { id: 'appointment-4', startTime: new Date('2030-04-16T13:00:00.000Z') },
+        { id: 'appointment-5', startTime: new Date('2030-04-30T13:00:00.000Z') },
+      ]);
+      (AppointmentService.reschedule as jest.Mock).mockImplementation((id: string, _user, data) =>
+        Promise.resolve({ id, startTime: new Date(data.startTime) })
+      );
+    });
+
+    it('deve dividir a série e aplicar o novo dia e horário às seguintes', async () => {
+      // Arrange
+      (prisma.appointment.count as jest.Mock).mockResolvedValue(2);
+
+      // Act - de terça 10:00 para quarta 15:30
+      const result = await AppointmentSeriesService.rescheduleFollowing('appointment-3', client, {
+        startTime: '2030-04-03T18:30:00.000Z',
+      });
+
+      // Assert
+      expect(result.seriesId).toBe('new-series-id');
+      expect(result.appointments.map((appointment) => appointment.startTime.toISOString())).toEqual(
+        ['2030-04-03T18:30:00.000Z', '2030-04-17T18:30:00.000Z', '2030-05-01T18:30:00.000Z']
+      );
+      // Adiamento: a última ocorrência é remarcada primeiro
+      expect((AppointmentService.reschedule as jest.Mock).mock.calls[0][0]).toBe('appointment-5');
+      expect(prisma.appointmentSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          barberId: 'barber-id',
+          startDate: new Date('2030-04-03T00:00:00.000Z'),
+          endDate: new Date('2030-05-01T00:00:00.000Z'),
+          time: '15:30',
+        }),
+      });
+      expect(prisma.appointmentSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-id' },
+        data: { endDate: new Date('2030-03-19T00:00:00.000Z') },
+      });
+      expect(prisma.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['appointment-3', 'appointment-4', 'appointment-5'] } },
+        data: { seriesId: 'new-series-id' },
+      });
+    });
+
+    it('deve manter ocorrências em conflito e sinalizá-las', async () => {
+      // Arrange
+      (prisma.appointment.count as jest.Mock).mockResolvedValue(0);
+      (AppointmentService.reschedule as jest.Mock).mockImplementation((id: string, _user, data) =>
+        id === 'appointment-4'
+          ? Promise.reject(new Error(AppointmentError.TIME_CONFLICT))
+          : Promise.resolve({ id, startTime: new Date(data.startTime) })
+      );
+
+      // Act - mesmo dia, uma hora mais cedo
+      const result = await AppointmentSeriesService.rescheduleFollowing('appointment-3', client, {
+        startTime: '2030-04-02T12:00:00.000Z',
+      });
+
+      // Assert
+      expect(result.seriesId).toBe('series-id');
+      expect(result.appointments).toHaveLength(2);
+      expect(result.skipped).toEqual([
+        {
+          appointmentId: 'appointment-4',
+          startTime: new Date('2030-04-16T12:00:00.000Z'),
+          reason: AppointmentError.TIME_CONFLICT,
+        },
+      ]);
+      expect(prisma.appointmentSeries.create).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar agendamento avulso', async () => {
+      // Arrange
+      (AppointmentService.getById as jest.Mock).mockResolvedValue({
+        id: 'appointment-id',
+        seriesId: null,
+        startTime: new Date('2030-04-02T13:00:00.000Z'),
+      });
+
+      // Act & Assert
+      await expect(
+        AppointmentSeriesService.rescheduleFollowing('appointment-id', client, {
+          startTime: '2030-04-03T13:00:00.000Z',
+        })
+      ).rejects.toThrow(AppointmentError.NOT_IN_SERIES);
+    });
+  });
+
+  describe('cancelFollowing', () => {
+    it('deve cancelar as ocorrências seguintes e encerrar a série na anterior', async () => {
+      // Arrange
+      (AppointmentService.getById as jest.Mock).mockResolvedValue({
+        id: 'appointment-3',
+        seriesId: 'series-id',
+        startTime: new Date('2030-04-02T13:00:00.000Z'),
+      });
+      (prisma.appointmentSeries.findUnique as jest.Mock).mockResolvedValue(series);
+      (prisma.appointment.findMany as jest.Mock).mockResolvedValue([
+        { id: 'appointment-3', startTime: new Date('2030-04-02T13:00:00.000Z') },
+        { id: 'appointment-4', startTime: new Date('2030-04-16T13:00:00.000Z') },
+      ]);
+      (prisma.appointment.count as jest.Mock).mockResolvedValue(2);
+      (AppointmentService.cancel as jest.Mock).mockImplementation((id: string) =>
+        Promise.resolve({ id, status: AppointmentStatus.CANCELLED })
+      );
+
+      // Act
+      const result = await AppointmentSeriesService.cancelFollowing('appointment-3', client, {
+        reason: 'Mudança de cidade',
+      });
+
+      // Assert
+      expect(result.appointments).toHaveLength(2);
+      expect(AppointmentService.cancel).toHaveBeenCalledWith(
+        'appointment-4',
+        client,
+        { reason: 'Mudança de cidade' },
+        { notify: false }
+      );
+      expect(prisma.appointmentSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-id' },
+        data: { endDate: new Date('2030-03-19T00:00:00.000Z') },
+      });
+    });
+  });
+});
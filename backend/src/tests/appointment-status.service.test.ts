@@ -0,0 +1,170 @@
+import { AppointmentStatusService } from '@/services/appointment-status.service';
+import { AppointmentStatus, Role } from '@prisma/client';
+import { AppointmentError } from '@/types/appointment';
+
+const now = new Date('2030-03-04T10:00:00.000Z');
+const inThreeHours = new Date('2030-03-04T13:00:00.000Z');
+const inOneHour = new Date('2030-03-04T11:00:00.000Z');
+const oneHourAgo = new Date('2030-03-04T09:00:00.000Z');
+
+describe('AppointmentStatusService', () => {
+  describe('assertTransition', () => {
+    it('deve permitir que o cliente cancele antes do prazo limite', () => {
+      // Act
+      const override = AppointmentStatusService.assertTransition({
+        from: AppointmentStatus.SCHEDULED,
+        to: AppointmentStatus.CANCELLED,
+        role: Role.CLIENT,
+        startTime: inThreeHours,
+        now,
+      });
+
+      // Assert
+      expect(override).toBe(false);
+    });
+
+    it('deve impedir que o cliente cancele após o prazo limite', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.CONFIRMED,
+          to: AppointmentStatus.CANCELLED,
+          role: Role.CLIENT,
+          startTime: inOneHour,
+          now,
+        })
+      ).toThrow(AppointmentError.CANCEL_CUTOFF);
+    });
+
+    it.each([
+      AppointmentStatus.CONFIRMED,
+      AppointmentStatus.IN_PROGRESS,
+      AppointmentStatus.NO_SHOW,
+    ])('deve impedir que o cliente altere o status para %s', (to) => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.SCHEDULED,
+          to,
+          role: Role.CLIENT,
+          startTime: oneHourAgo,
+          now,
+        })
+      ).toThrow(AppointmentError.TRANSITION_FORBIDDEN);
+    });
+
+    it('deve permitir que o barbeiro inicie e conclua o atendimento', () => {
+      expect(
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.CONFIRMED,
+          to: AppointmentStatus.IN_PROGRESS,
+          role: Role.BARBER,
+          startTime: now,
+          now,
+        })
+      ).toBe(false);
+
+      expect(
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.IN_PROGRESS,
+          to: AppointmentStatus.COMPLETED,
+          role: Role.BARBER,
+          startTime: now,
+          now,
+        })
+      ).toBe(false);
+    });
+
+    it('deve exigir que o horário tenha começado para marcar não comparecimento', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.CONFIRMED,
+          to: AppointmentStatus.NO_SHOW,
+          role: Role.BARBER,
+          startTime: inOneHour,
+          now,
+        })
+      ).toThrow(AppointmentError.NO_SHOW_TOO_EARLY);
+
+      expect(
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.CONFIRMED,
+          to: AppointmentStatus.NO_SHOW,
+          role: Role.BARBER,
+          startTime: oneHourAgo,
+          now,
+        })
+      ).toBe(false);
+    });
+
+    it('deve exigir justificativa quando o barbeiro cancela', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.SCHEDULED,
+          to: AppointmentStatus.CANCELLED,
+          role: Role.BARBER,
+          startTime: inThreeHours,
+          now,
+        })
+      ).toThrow(AppointmentError.REASON_REQUIRED);
+    });
+
+    it('deve rejeitar transições fora do fluxo para barbeiros', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.COMPLETED,
+          to: AppointmentStatus.IN_PROGRESS,
+          role: Role.BARBER,
+          startTime: oneHourAgo,
+          now,
+        })
+      ).toThrow(AppointmentError.INVALID_TRANSITION);
+    });
+
+    it('deve permitir override do admin com motivo', () => {
+      // Act
+      const override = AppointmentStatusService.assertTransition({
+        from: AppointmentStatus.CANCELLED,
+        to: AppointmentStatus.SCHEDULED,
+        role: Role.ADMIN,
+        startTime: inThreeHours,
+        reason: 'Cancelado por engano',
+        now,
+      });
+
+      // Assert
+      expect(override).toBe(true);
+    });
+
+    it('deve exigir motivo no override do admin', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.NO_SHOW,
+          to: AppointmentStatus.COMPLETED,
+          role: Role.SUPER_ADMIN,
+          startTime: oneHourAgo,
+          now,
+        })
+      ).toThrow(AppointmentError.REASON_REQUIRED);
+    });
+
+    it('deve rejeitar transição para o mesmo status', () => {
+      expect(() =>
+        AppointmentStatusService.assertTransition({
+          from: AppointmentStatus.CONFIRMED,
+          to: AppointmentStatus.CONFIRMED,
+          role: Role.ADMIN,
+          startTime: inThreeHours,
+          reason: 'Teste',
+          now,
+        })
+      ).toThrow(AppointmentError.INVALID_TRANSITION);
+    });
+  });
+
+  describe('getNextStatuses', () => {
+    it('deve tratar concluído, cancelado e não comparecimento como finais', () => {
+      expect(AppointmentStatusService.getNextStatuses(AppointmentStatus.COMPLETED)).toEqual([]);
+      expect(AppointmentStatusService.getNextStatuses(AppointmentStatus.CANCELLED)).toEqual([]);
+      expect(AppointmentStatusService.getNextStatuses(AppointmentStatus.NO_SHOW)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,666 @@
+import { AppointmentService } from '@/services/appointment.service';
+import { WaitlistService } from '@/services/waitlist.service';
+import { notificationService } from '@/services/notification.service';
+import { AppointmentReminderService } from '@/services/appointment-reminder.service';
+import { prisma } from '@/config/database';
+import { advancedLogger } from '@/config/logger';
+import { AppointmentStatus, ExceptionType, Prisma, Role } from '@prisma/client';
+import { AppointmentError } from '@/types/appointment';
+import { AuthenticatedUser } from '@/types/auth';
+import { NotificationTemplate } from '@/types/notification';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => {
+  const client: Record<string, any> = {
+    barbershop: { findUnique: jest.fn() },
+    service: { findMany: jest.fn() },
+    barber: { findFirst: jest.fn() },
+    barberSchedule: { findFirst: jest.fn() },
+    barberException: { findFirst: jest.fn() },
+    globalSchedule: { findFirst: jest.fn() },
+    globalException: { findFirst: jest.fn() },
+    appointment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  // Transações interativas recebem o próprio client como "tx"
+  client['$transaction'] = jest.fn((arg: unknown) =>
+    typeof arg === 'function' ? arg(client) : Promise.all(arg as Promise<unknown>[])
+  );
+
+  return { prisma: client };
+});
+
+jest.mock('@/services/waitlist.service', () => ({
+  WaitlistService: {
+    assertSlotNotHeld: jest.fn(),
+    offerFreedSlot: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/appointment-reminder.service', () => ({
+  AppointmentReminderService: {
+    schedule: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/notification.service', () => ({
+  notificationService: {
+    notifyAppointment: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const client: AuthenticatedUser = {
+  id: 'client-id',
+  email: 'cliente@exemplo.com',
+  name: 'Cliente',
+  role: Role.CLIENT,
+};
+
+const admin: AuthenticatedUser = {
+  id: 'admin-id',
+  email: 'admin@exemplo.com',
+  name: 'Admin',
+  role: Role.ADMIN,
+  barbershopId: 'barbershop-id',
+};
+
+// Segunda-feira, 10:00 em São Paulo (13:00 UTC)
+const startTime = '2030-03-04T10:00:00-03:00';
+
+const createData = {
+  barbershopId: 'barbershop-id',
+  barberId: 'barber-id',
+  serviceId: 'service-id',
+  startTime,
+};
+
+const mockService = {
+  id: 'service-id',
+  name: 'Corte',
+  duration: 60,
+  price: new Prisma.Decimal(35),
+};
+
+const mockExisting = {
+  id: 'appointment-id',
+  barbershopId: 'barbershop-id',
+  barberId: 'barber-id',
+  clientId: 'client-id',
+  serviceId: 'service-id',
+  status: AppointmentStatus.SCHEDULED,
+  startTime: new Date('2030-03-04T13:00:00.000Z'),
+  endTime: new Date('2030-03-04T14:00:00.000Z'),
+  barbershop: { timezone: 'America/Sao_Paulo' },
+  items: [{ serviceId: 'service-id' }],
+};
+
+const mockBarber = (
+  services: Array<{ customPrice: Prisma.Decimal | null; isActive: boolean; serviceId?: string }>
+) => ({
+  id: 'barber-id',
+  barbershopId: 'barbershop-id',
+  isActive: true,
+  services: services.map((service) => ({ serviceId: 'service-id', ...service })),
+});
+
+describe('AppointmentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (prisma.barbershop.findUnique as any).mockResolvedValue({
+      id: 'barbershop-id',
+      timezone: 'America/Sao_Paulo',
+    });
+    (prisma.service.findMany as any).mockResolvedValue([mockService]);
+    (prisma.barber.findFirst as any).mockResolvedValue(
+      mockBarber([{ customPrice: null, isActive: true }])
+    );
+    (prisma.barberSchedule.findFirst as any).mockResolvedValue(null);
+    (prisma.barberException.findFirst as any).mockResolvedValue(null);
+    (prisma.globalException.findFirst as any).mockResolvedValue(null);
+    (prisma.globalSchedule.findFirst as any).mockResolvedValue({
+      isOpen: true,
+      openTime: '09:00',
+      closeTime: '18:00',
+      lunchStart: '12:00',
+      lunchEnd: '13:00',
+    });
+    (prisma.appointment.findFirst as any).mockResolvedValue(null);
+    (prisma.appointment.create as any).mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'appointment-id', ...data })
+    );
+    (prisma.appointment.update as any).mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...mockExisting, ...data })
+    );
+  });
+
+  describe('create', () => {
+    it('deve criar agendamento com preço base do serviço', async () => {
+      // Act
+      const result = await AppointmentService.create(client, createData);
+
+      // Assert
+      expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+      expect(prisma.appointment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            clientId: 'client-id',
+            startTime: new Date('2030-03-04T13:00:00.000Z'),
+            endTime: new Date('2030-03-04T14:00:00.000Z'),
+            totalPrice: mockService.price,
+          }),
+        })
+      );
+      expect(prisma.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fromStatus: null, changedById: 'client-id' }),
+      });
+      expect(result.id).toBe('appointment-id');
+      expect(notificationService.notifyAppointment).toHaveBeenCalledWith(
+        'appointment-id',
+        NotificationTemplate.APPOINTMENT_CREATED
+      );
+      expect(AppointmentReminderService.schedule).toHaveBeenCalledWith(result);
+    });
+
+    it('não deve notificar o cliente quando o chamador pedir', async () => {
+      // Act
+      await AppointmentService.create(client, createData, { notify: false });
+
+      // Assert
+      expect(prisma.appointment.create).toHaveBeenCalled();
+      expect(notificationService.notifyAppointment).not.toHaveBeenCalled();
+    });
+
+    it('deve somar duração e preços efetivos de vários serviços na ordem informada', async () => {
+      // Arrange - corte (60 min, preço base) + barba (30 min, preço do barbeiro)
+      (prisma.service.findMany as any).mockResolvedValue([
+        { id: 'beard-id', name: 'Barba', duration: 30, price: new Prisma.Decimal(25) },
+        mockService,
+      ]);
+      (prisma.barber.findFirst as any).mockResolvedValue(
+        mockBarber([
+          { customPrice: null, isActive: true },
+          { customPrice: new Prisma.Decimal(20), isActive: true, serviceId: 'beard-id' },
+        ])
+      );
+
+      // Act
+      await AppointmentService.create(client, {
+        barbershopId: 'barbershop-id',
+        barberId: 'barber-id',
+        serviceIds: ['service-id', 'beard-id'],
+        startTime,
+      });
+
+      // Assert
+      const { data } = (prisma.appointment.create as jest.Mock).mock.calls[0][0];
+      expect(data.serviceId).toBe('service-id');
+      expect(data.endTime).toEqual(new Date('2030-03-04T14:30:00.000Z'));
+      expect(data.totalPrice).toEqual(new Prisma.Decimal(55));
+      expect(data.items.create).toEqual([
+        { serviceId: 'service-id', position: 0, price: mockService.price, duration: 60 },
+        { serviceId: 'beard-id', position: 1, price: new Prisma.Decimal(20), duration: 30 },
+      ]);
+    });
+
+    it('deve rejeitar quando um dos serviços não existir na barbearia', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.create(client, {
+          ...createData,
+          serviceId: undefined,
+          serviceIds: ['service-id', 'missing-id'],
+        })
+      ).rejects.toThrow('Serviço não encontrado');
+      expect(prisma.barber.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('deve usar o preço personalizado do barbeiro quando existir', async () => {
+      // Arrange
+      const customPrice = new Prisma.Decimal(50);
+      (prisma.barber.findFirst as any).mockResolvedValue(
+        mockBarber([{ customPrice, isActive: true }])
+      );
+
+      // Act
+      await AppointmentService.create(client, createData);
+
+      // Assert
+      expect(prisma.appointment.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ totalPrice: customPrice }) })
+      );
+    });
+
+    it('deve rejeitar barbeiro que não executa o serviço', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(mockBarber([]));
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.SERVICE_NOT_OFFERED
+      );
+    });
+
+    it('deve rejeitar serviço desativado para o barbeiro', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(
+        mockBarber([{ customPrice: null, isActive: false }])
+      );
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.INVALID_SERVICE
+      );
+    });
+
+    it('deve rejeitar horários passados', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.create(client, { ...createData, startTime: '2020-01-01T10:00:00Z' })
+      ).rejects.toThrow(AppointmentError.PAST_TIME);
+    });
+
+    it('deve rejeitar horário que invade o almoço', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.create(client, {
+          ...createData,
+          startTime: '2030-03-04T11:30:00-03:00',
+        })
+      ).rejects.toThrow(AppointmentError.BARBER_NOT_WORKING);
+    });
+
+    it('deve rejeitar serviço que ultrapassa o fim do expediente', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.create(client, {
+          ...createData,
+          startTime: '2030-03-04T17:30:00-03:00',
+        })
+      ).rejects.toThrow(AppointmentError.SERVICE_TOO_LONG);
+    });
+
+    it('deve rejeitar barbeiro em férias', async () => {
+      // Arrange
+      (prisma.barberException.findFirst as any).mockResolvedValue({
+        type: ExceptionType.VACATION,
+        specialStartTime: null,
+        specialEndTime: null,
+      });
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.BARBER_ON_VACATION
+      );
+    });
+
+    it('deve rejeitar horário já ocupado', async () => {
+      // Arrange
+      (prisma.appointment.findFirst as any).mockResolvedValue({ id: 'other-id' });
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.TIME_CONFLICT
+      );
+      expect(prisma.appointment.create).not.toHaveBeenCalled();
+    });
+
+    it('deve converter violação da constraint de exclusão em conflito de horário', async () => {
+      // Arrange - transação concorrente gravou o mesmo horário
+      (prisma.appointment.create as any).mockRejectedValue(
+        new Error('conflicting key value violates exclusion constraint "appointments_no_overlap"')
+      );
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.TIME_CONFLICT
+      );
+    });
+
+    it('deve converter falha de serialização em conflito de horário', async () => {
+      // Arrange
+      (prisma.$transaction as any).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', {
+          code: 'P2034',
+          clientVersion: '5.0.0',
+        })
+      );
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.TIME_CONFLICT
+      );
+    });
+
+    it('deve rejeitar horário reservado para a lista de espera', async () => {
+      // Arrange
+      (WaitlistService.assertSlotNotHeld as jest.Mock).mockRejectedValueOnce(
+        new Error(AppointmentError.SLOT_ON_HOLD)
+      );
+
+      // Act & Assert
+      await expect(AppointmentService.create(client, createData)).rejects.toThrow(
+        AppointmentError.SLOT_ON_HOLD
+      );
+      expect(WaitlistService.assertSlotNotHeld).toHaveBeenCalledWith(
+        'barber-id',
+        new Date('2030-03-04T13:00:00.000Z'),
+        new Date('2030-03-04T14:00:00.000Z'),
+        'client-id'
+      );
+      expect(prisma.appointment.create).not.toHaveBeenCalled();
+    });
+
+    it('deve impedir admin de agendar em outra barbearia', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.create(admin, { ...createData, barbershopId: 'other-barbershop' })
+      ).rejects.toThrow(AppointmentError.ACCESS_DENIED);
+    });
+
+    it('deve permitir admin agendar em nome de um cliente', async () => {
+      // Act
+      await AppointmentService.create(admin, { ...createData, clientId: 'client-id' });
+
+      // Assert
+      expect(prisma.appointment.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ clientId: 'client-id' }) })
+      );
+    });
+  });
+
+  describe('reschedule', () => {
+    it('deve remarcar ignorando o próprio agendamento na verificação de conflito', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue(mockExisting);
+
+      // Act
+      await AppointmentService.reschedule('appointment-id', client, {
+        startTime: '2030-03-04T15:00:00-03:00',
+      });
+
+      // Assert
+      expect(prisma.appointment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { not: 'appointment-id' } }),
+        })
+      );
+      expect(prisma.appointment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            startTime: new Date('2030-03-04T18:00:00.000Z'),
+            status: AppointmentStatus.SCHEDULED,
+          }),
+        })
+      );
+      expect(notificationService.notifyAppointment).toHaveBeenCalledWith(
+        'appointment-id',
+        NotificationTemplate.APPOINTMENT_RESCHEDULED
+      );
+    });
+
+    it('deve impedir que outro cliente remarque o agendamento', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue({
+        ...mockExisting,
+        clientId: 'other-client',
+      });
+
+      // Act & Assert
+      await expect(
+        AppointmentService.reschedule('appointment-id', client, { startTime })
+      ).rejects.toThrow(AppointmentError.ACCESS_DENIED);
+    });
+  });
+
+  describe('reassignBarber', () => {
+    it('deve trocar o barbeiro mantendo horário, status confirmado e preço', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.CONFIRMED,
+      });
+
+      // Act
+      await AppointmentService.reassignBarber('appointment-id', admin, 'target-id');
+
+      // Assert
+      expect(prisma.appointment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ barberId: 'target-id', id: { not: 'appointment-id' } }),
+        })
+      );
+      expect(prisma.appointment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'appointment-id' },
+          data: { barberId: 'target-id' },
+        })
+      );
+      expect(prisma.appointmentStatusHistory.create).not.toHaveBeenCalled();
+      expect(notificationService.notifyAppointment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStatus', () => {
+    const barber: AuthenticatedUser = {
+      id: 'barber-user-id',
+      email: 'barbeiro@exemplo.com',
+      name: 'Barbeiro',
+      role: Role.BARBER,
+      barberId: 'barber-id',
+    };
+
+    beforeEach(() => {
+      (prisma.appointment.findUnique as any).mockResolvedValue(mockExisting);
+      (prisma.appointment.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.appointment.findUniqueOrThrow as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.CANCELLED,
+      });
+    });
+
+    it('deve cancelar agendamento do próprio cliente e gravar o histórico', async () => {
+      // Act
+      const result = await AppointmentService.cancel('appointment-id', client, {
+        reason: 'Imprevisto',
+      });
+
+      // Assert
+      expect(prisma.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'appointment-id', status: AppointmentStatus.SCHEDULED },
+        data: { status: AppointmentStatus.CANCELLED },
+      });
+      expect(prisma.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          appointmentId: 'appointment-id',
+          fromStatus: AppointmentStatus.SCHEDULED,
+          toStatus: AppointmentStatus.CANCELLED,
+          changedById: 'client-id',
+          reason: 'Imprevisto',
+        },
+      });
+      expect(result.status).toBe(AppointmentStatus.CANCELLED);
+      expect(WaitlistService.offerFreedSlot).toHaveBeenCalledWith({
+        barbershopId: 'barbershop-id',
+        barberId: 'barber-id',
+        startTime: mockExisting.startTime,
+        endTime: mockExisting.endTime,
+      });
+      expect(notificationService.notifyAppointment).toHaveBeenCalledWith(
+        'appointment-id',
+        NotificationTemplate.APPOINTMENT_CANCELLED,
+        { reason: 'Motivo: Imprevisto' }
+      );
+    });
+
+    it('deve emitir evento de negócio da transição', async () => {
+      // Act
+      await AppointmentService.updateStatus('appointment-id', barber, {
+        status: AppointmentStatus.CONFIRMED,
+      });
+
+      // Assert
+      expect(advancedLogger.business).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'APPOINTMENT_STATUS_CHANGE',
+          entityId: 'appointment-id',
+          changes: {
+            status: { from: AppointmentStatus.SCHEDULED, to: AppointmentStatus.CONFIRMED },
+          },
+        })
+      );
+    });
+
+    it('deve rejeitar cancelamento de agendamento concluído', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.COMPLETED,
+      });
+
+      // Act & Assert
+      await expect(AppointmentService.cancel('appointment-id', client)).rejects.toThrow(
+        AppointmentError.INVALID_TRANSITION
+      );
+      expect(prisma.appointmentStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('deve falhar se o status foi alterado por outra requisição', async () => {
+      // Arrange
+      (prisma.appointment.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        AppointmentService.updateStatus('appointment-id', barber, {
+          status: AppointmentStatus.CONFIRMED,
+        })
+      ).rejects.toThrow(AppointmentError.INVALID_STATUS);
+      expect(prisma.appointmentStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('deve impedir barbeiro de alterar agendamento de outro barbeiro', async () => {
+      // Act & Assert
+      await expect(
+        AppointmentService.updateStatus(
+          'appointment-id',
+          { ...barber, barberId: 'other-barber' },
+          { status: AppointmentStatus.CONFIRMED }
+        )
+      ).rejects.toThrow(AppointmentError.ACCESS_DENIED);
+    });
+  });
+
+  describe('applyUnattendedStatus', () => {
+    beforeEach(() => {
+      (prisma.appointment.findUnique as any).mockResolvedValue(mockExisting);
+      (prisma.appointment.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.appointment.findUniqueOrThrow as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.NO_SHOW,
+      });
+    });
+
+    it('deve registrar falta automática sem usuário responsável', async () => {
+      // Act
+      await AppointmentService.applyUnattendedStatus('appointment-id', {
+        status: AppointmentStatus.NO_SHOW,
+        allowedFrom: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+        changedById: null,
+        reason: 'Cliente não compareceu',
+      });
+
+      // Assert
+      expect(prisma.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: AppointmentStatus.SCHEDULED,
+          toStatus: AppointmentStatus.NO_SHOW,
+          changedById: null,
+        }),
+      });
+      expect(notificationService.notifyAppointment).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar quando o status atual não admite a alteração', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.IN_PROGRESS,
+      });
+
+      // Act & Assert
+      await expect(
+        AppointmentService.applyUnattendedStatus('appointment-id', {
+          status: AppointmentStatus.NO_SHOW,
+          allowedFrom: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+          changedById: null,
+        })
+      ).rejects.toThrow(AppointmentError.INVALID_STATUS);
+      expect(prisma.appointment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('não deve registrar erro na falta automática de atendimento realizado', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as any).mockResolvedValue({
+        ...mockExisting,
+        status: AppointmentStatus.COMPLETED,
+      });
+
+      // Act
+      await expect(
+        AppointmentService.applyUnattendedStatus('appointment-id', {
+          status: AppointmentStatus.NO_SHOW,
+          allowedFrom: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+          changedById: null,
+        })
+      ).rejects.toThrow(AppointmentError.INVALID_STATUS);
+
+      // Assert
+      expect(advancedLogger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('deve restringir clientes aos próprios agendamentos', async () => {
+      // Arrange
+      (prisma.appointment.findMany as any).mockResolvedValue([]);
+      (prisma.appointment.count as any).mockResolvedValue(0);
+
+      // Act
+      const result = await AppointmentService.list(client, { page: 1, limit: 10 });
+
+      // Assert
+      expect(prisma.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { AND: [{ clientId: 'client-id' }, {}] },
+        })
+      );
+      expect(result.pagination).toEqual({ page: 1, limit: 10, total: 0, pages: 0 });
+    });
+  });
+});
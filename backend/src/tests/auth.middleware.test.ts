@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { Role } from '@prisma/client';
+import { authenticate } from '@/middleware/auth';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { TokenRevocationService } from '@/services/token-revocation.service';
+import { verifyAccessToken } from '@/utils/jwt';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/token-revocation.service', () => ({
+  TokenRevocationService: { isAccessTokenRevoked: jest.fn() },
+}));
+
+jest.mock('@/utils/jwt', () => ({
+  verifyAccessToken: jest.fn(),
+}));
+
+const payload = {
+  userId: 'user-1',
+  email: 'cliente@exemplo.com',
+  role: Role.CLIENT,
+  tokenVersion: 0,
+  sid: 'sid-1',
+  jti: 'jti-1',
+  iat: 0,
+  exp: 0,
+};
+
+const user = {
+  id: 'user-1',
+  email: 'cliente@exemplo.com',
+  name: 'Cliente',
+  role: Role.CLIENT,
+  phone: null,
+  avatar: null,
+  tokenVersion: 0,
+  barberProfile: null,
+  barbershop: null,
+};
+
+const createRequest = () => ({ headers: { authorization: 'Bearer token' } }) as unknown as Request;
+
+const createResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+describe('authenticate', () => {
+  beforeEach(() => {
+    (verifyAccessToken as jest.Mock).mockReturnValue(payload);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+  });
+
+  it('deve autenticar pela versão do token quando o Redis estiver indisponível', async () => {
+    // Arrange
+    (TokenRevocationService.isAccessTokenRevoked as jest.Mock).mockRejectedValue(
+      new Error('Connection is closed.')
+    );
+    const req = createRequest();
+    const res = createResponse();
+    const next = jest.fn();
+
+    // Act
+    await authenticate(req, res, next);
+
+    // Assert
+    expect(next).toHaveBeenCalled();
+    expect(req.user?.id).toBe('user-1');
+    expect(logger.warn).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('deve rejeitar token de versão anterior à do usuário', async () => {
+    // Arrange
+    (TokenRevocationService.isAccessTokenRevoked as jest.Mock).mockRejectedValue(
+      new Error('Connection is closed.')
+    );
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...user, tokenVersion: 1 });
+    const res = createResponse();
+    const next = jest.fn();
+
+    // Act
+    await authenticate(createRequest(), res, next);
+
+    // Assert
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'TOKEN_REVOKED' }));
+  });
+});
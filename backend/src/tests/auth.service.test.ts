@@ -1,11 +1,14 @@
 import { AuthService } from '@/services/auth.service';
 import { prisma } from '@/config/database';
 import { hashPassword } from '@/utils/crypto';
+import { emailService } from '@/services/email.service';
+import { SessionService } from '@/services/session.service';
+import { TokenRevocationService } from '@/services/token-revocation.service';
 import { Role } from '@prisma/client';
 
 // Mock do Prisma
-jest.mock('@/config/database', () => ({
-  prisma: {
+jest.mock('@/config/database', () => {
+  const client: Record<string, any> = {
     user: {
       findUnique: jest.fn(),
       create: jest.fn(),
@@ -14,6 +17,43 @@ jest.mock('@/config/database', () => ({
     client: {
       create: jest.fn(),
     },
+    passwordResetToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  // Transações interativas recebem o próprio client como "tx"
+  client['$transaction'] = jest.fn((arg: unknown) =>
+    typeof arg === 'function' ? arg(client) : Promise.all(arg as Promise<unknown>[])
+  );
+
+  return { prisma: client };
+});
+
+// Mock do serviço de email
+jest.mock('@/services/email.service', () => ({
+  emailService: {
+    sendPasswordResetEmail: jest.fn(),
+  },
+}));
+
+// Mock das sessões (banco e Redis)
+jest.mock('@/services/session.service', () => ({
+  SessionService: {
+    start: jest.fn(),
+    touch: jest.fn(),
+    revoke: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/token-revocation.service', () => ({
+  TokenRevocationService: {
+    rotateRefreshToken: jest.fn(),
+    denyAccessToken: jest.fn(),
   },
 }));
 
@@ -194,6 +234,12 @@ describe('AuthService', () => {
         },
       });
       expect(verifyPassword).toHaveBeenCalledWith(loginData.password, mockUser.password);
+      expect(SessionService.start).toHaveBeenCalledWith(
+        'user-id',
+        expect.any(String),
+        expect.any(String),
+        {}
+      );
     });
 
     it('deve falhar com email inexistente', async () => {
@@ -268,6 +314,8 @@ describe('AuthService', () => {
       const mockPayload = {
         userId: 'user-id',
         tokenVersion: 1,
+        sid: 'session-id',
+        jti: 'refresh-jti',
         iat: 1234567890,
         exp: 1234567890,
       };
@@ -279,16 +327,20 @@ describe('AuthService', () => {
         role: Role.CLIENT,
         phone: null,
         avatar: null,
+        tokenVersion: 1,
         barberProfile: null,
         barbershop: null,
       };
 
-      const { verifyRefreshToken } = await import('@/utils/jwt');
+      const { verifyRefreshToken, generateRefreshToken } = await import('@/utils/jwt');
       (verifyRefreshToken as any).mockReturnValue(mockPayload);
       (prisma.user.findUnique as any).mockResolvedValue(mockUser);
+      (TokenRevocationService.rotateRefreshToken as any).mockResolvedValue('rotated');
+
+      const context = { ip: '10.0.0.1', userAgent: 'Mozilla/5.0' };
 
       // Act
-      const result = await AuthService.refreshToken(refreshToken);
+      const result = await AuthService.refreshToken(refreshToken, context);
 
       // Assert
       expect(result).toHaveProperty('user');
@@ -296,6 +348,72 @@ describe('AuthService', () => {
       expect(result).toHaveProperty('refreshToken');
       expect(result.user.id).toBe(mockUser.id);
       expect(verifyRefreshToken).toHaveBeenCalledWith(refreshToken);
+
+      // Novo refresh token continua na mesma sessão, com jti rotacionado
+      const [[rotatedPayload]] = (generateRefreshToken as any).mock.calls;
+      expect(rotatedPayload.sid).toBe('session-id');
+      expect(rotatedPayload.jti).not.toBe('refresh-jti');
+      expect(TokenRevocationService.rotateRefreshToken).toHaveBeenCalledWith(
+        'session-id',
+        'refresh-jti',
+        rotatedPayload.jti
+      );
+      expect(SessionService.touch).toHaveBeenCalledWith('session-id', context);
+    });
+
+    it('deve revogar a sessão inteira ao detectar reutilização do refresh token', async () => {
+      // Arrange
+      const { verifyRefreshToken, generateAccessToken } = await import('@/utils/jwt');
+      (verifyRefreshToken as any).mockReturnValue({
+        userId: 'user-id',
+        tokenVersion: 1,
+        sid: 'session-id',
+        jti: 'old-refresh-jti',
+        iat: 1234567890,
+        exp: 1234567890,
+      });
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'user-id',
+        role: Role.CLIENT,
+        tokenVersion: 1,
+        barberProfile: null,
+        barbershop: null,
+      });
+      (TokenRevocationService.rotateRefreshToken as any).mockResolvedValue('reused');
+
+      // Act & Assert
+      await expect(AuthService.refreshToken('old-refresh-token')).rejects.toThrow(
+        'Refresh token reutilizado'
+      );
+      expect(SessionService.revoke).toHaveBeenCalledWith('user-id', 'session-id');
+      expect(generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar refresh token de sessão encerrada', async () => {
+      // Arrange
+      const { verifyRefreshToken } = await import('@/utils/jwt');
+      (verifyRefreshToken as any).mockReturnValue({
+        userId: 'user-id',
+        tokenVersion: 1,
+        sid: 'session-id',
+        jti: 'refresh-jti',
+        iat: 1234567890,
+        exp: 1234567890,
+      });
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'user-id',
+        role: Role.CLIENT,
+        tokenVersion: 1,
+        barberProfile: null,
+        barbershop: null,
+      });
+      (TokenRevocationService.rotateRefreshToken as any).mockResolvedValue('revoked');
+
+      // Act & Assert
+      await expect(AuthService.refreshToken('refresh-token')).rejects.toThrow(
+        'Refresh token revogado'
+      );
+      expect(SessionService.revoke).not.toHaveBeenCalled();
     });
 
     it('deve falhar se usuário não existir', async () => {
@@ -317,6 +435,29 @@ describe('AuthService', () => {
         'Usuário não encontrado'
       );
     });
+
+    it('deve rejeitar refresh token emitido antes de um reset de senha', async () => {
+      // Arrange
+      const { verifyRefreshToken } = await import('@/utils/jwt');
+      (verifyRefreshToken as any).mockReturnValue({
+        userId: 'user-id',
+        tokenVersion: 1,
+        iat: 1234567890,
+        exp: 1234567890,
+      });
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'user-id',
+        role: Role.CLIENT,
+        tokenVersion: 2,
+        barberProfile: null,
+        barbershop: null,
+      });
+
+      // Act & Assert
+      await expect(AuthService.refreshToken('old-refresh-token')).rejects.toThrow(
+        'Refresh token revogado'
+      );
+    });
   });
 
   describe('forgotPassword', () => {
@@ -338,6 +479,15 @@ describe('AuthService', () => {
       expect(prisma.user.findUnique).toHaveBeenCalledWith({
         where: { email: forgotData.email },
       });
+      expect(prisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', usedAt: null },
+      });
+      expect(prisma.passwordResetToken.create).toHaveBeenCalledWith({
+        data: { userId: 'user-id', tokenHash: 'mock-hashed-token', expiresAt: expect.any(Date) },
+      });
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'teste@exemplo.com', token: 'mock-reset-token' })
+      );
     });
 
     it('deve processar silenciosamente para email inexistente', async () => {
@@ -348,6 +498,97 @@ describe('AuthService', () => {
 
       // Act & Assert - não deve lançar erro
       await expect(AuthService.forgotPassword(forgotData)).resolves.toBeUndefined();
+      expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(emailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetData = { token: 'mock-reset-token', password: 'NovaSenh@123' };
+    const mockResetToken = {
+      id: 'reset-token-id',
+      userId: 'user-id',
+      tokenHash: 'mock-hashed-token',
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+      usedAt: null,
+    };
+
+    beforeEach(async () => {
+      const { validatePasswordStrength } = await import('@/utils/crypto');
+      (validatePasswordStrength as any).mockReturnValue({ isValid: true, errors: [], score: 5 });
+      (hashPassword as any).mockResolvedValue('new-hashed-password');
+      (prisma.passwordResetToken.updateMany as any).mockResolvedValue({ count: 1 });
+    });
+
+    it('deve redefinir a senha, consumir o token e revogar refresh tokens', async () => {
+      // Arrange
+      (prisma.passwordResetToken.findUnique as any).mockResolvedValue(mockResetToken);
+
+      // Act
+      await AuthService.resetPassword(resetData);
+
+      // Assert
+      expect(prisma.passwordResetToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: 'mock-hashed-token' },
+      });
+      expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'reset-token-id', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { password: 'new-hashed-password', tokenVersion: { increment: 1 } },
+      });
+      expect(SessionService.revokeAll).toHaveBeenCalledWith('user-id');
+    });
+
+    it('deve falhar com token inexistente', async () => {
+      // Arrange
+      (prisma.passwordResetToken.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(AuthService.resetPassword(resetData)).rejects.toThrow(
+        'Token de reset inválido ou expirado'
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('deve falhar com token expirado', async () => {
+      // Arrange
+      (prisma.passwordResetToken.findUnique as any).mockResolvedValue({
+        ...mockResetToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      // Act & Assert
+      await expect(AuthService.resetPassword(resetData)).rejects.toThrow(
+        'Token de reset inválido ou expirado'
+      );
+    });
+
+    it('deve falhar com token já utilizado', async () => {
+      // Arrange
+      (prisma.passwordResetToken.findUnique as any).mockResolvedValue({
+        ...mockResetToken,
+        usedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(AuthService.resetPassword(resetData)).rejects.toThrow(
+        'Token de reset inválido ou expirado'
+      );
+    });
+
+    it('deve falhar se o token for consumido por outra requisição', async () => {
+      // Arrange
+      (prisma.passwordResetToken.findUnique as any).mockResolvedValue(mockResetToken);
+      (prisma.passwordResetToken.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(AuthService.resetPassword(resetData)).rejects.toThrow(
+        'Token de reset inválido ou expirado'
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
     });
   });
 
@@ -472,4 +713,37 @@ describe('AuthService', () => {
       });
     });
   });
+
+  describe('logout', () => {
+    it('deve revogar a sessão atual e incluir o access token na denylist', async () => {
+      // Arrange
+      const token = { sid: 'session-id', jti: 'access-jti', exp: 1234567890 };
+
+      // Act
+      await AuthService.logout('user-id', token);
+
+      // Assert
+      expect(TokenRevocationService.denyAccessToken).toHaveBeenCalledWith(token);
+      expect(SessionService.revoke).toHaveBeenCalledWith('user-id', 'session-id');
+      expect(SessionService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('deve revogar todas as sessões e invalidar refresh tokens emitidos', async () => {
+      // Arrange
+      (SessionService.revokeAll as any).mockResolvedValue(3);
+
+      // Act
+      const sessions = await AuthService.logoutAll('user-id');
+
+      // Assert
+      expect(sessions).toBe(3);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { tokenVersion: { increment: 1 } },
+      });
+      expect(SessionService.revokeAll).toHaveBeenCalledWith('user-id');
+    });
+  });
 });
@@ -0,0 +1,223 @@
+import { Role } from '@prisma/client';
+import { BarberInviteService } from '@/services/barber-invite.service';
+import { AuthService } from '@/services/auth.service';
+import { emailService } from '@/services/email.service';
+import { prisma } from '@/config/database';
+import { hashPassword, validatePasswordStrength } from '@/utils/crypto';
+import { BarberError } from '@/types/barber';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => {
+  const client: Record<string, any> = {
+    barbershop: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    barber: {
+      create: jest.fn(),
+    },
+    barberInvite: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  // Transações interativas recebem o próprio client como "tx"
+  client['$transaction'] = jest.fn((arg: unknown) =>
+    typeof arg === 'function' ? arg(client) : Promise.all(arg as Promise<unknown>[])
+  );
+
+  return { prisma: client };
+});
+
+// Mock do serviço de email
+jest.mock('@/services/email.service', () => ({
+  emailService: {
+    sendBarberInviteEmail: jest.fn(),
+  },
+}));
+
+// Mock do login (o aceite inicia a sessão do novo barbeiro)
+jest.mock('@/services/auth.service', () => ({
+  AuthService: {
+    login: jest.fn(),
+  },
+}));
+
+// Mock dos utilitários de criptografia
+jest.mock('@/utils/crypto', () => ({
+  hashPassword: jest.fn(),
+  validatePasswordStrength: jest.fn(),
+  generateResetToken: jest.fn(() => 'mock-invite-token'),
+  hashResetToken: jest.fn(() => 'mock-hashed-token'),
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barbershopId = 'barbershop-id';
+
+const pendingInvite = {
+  id: 'invite-id',
+  barbershopId,
+  email: 'novo@barbearia.com',
+  name: 'Novo Barbeiro',
+  tokenHash: 'mock-hashed-token',
+  acceptedAt: null,
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 3600000),
+  barbershop: { name: 'Barbearia Central' },
+};
+
+describe('BarberInviteService', () => {
+  describe('invite', () => {
+    it('deve substituir convites pendentes e enviar o link por email', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue({
+        id: barbershopId,
+        name: 'Barbearia Central',
+      });
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      (prisma.barberInvite.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.barberInvite.create as any).mockResolvedValue({ id: 'invite-id' });
+
+      // Act
+      const invite = await BarberInviteService.invite(
+        barbershopId,
+        { email: 'novo@barbearia.com' },
+        'admin-id'
+      );
+
+      // Assert
+      expect(invite).toEqual({ id: 'invite-id' });
+      expect(prisma.barberInvite.updateMany).toHaveBeenCalledWith({
+        where: { barbershopId, email: 'novo@barbearia.com', acceptedAt: null, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(prisma.barberInvite.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            tokenHash: 'mock-hashed-token',
+            invitedById: 'admin-id',
+          }),
+        })
+      );
+      expect(emailService.sendBarberInviteEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'novo@barbearia.com',
+          barbershopName: 'Barbearia Central',
+          token: 'mock-invite-token',
+        })
+      );
+    });
+
+    it('deve rejeitar email já cadastrado', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue({ id: barbershopId, name: 'B' });
+      (prisma.user.findUnique as any).mockResolvedValue({ id: 'user-id' });
+
+      // Act & Assert
+      await expect(
+        BarberInviteService.invite(barbershopId, { email: 'cliente@email.com' }, 'admin-id')
+      ).rejects.toThrow(BarberError.EMAIL_ALREADY_REGISTERED);
+      expect(prisma.barberInvite.create).not.toHaveBeenCalled();
+      expect(emailService.sendBarberInviteEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('deve rejeitar convite inexistente ou já utilizado', async () => {
+      // Arrange
+      (prisma.barberInvite.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        BarberInviteService.revoke(barbershopId, 'invite-id', 'admin-id')
+      ).rejects.toThrow(BarberError.INVITE_NOT_FOUND);
+    });
+  });
+
+  describe('preview', () => {
+    it('deve rejeitar convite expirado', async () => {
+      // Arrange
+      (prisma.barberInvite.findUnique as any).mockResolvedValue({
+        ...pendingInvite,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      // Act & Assert
+      await expect(BarberInviteService.preview('mock-invite-token')).rejects.toThrow(
+        BarberError.INVITE_INVALID
+      );
+    });
+  });
+
+  describe('accept', () => {
+    it('deve criar a conta como BARBER da barbearia e iniciar a sessão', async () => {
+      // Arrange
+      (prisma.barberInvite.findUnique as any).mockResolvedValue(pendingInvite);
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      (validatePasswordStrength as jest.Mock).mockReturnValue({ isValid: true, errors: [] });
+      (hashPassword as jest.Mock).mockResolvedValue('hashed-password');
+      (prisma.barberInvite.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.user.create as any).mockResolvedValue({ id: 'new-user-id' });
+      (AuthService.login as jest.Mock).mockResolvedValue({ accessToken: 'token' });
+
+      // Act
+      const result = await BarberInviteService.accept(
+        { token: 'mock-invite-token', name: 'Novo Barbeiro', password: 'Senha@123' },
+        { ip: '10.0.0.1' }
+      );
+
+      // Assert
+      expect(result).toEqual({ accessToken: 'token' });
+      expect(prisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'novo@barbearia.com',
+          password: 'hashed-password',
+          role: Role.BARBER,
+        }),
+      });
+      expect(prisma.barber.create).toHaveBeenCalledWith({
+        data: { userId: 'new-user-id', barbershopId },
+      });
+      expect(AuthService.login).toHaveBeenCalledWith(
+        { email: 'novo@barbearia.com', password: 'Senha@123' },
+        { ip: '10.0.0.1' }
+      );
+    });
+
+    it('deve impedir uso simultâneo do mesmo convite', async () => {
+      // Arrange
+      (prisma.barberInvite.findUnique as any).mockResolvedValue(pendingInvite);
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      (validatePasswordStrength as jest.Mock).mockReturnValue({ isValid: true, errors: [] });
+      (hashPassword as jest.Mock).mockResolvedValue('hashed-password');
+      (prisma.barberInvite.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        BarberInviteService.accept({
+          token: 'mock-invite-token',
+          name: 'Novo Barbeiro',
+          password: 'Senha@123',
+        })
+      ).rejects.toThrow(BarberError.INVITE_INVALID);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+      expect(AuthService.login).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { BarbershopService } from '@/services/barbershop.service';
+import { prisma } from '@/config/database';
+import { Prisma, Role } from '@prisma/client';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    user: {
+      findUnique: jest.fn(),
+    },
+    barbershop: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    globalSchedule: {
+      deleteMany: jest.fn(),
+    },
+    globalException: {
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const mockBarbershop = {
+  id: 'barbershop-id',
+  name: 'Barbearia Teste',
+  address: 'Rua das Flores, 123 - Centro',
+  phone: '(11) 99999-9999',
+  email: 'contato@barbearia.com',
+  ownerId: 'owner-id',
+  owner: { id: 'owner-id', name: 'Dono', email: 'dono@exemplo.com', role: Role.ADMIN },
+  _count: { barbers: 0, services: 0, appointments: 0 },
+};
+
+describe('BarbershopService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('deve listar barbearias com paginação', async () => {
+      // Arrange
+      (prisma.barbershop.findMany as any).mockResolvedValue([mockBarbershop]);
+      (prisma.barbershop.count as any).mockResolvedValue(21);
+
+      // Act
+      const result = await BarbershopService.list({ page: 2, limit: 10 });
+
+      // Assert
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination).toEqual({ page: 2, limit: 10, total: 21, pages: 3 });
+      expect(prisma.barbershop.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 10, take: 10 })
+      );
+    });
+
+    it('deve aplicar filtros de busca e dono', async () => {
+      // Arrange
+      (prisma.barbershop.findMany as any).mockResolvedValue([]);
+      (prisma.barbershop.count as any).mockResolvedValue(0);
+
+      // Act
+      await BarbershopService.list({ search: 'centro', ownerId: 'owner-id' });
+
+      // Assert
+      const where = (prisma.barbershop.findMany as any).mock.calls[0][0].where;
+      expect(where.ownerId).toBe('owner-id');
+      expect(where.OR).toContainEqual({ address: { contains: 'centro', mode: 'insensitive' } });
+    });
+  });
+
+  describe('getById', () => {
+    it('deve falhar se a barbearia não existir', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(BarbershopService.getById('inexistente')).rejects.toThrow(
+        'Barbearia não encontrada'
+      );
+    });
+
+    it('deve incluir detalhes quando solicitado', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      await BarbershopService.getById('barbershop-id', true);
+
+      // Assert
+      const include = (prisma.barbershop.findUnique as any).mock.calls[0][0].include;
+      expect(include).toHaveProperty('barbers');
+      expect(include).toHaveProperty('services');
+      expect(include).toHaveProperty('schedules');
+    });
+  });
+
+  describe('getBySlug', () => {
+    it('deve buscar a barbearia pelo slug salvo com apenas os dados públicos', async () => {
+      // Arrange
+      const publicData = { id: 'barbershop-id', slug: 'barbearia-sao-joao', name: 'São João' };
+      (prisma.barbershop.findUnique as any).mockResolvedValue(publicData);
+
+      // Act
+      const result = await BarbershopService.getBySlug('barbearia-sao-joao');
+
+      // Assert
+      expect(result).toEqual(publicData);
+      const query = (prisma.barbershop.findUnique as jest.Mock).mock.calls[0][0];
+      expect(query.where).toEqual({ slug: 'barbearia-sao-joao' });
+      expect(query.select).not.toHaveProperty('email');
+      expect(query.select).not.toHaveProperty('ownerId');
+    });
+
+    it('deve falhar se nenhuma barbearia corresponder ao slug', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(BarbershopService.getBySlug('barbearia-teste')).rejects.toThrow(
+        'Barbearia não encontrada'
+      );
+    });
+  });
+
+  describe('create', () => {
+    const createData = {
+      name: 'Barbearia Teste',
+      address: 'Rua das Flores, 123 - Centro',
+      phone: '(11) 99999-9999',
+      email: 'contato@barbearia.com',
+    };
+
+    beforeEach(() => {
+      (prisma.barbershop.findMany as any).mockResolvedValue([]);
+    });
+
+    it('deve criar barbearia para um admin sem barbearia', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'owner-id',
+        role: Role.ADMIN,
+        barbershop: null,
+      });
+      (prisma.barbershop.create as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      const result = await BarbershopService.create('owner-id', createData);
+
+      // Assert
+      expect(result.id).toBe('barbershop-id');
+      expect(prisma.barbershop.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            ownerId: 'owner-id',
+            description: null,
+            slug: 'barbearia-teste',
+          }),
+        })
+      );
+    });
+
+    it('deve acrescentar sufixo ao slug já usado por outra barbearia', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'owner-id',
+        role: Role.ADMIN,
+        barbershop: null,
+      });
+      (prisma.barbershop.findMany as any).mockResolvedValue([
+        { slug: 'barbearia-teste' },
+        { slug: 'barbearia-teste-2' },
+        { slug: 'barbearia-teste-centro' },
+      ]);
+      (prisma.barbershop.create as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      await BarbershopService.create('owner-id', createData);
+
+      // Assert
+      const { data } = (prisma.barbershop.create as jest.Mock).mock.calls[0][0];
+      expect(data.slug).toBe('barbearia-teste-3');
+    });
+
+    it('deve tentar o próximo slug quando outra barbearia ocupar o slug ao mesmo tempo', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'owner-id',
+        role: Role.ADMIN,
+        barbershop: null,
+      });
+      (prisma.barbershop.findMany as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ slug: 'barbearia-teste' }]);
+      (prisma.barbershop.create as any)
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError(
+            'Unique constraint failed on the fields: (`slug`)',
+            {
+              code: 'P2002',
+              clientVersion: '5.22.0',
+              meta: { target: ['slug'] },
+            }
+          )
+        )
+        .mockResolvedValueOnce(mockBarbershop);
+
+      // Act
+      const result = await BarbershopService.create('owner-id', createData);
+
+      // Assert
+      expect(result.id).toBe('barbershop-id');
+      expect(prisma.barbershop.create).toHaveBeenCalledTimes(2);
+      const { data } = (prisma.barbershop.create as jest.Mock).mock.calls[1][0];
+      expect(data.slug).toBe('barbearia-teste-2');
+    });
+
+    it('deve criar o horário de funcionamento padrão da semana', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'owner-id',
+        role: Role.ADMIN,
+        barbershop: null,
+      });
+      (prisma.barbershop.create as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      await BarbershopService.create('owner-id', createData);
+
+      // Assert
+      const { data } = (prisma.barbershop.create as jest.Mock).mock.calls[0][0];
+      expect(data.schedules.create).toHaveLength(7);
+      expect(data.schedules.create).toContainEqual({
+        dayOfWeek: 0,
+        isOpen: false,
+        openTime: '08:00',
+        closeTime: '12:00',
+      });
+      expect(data.schedules.create).toContainEqual({
+        dayOfWeek: 6,
+        isOpen: true,
+        openTime: '08:00',
+        closeTime: '16:00',
+      });
+    });
+
+    it('deve falhar se o usuário já possuir uma barbearia', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'owner-id',
+        role: Role.ADMIN,
+        barbershop: { id: 'outra-barbearia' },
+      });
+
+      // Act & Assert
+      await expect(BarbershopService.create('owner-id', createData)).rejects.toThrow(
+        'Usuário já possui uma barbearia'
+      );
+      expect(prisma.barbershop.create).not.toHaveBeenCalled();
+    });
+
+    it('deve falhar se o usuário não for administrador', async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: 'client-id',
+        role: Role.CLIENT,
+        barbershop: null,
+      });
+
+      // Act & Assert
+      await expect(BarbershopService.create('client-id', createData)).rejects.toThrow(
+        'Apenas administradores podem criar barbearias'
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('deve atualizar apenas os campos informados', async () => {
+      // Arrange
+      (prisma.barbershop.update as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      await BarbershopService.update('barbershop-id', { name: 'Novo Nome' }, 'owner-id');
+
+      // Assert
+      expect(prisma.barbershop.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'barbershop-id' },
+          data: { name: 'Novo Nome' },
+        })
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('deve remover barbearia sem dependências', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(mockBarbershop);
+
+      // Act
+      await BarbershopService.delete('barbershop-id', 'owner-id');
+
+      // Assert
+      expect(prisma.globalSchedule.deleteMany).toHaveBeenCalledWith({
+        where: { barbershopId: 'barbershop-id' },
+      });
+      expect(prisma.barbershop.delete).toHaveBeenCalledWith({ where: { id: 'barbershop-id' } });
+    });
+
+    it('deve falhar se houver barbeiros vinculados', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue({
+        ...mockBarbershop,
+        _count: { barbers: 2, services: 0, appointments: 0 },
+      });
+
+      // Act & Assert
+      await expect(BarbershopService.delete('barbershop-id', 'owner-id')).rejects.toThrow(
+        'Barbearia possui barbeiros, serviços ou agendamentos vinculados'
+      );
+      expect(prisma.barbershop.delete).not.toHaveBeenCalled();
+    });
+  });
+});
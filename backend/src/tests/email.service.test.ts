@@ -0,0 +1,201 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { advancedLogger } from '@/config/logger';
+import { ConsoleEmailTransport, emailService, FileEmailTransport } from '@/services/email.service';
+import { EmailMessage, EmailTransport } from '@/types/email';
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('EmailService', () => {
+  describe('ConsoleEmailTransport', () => {
+    it('deve registrar apenas destinatário e assunto, sem o corpo com o token', async () => {
+      // Arrange
+      const transport = new ConsoleEmailTransport();
+
+      // Act
+      await transport.send({
+        to: 'cliente@exemplo.com',
+        subject: 'Redefinição de senha',
+        text: 'http://localhost:3000/reset-password?token=segredo',
+      });
+
+      // Assert
+      expect(advancedLogger.info).toHaveBeenCalledWith(
+        'Email para cliente@exemplo.com: Redefinição de senha',
+        { metadata: { to: 'cliente@exemplo.com', subject: 'Redefinição de senha' } }
+      );
+      expect(JSON.stringify((advancedLogger.info as jest.Mock).mock.calls)).not.toContain(
+        'segredo'
+      );
+    });
+  });
+
+  describe('FileEmailTransport', () => {
+    let outboxDir: string;
+
+    beforeEach(async () => {
+      outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outboxDir, { recursive: true, force: true });
+    });
+
+    it('deve gravar o email como JSON na caixa de saída', async () => {
+      // Arrange
+      const transport = new FileEmailTransport(outboxDir);
+
+      // Act
+      await transport.send({ to: 'cliente@exemplo.com', subject: 'Teste', text: 'Olá' });
+
+      // Assert
+      const files = await fs.readdir(outboxDir);
+      expect(files).toHaveLength(1);
+
+      const content = JSON.parse(await fs.readFile(path.join(outboxDir, files[0]!), 'utf-8'));
+      expect(content).toMatchObject({ to: 'cliente@exemplo.com', subject: 'Teste', text: 'Olá' });
+    });
+  });
+
+  describe('sendPasswordResetEmail', () => {
+    it('deve enviar link de redefinição com o token pelo transporte configurado', async () => {
+      // Arrange
+      const sent: EmailMessage[] = [];
+      const transport: EmailTransport = {
+        name: 'memory',
+        send: async (message) => {
+          sent.push(message);
+        },
+      };
+      emailService.setTransport(transport);
+
+      // Act
+      await emailService.sendPasswordResetEmail({
+        to: 'cliente@exemplo.com',
+        name: 'Cliente',
+        token: 'abc123',
+        expiresAt: new Date('2030-01-01T12:00:00.000Z'),
+      });
+
+      // Assert
+      expect(sent).toHaveLength(1);
+      expect(sent[0]?.to).toBe('cliente@exemplo.com');
+      expect(sent[0]?.text).toContain('/reset-password?token=abc123');
+    });
+
+    it('deve escapar os valores interpolados no HTML', async () => {
+      // Arrange
+      const sent: EmailMessage[] = [];
+      emailService.setTransport({
+        name: 'memory',
+        send: async (message) => {
+          sent.push(message);
+        },
+      });
+
+      // Act
+      await emailService.sendPasswordResetEmail({
+        to: 'cliente@exemplo.com',
+        name: '<script>alert("x")</script>',
+        token: 'abc123',
+        expiresAt: new Date('2030-01-01T12:00:00.000Z'),
+      });
+
+      // Assert
+      expect(sent[0]?.html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+      expect(sent[0]?.html).not.toContain('<script>');
+    });
+
+    it('deve propagar falhas do transporte', async () => {
+      // Arrange
+      emailService.setTransport({
+        name: 'failing',
+        send: async () => {
+          throw new Error('SMTP indisponível');
+        },
+      });
+
+      // Act & Assert
+      await expect(
+        emailService.sendPasswordResetEmail({
+          to: 'cliente@exemplo.com',
+          name: 'Cliente',
+          token: 'abc123',
+          expiresAt: new Date(),
+        })
+      ).rejects.toThrow('SMTP indisponível');
+    });
+  });
+
+  describe('sendAppointmentChangeEmail', () => {
+    it('deve escapar nome, barbeiro e motivo no HTML', async () => {
+      // Arrange
+      const sent: EmailMessage[] = [];
+      emailService.setTransport({
+        name: 'memory',
+        send: async (message) => {
+          sent.push(message);
+        },
+      });
+
+      // Act
+      await emailService.sendAppointmentChangeEmail({
+        to: 'cliente@exemplo.com',
+        name: 'Ana & Cia',
+        barbershopName: 'Barbearia Centro',
+        startTime: new Date('2030-03-04T13:00:00.000Z'),
+        timezone: 'America/Sao_Paulo',
+        change: 'REASSIGNED',
+        barberName: '<b>João</b>',
+        reason: '<a href="http://phishing">clique</a>',
+      });
+
+      // Assert
+      const html = sent[0]?.html ?? '';
+      expect(html).toContain('Olá, Ana &amp; Cia!');
+      expect(html).toContain('&lt;b&gt;João&lt;/b&gt;');
+      expect(html).toContain('&lt;a href=&quot;http://phishing&quot;&gt;');
+      expect(html).not.toContain('<a href="http://phishing">');
+    });
+  });
+
+  describe('sendWaitlistOfferEmail', () => {
+    it('deve escapar nome, serviço e barbeiro no HTML', async () => {
+      // Arrange
+      const sent: EmailMessage[] = [];
+      emailService.setTransport({
+        name: 'memory',
+        send: async (message) => {
+          sent.push(message);
+        },
+      });
+
+      // Act
+      await emailService.sendWaitlistOfferEmail({
+        to: 'cliente@exemplo.com',
+        name: '<i>Ana</i>',
+        barbershopName: 'Barbearia Centro',
+        serviceName: 'Corte & Barba',
+        barberName: '"João"',
+        startTime: new Date('2030-03-04T13:00:00.000Z'),
+        expiresAt: new Date('2030-03-04T12:00:00.000Z'),
+        timezone: 'America/Sao_Paulo',
+        entryId: 'entry-1',
+      });
+
+      // Assert
+      const html = sent[0]?.html ?? '';
+      expect(html).toContain('Olá, &lt;i&gt;Ana&lt;/i&gt;!');
+      expect(html).toContain('Corte &amp; Barba com &quot;João&quot;');
+    });
+  });
+});
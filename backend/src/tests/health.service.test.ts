@@ -0,0 +1,143 @@
+import { HealthService } from '@/services/health.service';
+import { checkDatabaseHealth } from '@/config/database';
+import { checkRedisHealth } from '@/config/redis';
+import { config } from '@/config/env';
+import { JiraService } from '@/services/jira.service';
+
+// Mock das dependências consultadas
+jest.mock('@/config/database', () => ({
+  checkDatabaseHealth: jest.fn(),
+}));
+
+jest.mock('@/config/redis', () => ({
+  checkRedisHealth: jest.fn(),
+}));
+
+jest.mock('@/services/jira.service', () => ({
+  JiraService: {
+    testConnection: jest.fn(),
+  },
+}));
+
+jest.mock('@/config/env', () => ({
+  config: {
+    jira: { baseUrl: undefined, email: undefined, apiToken: undefined },
+  },
+}));
+
+describe('HealthService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (checkDatabaseHealth as jest.Mock).mockResolvedValue(true);
+    (checkRedisHealth as jest.Mock).mockResolvedValue({ status: 'healthy', latency: 1 });
+    config.jira.baseUrl = undefined;
+    HealthService.markReady();
+  });
+
+  describe('checkReadiness', () => {
+    it('deve estar pronto com as dependências no ar', async () => {
+      // Act
+      const report = await HealthService.checkReadiness();
+
+      // Assert
+      expect(report.status).toBe('healthy');
+      expect(report.ready).toBe(true);
+      expect(report.checks.database).toEqual(
+        expect.objectContaining({ status: 'up', required: true, latency: expect.any(Number) })
+      );
+      expect(report.checks).not.toHaveProperty('jira');
+    });
+
+    it('deve continuar pronto, mas degradado, com o Redis fora do ar', async () => {
+      // Arrange
+      (checkRedisHealth as jest.Mock).mockResolvedValue({
+        status: 'unhealthy',
+        error: 'Connection is closed.',
+      });
+
+      // Act
+      const report = await HealthService.checkReadiness();
+
+      // Assert
+      expect(report.status).toBe('degraded');
+      expect(report.ready).toBe(true);
+      expect(report.checks.redis).toEqual(
+        expect.objectContaining({ status: 'down', required: false, error: 'Connection is closed.' })
+      );
+    });
+
+    it('não deve estar pronto com o banco fora do ar', async () => {
+      // Arrange
+      (checkDatabaseHealth as jest.Mock).mockResolvedValue(false);
+
+      // Act
+      const report = await HealthService.checkReadiness();
+
+      // Assert
+      expect(report.status).toBe('unhealthy');
+      expect(report.ready).toBe(false);
+    });
+
+    it('não deve estar pronto durante o graceful shutdown', async () => {
+      // Arrange
+      HealthService.markShuttingDown();
+
+      // Act
+      const report = await HealthService.checkReadiness();
+
+      // Assert
+      expect(report.status).toBe('healthy');
+      expect(report.ready).toBe(false);
+    });
+
+    it('deve considerar fora do ar a dependência que não responde no tempo limite', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      (checkDatabaseHealth as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+      // Act
+      const pending = HealthService.checkReadiness();
+      await jest.advanceTimersByTimeAsync(HealthService.PROBE_TIMEOUT_MS);
+      const report = await pending;
+      jest.useRealTimers();
+
+      // Assert
+      expect(report.status).toBe('unhealthy');
+      expect(report.checks.database).toEqual(
+        expect.objectContaining({
+          status: 'down',
+          error: `Sem resposta em ${HealthService.PROBE_TIMEOUT_MS}ms`,
+        })
+      );
+    });
+  });
+
+  describe('checkAll', () => {
+    it('não deve consultar o Jira quando não estiver configurado', async () => {
+      // Act
+      const report = await HealthService.checkAll();
+
+      // Assert
+      expect(report.checks.jira).toEqual({ status: 'not_configured', required: false });
+      expect(report.status).toBe('healthy');
+      expect(JiraService.testConnection).not.toHaveBeenCalled();
+    });
+
+    it('deve ficar degradado com o Jira configurado e fora do ar', async () => {
+      // Arrange
+      Object.assign(config.jira, {
+        baseUrl: 'https://empresa.atlassian.net',
+        email: 'dev@empresa.com',
+        apiToken: 'token',
+      });
+      (JiraService.testConnection as jest.Mock).mockResolvedValue(false);
+
+      // Act
+      const report = await HealthService.checkAll();
+
+      // Assert
+      expect(report.status).toBe('degraded');
+      expect(report.checks.jira).toEqual(expect.objectContaining({ status: 'down' }));
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// Redis em memória para os testes de serviços (apenas os comandos usados por eles)
+// Uso: jest.mock('@/config/redis', () => ({
+//   redis: jest.requireActual('@/tests/helpers/redis-mock').createRedisMock(),
+//   CACHE_PREFIXES: { ... },
+// }));
+export function createRedisMock() {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const sets = new Map<string, Set<string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+
+  const sorted = (key: string) => [...(sortedSets.get(key) ?? [])].sort(([, a], [, b]) => a - b);
+
+  return {
+    // Strings (com as opções NX, XX e GET do SET)
+    set: jest.fn(async (key: string, value: string, ...args: unknown[]) => {
+      const previous = strings.get(key) ?? null;
+      if (
+        (args.includes('NX') && previous !== null) ||
+        (args.includes('XX') && previous === null)
+      ) {
+        return null;
+      }
+      strings.set(key, value);
+      return args.includes('GET') ? previous : 'OK';
+    }),
+    get: jest.fn(async (key: string) => strings.get(key) ?? null),
+    mget: jest.fn(async (...keys: string[]) => keys.map((key) => strings.get(key) ?? null)),
+    del: jest.fn(async (...keys: string[]) =>
+      keys.reduce((count, key) => {
+        const deleted = [strings, hashes, sets, sortedSets].some((store) => store.delete(key));
+        return count + (deleted ? 1 : 0);
+      }, 0)
+    ),
+    expire: jest.fn(async () => 1),
+
+    // Hashes
+    hset: jest.fn(async (key: string, field: string, value: string) => {
+      const hash = hashes.get(key) ?? new Map<string, string>();
+      hash.set(field, value);
+      hashes.set(key, hash);
+      return 1;
+    }),
+    hget: jest.fn(async (key: string, field: string) => hashes.get(key)?.get(field) ?? null),
+    hgetall: jest.fn(async (key: string) => Object.fromEntries(hashes.get(key) ?? [])),
+    hdel: jest.fn(async (key: string, field: string) => (hashes.get(key)?.delete(field) ? 1 : 0)),
+
+    // Sets
+    sadd: jest.fn(async (key: string, member: string) => {
+      const members = sets.get(key) ?? new Set<string>();
+      members.add(member);
+      sets.set(key, members);
+      return 1;
+    }),
+    srem: jest.fn(async (key: string, member: string) => (sets.get(key)?.delete(member) ? 1 : 0)),
+    smembers: jest.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+
+    // Sorted sets
+    zadd: jest.fn(async (key: string, score: number, member: string) => {
+      const set = sortedSets.get(key) ?? new Map<string, number>();
+      set.set(member, score);
+      sortedSets.set(key, set);
+      return 1;
+    }),
+    zrem: jest.fn(async (key: string, member: string) =>
+      sortedSets.get(key)?.delete(member) ? 1 : 0
+    ),
+    zrangebyscore: jest.fn(async (key: string, min: number, max: number) =>
+      sorted(key)
+        .filter(([, score]) => score >= min && score <= max)
+        .map(([member]) => member)
+    ),
+    zrange: jest.fn(async (key: string, start: number, stop: number) =>
+      sorted(key)
+        .slice(start, stop + 1)
+        .map(([member]) => member)
+    ),
+    zrevrange: jest.fn(async (key: string, start: number, stop: number) =>
+      sorted(key)
+        .reverse()
+        .slice(start, stop + 1)
+        .map(([member]) => member)
+    ),
+    zcard: jest.fn(async (key: string) => sortedSets.get(key)?.size ?? 0),
+    zscore: jest.fn(
+      async (key: string, member: string) => sortedSets.get(key)?.get(member) ?? null
+    ),
+
+    // Limpar todos os dados entre os testes
+    flush: () => {
+      [strings, hashes, sets, sortedSets].forEach((store) => store.clear());
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { JiraService } from '@/services/jira.service';
 import axios from 'axios';
+import { runWithRequestContext } from '@/utils/request-context';
 
 // Mock do axios
 jest.mock('axios');
@@ -40,6 +41,9 @@ describe('JiraService', () => {
       put: jest.fn(),
       delete: jest.fn(),
       interceptors: {
+        request: {
+          use: jest.fn(),
+        },
         response: {
           use: jest.fn(),
         },
@@ -80,6 +84,25 @@ describe('JiraService', () => {
     });
   });
 
+  describe('X-Request-Id', () => {
+    it('deve repassar o ID da requisição atual nas chamadas ao Jira', async () => {
+      // Arrange
+      mockAxiosInstance.get.mockResolvedValue({ data: {} });
+      await JiraService.testConnection();
+      const [addRequestId] = mockAxiosInstance.interceptors.request.use.mock.calls[0];
+
+      // Act
+      const withContext = runWithRequestContext({ requestId: 'req-123' }, () =>
+        addRequestId({ headers: {} })
+      );
+      const withoutContext = addRequestId({ headers: {} });
+
+      // Assert
+      expect(withContext.headers['X-Request-Id']).toBe('req-123');
+      expect(withoutContext.headers).not.toHaveProperty('X-Request-Id');
+    });
+  });
+
   describe('getProject', () => {
     it('deve obter projeto com sucesso', async () => {
       // Arrange
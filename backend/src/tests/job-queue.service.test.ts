@@ -0,0 +1,218 @@
+import { JobQueueService } from '@/services/job-queue.service';
+import { redis } from '@/config/redis';
+import { JobError, JobType } from '@/types/job';
+import { getRequestId, runWithRequestContext } from '@/utils/request-context';
+
+// Mock do Redis em memória
+jest.mock('@/config/redis', () => ({
+  redis: jest.requireActual('@/tests/helpers/redis-mock').createRedisMock(),
+  CACHE_PREFIXES: { JOBS: 'jobs:' },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('JobQueueService', () => {
+  const handler = jest.fn();
+  const payload = { pattern: 'barbershops:*' };
+  const later = () => new Date(Date.now() + 3600000);
+
+  beforeEach(() => {
+    (redis as any).flush();
+    handler.mockResolvedValue(undefined);
+    JobQueueService.register(JobType.CACHE_INVALIDATION, handler);
+  });
+
+  describe('enqueue', () => {
+    it('deve executar a tarefa enfileirada e removê-la da fila', async () => {
+      // Arrange
+      const job = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload);
+
+      // Act
+      const processed = await JobQueueService.processDue(later());
+
+      // Assert
+      expect(processed).toBe(1);
+      expect(handler).toHaveBeenCalledWith(payload, expect.objectContaining({ id: job.id }));
+      expect(await JobQueueService.get(job.id)).toBeNull();
+      expect((await JobQueueService.list()).counts).toEqual({ queued: 0, dead: 0 });
+    });
+
+    it('deve executar a tarefa com o ID da requisição que a enfileirou', async () => {
+      // Arrange
+      let idDuringRun: string | undefined;
+      handler.mockImplementation(async () => {
+        idDuringRun = getRequestId();
+      });
+      const job = await runWithRequestContext({ requestId: 'req-42' }, () =>
+        JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload)
+      );
+
+      // Act
+      await JobQueueService.processDue(later());
+
+      // Assert
+      expect(job.requestId).toBe('req-42');
+      expect(idDuringRun).toBe('req-42');
+    });
+
+    it('deve respeitar o atraso informado', async () => {
+      // Arrange
+      await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, { delayMs: 2 * 3600000 });
+
+      // Act
+      const processed = await JobQueueService.processDue(later());
+
+      // Assert
+      expect(processed).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('deve devolver a mesma tarefa para a mesma chave de idempotência', async () => {
+      // Arrange
+      const first = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        idempotencyKey: 'invalidate-barbershops',
+      });
+
+      // Act
+      const second = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        idempotencyKey: 'invalidate-barbershops',
+      });
+      await JobQueueService.processDue(later());
+
+      // Assert
+      expect(second.id).toBe(first.id);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve manter a chave de idempotência até a execução de tarefa com atraso', async () => {
+      // Act
+      await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        idempotencyKey: 'lembrete-1',
+        delayMs: 7 * 24 * 3600000,
+      });
+
+      // Assert
+      expect(redis.set).toHaveBeenCalledWith(
+        'jobs:idempotency:lembrete-1',
+        expect.any(String),
+        'EX',
+        JobQueueService.IDEMPOTENCY_TTL_SECONDS + 7 * 24 * 3600,
+        'NX'
+      );
+    });
+
+    it('não deve repetir tarefa já concluída com a mesma chave de idempotência', async () => {
+      // Arrange
+      const first = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        idempotencyKey: 'invalidate-barbershops',
+      });
+      await JobQueueService.processDue(later());
+
+      // Act
+      const second = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        idempotencyKey: 'invalidate-barbershops',
+      });
+
+      // Assert
+      expect(second).toEqual(expect.objectContaining({ id: first.id, state: 'completed' }));
+      expect((await JobQueueService.list()).counts.queued).toBe(0);
+    });
+  });
+
+  describe('processDue', () => {
+    it('deve reagendar com espera exponencial quando o executor falhar', async () => {
+      // Arrange
+      handler.mockRejectedValue(new Error('Redis indisponível'));
+      const job = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload);
+
+      // Act
+      await JobQueueService.processDue(later());
+
+      // Assert
+      const stored = await JobQueueService.get(job.id);
+      expect(stored).toEqual(
+        expect.objectContaining({ state: 'queued', attempts: 1, lastError: 'Redis indisponível' })
+      );
+      const score = await (redis as any).zscore('jobs:queue', job.id);
+      expect(score).toBeGreaterThanOrEqual(Date.now() + JobQueueService.BACKOFF_BASE_MS - 1000);
+    });
+
+    it('deve mover para a fila de falhas após esgotar as tentativas', async () => {
+      // Arrange
+      handler.mockRejectedValue(new Error('Jira fora do ar'));
+      const job = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        maxAttempts: 2,
+      });
+
+      // Act
+      await JobQueueService.processDue(later());
+      await JobQueueService.processDue(later());
+
+      // Assert
+      expect(handler).toHaveBeenCalledTimes(2);
+      const dead = await JobQueueService.list({ state: 'dead' });
+      expect(dead.counts).toEqual({ queued: 0, dead: 1 });
+      expect(dead.jobs[0]).toEqual(
+        expect.objectContaining({
+          id: job.id,
+          state: 'dead',
+          attempts: 2,
+          lastError: 'Jira fora do ar',
+        })
+      );
+    });
+
+    it('não deve executar tarefa já retirada por outra instância', async () => {
+      // Arrange
+      await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload);
+      (redis.zrem as jest.Mock).mockResolvedValueOnce(0);
+
+      // Act
+      const processed = await JobQueueService.processDue(later());
+
+      // Assert
+      expect(processed).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    it('deve devolver tarefa da fila de falhas com as tentativas zeradas', async () => {
+      // Arrange
+      handler.mockRejectedValueOnce(new Error('Jira fora do ar'));
+      const job = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload, {
+        maxAttempts: 1,
+      });
+      await JobQueueService.processDue(later());
+
+      // Act
+      const retried = await JobQueueService.retry(job.id);
+      await JobQueueService.processDue(later());
+
+      // Assert
+      expect(retried).toEqual(expect.objectContaining({ state: 'queued', attempts: 0 }));
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect((await JobQueueService.list({ state: 'dead' })).counts).toEqual({
+        queued: 0,
+        dead: 0,
+      });
+    });
+
+    it('deve rejeitar tarefa que não está na fila de falhas', async () => {
+      // Arrange
+      const job = await JobQueueService.enqueue(JobType.CACHE_INVALIDATION, payload);
+
+      // Act & Assert
+      await expect(JobQueueService.retry(job.id)).rejects.toThrow(JobError.NOT_DEAD);
+      await expect(JobQueueService.retry('missing-id')).rejects.toThrow(JobError.NOT_FOUND);
+    });
+  });
+});
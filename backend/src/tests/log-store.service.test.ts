@@ -0,0 +1,220 @@
+import { LogStoreService } from '@/services/log-store.service';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { LogCategory, LogQueryError, StoredLogEntry } from '@/types/logging';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    logEntry: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  logger: {
+    add: jest.fn(),
+    remove: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const entry = (message: string): StoredLogEntry => ({
+  timestamp: new Date('2025-07-11T12:00:00.000Z'),
+  level: 'info',
+  category: LogCategory.API,
+  message,
+  requestId: 'req-1',
+});
+
+const row = (id: string, timestamp: string) => ({
+  id,
+  timestamp: new Date(timestamp),
+  level: 'info',
+  category: LogCategory.API,
+  message: `log ${id}`,
+  userId: null,
+  requestId: null,
+  context: null,
+});
+
+describe('LogStoreService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('query', () => {
+    it('deve montar os filtros de nível, categoria, período e busca', async () => {
+      // Arrange
+      (prisma.logEntry.findMany as jest.Mock).mockResolvedValue([]);
+      const from = new Date('2025-07-10T00:00:00.000Z');
+
+      // Act
+      await LogStoreService.query({
+        level: 'warn',
+        category: LogCategory.SECURITY,
+        userId: 'user-id',
+        from,
+        search: 'login',
+      });
+
+      // Assert
+      expect(prisma.logEntry.findMany).toHaveBeenCalledWith({
+        where: {
+          level: { in: ['error', 'warn'] },
+          category: LogCategory.SECURITY,
+          userId: 'user-id',
+          timestamp: { gte: from },
+          message: { contains: 'login', mode: 'insensitive' },
+        },
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        take: LogStoreService.DEFAULT_LIMIT + 1,
+      });
+    });
+
+    it('deve paginar pelo cursor da última entrada retornada', async () => {
+      // Arrange
+      (prisma.logEntry.findMany as jest.Mock).mockResolvedValueOnce([
+        row('c', '2025-07-11T12:00:02.000Z'),
+        row('b', '2025-07-11T12:00:01.000Z'),
+        row('a', '2025-07-11T12:00:00.000Z'),
+      ]);
+      (prisma.logEntry.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      // Act
+      const first = await LogStoreService.query({ limit: 2 });
+      await LogStoreService.query({ limit: 2, cursor: first.nextCursor! });
+
+      // Assert
+      expect(first.entries.map((log) => log.id)).toEqual(['c', 'b']);
+      const where = (prisma.logEntry.findMany as jest.Mock).mock.calls[1][0].where;
+      expect(where.OR).toEqual([
+        { timestamp: { lt: new Date('2025-07-11T12:00:01.000Z') } },
+        { timestamp: new Date('2025-07-11T12:00:01.000Z'), id: { lt: 'b' } },
+      ]);
+    });
+
+    it('não deve retornar cursor na última página', async () => {
+      // Arrange
+      (prisma.logEntry.findMany as jest.Mock).mockResolvedValue([
+        row('a', '2025-07-11T12:00:00.000Z'),
+      ]);
+
+      // Act
+      const result = await LogStoreService.query({ limit: 2 });
+
+      // Assert
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('deve rejeitar cursor inválido', async () => {
+      // Act & Assert
+      await expect(LogStoreService.query({ cursor: 'invalido' })).rejects.toThrow(
+        LogQueryError.INVALID_CURSOR
+      );
+      expect(prisma.logEntry.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flush', () => {
+    it('deve gravar as entradas acumuladas em lote', async () => {
+      // Arrange
+      (prisma.logEntry.createMany as jest.Mock).mockResolvedValue({ count: 2 });
+      LogStoreService.push({ ...entry('primeiro'), context: { statusCode: 200 } });
+      LogStoreService.push(entry('segundo'));
+
+      // Act
+      await LogStoreService.flush();
+
+      // Assert
+      const { data } = (prisma.logEntry.createMany as jest.Mock).mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toEqual(
+        expect.objectContaining({
+          message: 'primeiro',
+          requestId: 'req-1',
+          userId: null,
+          context: { statusCode: 200 },
+        })
+      );
+    });
+
+    it('deve manter as entradas para nova tentativa quando o banco falhar', async () => {
+      // Arrange
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      (prisma.logEntry.createMany as jest.Mock)
+        .mockRejectedValueOnce(new Error('Banco indisponível'))
+        .mockResolvedValueOnce({ count: 1 });
+      LogStoreService.push(entry('pendente'));
+
+      // Act
+      await LogStoreService.flush();
+      await LogStoreService.flush();
+
+      // Assert
+      expect(prisma.logEntry.createMany).toHaveBeenCalledTimes(2);
+      const { data } = (prisma.logEntry.createMany as jest.Mock).mock.calls[1][0];
+      expect(data).toEqual([expect.objectContaining({ message: 'pendente' })]);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('transport', () => {
+    it('deve remover tokens e corpo de mensagens antes de gravar', async () => {
+      // Arrange
+      (prisma.logEntry.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+      LogStoreService.start();
+      const transport = (logger.add as jest.Mock).mock.calls[0][0];
+
+      // Act
+      transport.log(
+        {
+          level: 'http',
+          message: 'GET /api/appointments/respond?token=segredo&lang=pt 200 - 5ms',
+          url: '/api/appointments/respond?token=segredo&lang=pt',
+          metadata: { to: 'cliente@exemplo.com', text: 'Acesse /reset-password?token=segredo' },
+          headers: { authorization: 'Bearer segredo' },
+        },
+        () => undefined
+      );
+      await LogStoreService.stop();
+
+      // Assert
+      const { data } = (prisma.logEntry.createMany as jest.Mock).mock.calls[0][0];
+      expect(JSON.stringify(data)).not.toContain('segredo');
+      expect(data[0]).toEqual(
+        expect.objectContaining({
+          message: 'GET /api/appointments/respond?token=[REDACTED]&lang=pt 200 - 5ms',
+          context: {
+            url: '/api/appointments/respond?token=[REDACTED]&lang=pt',
+            metadata: { to: 'cliente@exemplo.com', text: '[REDACTED]' },
+            headers: { authorization: '[REDACTED]' },
+          },
+        })
+      );
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('deve remover entradas anteriores ao período de retenção', async () => {
+      // Arrange
+      (prisma.logEntry.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+      const now = new Date('2025-07-31T00:00:00.000Z');
+
+      // Act
+      const removed = await LogStoreService.purgeExpired(now);
+
+      // Assert
+      expect(removed).toBe(3);
+      expect(prisma.logEntry.deleteMany).toHaveBeenCalledWith({
+        where: { timestamp: { lt: new Date('2025-07-17T00:00:00.000Z') } },
+      });
+    });
+  });
+});
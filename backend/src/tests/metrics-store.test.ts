@@ -0,0 +1,160 @@
+import type Redis from 'ioredis';
+import { MemoryMetricsStore, RedisMetricsStore } from '@/utils/metrics-store';
+
+// Redis em memória (apenas hashes e os comandos usados pelo armazenamento)
+const createRedisMock = () => {
+  const hashes = new Map<string, Map<string, string>>();
+  const ttls = new Map<string, number>();
+
+  const hash = (key: string) => {
+    const existing = hashes.get(key) ?? new Map<string, string>();
+    hashes.set(key, existing);
+    return existing;
+  };
+
+  const commands = {
+    hincrby: (key: string, field: string, value: number) => {
+      const next = Number(hash(key).get(field) ?? 0) + value;
+      hash(key).set(field, String(next));
+      return next;
+    },
+    hincrbyfloat: (key: string, field: string, value: number) =>
+      commands.hincrby(key, field, value),
+    hsetnx: (key: string, field: string, value: string) => {
+      if (hash(key).has(field)) return 0;
+      hash(key).set(field, value);
+      return 1;
+    },
+    expire: (key: string, seconds: number) => {
+      ttls.set(key, seconds);
+      return 1;
+    },
+    hgetall: (key: string) => Object.fromEntries(hashes.get(key) ?? []),
+  };
+
+  const client = {
+    pipeline: jest.fn(() => {
+      const queued: Array<() => unknown> = [];
+      const pipeline: Record<string, unknown> = {
+        exec: jest.fn(async () => queued.map((run) => [null, run()])),
+      };
+      Object.entries(commands).forEach(([name, command]) => {
+        pipeline[name] = (...args: unknown[]) => {
+          queued.push(() => (command as (...params: unknown[]) => unknown)(...args));
+          return pipeline;
+        };
+      });
+      return pipeline;
+    }),
+    hmget: jest.fn(async (key: string, ...fields: string[]) =>
+      fields.map((field) => hashes.get(key)?.get(field) ?? null)
+    ),
+  };
+
+  return { client, hashes, ttls };
+};
+
+describe('RedisMetricsStore', () => {
+  const retentionMinutes = 7 * 24 * 60;
+
+  it('deve somar os contadores de várias instâncias no mesmo minuto', async () => {
+    // Arrange
+    const { client } = createRedisMock();
+    const first = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    const second = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    first.increment(1000, { requests: 2, duration: 30.5 });
+    second.increment(1000, { requests: 1, duration: 10 });
+
+    // Act
+    await first.flush();
+    await second.flush();
+    const buckets = await first.readBuckets(999, 1001);
+
+    // Assert
+    expect(buckets.get(1000)).toEqual({ requests: 3, duration: 40.5 });
+    expect(buckets.has(999)).toBe(false);
+  });
+
+  it('deve expirar os minutos gravados conforme a retenção', async () => {
+    // Arrange
+    const { client, ttls } = createRedisMock();
+    const store = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    store.increment(1000, { requests: 1 });
+
+    // Act
+    await store.flush();
+
+    // Assert
+    expect(ttls.get('metrics:minute:1000')).toBe(retentionMinutes * 60);
+  });
+
+  it('deve incluir na leitura os contadores ainda não enviados', async () => {
+    // Arrange
+    const { client } = createRedisMock();
+    const store = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    store.increment(1000, { requests: 1 });
+
+    // Act
+    const buckets = await store.readBuckets(1000, 1000);
+
+    // Assert
+    expect(buckets.get(1000)).toEqual({ requests: 1 });
+  });
+
+  it('deve manter os contadores para nova tentativa quando o Redis falhar', async () => {
+    // Arrange
+    const { client, hashes } = createRedisMock();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const store = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    store.increment(1000, { requests: 1 });
+    client.pipeline.mockImplementationOnce(() => ({
+      hincrby: jest.fn(),
+      expire: jest.fn(),
+      exec: jest.fn().mockRejectedValue(new Error('Connection is closed.')),
+    }));
+
+    // Act
+    await store.flush();
+    await store.flush();
+
+    // Assert
+    expect(hashes.get('metrics:minute:1000')?.get('requests')).toBe('1');
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('deve guardar apenas os primeiros detalhes de cada erro', async () => {
+    // Arrange
+    const { client } = createRedisMock();
+    const store = new RedisMetricsStore(client as unknown as Redis, retentionMinutes, 'metrics:');
+    store.saveErrorDetails('abc', { type: 'Error', message: 'Falha', endpoint: '/a' });
+    await store.flush();
+    store.saveErrorDetails('abc', { type: 'Error', message: 'Falha', endpoint: '/b' });
+    await store.flush();
+
+    // Act
+    const details = await store.readErrorDetails(['abc', 'inexistente']);
+
+    // Assert
+    expect(details.get('abc')).toEqual({ type: 'Error', message: 'Falha', endpoint: '/a' });
+    expect(details.has('inexistente')).toBe(false);
+  });
+});
+
+describe('MemoryMetricsStore', () => {
+  it('deve descartar minutos fora da retenção', async () => {
+    // Arrange
+    const store = new MemoryMetricsStore(60);
+    const now = new Date('2025-07-11T12:00:00.000Z');
+    const currentMinute = Math.floor(now.getTime() / 60000);
+    store.increment(currentMinute - 61, { requests: 1 });
+    store.increment(currentMinute - 10, { requests: 2 });
+
+    // Act
+    store.prune(now);
+    const buckets = await store.readBuckets(0, currentMinute);
+
+    // Assert
+    expect([...buckets.values()]).toEqual([{ requests: 2 }]);
+  });
+});
@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { metricsCollector } from '@/utils/metrics';
+import { createMetricsAccess } from '@/middleware/metrics';
+import { MemoryMetricsStore } from '@/utils/metrics-store';
+
+const cacheStats = { hits: 7, misses: 3, sets: 0, deletes: 0, errors: 1 };
+
+describe('MetricsCollector - OpenMetrics', () => {
+  it('deve exportar histograma de duração e contador de status por rota', () => {
+    // Arrange
+    metricsCollector.observeRequest('GET', '/api/barbershops/:id', 200, 42);
+    metricsCollector.observeRequest('GET', '/api/barbershops/:id', 404, 3);
+
+    // Act
+    const output = metricsCollector.toOpenMetrics(cacheStats);
+
+    // Assert
+    expect(output).toContain('# TYPE http_request_duration_seconds histogram');
+    expect(output).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/api/barbershops/:id",le="0.005"} 1'
+    );
+    expect(output).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/api/barbershops/:id",le="0.05"} 2'
+    );
+    expect(output).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/api/barbershops/:id"} 2'
+    );
+    expect(output).toContain(
+      'http_responses_total{method="GET",route="/api/barbershops/:id",status_code="404"} 1'
+    );
+    expect(output.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('deve exportar os contadores de cache e de agendamentos', () => {
+    // Arrange
+    metricsCollector.recordBusinessEvent({
+      type: 'APPOINTMENT_CREATION',
+      entity: 'appointment',
+      entityId: 'appointment-id',
+      action: 'CREATE',
+    });
+    metricsCollector.recordBusinessEvent({
+      type: 'APPOINTMENT_STATUS_CHANGE',
+      entity: 'appointment',
+      entityId: 'appointment-id',
+      action: 'UPDATE',
+      changes: { status: { from: 'SCHEDULED', to: 'CANCELLED' } },
+    });
+
+    // Act
+    const output = metricsCollector.toOpenMetrics(cacheStats);
+
+    // Assert
+    expect(output).toContain('cache_hits_total 7');
+    expect(output).toContain('cache_misses_total 3');
+    expect(output).toContain('appointments_created_total 1');
+    expect(output).toContain('appointments_cancelled_total 1');
+    expect(output).toContain('business_events_total{type="APPOINTMENT_STATUS_CHANGE"} 1');
+  });
+
+  it('deve registrar a duração das consultas ao banco em segundos', () => {
+    // Act
+    metricsCollector.observeDatabaseQuery(12);
+    const output = metricsCollector.toOpenMetrics(cacheStats);
+
+    // Assert
+    expect(output).toContain('db_query_duration_seconds_bucket{le="0.01"} 0');
+    expect(output).toContain('db_query_duration_seconds_bucket{le="0.025"} 1');
+    expect(output).toContain('db_query_duration_seconds_sum 0.012');
+  });
+
+  it('deve escapar aspas e barras nos valores dos rótulos', () => {
+    // Act
+    metricsCollector.recordBusinessEvent({
+      type: 'TIPO "ESTRANHO" \\',
+      entity: 'x',
+      entityId: 'x',
+      action: 'VIEW',
+    });
+
+    // Assert
+    expect(metricsCollector.toOpenMetrics(cacheStats)).toContain(
+      'business_events_total{type="TIPO \\"ESTRANHO\\" \\\\"} 1'
+    );
+  });
+});
+
+describe('MetricsCollector - agregados', () => {
+  beforeEach(() => {
+    metricsCollector.useStore(new MemoryMetricsStore(7 * 24 * 60));
+  });
+
+  it('deve calcular as estatísticas de performance a partir dos agregados por minuto', async () => {
+    // Arrange
+    metricsCollector.observeRequest('GET', '/api/barbershops', 200, 100);
+    metricsCollector.observeRequest('GET', '/api/barbershops', 200, 50);
+    metricsCollector.observeRequest('POST', '/api/appointments', 409, 300);
+
+    // Act
+    const stats = await metricsCollector.getPerformanceStats();
+
+    // Assert
+    expect(stats.requestCount).toBe(3);
+    expect(stats.averageResponseTime).toBe(150);
+    expect(stats.errorRate).toBeCloseTo(33.33, 1);
+    expect(stats.slowestEndpoints).toEqual([
+      { endpoint: 'POST /api/appointments', avgDuration: 300 },
+      { endpoint: 'GET /api/barbershops', avgDuration: 75 },
+    ]);
+  });
+
+  it('deve agrupar os erros por tipo e mensagem com os detalhes da primeira ocorrência', async () => {
+    // Arrange
+    metricsCollector.collectError({ type: 'TypeError', message: 'x is undefined', endpoint: '/a' });
+    metricsCollector.collectError({ type: 'TypeError', message: 'x is undefined', endpoint: '/b' });
+    metricsCollector.collectError({ type: 'Error', message: 'Timeout' });
+
+    // Act
+    const errors = await metricsCollector.getTopErrors(1);
+
+    // Assert
+    expect(errors).toEqual([
+      expect.objectContaining({
+        type: 'TypeError',
+        message: 'x is undefined',
+        endpoint: '/a',
+        count: 2,
+        firstOccurrence: expect.any(Date),
+      }),
+    ]);
+  });
+
+  it('deve contar no resumo apenas os alertas de segurança graves', async () => {
+    // Arrange
+    const event = { ip: '203.0.113.9', userAgent: 'jest', details: {} };
+    metricsCollector.recordSecurityEvent({ ...event, type: 'LOGIN_FAILURE', severity: 'HIGH' });
+    metricsCollector.recordSecurityEvent({ ...event, type: 'LOGIN_ATTEMPT', severity: 'LOW' });
+
+    // Act
+    const summary = await metricsCollector.getSystemSummary();
+
+    // Assert
+    expect(summary.securityAlerts).toBe(1);
+    expect(summary.performance.requestCount).toBe(0);
+  });
+});
+
+describe('metricsAccess', () => {
+  const access = createMetricsAccess({
+    token: 'token-de-metricas-123',
+    allowedIps: ['127.0.0.1', '10.0.0.0/8'],
+  });
+
+  const run = (ip: string, authorization?: string) => {
+    const req = { ip, headers: { authorization }, socket: {} } as unknown as Request;
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis(),
+    } as unknown as Response;
+    const next = jest.fn();
+
+    access(req, res, next);
+    return { next, res };
+  };
+
+  it('deve liberar IPs e redes da lista', () => {
+    expect(run('127.0.0.1').next).toHaveBeenCalled();
+    expect(run('::ffff:10.1.2.3').next).toHaveBeenCalled();
+  });
+
+  it('deve liberar requisição com o token correto', () => {
+    expect(run('203.0.113.9', 'Bearer token-de-metricas-123').next).toHaveBeenCalled();
+  });
+
+  it('deve negar IP fora da lista sem token válido', () => {
+    // Act
+    const { next, res } = run('203.0.113.9', 'Bearer outro-token');
+
+    // Assert
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
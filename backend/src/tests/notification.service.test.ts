@@ -0,0 +1,361 @@
+import { DeliveryStatus, NotificationChannel } from '@prisma/client';
+import { ConsoleMessagingProvider, NotificationService } from '@/services/notification.service';
+import { advancedLogger } from '@/config/logger';
+import { prisma } from '@/config/database';
+import {
+  ChannelMessage,
+  MessagingProvider,
+  NotificationChannelAdapter,
+  NotificationError,
+  NotificationTemplate,
+} from '@/types/notification';
+import { renderTemplate } from '@/utils/notification-templates';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    appointment: { findUnique: jest.fn() },
+    notification: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+    },
+    notificationPreference: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+// Adaptador em memória que guarda as mensagens enviadas
+class MemoryChannel implements NotificationChannelAdapter {
+  readonly sent: ChannelMessage[] = [];
+  failure: Error | null = null;
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  async send(message: ChannelMessage): Promise<void> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    this.sent.push(message);
+  }
+}
+
+describe('NotificationService', () => {
+  let email: MemoryChannel;
+  let whatsapp: MemoryChannel;
+  let inApp: MemoryChannel;
+  let service: NotificationService;
+
+  const user = {
+    id: 'user-id',
+    email: 'cliente@exemplo.com',
+    phone: '+5511999999999',
+    notificationPrefs: [],
+  };
+
+  const variables = {
+    clientName: 'Ana',
+    barberName: 'Bruno',
+    serviceName: 'Corte',
+    barbershopName: 'Barbearia Centro',
+    date: 'segunda-feira, 04/03/2030',
+    time: '10:00',
+  };
+
+  const pending = {
+    id: 'notification-id',
+    userId: 'user-id',
+    channel: NotificationChannel.EMAIL,
+    template: NotificationTemplate.APPOINTMENT_CREATED,
+    recipient: 'cliente@exemplo.com',
+    subject: 'Assunto',
+    body: 'Texto',
+    status: DeliveryStatus.PENDING,
+    attempts: 0,
+  };
+
+  beforeEach(() => {
+    email = new MemoryChannel(NotificationChannel.EMAIL);
+    whatsapp = new MemoryChannel(NotificationChannel.WHATSAPP);
+    inApp = new MemoryChannel(NotificationChannel.IN_APP);
+    service = new NotificationService([email, whatsapp, inApp]);
+
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    (prisma.notification.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...pending, id: `notification-${data.channel}`, ...data })
+    );
+    (prisma.notification.update as jest.Mock).mockImplementation(({ where, data }) =>
+      Promise.resolve({ ...pending, id: where.id, ...data })
+    );
+  });
+
+  describe('renderTemplate', () => {
+    it('deve preencher as variáveis e remover as ausentes', () => {
+      // Act
+      const rendered = renderTemplate(NotificationTemplate.APPOINTMENT_CANCELLED, variables);
+
+      // Assert
+      expect(rendered.subject).toBe('Agendamento cancelado - Barbearia Centro');
+      expect(rendered.text).toContain('Olá, Ana!');
+      expect(rendered.text).not.toContain('{{');
+      expect(rendered.short).toBe(
+        'Barbearia Centro: seu horário de segunda-feira, 04/03/2030 às 10:00 foi cancelado.'
+      );
+    });
+  });
+
+  describe('notify', () => {
+    it('deve entregar por email e in-app quando não houver preferências', async () => {
+      // Act
+      const result = await service.notify({
+        userId: 'user-id',
+        template: NotificationTemplate.APPOINTMENT_CREATED,
+        variables,
+      });
+
+      // Assert
+      const channels = (prisma.notification.create as jest.Mock).mock.calls.map(
+        ([args]) => args.data.channel
+      );
+      expect(channels).toEqual([NotificationChannel.EMAIL, NotificationChannel.IN_APP]);
+      expect(result.every((notification) => notification.status === DeliveryStatus.SENT)).toBe(
+        true
+      );
+      expect(email.sent[0]).toMatchObject({
+        to: 'cliente@exemplo.com',
+        subject: 'Agendamento realizado - Barbearia Centro',
+      });
+      expect(whatsapp.sent).toHaveLength(0);
+    });
+
+    it('deve respeitar as preferências e usar o texto curto no WhatsApp', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...user,
+        notificationPrefs: [
+          { channel: NotificationChannel.EMAIL, enabled: false },
+          { channel: NotificationChannel.WHATSAPP, enabled: true },
+        ],
+      });
+
+      // Act
+      await service.notify({
+        userId: 'user-id',
+        template: NotificationTemplate.APPOINTMENT_CONFIRMED,
+        variables,
+      });
+
+      // Assert
+      expect(email.sent).toHaveLength(0);
+      expect(whatsapp.sent).toEqual([
+        {
+          to: '+5511999999999',
+          subject: 'Agendamento confirmado - Barbearia Centro',
+          text: 'Barbearia Centro: horário confirmado para segunda-feira, 04/03/2030 às 10:00 com Bruno.',
+        },
+      ]);
+    });
+
+    it('deve ignorar canais de telefone quando o usuário não tiver telefone', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...user,
+        phone: null,
+        notificationPrefs: [{ channel: NotificationChannel.WHATSAPP, enabled: true }],
+      });
+
+      // Act
+      const result = await service.notify({
+        userId: 'user-id',
+        template: NotificationTemplate.APPOINTMENT_CREATED,
+        variables,
+      });
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(prisma.notification.create).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ channel: NotificationChannel.WHATSAPP }),
+        })
+      );
+    });
+
+    it('deve agendar nova tentativa quando a entrega falhar', async () => {
+      // Arrange
+      email.failure = new Error('SMTP indisponível');
+      const before = Date.now();
+
+      // Act
+      const result = await service.notify({
+        userId: 'user-id',
+        template: NotificationTemplate.APPOINTMENT_CREATED,
+        variables,
+        channels: [NotificationChannel.EMAIL],
+      });
+
+      // Assert
+      const [notification] = result;
+      expect(notification).toMatchObject({
+        status: DeliveryStatus.RETRYING,
+        attempts: 1,
+        lastError: 'SMTP indisponível',
+      });
+      expect(notification!.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('não deve propagar erros para quem pediu a notificação', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockRejectedValue(new Error('Banco indisponível'));
+
+      // Act & Assert
+      await expect(
+        service.notify({
+          userId: 'user-id',
+          template: NotificationTemplate.APPOINTMENT_CREATED,
+          variables,
+        })
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('notifyAppointment', () => {
+    it('deve montar as variáveis com os serviços e o horário no fuso da barbearia', async () => {
+      // Arrange
+      (prisma.appointment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'appointment-id',
+        startTime: new Date('2030-03-04T13:00:00.000Z'),
+        client: { id: 'user-id', name: 'Ana' },
+        barber: { user: { name: 'Bruno' } },
+        barbershop: { name: 'Barbearia Centro', timezone: 'America/Sao_Paulo' },
+        service: { name: 'Corte' },
+        items: [{ service: { name: 'Corte' } }, { service: { name: 'Barba' } }],
+      });
+
+      // Act
+      await service.notifyAppointment('appointment-id', NotificationTemplate.APPOINTMENT_CREATED);
+
+      // Assert
+      expect(email.sent[0]?.text).toContain(
+        'Seu horário de Corte + Barba com Bruno foi agendado para segunda-feira, 04/03/2030 às 10:00.'
+      );
+    });
+  });
+
+  describe('retryFailed', () => {
+    it('deve reenviar notificações vencidas e marcar como falha ao esgotar tentativas', async () => {
+      // Arrange
+      email.failure = new Error('SMTP indisponível');
+      (prisma.notification.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...pending,
+          status: DeliveryStatus.RETRYING,
+          attempts: NotificationService.MAX_ATTEMPTS - 1,
+        },
+      ]);
+      (prisma.notification.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      // Act
+      const result = await service.retryFailed();
+
+      // Assert
+      expect(result).toEqual({ sent: 0, failed: 1 });
+      expect(prisma.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-id' },
+        data: expect.objectContaining({
+          status: DeliveryStatus.FAILED,
+          attempts: NotificationService.MAX_ATTEMPTS,
+          nextAttemptAt: null,
+        }),
+      });
+    });
+
+    it('deve ignorar notificações já reservadas por outra instância', async () => {
+      // Arrange
+      (prisma.notification.findMany as jest.Mock).mockResolvedValue([
+        { ...pending, status: DeliveryStatus.RETRYING, attempts: 1 },
+      ]);
+      (prisma.notification.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      // Act
+      const result = await service.retryFailed();
+
+      // Assert
+      expect(result).toEqual({ sent: 0, failed: 0 });
+      expect(email.sent).toHaveLength(0);
+    });
+  });
+
+  describe('preferências', () => {
+    it('deve completar as preferências com o padrão de cada canal', async () => {
+      // Arrange
+      (prisma.notificationPreference.findMany as jest.Mock).mockResolvedValue([
+        { channel: NotificationChannel.SMS, enabled: true },
+      ]);
+
+      // Act
+      const preferences = await service.getPreferences('user-id');
+
+      // Assert
+      expect(preferences).toEqual(
+        expect.arrayContaining([
+          { channel: NotificationChannel.EMAIL, enabled: true },
+          { channel: NotificationChannel.WHATSAPP, enabled: false },
+          { channel: NotificationChannel.SMS, enabled: true },
+          { channel: NotificationChannel.IN_APP, enabled: true },
+        ])
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it('deve rejeitar notificação de outro usuário', async () => {
+      // Arrange
+      (prisma.notification.findFirst as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.markRead('notification-id', 'other-user')).rejects.toThrow(
+        NotificationError.NOT_FOUND
+      );
+    });
+  });
+
+  describe('ConsoleMessagingProvider', () => {
+    it('deve registrar apenas canal e destinatário, sem o texto com o link', async () => {
+      // Arrange
+      const provider: MessagingProvider = new ConsoleMessagingProvider();
+
+      // Act
+      await provider.sendText(
+        'WHATSAPP',
+        '+5511999999999',
+        'Confirme: /appointments/respond?token=segredo'
+      );
+
+      // Assert
+      expect(advancedLogger.info).toHaveBeenCalledWith('WHATSAPP para +5511999999999', {
+        metadata: { channel: 'WHATSAPP', to: '+5511999999999' },
+      });
+      expect(JSON.stringify((advancedLogger.info as jest.Mock).mock.calls)).not.toContain(
+        'segredo'
+      );
+    });
+  });
+});
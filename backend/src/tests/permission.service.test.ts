@@ -0,0 +1,204 @@
+import { Role } from '@prisma/client';
+import { PermissionService } from '@/services/permission.service';
+import { cacheService } from '@/services/cache.service';
+import { prisma } from '@/config/database';
+import { AuthenticatedUser, PermissionError } from '@/types/auth';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barber: {
+      findFirst: jest.fn(),
+    },
+    barberPermission: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+// Mock do cache
+jest.mock('@/services/cache.service', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barber: AuthenticatedUser = {
+  id: 'barber-user-id',
+  email: 'barbeiro@exemplo.com',
+  name: 'Barbeiro',
+  role: Role.BARBER,
+  barbershopId: 'barbershop-id',
+  barberId: 'barber-id',
+};
+
+const client: AuthenticatedUser = {
+  id: 'client-user-id',
+  email: 'cliente@exemplo.com',
+  name: 'Cliente',
+  role: Role.CLIENT,
+};
+
+describe('PermissionService', () => {
+  beforeEach(() => {
+    (cacheService.get as any).mockResolvedValue(null);
+    (prisma.barberPermission.findMany as any).mockResolvedValue([]);
+  });
+
+  describe('getUserPermissions', () => {
+    it('deve retornar apenas as permissões padrão da role para clientes', async () => {
+      // Act
+      const result = await PermissionService.getUserPermissions(client);
+
+      // Assert
+      expect(result.permissions).toEqual(
+        expect.arrayContaining(['appointment:create', 'profile:manage:self'])
+      );
+      expect(result.permissions).not.toContain('report:view');
+      expect(result.granted).toEqual([]);
+      expect(prisma.barberPermission.findMany).not.toHaveBeenCalled();
+    });
+
+    it('deve somar as permissões concedidas ao barbeiro', async () => {
+      // Arrange
+      (prisma.barberPermission.findMany as any).mockResolvedValue([
+        { permission: 'report:view' },
+        { permission: 'schedule:manage' },
+        { permission: 'permissao:removida' },
+      ]);
+
+      // Act
+      const result = await PermissionService.getUserPermissions(barber);
+
+      // Assert
+      expect(result.granted).toEqual(['report:view', 'schedule:manage']);
+      expect(result.permissions).toEqual(
+        expect.arrayContaining(['schedule:manage:self', 'report:view', 'schedule:manage'])
+      );
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'permissions:barber-id',
+        ['report:view', 'schedule:manage'],
+        expect.objectContaining({ prefix: 'user:' })
+      );
+    });
+
+    it('deve usar as permissões concedidas em cache', async () => {
+      // Arrange
+      (cacheService.get as any).mockResolvedValue(['client:manage']);
+
+      // Act
+      const result = await PermissionService.getUserPermissions(barber);
+
+      // Assert
+      expect(result.granted).toEqual(['client:manage']);
+      expect(prisma.barberPermission.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('deve negar permissão fora da barbearia do usuário', async () => {
+      // Arrange
+      (prisma.barberPermission.findMany as any).mockResolvedValue([{ permission: 'report:view' }]);
+
+      // Act & Assert
+      expect(await PermissionService.hasPermission(barber, ['report:view'], 'barbershop-id')).toBe(
+        true
+      );
+      expect(await PermissionService.hasPermission(barber, ['report:view'], 'other-shop')).toBe(
+        false
+      );
+    });
+
+    it('deve negar permissão não concedida ao barbeiro', async () => {
+      expect(await PermissionService.hasPermission(barber, ['service:update'])).toBe(false);
+    });
+
+    it('deve permitir tudo ao SuperAdmin em qualquer barbearia', async () => {
+      // Arrange
+      const superAdmin: AuthenticatedUser = { ...client, role: Role.SUPER_ADMIN };
+
+      // Act & Assert
+      expect(
+        await PermissionService.hasPermission(superAdmin, ['permission:grant'], 'other-shop')
+      ).toBe(true);
+    });
+  });
+
+  describe('setBarberGrants', () => {
+    it('deve substituir as permissões do barbeiro e invalidar o cache', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ id: 'barber-id' });
+
+      // Act
+      const result = await PermissionService.setBarberGrants(
+        'barbershop-id',
+        'barber-id',
+        ['report:view', 'report:view', 'client:manage'],
+        'admin-id'
+      );
+
+      // Assert
+      expect(result).toEqual(['report:view', 'client:manage']);
+      expect(prisma.barber.findFirst).toHaveBeenCalledWith({
+        where: { id: 'barber-id', barbershopId: 'barbershop-id' },
+        select: { id: true },
+      });
+      expect(prisma.barberPermission.deleteMany).toHaveBeenCalledWith({
+        where: { barberId: 'barber-id', permission: { notIn: ['report:view', 'client:manage'] } },
+      });
+      expect(prisma.barberPermission.createMany).toHaveBeenCalledWith({
+        data: [
+          { barberId: 'barber-id', permission: 'report:view', grantedById: 'admin-id' },
+          { barberId: 'barber-id', permission: 'client:manage', grantedById: 'admin-id' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(cacheService.delete).toHaveBeenCalledWith('permissions:barber-id', {
+        prefix: 'user:',
+      });
+    });
+
+    it('deve rejeitar barbeiro de outra barbearia', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        PermissionService.setBarberGrants('barbershop-id', 'foreign-barber', [], 'admin-id')
+      ).rejects.toThrow(PermissionError.BARBER_NOT_FOUND);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar permissões que não podem ser concedidas', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ id: 'barber-id' });
+
+      // Act & Assert
+      await expect(
+        PermissionService.setBarberGrants(
+          'barbershop-id',
+          'barber-id',
+          ['permission:grant'],
+          'admin-id'
+        )
+      ).rejects.toThrow(PermissionError.NOT_GRANTABLE);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
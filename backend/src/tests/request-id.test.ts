@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { requestContext, requestId } from '@/middleware/request-id';
+import { getRequestId } from '@/utils/request-context';
+
+const createRequest = (incoming?: string) =>
+  ({
+    get: jest.fn((name: string) => (name === 'X-Request-Id' ? incoming : undefined)),
+  }) as unknown as Request;
+
+const createResponse = () => {
+  const json = jest.fn();
+  const res = { setHeader: jest.fn(), json } as unknown as Response;
+  return { res, json };
+};
+
+describe('requestId', () => {
+  it('deve reaproveitar o X-Request-Id recebido e devolvê-lo na resposta', () => {
+    // Arrange
+    const req = createRequest('lb-1234.abc');
+    const { res } = createResponse();
+    let idInContext: string | undefined;
+
+    // Act
+    requestId(req, res, jest.fn());
+    requestContext(req, res, () => {
+      idInContext = getRequestId();
+    });
+
+    // Assert
+    expect(req.requestId).toBe('lb-1234.abc');
+    expect(idInContext).toBe('lb-1234.abc');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'lb-1234.abc');
+  });
+
+  it('deve gerar um novo ID quando o recebido for ausente ou inválido', () => {
+    // Arrange
+    const withoutHeader = createRequest();
+    const withInvalidHeader = createRequest('id com espaços\ne quebra de linha');
+
+    // Act
+    requestId(withoutHeader, createResponse().res, jest.fn());
+    requestId(withInvalidHeader, createResponse().res, jest.fn());
+
+    // Assert
+    expect(withoutHeader.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(withInvalidHeader.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(withInvalidHeader.requestId).not.toBe(withoutHeader.requestId);
+  });
+
+  it('deve incluir o ID apenas no corpo das respostas de erro', () => {
+    // Arrange
+    const { res, json } = createResponse();
+    requestId(createRequest('req-1'), res, jest.fn());
+
+    // Act
+    res.json({ success: false, message: 'Erro interno do servidor', error: 'INTERNAL_ERROR' });
+    res.json({ success: true, message: 'OK' });
+
+    // Assert
+    expect(json).toHaveBeenNthCalledWith(1, {
+      success: false,
+      message: 'Erro interno do servidor',
+      error: 'INTERNAL_ERROR',
+      requestId: 'req-1',
+    });
+    expect(json).toHaveBeenNthCalledWith(2, { success: true, message: 'OK' });
+  });
+});
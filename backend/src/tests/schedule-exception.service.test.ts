@@ -0,0 +1,258 @@
+import { ExceptionType, Role } from '@prisma/client';
+import { ScheduleExceptionService } from '@/services/schedule-exception.service';
+import { SchedulingService } from '@/services/scheduling.service';
+import { WeeklyScheduleService } from '@/services/weekly-schedule.service';
+import { prisma } from '@/config/database';
+import { AuthenticatedUser } from '@/types/auth';
+import { ExceptionError } from '@/types/schedule-exception';
+import { ScheduleError } from '@/types/scheduling';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    globalException: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    barberException: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barbershopId = 'barbershop-id';
+
+const barberUser: AuthenticatedUser = {
+  id: 'barber-user-id',
+  email: 'barbeiro@exemplo.com',
+  name: 'Barbeiro',
+  role: Role.BARBER,
+  barbershopId,
+  barberId: 'barber-id',
+};
+
+const conflict = {
+  appointmentId: 'appointment-id',
+  barberId: 'barber-id',
+  barberName: 'Bruno',
+  clientName: 'Carlos',
+  startTime: new Date('2030-12-24T13:00:00.000Z'),
+  endTime: new Date('2030-12-24T13:30:00.000Z'),
+};
+
+describe('ScheduleExceptionService', () => {
+  let findOrphaned: jest.SpyInstance;
+
+  beforeEach(() => {
+    findOrphaned = jest.spyOn(SchedulingService, 'findOrphanedAppointments').mockResolvedValue([]);
+    jest.spyOn(WeeklyScheduleService, 'assertCanManageBarber').mockResolvedValue(undefined);
+    (prisma.globalException.count as jest.Mock).mockResolvedValue(0);
+    (prisma.barberException.count as jest.Mock).mockResolvedValue(0);
+  });
+
+  describe('createGlobal', () => {
+    it('deve criar um registro por dia do período', async () => {
+      // Act
+      const result = await ScheduleExceptionService.createGlobal(
+        barbershopId,
+        {
+          startDate: '2030-12-24',
+          endDate: '2030-12-26',
+          type: ExceptionType.CLOSED,
+          reason: 'Natal',
+        },
+        'admin-id'
+      );
+
+      // Assert
+      expect(result.applied).toBe(true);
+      expect(prisma.globalException.createMany).toHaveBeenCalledWith({
+        data: ['2030-12-24', '2030-12-25', '2030-12-26'].map((date) => ({
+          barbershopId,
+          date: new Date(`${date}T00:00:00.000Z`),
+          type: ExceptionType.CLOSED,
+          reason: 'Natal',
+          specialOpenTime: null,
+          specialCloseTime: null,
+        })),
+      });
+      expect(findOrphaned).toHaveBeenCalledWith(
+        barbershopId,
+        { globalExceptions: expect.any(Map) },
+        { startDate: '2030-12-24', endDate: '2030-12-26' }
+      );
+    });
+
+    it('não deve gravar em dryRun e deve listar os conflitos', async () => {
+      // Arrange
+      findOrphaned.mockResolvedValue([conflict]);
+
+      // Act
+      const result = await ScheduleExceptionService.createGlobal(
+        barbershopId,
+        { startDate: '2030-12-24', type: ExceptionType.CLOSED, reason: 'Véspera', dryRun: true },
+        'admin-id'
+      );
+
+      // Assert
+      expect(result.applied).toBe(false);
+      expect(result.conflicts).toEqual([conflict]);
+      expect(prisma.globalException.createMany).not.toHaveBeenCalled();
+    });
+
+    it('deve exigir horários para SPECIAL_HOURS', async () => {
+      // Act & Assert
+      await expect(
+        ScheduleExceptionService.createGlobal(
+          barbershopId,
+          {
+            startDate: '2030-12-24',
+            type: ExceptionType.SPECIAL_HOURS,
+            reason: 'Véspera',
+            specialOpenTime: '08:00',
+          },
+          'admin-id'
+        )
+      ).rejects.toThrow(ExceptionError.SPECIAL_TIMES_REQUIRED);
+    });
+
+    it('deve rejeitar datas que já têm exceção', async () => {
+      // Arrange
+      (prisma.globalException.count as jest.Mock).mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(
+        ScheduleExceptionService.createGlobal(
+          barbershopId,
+          { startDate: '2030-12-25', type: ExceptionType.CLOSED, reason: 'Natal' },
+          'admin-id'
+        )
+      ).rejects.toThrow(ExceptionError.DATE_TAKEN);
+    });
+
+    it('deve rejeitar períodos maiores que o limite', async () => {
+      // Act & Assert
+      await expect(
+        ScheduleExceptionService.createGlobal(
+          barbershopId,
+          {
+            startDate: '2030-01-01',
+            endDate: '2030-06-30',
+            type: ExceptionType.CLOSED,
+            reason: 'Reforma',
+          },
+          'admin-id'
+        )
+      ).rejects.toThrow(ExceptionError.RANGE_TOO_LONG);
+    });
+  });
+
+  describe('importHolidays', () => {
+    it('deve importar feriados móveis e municipais, pulando datas já cadastradas', async () => {
+      // Arrange
+      (prisma.globalException.findMany as jest.Mock).mockResolvedValue([
+        { date: new Date('2025-12-25T00:00:00.000Z') },
+      ]);
+
+      // Act
+      const result = await ScheduleExceptionService.importHolidays(
+        barbershopId,
+        { year: 2025, municipality: 'sao-paulo-sp', includeOptional: true },
+        'admin-id'
+      );
+
+      // Assert
+      const importedDates = result.imported.map((holiday) => holiday.date);
+      expect(importedDates).toEqual(
+        expect.arrayContaining(['2025-01-25', '2025-03-04', '2025-04-18', '2025-06-19'])
+      );
+      expect(importedDates).not.toContain('2025-12-25');
+      expect(result.skipped.map((holiday) => holiday.date)).toEqual(['2025-12-25']);
+      expect(prisma.globalException.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          {
+            barbershopId,
+            date: new Date('2025-04-18T00:00:00.000Z'),
+            type: ExceptionType.CLOSED,
+            reason: 'Sexta-feira Santa',
+          },
+        ]),
+      });
+    });
+
+    it('deve rejeitar município sem feriados cadastrados', async () => {
+      // Act & Assert
+      await expect(
+        ScheduleExceptionService.importHolidays(
+          barbershopId,
+          { year: 2025, municipality: 'atlantida-xx' },
+          'admin-id'
+        )
+      ).rejects.toThrow(ExceptionError.MUNICIPALITY_NOT_FOUND);
+    });
+  });
+
+  describe('createBarber', () => {
+    it('deve criar férias do barbeiro e calcular conflitos apenas dele', async () => {
+      // Act
+      const result = await ScheduleExceptionService.createBarber(
+        barbershopId,
+        'barber-id',
+        {
+          startDate: '2030-07-01',
+          endDate: '2030-07-02',
+          type: ExceptionType.CLOSED,
+          reason: 'Férias',
+        },
+        barberUser
+      );
+
+      // Assert
+      expect(result.exceptions).toHaveLength(2);
+      expect(findOrphaned).toHaveBeenCalledWith(
+        barbershopId,
+        { barberExceptions: expect.any(Map) },
+        { barberId: 'barber-id', startDate: '2030-07-01', endDate: '2030-07-02' }
+      );
+      expect(prisma.barberException.createMany).toHaveBeenCalled();
+    });
+
+    it('deve respeitar a permissão sobre o barbeiro', async () => {
+      // Arrange
+      jest
+        .spyOn(WeeklyScheduleService, 'assertCanManageBarber')
+        .mockRejectedValue(new Error(ScheduleError.SELF_ONLY));
+
+      // Act & Assert
+      await expect(
+        ScheduleExceptionService.createBarber(
+          barbershopId,
+          'other-barber-id',
+          { startDate: '2030-07-01', type: ExceptionType.CLOSED, reason: 'Folga' },
+          barberUser
+        )
+      ).rejects.toThrow(ScheduleError.SELF_ONLY);
+      expect(prisma.barberException.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
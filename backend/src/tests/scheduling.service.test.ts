@@ -0,0 +1,502 @@
+import { SchedulingService } from '@/services/scheduling.service';
+import { WaitlistService } from '@/services/waitlist.service';
+import { prisma } from '@/config/database';
+import { ExceptionType } from '@prisma/client';
+import { WorkingHours } from '@/types/scheduling';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barbershop: {
+      findUnique: jest.fn(),
+    },
+    service: {
+      findMany: jest.fn(),
+    },
+    barber: {
+      findMany: jest.fn(),
+    },
+    globalSchedule: {
+      findMany: jest.fn(),
+    },
+    globalException: {
+      findMany: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/services/waitlist.service', () => ({
+  WaitlistService: {
+    heldSlots: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const globalOpen = {
+  isOpen: true,
+  openTime: '09:00',
+  closeTime: '18:00',
+  lunchStart: '12:00',
+  lunchEnd: '13:00',
+};
+
+const globalClosed = {
+  isOpen: false,
+  openTime: '09:00',
+  closeTime: '18:00',
+  lunchStart: null,
+  lunchEnd: null,
+};
+
+const barberSchedule = (startTime: string, endTime: string) => ({
+  isWorking: true,
+  startTime,
+  endTime,
+  breakStart: null,
+  breakEnd: null,
+});
+
+const barberException = (
+  type: ExceptionType,
+  specialStartTime: string | null = null,
+  specialEndTime: string | null = null
+) => ({ type, specialStartTime, specialEndTime });
+
+const globalException = (
+  type: ExceptionType,
+  specialOpenTime: string | null = null,
+  specialCloseTime: string | null = null
+) => ({ type, specialOpenTime, specialCloseTime });
+
+const hours = (start: number, end: number, breaks: WorkingHours['breaks'] = []): WorkingHours => ({
+  start,
+  end,
+  breaks,
+  source: 'GLOBAL_SCHEDULE',
+});
+
+describe('SchedulingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveWorkingHours', () => {
+    it('Caso 1: barbeiro trabalha no domingo mesmo com barbearia fechada', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalClosed,
+        barberSchedule: barberSchedule('08:00', '12:00'),
+      });
+
+      // Assert
+      expect(result).toEqual({ start: 480, end: 720, breaks: [], source: 'BARBER_SCHEDULE' });
+    });
+
+    it('Caso 2: exceção individual prevalece sobre exceção global de fechamento', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        globalException: globalException(ExceptionType.CLOSED),
+        barberException: barberException(ExceptionType.AVAILABLE, '14:00', '18:00'),
+      });
+
+      // Assert
+      expect(result).toEqual({ start: 840, end: 1080, breaks: [], source: 'BARBER_EXCEPTION' });
+    });
+
+    it('Caso 3: horário individual estende o horário global', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        barberSchedule: barberSchedule('07:00', '20:00'),
+      });
+
+      // Assert
+      expect(result).toEqual({ start: 420, end: 1200, breaks: [], source: 'BARBER_SCHEDULE' });
+    });
+
+    it('deve usar horário global com almoço quando não há configuração individual', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({ globalSchedule: globalOpen });
+
+      // Assert
+      expect(result).toEqual({
+        start: 540,
+        end: 1080,
+        breaks: [{ start: 720, end: 780 }],
+        source: 'GLOBAL_SCHEDULE',
+      });
+    });
+
+    it('deve retornar null quando a barbearia está fechada e não há horário individual', () => {
+      expect(SchedulingService.resolveWorkingHours({ globalSchedule: globalClosed })).toBeNull();
+      expect(SchedulingService.resolveWorkingHours({})).toBeNull();
+    });
+
+    it.each([ExceptionType.OFF, ExceptionType.VACATION, ExceptionType.CLOSED])(
+      'deve bloquear o barbeiro com exceção individual %s',
+      (type) => {
+        // Act
+        const result = SchedulingService.resolveWorkingHours({
+          globalSchedule: globalOpen,
+          barberSchedule: barberSchedule('08:00', '20:00'),
+          barberException: barberException(type),
+        });
+
+        // Assert
+        expect(result).toBeNull();
+      }
+    );
+
+    it('deve usar horário especial da exceção individual', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        barberSchedule: barberSchedule('08:00', '20:00'),
+        barberException: barberException(ExceptionType.SPECIAL_HOURS, '10:00', '14:00'),
+      });
+
+      // Assert
+      expect(result).toEqual({ start: 600, end: 840, breaks: [], source: 'BARBER_EXCEPTION' });
+    });
+
+    it('deve respeitar folga semanal do horário individual mesmo com barbearia aberta', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        barberSchedule: { ...barberSchedule('08:00', '12:00'), isWorking: false },
+      });
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('deve aplicar pausa pessoal do horário individual', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        barberSchedule: {
+          ...barberSchedule('08:00', '18:00'),
+          breakStart: '15:00',
+          breakEnd: '15:30',
+        },
+      });
+
+      // Assert
+      expect(result?.breaks).toEqual([{ start: 900, end: 930 }]);
+    });
+
+    it('horário individual prevalece sobre exceção global', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        globalException: globalException(ExceptionType.CLOSED),
+        barberSchedule: barberSchedule('08:00', '12:00'),
+      });
+
+      // Assert
+      expect(result?.source).toBe('BARBER_SCHEDULE');
+    });
+
+    it('deve fechar a barbearia com exceção global sem configuração individual', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        globalException: globalException(ExceptionType.CLOSED),
+      });
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('deve usar horário especial da exceção global sem intervalo de almoço', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        globalException: globalException(ExceptionType.SPECIAL_HOURS, '08:00', '12:00'),
+      });
+
+      // Assert
+      expect(result).toEqual({ start: 480, end: 720, breaks: [], source: 'GLOBAL_EXCEPTION' });
+    });
+
+    it('deve ignorar exceção global AVAILABLE e usar o horário global', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        globalSchedule: globalOpen,
+        globalException: globalException(ExceptionType.AVAILABLE),
+      });
+
+      // Assert
+      expect(result?.source).toBe('GLOBAL_SCHEDULE');
+    });
+
+    it('deve retornar null para horário inválido (início após o fim)', () => {
+      // Act
+      const result = SchedulingService.resolveWorkingHours({
+        barberSchedule: barberSchedule('18:00', '08:00'),
+      });
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('generateSlots', () => {
+    it('deve gerar slots que comportam a duração do serviço convertidos para UTC', () => {
+      // Act
+      const slots = SchedulingService.generateSlots({
+        date: '2030-03-04',
+        timezone: 'America/Sao_Paulo',
+        hours: hours(540, 660),
+        duration: 45,
+      });
+
+      // Assert
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-04T12:00:00.000Z',
+        '2030-03-04T12:30:00.000Z',
+        '2030-03-04T13:00:00.000Z',
+      ]);
+      expect(slots[0]?.end.toISOString()).toBe('2030-03-04T12:45:00.000Z');
+    });
+
+    it('deve descartar slots que invadem o intervalo de almoço', () => {
+      // Act
+      const slots = SchedulingService.generateSlots({
+        date: '2030-03-04',
+        timezone: 'UTC',
+        hours: hours(660, 840, [{ start: 720, end: 780 }]),
+        duration: 60,
+      });
+
+      // Assert
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-04T11:00:00.000Z',
+        '2030-03-04T13:00:00.000Z',
+      ]);
+    });
+
+    it('deve descartar slots em conflito com agendamentos existentes', () => {
+      // Act
+      const slots = SchedulingService.generateSlots({
+        date: '2030-03-04',
+        timezone: 'UTC',
+        hours: hours(540, 660),
+        duration: 30,
+        busy: [
+          {
+            startTime: new Date('2030-03-04T09:30:00.000Z'),
+            endTime: new Date('2030-03-04T10:15:00.000Z'),
+          },
+        ],
+      });
+
+      // Assert
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-04T09:00:00.000Z',
+        '2030-03-04T10:30:00.000Z',
+      ]);
+    });
+
+    it('deve descartar slots anteriores à antecedência mínima', () => {
+      // Act
+      const slots = SchedulingService.generateSlots({
+        date: '2030-03-04',
+        timezone: 'UTC',
+        hours: hours(540, 660),
+        duration: 30,
+        notBefore: new Date('2030-03-04T10:00:00.000Z'),
+      });
+
+      // Assert
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-04T10:00:00.000Z',
+        '2030-03-04T10:30:00.000Z',
+      ]);
+    });
+  });
+
+  describe('getAvailability', () => {
+    const mockBarber = {
+      id: 'barber-id',
+      user: { name: 'João' },
+      schedules: [{ dayOfWeek: 0, ...barberSchedule('08:00', '10:00') }],
+      exceptions: [],
+      services: [{ serviceId: 'service-id', customPrice: 40 }],
+    };
+
+    beforeEach(() => {
+      (prisma.barbershop.findUnique as any).mockResolvedValue({
+        id: 'barbershop-id',
+        timezone: 'America/Sao_Paulo',
+      });
+      (prisma.service.findMany as any).mockResolvedValue([
+        { id: 'service-id', name: 'Corte', duration: 60, price: 35 },
+      ]);
+      (prisma.barber.findMany as any).mockResolvedValue([mockBarber]);
+      (prisma.globalSchedule.findMany as any).mockResolvedValue([
+        { dayOfWeek: 0, ...globalClosed },
+        { dayOfWeek: 1, ...globalOpen },
+      ]);
+      (prisma.globalException.findMany as any).mockResolvedValue([]);
+      (prisma.appointment.findMany as any).mockResolvedValue([]);
+      (WaitlistService.heldSlots as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('deve combinar horário individual e global por dia com preço personalizado', async () => {
+      // Act - domingo (barbearia fechada, João 8h-10h) e segunda (sem horário individual)
+      const result = await SchedulingService.getAvailability('barbershop-id', {
+        serviceId: 'service-id',
+        startDate: '2030-03-03',
+        endDate: '2030-03-04',
+      });
+
+      // Assert
+      const sunday = result.slots.filter((slot) => slot.date === '2030-03-03');
+      const monday = result.slots.filter((slot) => slot.date === '2030-03-04');
+      expect(sunday.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-03T11:00:00.000Z',
+        '2030-03-03T11:30:00.000Z',
+        '2030-03-03T12:00:00.000Z',
+      ]);
+      expect(monday).toHaveLength(14);
+      expect(result.slots.every((slot) => slot.price === 40)).toBe(true);
+      expect(result.slots[0]?.barberName).toBe('João');
+    });
+
+    it('deve buscar slots contínuos para a duração somada de vários serviços', async () => {
+      // Arrange - barba (30 min) sem preço personalizado
+      (prisma.service.findMany as any).mockResolvedValue([
+        { id: 'service-id', name: 'Corte', duration: 60, price: 35 },
+        { id: 'beard-id', name: 'Barba', duration: 30, price: 25 },
+      ]);
+
+      // Act - João trabalha das 8h às 10h no domingo
+      const result = await SchedulingService.getAvailability('barbershop-id', {
+        serviceIds: ['beard-id', 'service-id'],
+        startDate: '2030-03-03',
+      });
+
+      // Assert
+      expect(result.duration).toBe(90);
+      expect(result.services.map((service) => service.id)).toEqual(['beard-id', 'service-id']);
+      expect(result.slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-03T11:00:00.000Z',
+        '2030-03-03T11:30:00.000Z',
+      ]);
+      expect(result.slots.every((slot) => slot.price === 65)).toBe(true);
+      expect(prisma.barber.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              { services: { some: { serviceId: 'beard-id', isActive: true } } },
+              { services: { some: { serviceId: 'service-id', isActive: true } } },
+            ],
+          }),
+        })
+      );
+    });
+
+    it('deve ocultar horários reservados para a lista de espera de outro cliente', async () => {
+      // Arrange - 8h-9h do domingo reservado na agenda do João
+      (WaitlistService.heldSlots as jest.Mock).mockResolvedValue([
+        {
+          barberId: 'barber-id',
+          startTime: new Date('2030-03-03T11:00:00.000Z'),
+          endTime: new Date('2030-03-03T12:00:00.000Z'),
+        },
+      ]);
+
+      // Act
+      const result = await SchedulingService.getAvailability(
+        'barbershop-id',
+        { serviceId: 'service-id', startDate: '2030-03-03' },
+        'client-id'
+      );
+
+      // Assert
+      expect(WaitlistService.heldSlots).toHaveBeenCalledWith(['barber-id'], 'client-id');
+      expect(result.slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2030-03-03T12:00:00.000Z',
+      ]);
+    });
+
+    it('deve aplicar exceção individual da data consultada', async () => {
+      // Arrange
+      (prisma.barber.findMany as any).mockResolvedValue([
+        {
+          ...mockBarber,
+          exceptions: [
+            { date: new Date('2030-03-03T00:00:00.000Z'), ...barberException(ExceptionType.OFF) },
+          ],
+        },
+      ]);
+
+      // Act
+      const result = await SchedulingService.getAvailability('barbershop-id', {
+        serviceId: 'service-id',
+        startDate: '2030-03-03',
+      });
+
+      // Assert
+      expect(result.slots).toHaveLength(0);
+    });
+
+    it('deve lançar erro se a barbearia não existir', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        SchedulingService.getAvailability('barbershop-id', {
+          serviceId: 'service-id',
+          startDate: '2030-03-03',
+        })
+      ).rejects.toThrow('Barbearia não encontrada');
+    });
+
+    it('deve lançar erro se o barbeiro não executa o serviço', async () => {
+      // Arrange
+      (prisma.barber.findMany as any).mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        SchedulingService.getAvailability('barbershop-id', {
+          serviceId: 'service-id',
+          barberId: 'barber-id',
+          startDate: '2030-03-03',
+        })
+      ).rejects.toThrow('Este barbeiro não executa este serviço');
+    });
+
+    it('deve rejeitar períodos invertidos ou maiores que o limite', async () => {
+      await expect(
+        SchedulingService.getAvailability('barbershop-id', {
+          serviceId: 'service-id',
+          startDate: '2030-03-10',
+          endDate: '2030-03-03',
+        })
+      ).rejects.toThrow('Data final deve ser posterior à data inicial');
+
+      await expect(
+        SchedulingService.getAvailability('barbershop-id', {
+          serviceId: 'service-id',
+          startDate: '2030-03-01',
+          endDate: '2030-05-01',
+        })
+      ).rejects.toThrow('Período máximo de consulta');
+    });
+  });
+});
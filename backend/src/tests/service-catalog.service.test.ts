@@ -0,0 +1,284 @@
+import { Prisma } from '@prisma/client';
+import { ServiceCatalogService } from '@/services/service-catalog.service';
+import { cacheService } from '@/services/cache.service';
+import { prisma } from '@/config/database';
+import { CatalogError } from '@/types/service-catalog';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barbershop: {
+      findUnique: jest.fn(),
+    },
+    barber: {
+      findFirst: jest.fn(),
+    },
+    service: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    barberService: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock do cache
+jest.mock('@/services/cache.service', () => ({
+  cacheService: {
+    delete: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barbershopId = 'barbershop-id';
+
+const expectCacheInvalidated = () =>
+  expect(cacheService.delete).toHaveBeenCalledWith('barbershops:barbershop-id:services', {
+    prefix: 'api:',
+  });
+
+describe('ServiceCatalogService', () => {
+  describe('listAvailability', () => {
+    it('deve retornar serviços com barbeiros e preço efetivo', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue({ id: barbershopId });
+      (prisma.service.findMany as any).mockResolvedValue([
+        {
+          id: 'service-id',
+          name: 'Corte',
+          description: null,
+          category: 'Cabelo',
+          duration: 30,
+          price: new Prisma.Decimal(40),
+          barberServices: [
+            {
+              customPrice: null,
+              barber: { id: 'barber-b', user: { name: 'Bruno' } },
+            },
+            {
+              customPrice: new Prisma.Decimal(55),
+              barber: { id: 'barber-a', user: { name: 'André' } },
+            },
+          ],
+        },
+      ]);
+
+      // Act
+      const result = await ServiceCatalogService.listAvailability(barbershopId);
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        serviceId: 'service-id',
+        serviceName: 'Corte',
+        category: 'Cabelo',
+        duration: 30,
+      });
+      expect(
+        result[0]?.availableBarbers.map((barber) => [barber.barberName, Number(barber.price)])
+      ).toEqual([
+        ['André', 55],
+        ['Bruno', 40],
+      ]);
+      expect(prisma.service.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { barbershopId, isActive: true },
+        })
+      );
+    });
+
+    it('deve rejeitar barbearia inexistente', async () => {
+      // Arrange
+      (prisma.barbershop.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(ServiceCatalogService.listAvailability('unknown-id')).rejects.toThrow(
+        CatalogError.BARBERSHOP_NOT_FOUND
+      );
+      expect(prisma.service.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createService', () => {
+    it('deve criar serviço e invalidar o cache da listagem pública', async () => {
+      // Arrange
+      (prisma.service.create as any).mockResolvedValue({ id: 'service-id', name: 'Barba' });
+
+      // Act
+      await ServiceCatalogService.createService(
+        barbershopId,
+        { name: 'Barba', duration: 20, price: 30 },
+        'admin-id'
+      );
+
+      // Assert
+      expect(prisma.service.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            barbershopId,
+            name: 'Barba',
+            description: null,
+            duration: 20,
+            price: 30,
+            category: null,
+          },
+        })
+      );
+      expectCacheInvalidated();
+    });
+  });
+
+  describe('updateService', () => {
+    it('deve atualizar apenas os campos informados', async () => {
+      // Arrange
+      (prisma.service.findFirst as any).mockResolvedValue({ id: 'service-id' });
+      (prisma.service.update as any).mockResolvedValue({ id: 'service-id' });
+
+      // Act
+      await ServiceCatalogService.updateService(
+        barbershopId,
+        'service-id',
+        { price: 45, category: null },
+        'admin-id'
+      );
+
+      // Assert
+      expect(prisma.service.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'service-id' },
+          data: { price: 45, category: null },
+        })
+      );
+      expectCacheInvalidated();
+    });
+
+    it('deve rejeitar serviço de outra barbearia', async () => {
+      // Arrange
+      (prisma.service.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        ServiceCatalogService.deactivateService(barbershopId, 'foreign-service', 'admin-id')
+      ).rejects.toThrow(CatalogError.SERVICE_NOT_FOUND);
+      expect(prisma.service.update).not.toHaveBeenCalled();
+      expect(cacheService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('categorias', () => {
+    it('deve renomear a categoria em todos os serviços', async () => {
+      // Arrange
+      (prisma.service.updateMany as any).mockResolvedValue({ count: 3 });
+
+      // Act
+      const count = await ServiceCatalogService.renameCategory(
+        barbershopId,
+        'Cabelo',
+        'Cortes',
+        'admin-id'
+      );
+
+      // Assert
+      expect(count).toBe(3);
+      expect(prisma.service.updateMany).toHaveBeenCalledWith({
+        where: { barbershopId, category: 'Cabelo' },
+        data: { category: 'Cortes' },
+      });
+      expectCacheInvalidated();
+    });
+
+    it('deve rejeitar desativação de categoria sem serviços ativos', async () => {
+      // Arrange
+      (prisma.service.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        ServiceCatalogService.deactivateCategory(barbershopId, 'Inexistente', 'admin-id')
+      ).rejects.toThrow(CatalogError.CATEGORY_NOT_FOUND);
+    });
+
+    it('deve listar categorias com a contagem de serviços', async () => {
+      // Arrange
+      (prisma.service.groupBy as any).mockResolvedValue([
+        { category: 'Barba', _count: { _all: 2 } },
+        { category: 'Cabelo', _count: { _all: 4 } },
+      ]);
+
+      // Act
+      const categories = await ServiceCatalogService.listCategories(barbershopId);
+
+      // Assert
+      expect(categories).toEqual([
+        { name: 'Barba', services: 2 },
+        { name: 'Cabelo', services: 4 },
+      ]);
+    });
+  });
+
+  describe('assignToBarber', () => {
+    it('deve atribuir serviço com preço personalizado', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ id: 'barber-id' });
+      (prisma.service.findFirst as any).mockResolvedValue({ id: 'service-id' });
+
+      // Act
+      await ServiceCatalogService.assignToBarber(
+        barbershopId,
+        'barber-id',
+        'service-id',
+        { customPrice: 50 },
+        'admin-id'
+      );
+
+      // Assert
+      expect(prisma.barberService.upsert).toHaveBeenCalledWith({
+        where: { barberId_serviceId: { barberId: 'barber-id', serviceId: 'service-id' } },
+        create: { barberId: 'barber-id', serviceId: 'service-id', customPrice: 50, isActive: true },
+        update: { customPrice: 50 },
+      });
+      expectCacheInvalidated();
+    });
+
+    it('deve rejeitar barbeiro de outra barbearia', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        ServiceCatalogService.assignToBarber(barbershopId, 'foreign-barber', 'service-id', {}, 'a')
+      ).rejects.toThrow(CatalogError.BARBER_NOT_FOUND);
+      expect(prisma.barberService.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeFromBarber', () => {
+    it('deve rejeitar atribuição inexistente', async () => {
+      // Arrange
+      (prisma.barberService.deleteMany as any).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        ServiceCatalogService.removeFromBarber(barbershopId, 'barber-id', 'service-id', 'admin-id')
+      ).rejects.toThrow(CatalogError.ASSIGNMENT_NOT_FOUND);
+      expect(prisma.barberService.deleteMany).toHaveBeenCalledWith({
+        where: { barberId: 'barber-id', serviceId: 'service-id', barber: { barbershopId } },
+      });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { SessionService } from '@/services/session.service';
+import { TokenRevocationService } from '@/services/token-revocation.service';
+import { prisma } from '@/config/database';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    session: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock das sessões no Redis
+jest.mock('@/services/token-revocation.service', () => ({
+  TokenRevocationService: {
+    startSession: jest.fn(),
+    revokeSession: jest.fn(),
+    revokeAllSessions: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/utils/jwt', () => ({
+  getRefreshTokenExpirationTime: jest.fn(() => 604800),
+}));
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+describe('SessionService', () => {
+  describe('start', () => {
+    it('deve registrar a sessão com dispositivo, IP e vencimento do refresh token', async () => {
+      // Act
+      await SessionService.start('user-id', 'session-id', 'refresh-jti', {
+        ip: '10.0.0.1',
+        userAgent: CHROME_WINDOWS,
+      });
+
+      // Assert
+      expect(TokenRevocationService.startSession).toHaveBeenCalledWith(
+        'user-id',
+        'session-id',
+        'refresh-jti'
+      );
+      expect(prisma.session.create).toHaveBeenCalledWith({
+        data: {
+          id: 'session-id',
+          userId: 'user-id',
+          device: 'Chrome em Windows',
+          userAgent: CHROME_WINDOWS,
+          ip: '10.0.0.1',
+          expiresAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('deve identificar Safari no iPhone e dispositivos sem user agent', async () => {
+      // Act
+      await SessionService.start('user-id', 'session-a', 'jti-a', { userAgent: SAFARI_IPHONE });
+      await SessionService.start('user-id', 'session-b', 'jti-b', {});
+
+      // Assert
+      const devices = (prisma.session.create as any).mock.calls.map(
+        ([args]: any[]) => args.data.device
+      );
+      expect(devices).toEqual(['Safari em iPhone', 'Dispositivo desconhecido']);
+    });
+  });
+
+  describe('list', () => {
+    it('deve listar sessões ativas marcando a sessão atual', async () => {
+      // Arrange
+      (prisma.session.findMany as any).mockResolvedValue([
+        { id: 'session-a', device: 'Chrome em Windows', userAgent: null, ip: null },
+        { id: 'session-b', device: 'Safari em iPhone', userAgent: null, ip: null },
+      ]);
+
+      // Act
+      const sessions = await SessionService.list('user-id', 'session-b');
+
+      // Assert
+      expect(prisma.session.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+      expect(sessions.map((session) => [session.id, session.current])).toEqual([
+        ['session-a', false],
+        ['session-b', true],
+      ]);
+    });
+  });
+
+  describe('revoke', () => {
+    it('deve revogar a sessão no Redis e registrar a revogação', async () => {
+      // Arrange
+      (prisma.session.findFirst as any).mockResolvedValue({ id: 'session-id', userId: 'user-id' });
+
+      // Act
+      const revoked = await SessionService.revoke('user-id', 'session-id');
+
+      // Assert
+      expect(revoked).toBe(true);
+      expect(prisma.session.findFirst).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'user-id', revokedAt: null },
+      });
+      expect(TokenRevocationService.revokeSession).toHaveBeenCalledWith('user-id', 'session-id');
+      expect(prisma.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-id' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('não deve revogar sessão de outro usuário', async () => {
+      // Arrange
+      (prisma.session.findFirst as any).mockResolvedValue(null);
+
+      // Act
+      const revoked = await SessionService.revoke('user-id', 'foreign-session');
+
+      // Assert
+      expect(revoked).toBe(false);
+      expect(TokenRevocationService.revokeSession).not.toHaveBeenCalled();
+      expect(prisma.session.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('deve revogar todas as sessões ativas do usuário', async () => {
+      // Arrange
+      (prisma.session.updateMany as any).mockResolvedValue({ count: 2 });
+
+      // Act
+      const count = await SessionService.revokeAll('user-id');
+
+      // Assert
+      expect(count).toBe(2);
+      expect(TokenRevocationService.revokeAllSessions).toHaveBeenCalledWith('user-id');
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { Role } from '@prisma/client';
+import { StaffService } from '@/services/staff.service';
+import { AppointmentService } from '@/services/appointment.service';
+import { emailService } from '@/services/email.service';
+import { ServiceCatalogService } from '@/services/service-catalog.service';
+import { SessionService } from '@/services/session.service';
+import { prisma } from '@/config/database';
+import { AuthenticatedUser } from '@/types/auth';
+import { BarberError } from '@/types/barber';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barber: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock dos agendamentos (troca de barbeiro e cancelamento têm testes próprios)
+jest.mock('@/services/appointment.service', () => ({
+  AppointmentService: {
+    reassignBarber: jest.fn(),
+    cancel: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/email.service', () => ({
+  emailService: {
+    sendAppointmentChangeEmail: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/service-catalog.service', () => ({
+  ServiceCatalogService: {
+    invalidateCache: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/session.service', () => ({
+  SessionService: {
+    revokeAll: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barbershopId = 'barbershop-id';
+
+const admin: AuthenticatedUser = {
+  id: 'admin-id',
+  email: 'admin@exemplo.com',
+  name: 'Admin',
+  role: Role.ADMIN,
+  barbershopId,
+};
+
+const activeBarber = { id: 'barber-id', userId: 'barber-user-id', barbershopId, isActive: true };
+
+const futureAppointment = (id: string) => ({
+  id,
+  startTime: new Date('2030-03-04T13:00:00.000Z'),
+  client: { name: 'Cliente', email: 'cliente@exemplo.com' },
+  barbershop: { name: 'Barbearia Central', timezone: 'America/Sao_Paulo' },
+});
+
+describe('StaffService', () => {
+  describe('list', () => {
+    it('deve listar apenas barbeiros ativos por padrão', async () => {
+      // Arrange
+      (prisma.barber.findMany as any).mockResolvedValue([]);
+
+      // Act
+      await StaffService.list(barbershopId);
+
+      // Assert
+      expect(prisma.barber.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { barbershopId, isActive: true } })
+      );
+    });
+  });
+
+  describe('deactivate', () => {
+    it('deve remanejar agendamentos futuros e cancelar os que não couberem', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any)
+        .mockResolvedValueOnce(activeBarber)
+        .mockResolvedValueOnce({ id: 'target-id', user: { name: 'Bruno' } });
+      (prisma.appointment.findMany as any).mockResolvedValue([
+        futureAppointment('appointment-1'),
+        futureAppointment('appointment-2'),
+      ]);
+      (AppointmentService.reassignBarber as jest.Mock)
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('Horário indisponível'));
+
+      // Act
+      const summary = await StaffService.deactivate(
+        barbershopId,
+        'barber-id',
+        { futureAppointments: 'reassign', reassignToBarberId: 'target-id' },
+        admin
+      );
+
+      // Assert
+      expect(summary).toEqual({ reassigned: ['appointment-1'], cancelled: ['appointment-2'] });
+      expect(prisma.barber.update).toHaveBeenCalledWith({
+        where: { id: 'barber-id' },
+        data: { isActive: false },
+      });
+      expect(AppointmentService.reassignBarber).toHaveBeenCalledWith(
+        'appointment-1',
+        admin,
+        'target-id'
+      );
+      expect(AppointmentService.cancel).toHaveBeenCalledWith(
+        'appointment-2',
+        admin,
+        { reason: 'Barbeiro indisponível' },
+        { notify: false }
+      );
+      expect(emailService.sendAppointmentChangeEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ change: 'REASSIGNED', barberName: 'Bruno' })
+      );
+      expect(emailService.sendAppointmentChangeEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ change: 'CANCELLED' })
+      );
+      expect(SessionService.revokeAll).toHaveBeenCalledWith('barber-user-id');
+      expect(ServiceCatalogService.invalidateCache).toHaveBeenCalledWith(barbershopId);
+    });
+
+    it('deve cancelar agendamentos mesmo se o aviso por email falhar', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(activeBarber);
+      (prisma.appointment.findMany as any).mockResolvedValue([futureAppointment('appointment-1')]);
+      (emailService.sendAppointmentChangeEmail as jest.Mock).mockRejectedValue(
+        new Error('SMTP indisponível')
+      );
+
+      // Act
+      const summary = await StaffService.deactivate(
+        barbershopId,
+        'barber-id',
+        { futureAppointments: 'cancel', reason: 'Férias' },
+        admin
+      );
+
+      // Assert
+      expect(summary).toEqual({ reassigned: [], cancelled: ['appointment-1'] });
+      expect(AppointmentService.reassignBarber).not.toHaveBeenCalled();
+      expect(AppointmentService.cancel).toHaveBeenCalledWith(
+        'appointment-1',
+        admin,
+        { reason: 'Férias' },
+        { notify: false }
+      );
+    });
+
+    it('deve rejeitar remanejamento para o próprio barbeiro', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(activeBarber);
+
+      // Act & Assert
+      await expect(
+        StaffService.deactivate(
+          barbershopId,
+          'barber-id',
+          { futureAppointments: 'reassign', reassignToBarberId: 'barber-id' },
+          admin
+        )
+      ).rejects.toThrow(BarberError.REASSIGN_TARGET_INVALID);
+      expect(prisma.barber.update).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar barbeiro já desativado', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ ...activeBarber, isActive: false });
+
+      // Act & Assert
+      await expect(
+        StaffService.deactivate(barbershopId, 'barber-id', { futureAppointments: 'cancel' }, admin)
+      ).rejects.toThrow(BarberError.ALREADY_INACTIVE);
+    });
+  });
+
+  describe('reactivate', () => {
+    it('deve rejeitar barbeiro de outra barbearia', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        StaffService.reactivate(barbershopId, 'foreign-barber', 'admin-id')
+      ).rejects.toThrow(BarberError.NOT_FOUND);
+      expect(prisma.barber.update).not.toHaveBeenCalled();
+    });
+  });
+});
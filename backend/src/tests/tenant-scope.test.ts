@@ -0,0 +1,263 @@
+import { PrismaClient } from '@prisma/client';
+import { applyTenantScope } from '@/config/tenant-scope';
+import { runWithRequestContext, withoutTenantScope } from '@/utils/request-context';
+import { TenantError } from '@/types/auth';
+
+const client = {
+  barber: {
+    count: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+const query = jest.fn(async (args: unknown) => args);
+
+const asTenant = <T>(barbershopId: string | undefined, fn: () => Promise<T>): Promise<T> =>
+  runWithRequestContext({ userId: 'user-id', barbershopId }, fn);
+
+describe('Isolamento por barbearia (tenant scope)', () => {
+  describe('leituras', () => {
+    it('não deve alterar consultas fora de uma requisição autenticada', async () => {
+      // Arrange
+      const args = { where: { barberId: 'barber-id' } };
+
+      // Act
+      const result = await applyTenantScope(client, {
+        model: 'Appointment',
+        operation: 'findMany',
+        args,
+        query,
+      });
+
+      // Assert
+      expect(result).toBe(args);
+    });
+
+    it('não deve restringir usuários sem barbearia (SuperAdmin e clientes)', async () => {
+      // Arrange
+      const args = { where: { id: 'service-id' } };
+
+      // Act
+      const result = await asTenant(undefined, () =>
+        applyTenantScope(client, { model: 'Service', operation: 'findUnique', args, query })
+      );
+
+      // Assert
+      expect(result).toBe(args);
+    });
+
+    it('deve restringir consultas à barbearia do usuário mantendo os filtros existentes', async () => {
+      // Act
+      const result = await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'Appointment',
+          operation: 'findMany',
+          args: { where: { status: 'SCHEDULED', AND: { barberId: 'barber-id' } }, take: 10 },
+          query,
+        })
+      );
+
+      // Assert
+      expect(result).toEqual({
+        where: {
+          status: 'SCHEDULED',
+          AND: [{ barberId: 'barber-id' }, { barbershopId: 'shop-a' }],
+        },
+        take: 10,
+      });
+    });
+
+    it('deve manter o campo único na raiz para findUnique de outra barbearia', async () => {
+      // Act
+      const result = await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'Service',
+          operation: 'findUnique',
+          args: { where: { id: 'service-of-shop-b' } },
+          query,
+        })
+      );
+
+      // Assert
+      expect(result).toEqual({
+        where: { id: 'service-of-shop-b', AND: [{ barbershopId: 'shop-a' }] },
+      });
+    });
+
+    it('deve restringir agendas e exceções do barbeiro através do barbeiro', async () => {
+      // Act
+      const result = await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'BarberException',
+          operation: 'deleteMany',
+          args: { where: { barberId: 'barber-id' } },
+          query,
+        })
+      );
+
+      // Assert
+      expect(result).toEqual({
+        where: { barberId: 'barber-id', AND: [{ barber: { barbershopId: 'shop-a' } }] },
+      });
+    });
+
+    it('não deve alterar models fora do escopo da barbearia', async () => {
+      // Arrange
+      const args = { where: { email: 'cliente@exemplo.com' } };
+
+      // Act
+      const result = await asTenant('shop-a', () =>
+        applyTenantScope(client, { model: 'User', operation: 'findUnique', args, query })
+      );
+
+      // Assert
+      expect(result).toBe(args);
+    });
+
+    it('deve permitir desativar o isolamento explicitamente', async () => {
+      // Arrange
+      const args = { where: {} };
+
+      // Act
+      const result = await asTenant('shop-a', () =>
+        withoutTenantScope(() =>
+          applyTenantScope(client, { model: 'Barber', operation: 'findMany', args, query })
+        )
+      );
+
+      // Assert
+      expect(result).toBe(args);
+    });
+  });
+
+  describe('escritas', () => {
+    it('deve rejeitar criação de agendamento em outra barbearia', async () => {
+      // Act & Assert
+      await expect(
+        asTenant('shop-a', () =>
+          applyTenantScope(client, {
+            model: 'Appointment',
+            operation: 'create',
+            args: { data: { barbershopId: 'shop-b', barberId: 'barber-id' } },
+            query,
+          })
+        )
+      ).rejects.toThrow(TenantError.CROSS_TENANT_WRITE);
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('deve permitir criação na própria barbearia, inclusive via connect', async () => {
+      // Act
+      await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'Service',
+          operation: 'createMany',
+          args: {
+            data: [
+              { barbershopId: 'shop-a', name: 'Corte' },
+              { barbershop: { connect: { id: 'shop-a' } }, name: 'Barba' },
+            ],
+          },
+          query,
+        })
+      );
+
+      // Assert
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve rejeitar mover registro para outra barbearia', async () => {
+      // Act & Assert
+      await expect(
+        asTenant('shop-a', () =>
+          applyTenantScope(client, {
+            model: 'Barber',
+            operation: 'update',
+            args: { where: { id: 'barber-id' }, data: { barbershopId: 'shop-b' } },
+            query,
+          })
+        )
+      ).rejects.toThrow(TenantError.CROSS_TENANT_WRITE);
+    });
+
+    it('deve restringir atualizações ao registro da própria barbearia', async () => {
+      // Act
+      const result = await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'GlobalSchedule',
+          operation: 'update',
+          args: { where: { id: 'schedule-id' }, data: { isOpen: false } },
+          query,
+        })
+      );
+
+      // Assert
+      expect(result).toEqual({
+        where: { id: 'schedule-id', AND: [{ barbershopId: 'shop-a' }] },
+        data: { isOpen: false },
+      });
+    });
+
+    it('deve rejeitar exceção para barbeiro de outra barbearia', async () => {
+      // Arrange
+      (client.barber.count as jest.Mock).mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(
+        asTenant('shop-a', () =>
+          applyTenantScope(client, {
+            model: 'BarberException',
+            operation: 'create',
+            args: { data: { barberId: 'barber-of-shop-b', reason: 'Folga' } },
+            query,
+          })
+        )
+      ).rejects.toThrow(TenantError.CROSS_TENANT_WRITE);
+      expect(client.barber.count).toHaveBeenCalledWith({
+        where: { id: { in: ['barber-of-shop-b'] }, barbershopId: 'shop-a' },
+      });
+    });
+
+    it('deve permitir agenda para barbeiro da própria barbearia', async () => {
+      // Arrange
+      (client.barber.count as jest.Mock).mockResolvedValue(1);
+
+      // Act
+      await asTenant('shop-a', () =>
+        applyTenantScope(client, {
+          model: 'BarberSchedule',
+          operation: 'upsert',
+          args: {
+            where: { barberId_dayOfWeek: { barberId: 'barber-id', dayOfWeek: 1 } },
+            create: { barberId: 'barber-id', dayOfWeek: 1 },
+            update: { startTime: '09:00' },
+          },
+          query,
+        })
+      );
+
+      // Assert
+      expect(query).toHaveBeenCalledWith({
+        where: {
+          barberId_dayOfWeek: { barberId: 'barber-id', dayOfWeek: 1 },
+          AND: [{ barber: { barbershopId: 'shop-a' } }],
+        },
+        create: { barberId: 'barber-id', dayOfWeek: 1 },
+        update: { startTime: '09:00' },
+      });
+    });
+
+    it('deve rejeitar criação sem referência à barbearia', async () => {
+      // Act & Assert
+      await expect(
+        asTenant('shop-a', () =>
+          applyTenantScope(client, {
+            model: 'GlobalException',
+            operation: 'create',
+            args: { data: { reason: 'Feriado' } },
+            query,
+          })
+        )
+      ).rejects.toThrow(TenantError.CROSS_TENANT_WRITE);
+    });
+  });
+});
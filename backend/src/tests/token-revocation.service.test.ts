@@ -0,0 +1,175 @@
+import { TokenRevocationService } from '@/services/token-revocation.service';
+
+// Mock do Redis em memória
+jest.mock('@/config/redis', () => ({
+  redis: jest.requireActual('@/tests/helpers/redis-mock').createRedisMock(),
+  CACHE_PREFIXES: { SESSION: 'session:' },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/utils/jwt', () => ({
+  getRefreshTokenExpirationTime: jest.fn(() => 604800),
+}));
+
+const accessToken = (sid: string, jti: string) => ({
+  sid,
+  jti,
+  exp: Math.floor(Date.now() / 1000) + 3600,
+});
+
+describe('TokenRevocationService', () => {
+  beforeEach(() => {
+    const { redis } = jest.requireMock('@/config/redis');
+    redis.flush();
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('deve rotacionar o refresh token vigente da sessão', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-1');
+
+      // Act
+      const first = await TokenRevocationService.rotateRefreshToken(
+        'session-a',
+        'refresh-1',
+        'refresh-2'
+      );
+      const second = await TokenRevocationService.rotateRefreshToken(
+        'session-a',
+        'refresh-2',
+        'refresh-3'
+      );
+
+      // Assert
+      expect(first).toBe('rotated');
+      expect(second).toBe('rotated');
+    });
+
+    it('deve detectar reutilização de um refresh token já rotacionado', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-1');
+      await TokenRevocationService.rotateRefreshToken('session-a', 'refresh-1', 'refresh-2');
+
+      // Act
+      const result = await TokenRevocationService.rotateRefreshToken(
+        'session-a',
+        'refresh-1',
+        'refresh-3'
+      );
+
+      // Assert
+      expect(result).toBe('reused');
+    });
+
+    it('deve recusar rotação de sessão revogada sem recriá-la', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-1');
+      await TokenRevocationService.revokeSession('user-id', 'session-a');
+
+      // Act
+      const result = await TokenRevocationService.rotateRefreshToken(
+        'session-a',
+        'refresh-1',
+        'refresh-2'
+      );
+
+      // Assert
+      expect(result).toBe('revoked');
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-a', 'access-1'))
+      ).toBe(true);
+    });
+  });
+
+  describe('isAccessTokenRevoked', () => {
+    it('deve aceitar access token de sessão ativa', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-1');
+
+      // Act & Assert
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-a', 'access-1'))
+      ).toBe(false);
+    });
+
+    it('deve rejeitar access token incluído na denylist', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-1');
+      const token = accessToken('session-a', 'access-1');
+
+      // Act
+      await TokenRevocationService.denyAccessToken(token);
+
+      // Assert
+      expect(await TokenRevocationService.isAccessTokenRevoked(token)).toBe(true);
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-a', 'access-2'))
+      ).toBe(false);
+    });
+
+    it('não deve incluir na denylist token já expirado', async () => {
+      // Act
+      await TokenRevocationService.denyAccessToken({
+        jti: 'access-1',
+        exp: Math.floor(Date.now() / 1000) - 10,
+      });
+
+      // Assert
+      const { redis } = jest.requireMock('@/config/redis');
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout entre sessões', () => {
+    it('deve revogar apenas a sessão encerrada', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-a');
+      await TokenRevocationService.startSession('user-id', 'session-b', 'refresh-b');
+
+      // Act
+      await TokenRevocationService.revokeSession('user-id', 'session-a');
+
+      // Assert
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-a', 'access-a'))
+      ).toBe(true);
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-b', 'access-b'))
+      ).toBe(false);
+    });
+
+    it('deve revogar todas as sessões do usuário', async () => {
+      // Arrange
+      await TokenRevocationService.startSession('user-id', 'session-a', 'refresh-a');
+      await TokenRevocationService.startSession('user-id', 'session-b', 'refresh-b');
+      await TokenRevocationService.startSession('other-user', 'session-c', 'refresh-c');
+
+      // Act
+      const revoked = await TokenRevocationService.revokeAllSessions('user-id');
+
+      // Assert
+      expect(revoked).toBe(2);
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-a', 'access-a'))
+      ).toBe(true);
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-b', 'access-b'))
+      ).toBe(true);
+      expect(
+        await TokenRevocationService.rotateRefreshToken('session-b', 'refresh-b', 'refresh-b2')
+      ).toBe('revoked');
+      expect(
+        await TokenRevocationService.isAccessTokenRevoked(accessToken('session-c', 'access-c'))
+      ).toBe(false);
+    });
+  });
+});
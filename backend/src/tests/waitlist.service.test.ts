@@ -0,0 +1,364 @@
+import { Role, WaitlistStatus } from '@prisma/client';
+import { WaitlistService } from '@/services/waitlist.service';
+import { AppointmentService } from '@/services/appointment.service';
+import { emailService } from '@/services/email.service';
+import { prisma } from '@/config/database';
+import { redis } from '@/config/redis';
+import { AppointmentError } from '@/types/appointment';
+import { AuthenticatedUser } from '@/types/auth';
+import { WaitlistError } from '@/types/waitlist';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => ({
+  prisma: {
+    barbershop: { findUnique: jest.fn() },
+    barber: { findFirst: jest.fn(), findUnique: jest.fn() },
+    service: { findFirst: jest.fn() },
+    waitlistEntry: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock do Redis em memória
+jest.mock('@/config/redis', () => ({
+  redis: jest.requireActual('@/tests/helpers/redis-mock').createRedisMock(),
+  CACHE_PREFIXES: { WAITLIST: 'waitlist:' },
+}));
+
+jest.mock('@/services/appointment.service', () => ({
+  AppointmentService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/email.service', () => ({
+  emailService: {
+    sendWaitlistOfferEmail: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const client: AuthenticatedUser = {
+  id: 'client-id',
+  email: 'cliente@exemplo.com',
+  name: 'Cliente',
+  role: Role.CLIENT,
+};
+
+// Terça-feira, 10:00 às 11:00 em São Paulo (13:00 às 14:00 UTC)
+const freedSlot = {
+  barbershopId: 'barbershop-id',
+  barberId: 'barber-id',
+  startTime: new Date('2030-03-05T13:00:00.000Z'),
+  endTime: new Date('2030-03-05T14:00:00.000Z'),
+};
+
+const waitingEntry = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  barbershopId: 'barbershop-id',
+  clientId: `${id}-client`,
+  barberId: null,
+  serviceId: 'service-id',
+  desiredDate: new Date('2030-03-05T00:00:00.000Z'),
+  windowStart: '09:00',
+  windowEnd: '12:00',
+  status: WaitlistStatus.WAITING,
+  offeredBarberId: null,
+  offeredStartTime: null,
+  offeredEndTime: null,
+  offerExpiresAt: null,
+  client: { id: `${id}-client`, name: 'Carlos', email: `${id}@exemplo.com` },
+  service: { id: 'service-id', name: 'Corte', duration: 30 },
+  ...overrides,
+});
+
+const offeredEntry = {
+  ...waitingEntry('entry-1', { clientId: 'client-id' }),
+  status: WaitlistStatus.OFFERED,
+  offeredBarberId: 'barber-id',
+  offeredStartTime: freedSlot.startTime,
+  offeredEndTime: freedSlot.endTime,
+  offerExpiresAt: new Date('2030-03-05T12:00:00.000Z'),
+};
+
+const placeHold = (entryId: string, clientId: string, expiresAt: Date) =>
+  redis.hset(
+    'waitlist:holds:barber-id',
+    entryId,
+    JSON.stringify({
+      entryId,
+      clientId,
+      startTime: '2030-03-05T13:00:00.000Z',
+      endTime: '2030-03-05T13:30:00.000Z',
+      expiresAt: expiresAt.toISOString(),
+    })
+  );
+
+describe('WaitlistService', () => {
+  beforeEach(() => {
+    (redis as any).flush();
+
+    (prisma.barbershop.findUnique as jest.Mock).mockResolvedValue({
+      id: 'barbershop-id',
+      name: 'Barbearia Central',
+      timezone: 'America/Sao_Paulo',
+    });
+    (prisma.barber.findUnique as jest.Mock).mockResolvedValue({
+      isActive: true,
+      user: { name: 'Bruno' },
+      services: [{ serviceId: 'service-id' }],
+    });
+    (prisma.waitlistEntry.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('join', () => {
+    beforeEach(() => {
+      (prisma.service.findFirst as jest.Mock).mockResolvedValue({
+        id: 'service-id',
+        duration: 30,
+      });
+      (prisma.waitlistEntry.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.waitlistEntry.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'entry-id', ...data })
+      );
+    });
+
+    const joinData = {
+      barbershopId: 'barbershop-id',
+      serviceId: 'service-id',
+      desiredDate: '2030-03-05',
+      windowStart: '09:00',
+      windowEnd: '12:00',
+    };
+
+    it('deve inscrever o cliente na lista de espera', async () => {
+      // Act
+      const entry = await WaitlistService.join(client, joinData);
+
+      // Assert
+      expect(entry.id).toBe('entry-id');
+      expect(prisma.waitlistEntry.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            barbershopId: 'barbershop-id',
+            clientId: 'client-id',
+            barberId: null,
+            serviceId: 'service-id',
+            desiredDate: new Date('2030-03-05T00:00:00.000Z'),
+            windowStart: '09:00',
+            windowEnd: '12:00',
+          },
+        })
+      );
+    });
+
+    it('deve rejeitar janela menor que a duração do serviço', async () => {
+      // Act & Assert
+      await expect(
+        WaitlistService.join(client, { ...joinData, windowStart: '09:00', windowEnd: '09:15' })
+      ).rejects.toThrow(WaitlistError.WINDOW_TOO_SHORT);
+    });
+
+    it('deve rejeitar inscrição repetida para o mesmo serviço e data', async () => {
+      // Arrange
+      (prisma.waitlistEntry.findFirst as jest.Mock).mockResolvedValue({ id: 'existing-id' });
+
+      // Act & Assert
+      await expect(WaitlistService.join(client, joinData)).rejects.toThrow(
+        WaitlistError.ALREADY_WAITING
+      );
+      expect(prisma.waitlistEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offerFreedSlot', () => {
+    it('deve oferecer o horário ao primeiro inscrito compatível e reservar o horário', async () => {
+      // Arrange - primeira inscrição só aceita a partir das 11:00
+      (prisma.waitlistEntry.findMany as jest.Mock).mockResolvedValue([
+        waitingEntry('entry-late', { windowStart: '11:00', windowEnd: '12:00' }),
+        waitingEntry('entry-1'),
+        waitingEntry('entry-2'),
+      ]);
+
+      // Act
+      const offeredId = await WaitlistService.offerFreedSlot(freedSlot);
+
+      // Assert
+      expect(offeredId).toBe('entry-1');
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'entry-1', status: WaitlistStatus.WAITING },
+        data: expect.objectContaining({
+          status: WaitlistStatus.OFFERED,
+          offeredBarberId: 'barber-id',
+          offeredStartTime: freedSlot.startTime,
+          offeredEndTime: freedSlot.endTime,
+        }),
+      });
+      expect(JSON.parse((await redis.hget('waitlist:holds:barber-id', 'entry-1')) ?? '')).toEqual(
+        expect.objectContaining({
+          clientId: 'entry-1-client',
+          startTime: '2030-03-05T13:00:00.000Z',
+          endTime: '2030-03-05T13:30:00.000Z',
+        })
+      );
+      expect(emailService.sendWaitlistOfferEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'entry-1@exemplo.com', entryId: 'entry-1' })
+      );
+    });
+
+    it('não deve oferecer novamente a quem já recebeu o mesmo horário', async () => {
+      // Arrange
+      await redis.sadd('waitlist:offered:barber-id:2030-03-05T13:00:00.000Z', 'entry-1');
+      (prisma.waitlistEntry.findMany as jest.Mock).mockResolvedValue([]);
+
+      // Act
+      const offeredId = await WaitlistService.offerFreedSlot(freedSlot);
+
+      // Assert
+      expect(offeredId).toBeNull();
+      expect(prisma.waitlistEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { notIn: ['entry-1'] } }),
+        })
+      );
+    });
+  });
+
+  describe('assertSlotNotHeld', () => {
+    it('deve bloquear outro cliente e liberar o cliente da reserva', async () => {
+      // Arrange
+      await placeHold('entry-1', 'client-id', new Date(Date.now() + 60000));
+      const start = new Date('2030-03-05T13:15:00.000Z');
+      const end = new Date('2030-03-05T13:45:00.000Z');
+
+      // Act & Assert
+      await expect(
+        WaitlistService.assertSlotNotHeld('barber-id', start, end, 'other-client')
+      ).rejects.toThrow(AppointmentError.SLOT_ON_HOLD);
+      await expect(
+        WaitlistService.assertSlotNotHeld('barber-id', start, end, 'client-id')
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('heldSlots', () => {
+    it('deve retornar apenas reservas válidas de outros clientes', async () => {
+      // Arrange
+      await placeHold('entry-1', 'client-id', new Date(Date.now() + 60000));
+      await placeHold('entry-2', 'other-client', new Date(Date.now() + 60000));
+      await placeHold('entry-3', 'expired-client', new Date(Date.now() - 1000));
+
+      // Act
+      const held = await WaitlistService.heldSlots(['barber-id'], 'client-id');
+
+      // Assert
+      expect(held).toEqual([
+        {
+          barberId: 'barber-id',
+          startTime: new Date('2030-03-05T13:00:00.000Z'),
+          endTime: new Date('2030-03-05T13:30:00.000Z'),
+        },
+      ]);
+    });
+  });
+
+  describe('accept', () => {
+    it('deve criar o agendamento no horário reservado', async () => {
+      // Arrange
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(offeredEntry);
+      (AppointmentService.create as jest.Mock).mockResolvedValue({ id: 'appointment-id' });
+      await placeHold('entry-1', 'client-id', new Date(Date.now() + 60000));
+
+      // Act
+      const appointment = await WaitlistService.accept('entry-1', client);
+
+      // Assert
+      expect(appointment.id).toBe('appointment-id');
+      expect(AppointmentService.create).toHaveBeenCalledWith(client, {
+        barbershopId: 'barbershop-id',
+        barberId: 'barber-id',
+        serviceId: 'service-id',
+        startTime: '2030-03-05T13:00:00.000Z',
+      });
+      expect(prisma.waitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+        data: {
+          status: WaitlistStatus.BOOKED,
+          appointmentId: 'appointment-id',
+          offerExpiresAt: null,
+        },
+      });
+      expect(await redis.hget('waitlist:holds:barber-id', 'entry-1')).toBeNull();
+    });
+
+    it('deve recusar oferta vencida e passar o horário adiante', async () => {
+      // Arrange
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(offeredEntry);
+      (prisma.waitlistEntry.findMany as jest.Mock).mockResolvedValue([]);
+      await placeHold('entry-1', 'client-id', new Date(Date.now() - 1000));
+
+      // Act & Assert
+      await expect(WaitlistService.accept('entry-1', client)).rejects.toThrow(
+        WaitlistError.OFFER_EXPIRED
+      );
+      expect(AppointmentService.create).not.toHaveBeenCalled();
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'entry-1', status: WaitlistStatus.OFFERED },
+        data: expect.objectContaining({ status: WaitlistStatus.WAITING }),
+      });
+      expect(prisma.waitlistEntry.findMany).toHaveBeenCalled();
+    });
+
+    it('deve impedir que outro cliente aceite a oferta', async () => {
+      // Arrange
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue({
+        ...offeredEntry,
+        clientId: 'other-client',
+      });
+
+      // Act & Assert
+      await expect(WaitlistService.accept('entry-1', client)).rejects.toThrow(
+        WaitlistError.ACCESS_DENIED
+      );
+    });
+  });
+
+  describe('processExpiredOffers', () => {
+    it('deve devolver ofertas vencidas à fila e encerrar inscrições antigas', async () => {
+      // Arrange
+      (prisma.waitlistEntry.findMany as jest.Mock)
+        .mockResolvedValueOnce([offeredEntry])
+        .mockResolvedValueOnce([]);
+      (prisma.waitlistEntry.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 3 });
+
+      // Act
+      const result = await WaitlistService.processExpiredOffers();
+
+      // Assert
+      expect(result).toEqual({ expiredOffers: 1, expiredEntries: 3 });
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenLastCalledWith({
+        where: { status: WaitlistStatus.WAITING, desiredDate: { lt: expect.any(Date) } },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { Role } from '@prisma/client';
+import { WeeklyScheduleService } from '@/services/weekly-schedule.service';
+import { PermissionService } from '@/services/permission.service';
+import { prisma } from '@/config/database';
+import { AuthenticatedUser } from '@/types/auth';
+import { ScheduleError } from '@/types/scheduling';
+
+// Mock do Prisma
+jest.mock('@/config/database', () => {
+  const client: Record<string, any> = {
+    barbershop: {
+      findUnique: jest.fn(),
+    },
+    barber: {
+      findFirst: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+    },
+    globalSchedule: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    barberSchedule: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    globalException: {
+      findMany: jest.fn(),
+    },
+    barberException: {
+      findMany: jest.fn(),
+    },
+  };
+
+  client['$transaction'] = jest.fn((arg: unknown) => Promise.all(arg as Promise<unknown>[]));
+
+  return { prisma: client };
+});
+
+jest.mock('@/services/permission.service', () => ({
+  PermissionService: {
+    hasPermission: jest.fn(),
+  },
+}));
+
+// Mock do logger
+jest.mock('@/config/logger', () => ({
+  advancedLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    business: jest.fn(),
+  },
+}));
+
+const barbershopId = 'barbershop-id';
+
+const barberUser: AuthenticatedUser = {
+  id: 'barber-user-id',
+  email: 'barbeiro@exemplo.com',
+  name: 'Barbeiro',
+  role: Role.BARBER,
+  barbershopId,
+  barberId: 'barber-id',
+};
+
+// Segunda-feira em São Paulo: 10:00 e 17:00 locais (13:00 e 20:00 UTC)
+const morningAppointment = {
+  id: 'appointment-morning',
+  barberId: 'barber-id',
+  startTime: new Date('2030-03-04T13:00:00.000Z'),
+  endTime: new Date('2030-03-04T13:30:00.000Z'),
+  barber: { user: { name: 'Bruno' } },
+  client: { name: 'Carlos' },
+};
+
+const eveningAppointment = {
+  ...morningAppointment,
+  id: 'appointment-evening',
+  startTime: new Date('2030-03-04T20:00:00.000Z'),
+  endTime: new Date('2030-03-04T20:30:00.000Z'),
+};
+
+const mondayGlobal = {
+  dayOfWeek: 1,
+  isOpen: true,
+  openTime: '08:00',
+  closeTime: '18:00',
+  lunchStart: null,
+  lunchEnd: null,
+};
+
+const arrangeWeek = (barberSchedules: unknown[] = []) => {
+  (prisma.barbershop.findUnique as any).mockResolvedValue({ timezone: 'America/Sao_Paulo' });
+  (prisma.appointment.findMany as any).mockResolvedValue([morningAppointment, eveningAppointment]);
+  (prisma.globalSchedule.findMany as any).mockResolvedValue([mondayGlobal]);
+  (prisma.barberSchedule.findMany as any).mockResolvedValue(barberSchedules);
+  (prisma.globalException.findMany as any).mockResolvedValue([]);
+  (prisma.barberException.findMany as any).mockResolvedValue([]);
+};
+
+describe('WeeklyScheduleService', () => {
+  describe('previewGlobalWeek', () => {
+    it('deve apontar agendamentos que ficariam fora do novo horário', async () => {
+      // Arrange
+      arrangeWeek();
+
+      // Act
+      const orphaned = await WeeklyScheduleService.previewGlobalWeek(barbershopId, [
+        { ...mondayGlobal, closeTime: '17:00' },
+      ]);
+
+      // Assert
+      expect(orphaned).toEqual([
+        {
+          appointmentId: 'appointment-evening',
+          barberId: 'barber-id',
+          barberName: 'Bruno',
+          clientName: 'Carlos',
+          startTime: eveningAppointment.startTime,
+          endTime: eveningAppointment.endTime,
+        },
+      ]);
+    });
+
+    it('deve considerar o almoço do novo horário', async () => {
+      // Arrange
+      arrangeWeek();
+
+      // Act
+      const orphaned = await WeeklyScheduleService.previewGlobalWeek(barbershopId, [
+        { ...mondayGlobal, lunchStart: '10:00', lunchEnd: '11:00' },
+      ]);
+
+      // Assert
+      expect(orphaned.map((item) => item.appointmentId)).toEqual(['appointment-morning']);
+    });
+
+    it('deve ignorar barbeiros com horário individual no dia', async () => {
+      // Arrange
+      arrangeWeek([
+        {
+          barberId: 'barber-id',
+          dayOfWeek: 1,
+          isWorking: true,
+          startTime: '09:00',
+          endTime: '19:00',
+          breakStart: null,
+          breakEnd: null,
+        },
+      ]);
+
+      // Act
+      const orphaned = await WeeklyScheduleService.previewGlobalWeek(barbershopId, [
+        { ...mondayGlobal, isOpen: false },
+      ]);
+
+      // Assert
+      expect(orphaned).toEqual([]);
+    });
+  });
+
+  describe('updateGlobalWeek', () => {
+    it('não deve aplicar alteração que afeta agendamentos sem force', async () => {
+      // Arrange
+      arrangeWeek();
+
+      // Act
+      const result = await WeeklyScheduleService.updateGlobalWeek(
+        barbershopId,
+        [{ ...mondayGlobal, isOpen: false }],
+        false,
+        'admin-id'
+      );
+
+      // Assert
+      expect(result.applied).toBe(false);
+      expect(result.orphaned).toHaveLength(2);
+      expect(prisma.globalSchedule.upsert).not.toHaveBeenCalled();
+    });
+
+    it('deve aplicar com force e manter o relatório', async () => {
+      // Arrange
+      arrangeWeek();
+
+      // Act
+      const result = await WeeklyScheduleService.updateGlobalWeek(
+        barbershopId,
+        [{ ...mondayGlobal, isOpen: false }],
+        true,
+        'admin-id'
+      );
+
+      // Assert
+      expect(result.applied).toBe(true);
+      expect(result.orphaned).toHaveLength(2);
+      expect(prisma.globalSchedule.upsert).toHaveBeenCalledWith({
+        where: { barbershopId_dayOfWeek: { barbershopId, dayOfWeek: 1 } },
+        create: { barbershopId, ...mondayGlobal, isOpen: false },
+        update: {
+          isOpen: false,
+          openTime: '08:00',
+          closeTime: '18:00',
+          lunchStart: null,
+          lunchEnd: null,
+        },
+      });
+    });
+  });
+
+  describe('updateBarberWeek', () => {
+    it('deve permitir que o barbeiro altere o próprio horário', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ id: 'barber-id' });
+      arrangeWeek();
+
+      // Act
+      const result = await WeeklyScheduleService.updateBarberWeek(
+        barbershopId,
+        'barber-id',
+        [{ dayOfWeek: 1, isWorking: true, startTime: '08:00', endTime: '18:00' }],
+        false,
+        barberUser
+      );
+
+      // Assert
+      expect(result.applied).toBe(true);
+      expect(PermissionService.hasPermission).not.toHaveBeenCalled();
+      expect(prisma.barberSchedule.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { barberId_dayOfWeek: { barberId: 'barber-id', dayOfWeek: 1 } },
+        })
+      );
+    });
+
+    it('deve impedir que o barbeiro altere o horário de outro sem schedule:manage', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue({ id: 'other-barber-id' });
+      (PermissionService.hasPermission as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        WeeklyScheduleService.updateBarberWeek(
+          barbershopId,
+          'other-barber-id',
+          [],
+          true,
+          barberUser
+        )
+      ).rejects.toThrow(ScheduleError.SELF_ONLY);
+      expect(prisma.barberSchedule.upsert).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar barbeiro de outra barbearia', async () => {
+      // Arrange
+      (prisma.barber.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        WeeklyScheduleService.getBarberWeek(barbershopId, 'foreign-barber', barberUser)
+      ).rejects.toThrow(ScheduleError.BARBER_NOT_FOUND);
+    });
+  });
+});
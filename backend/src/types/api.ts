@@ -5,12 +5,19 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   errors?: ValidationError[];
+  requestId?: string; // ID de correlação, presente nas respostas de erro
   meta?: {
     page?: number;
     limit?: number;
     total?: number;
     totalPages?: number;
   };
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
 }
 
 // Interface para erro de validação
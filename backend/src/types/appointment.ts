@@ -0,0 +1,128 @@
+import { AppointmentStatus, Prisma } from '@prisma/client';
+
+// Mensagens de erro de agendamento (docs/regras_agendamento.md)
+export enum AppointmentError {
+  PAST_TIME = 'Não é possível agendar para horários passados',
+  MIN_NOTICE = 'Agendamento requer antecedência mínima de 1 hora',
+  BARBER_NOT_WORKING = 'Barbeiro não trabalha neste horário',
+  TIME_CONFLICT = 'Horário já ocupado',
+  SERVICE_TOO_LONG = 'Serviço não cabe no horário disponível',
+  BARBER_ON_VACATION = 'Barbeiro em férias nesta data',
+  INVALID_SERVICE = 'Serviço não disponível para este barbeiro',
+  SERVICE_NOT_OFFERED = 'Este barbeiro não executa este serviço',
+  BARBER_UNAVAILABLE = 'Barbeiro não disponível nesta data',
+  NOT_FOUND = 'Agendamento não encontrado',
+  ACCESS_DENIED = 'Acesso negado a este agendamento',
+  INVALID_STATUS = 'Agendamento não pode ser alterado no status atual',
+  INVALID_TRANSITION = 'Transição de status não permitida',
+  TRANSITION_FORBIDDEN = 'Seu perfil não pode realizar esta alteração de status',
+  CANCEL_CUTOFF = 'Cancelamento permitido apenas até 2 horas antes do horário',
+  REASON_REQUIRED = 'Informe o motivo da alteração de status',
+  NO_SHOW_TOO_EARLY = 'Não comparecimento só pode ser registrado após o horário de início',
+  SLOT_ON_HOLD = 'Horário reservado para um cliente da lista de espera',
+  NOT_IN_SERIES = 'Agendamento não pertence a uma série recorrente',
+  RECURRENCE_TOO_LONG = 'Recorrência excede o limite de 52 ocorrências',
+  NO_VALID_OCCURRENCES = 'Nenhuma ocorrência da recorrência pôde ser agendada',
+  ACTION_LINK_INVALID = 'Link de confirmação inválido',
+  ACTION_LINK_EXPIRED = 'Link de confirmação expirado',
+}
+
+// Ação disponível pelo link assinado do lembrete
+export type AppointmentLinkAction = 'confirm' | 'cancel';
+
+// Conteúdo do token assinado enviado no lembrete
+export interface AppointmentActionPayload {
+  appointmentId: string;
+  action: AppointmentLinkAction;
+}
+
+// Escopo de alteração de um agendamento recorrente: só a ocorrência ou ela e as seguintes
+export type SeriesEditScope = 'this' | 'following';
+
+// Regra de recorrência (informar endDate ou count)
+export interface RecurrenceRule {
+  intervalWeeks: number; // 1 = semanal, 2 = quinzenal, ...
+  endDate?: string | undefined; // "YYYY-MM-DD", inclusive
+  count?: number | undefined;
+}
+
+// Ocorrência não agendada/alterada por conflito com expediente, exceção ou outro agendamento
+export interface SkippedOccurrence {
+  appointmentId?: string | undefined;
+  startTime: Date;
+  reason: string;
+}
+
+// Interface para criação de agendamento
+export interface CreateAppointmentRequest {
+  barbershopId: string;
+  barberId: string;
+  serviceId?: string | undefined; // serviço único
+  serviceIds?: string[] | undefined; // vários serviços, na ordem de execução
+  startTime: string; // ISO 8601
+  notes?: string | undefined;
+  clientId?: string | undefined; // agendamento administrativo em nome do cliente
+  recurrence?: RecurrenceRule | undefined;
+}
+
+// Linha de serviço do agendamento, com preço e duração efetivos do barbeiro
+export interface AppointmentItemSnapshot {
+  serviceId: string;
+  position: number;
+  price: Prisma.Decimal;
+  duration: number; // em minutos
+}
+
+// Interface para remarcação de agendamento
+export interface RescheduleAppointmentRequest {
+  startTime: string; // ISO 8601
+  barberId?: string | undefined;
+  scope?: SeriesEditScope | undefined;
+}
+
+// Interface para cancelamento de agendamento
+export interface CancelAppointmentRequest {
+  reason?: string | undefined;
+  scope?: SeriesEditScope | undefined;
+}
+
+// Interface para alteração de status de agendamento
+export interface UpdateAppointmentStatusRequest {
+  status: AppointmentStatus;
+  reason?: string | undefined;
+}
+
+// Opções internas de criação/alteração de agendamento
+export interface AppointmentWriteOptions {
+  notify?: boolean | undefined; // false quando o chamador avisa o cliente por conta própria
+}
+
+// Registro de transição de status a ser gravado no histórico
+export interface StatusTransitionRecord {
+  appointmentId: string;
+  fromStatus: AppointmentStatus | null;
+  toStatus: AppointmentStatus;
+  changedById: string | null; // null em transições automáticas
+  reason?: string | undefined;
+}
+
+// Alteração de status sem usuário autenticado (link do lembrete ou rotina automática)
+export interface UnattendedStatusChange {
+  status: AppointmentStatus;
+  allowedFrom: AppointmentStatus[]; // status atuais que admitem a alteração
+  changedById: string | null; // cliente do link ou null quando feita pelo sistema
+  reason?: string | undefined;
+}
+
+// Interface para filtros de listagem de agendamentos
+export interface AppointmentFilters {
+  barbershopId?: string | undefined;
+  barberId?: string | undefined;
+  clientId?: string | undefined;
+  seriesId?: string | undefined;
+  status?: AppointmentStatus | undefined;
+  startDate?: string | undefined; // "YYYY-MM-DD"
+  endDate?: string | undefined; // "YYYY-MM-DD"
+  page?: number | undefined;
+  limit?: number | undefined;
+}
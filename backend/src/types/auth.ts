@@ -7,6 +7,9 @@ export interface JWTPayload {
   role: Role;
   barbershopId?: string; // para admins e barbeiros
   barberId?: string; // para barbeiros
+  tokenVersion: number; // versão do usuário na emissão (revogação quando o Redis está fora do ar)
+  sid: string; // sessão (família de refresh tokens) que emitiu o token
+  jti: string; // identificador único do token, usado na denylist
   iat: number;
   exp: number;
 }
@@ -15,10 +18,15 @@ export interface JWTPayload {
 export interface RefreshTokenPayload {
   userId: string;
   tokenVersion: number;
+  sid: string; // família de tokens; todos os refresh tokens rotacionados compartilham o mesmo sid
+  jti: string;
   iat: number;
   exp: number;
 }
 
+// Resultado da rotação de um refresh token
+export type RefreshRotationResult = 'rotated' | 'reused' | 'revoked';
+
 // Interface para dados de login
 export interface LoginRequest {
   email: string;
@@ -79,6 +87,23 @@ export interface ChangePasswordRequest {
   newPassword: string;
 }
 
+// Origem da requisição que abriu ou renovou uma sessão
+export interface SessionContext {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+// Sessão ativa exibida ao usuário
+export interface SessionInfo {
+  id: string;
+  device: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean; // sessão do token usado na requisição
+}
+
 // Interface para atualização de perfil
 export interface UpdateProfileRequest {
   name?: string;
@@ -86,43 +111,102 @@ export interface UpdateProfileRequest {
   avatar?: string;
 }
 
-// Tipos para middleware de autorização
-export type Permission =
-  | 'manage:all' // SuperAdmin
-  | 'manage:barbershop' // Admin
-  | 'manage:own_schedule' // Barber
-  | 'manage:own_profile' // Client
-  | 'view:appointments'
-  | 'create:appointments'
-  | 'update:appointments'
-  | 'delete:appointments';
+// Catálogo de permissões no formato recurso:ação[:escopo]
+// Sem escopo a permissão vale para toda a barbearia do usuário; ":self" restringe aos próprios registros
+export const PERMISSIONS = [
+  'barbershop:manage',
+  'barber:manage',
+  'permission:grant',
+  'service:view',
+  'service:create',
+  'service:update',
+  'service:delete',
+  'schedule:manage',
+  'schedule:manage:self',
+  'appointment:view',
+  'appointment:create',
+  'appointment:update',
+  'appointment:delete',
+  'client:view',
+  'client:manage',
+  'report:view',
+  'profile:manage:self',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
 
 export interface RolePermissions {
-  [Role.SUPER_ADMIN]: Permission[];
-  [Role.ADMIN]: Permission[];
-  [Role.BARBER]: Permission[];
-  [Role.CLIENT]: Permission[];
+  [Role.SUPER_ADMIN]: readonly Permission[];
+  [Role.ADMIN]: readonly Permission[];
+  [Role.BARBER]: readonly Permission[];
+  [Role.CLIENT]: readonly Permission[];
 }
 
-// Constantes de permissões
+// Permissões padrão de cada role (barbeiros podem receber permissões extras do admin)
 export const ROLE_PERMISSIONS: RolePermissions = {
-  [Role.SUPER_ADMIN]: ['manage:all'],
+  [Role.SUPER_ADMIN]: PERMISSIONS,
   [Role.ADMIN]: [
-    'manage:barbershop',
-    'view:appointments',
-    'create:appointments',
-    'update:appointments',
-    'delete:appointments',
+    'barbershop:manage',
+    'barber:manage',
+    'permission:grant',
+    'service:view',
+    'service:create',
+    'service:update',
+    'service:delete',
+    'schedule:manage',
+    'appointment:view',
+    'appointment:create',
+    'appointment:update',
+    'appointment:delete',
+    'client:view',
+    'client:manage',
+    'report:view',
+    'profile:manage:self',
   ],
   [Role.BARBER]: [
-    'manage:own_schedule',
-    'manage:own_profile',
-    'view:appointments',
-    'update:appointments',
+    'service:view',
+    'schedule:manage:self',
+    'appointment:view',
+    'appointment:update',
+    'client:view',
+    'profile:manage:self',
   ],
-  [Role.CLIENT]: ['manage:own_profile', 'view:appointments', 'create:appointments'],
+  [Role.CLIENT]: ['service:view', 'appointment:view', 'appointment:create', 'profile:manage:self'],
 };
 
+// Permissões que o admin pode conceder a um barbeiro da sua barbearia (ex: barbeiro gerente)
+export const GRANTABLE_PERMISSIONS = [
+  'service:create',
+  'service:update',
+  'service:delete',
+  'schedule:manage',
+  'appointment:create',
+  'appointment:delete',
+  'client:manage',
+  'report:view',
+] as const satisfies readonly Permission[];
+
+export type GrantablePermission = (typeof GRANTABLE_PERMISSIONS)[number];
+
+// Mensagens de erro de permissões
+export enum PermissionError {
+  BARBER_NOT_FOUND = 'Barbeiro não encontrado',
+  NOT_GRANTABLE = 'Permissão não pode ser concedida a barbeiros',
+}
+
+// Mensagens de erro do isolamento de dados por barbearia
+export enum TenantError {
+  CROSS_TENANT_WRITE = 'Operação em dados de outra barbearia não permitida',
+}
+
+// Permissões efetivas do usuário (role + concedidas)
+export interface UserPermissions {
+  role: Role;
+  barbershopId?: string | undefined;
+  permissions: Permission[];
+  granted: Permission[]; // concedidas individualmente pelo admin
+}
+
 // Interface para contexto de request autenticado
 export interface AuthenticatedRequest extends Request {
   user: AuthenticatedUser;
@@ -0,0 +1,57 @@
+// Mensagens de erro da gestão de barbeiros
+export enum BarberError {
+  NOT_FOUND = 'Barbeiro não encontrado',
+  BARBERSHOP_NOT_FOUND = 'Barbearia não encontrada',
+  ALREADY_ACTIVE = 'Barbeiro já está ativo',
+  ALREADY_INACTIVE = 'Barbeiro já está desativado',
+  REASSIGN_TARGET_REQUIRED = 'Informe o barbeiro que receberá os agendamentos',
+  REASSIGN_TARGET_INVALID = 'Barbeiro de destino inválido',
+  EMAIL_ALREADY_REGISTERED = 'Email já está em uso',
+  INVITE_NOT_FOUND = 'Convite não encontrado',
+  INVITE_INVALID = 'Convite inválido ou expirado',
+}
+
+// O que fazer com os agendamentos futuros ao desativar um barbeiro
+export type FutureAppointmentsAction = 'reassign' | 'cancel';
+
+// Interface para convite de barbeiro
+export interface InviteBarberRequest {
+  email: string;
+  name?: string | undefined;
+}
+
+// Interface para aceite de convite (cria a conta do barbeiro)
+export interface AcceptInviteRequest {
+  token: string;
+  name: string;
+  password: string;
+  phone?: string | undefined;
+}
+
+// Interface para atualização do perfil profissional do barbeiro
+export interface UpdateBarberRequest {
+  description?: string | null | undefined;
+  experience?: number | null | undefined;
+  specialties?: string[] | undefined;
+}
+
+// Interface para desativação de barbeiro
+export interface DeactivateBarberRequest {
+  futureAppointments: FutureAppointmentsAction;
+  reassignToBarberId?: string | undefined;
+  reason?: string | undefined;
+}
+
+// Resultado da desativação (agendamentos futuros tratados)
+export interface DeactivationSummary {
+  reassigned: string[];
+  cancelled: string[];
+}
+
+// Dados públicos de um convite (exibidos antes do aceite)
+export interface InvitePreview {
+  email: string;
+  name: string | null;
+  barbershopName: string;
+  expiresAt: Date;
+}
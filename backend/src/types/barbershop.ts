@@ -0,0 +1,30 @@
+// Interface para filtros de listagem de barbearias
+export interface BarbershopFilters {
+  search?: string | undefined;
+  ownerId?: string | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+// Interface para criação de barbearia
+export interface CreateBarbershopRequest {
+  name: string;
+  description?: string | undefined;
+  address: string;
+  phone: string;
+  email: string;
+  website?: string | undefined;
+  timezone?: string | undefined;
+  currency?: string | undefined;
+}
+
+// Interface para atualização de barbearia
+export type UpdateBarbershopRequest = Partial<CreateBarbershopRequest>;
+
+// Interface para resposta paginada de barbearias (formato consumido pelo frontend)
+export interface BarbershopPagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
@@ -0,0 +1,55 @@
+// Mensagem de email a ser enviada
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+}
+
+// Transporte de envio de email (console, arquivo, SMTP...)
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Dados para o email de redefinição de senha
+export interface PasswordResetEmail {
+  to: string;
+  name: string;
+  token: string;
+  expiresAt: Date;
+}
+
+// Dados para o email de convite de barbeiro
+export interface BarberInviteEmail {
+  to: string;
+  name?: string | null | undefined;
+  barbershopName: string;
+  token: string;
+  expiresAt: Date;
+}
+
+// Dados para o aviso de alteração de agendamento feita pela barbearia
+export interface AppointmentChangeEmail {
+  to: string;
+  name: string;
+  barbershopName: string;
+  startTime: Date;
+  timezone: string;
+  change: 'REASSIGNED' | 'CANCELLED';
+  barberName?: string | undefined; // novo barbeiro, quando remanejado
+  reason?: string | undefined;
+}
+
+// Dados para a oferta de horário liberado a um cliente da lista de espera
+export interface WaitlistOfferEmail {
+  to: string;
+  name: string;
+  barbershopName: string;
+  serviceName: string;
+  barberName: string;
+  startTime: Date;
+  timezone: string;
+  entryId: string;
+  expiresAt: Date;
+}
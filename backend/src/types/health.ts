@@ -0,0 +1,20 @@
+// Situação geral: degraded = alguma dependência opcional (Redis, Jira) fora do ar
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+// Resultado da verificação de uma dependência
+export interface DependencyCheck {
+  status: 'up' | 'down' | 'not_configured';
+  // Dependências obrigatórias fora do ar tornam a aplicação unhealthy
+  required: boolean;
+  latency?: number | undefined; // ms
+  error?: string | undefined;
+}
+
+export type DependencyName = 'database' | 'redis' | 'jira';
+
+export interface HealthReport {
+  status: HealthStatus;
+  // false durante o graceful shutdown, mesmo com as dependências no ar
+  ready: boolean;
+  checks: Partial<Record<DependencyName, DependencyCheck>>;
+}
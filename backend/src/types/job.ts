@@ -0,0 +1,70 @@
+import { CreateJiraCommentRequest, UpdateJiraIssueRequest } from '@/types/jira';
+
+// Mensagens de erro da fila de tarefas
+export enum JobError {
+  NOT_FOUND = 'Tarefa não encontrada',
+  NOT_DEAD = 'Apenas tarefas com falha definitiva podem ser reenviadas',
+}
+
+// Tipos de tarefa executados em segundo plano
+export enum JobType {
+  CACHE_INVALIDATION = 'CACHE_INVALIDATION',
+  JIRA_UPDATE_ISSUE = 'JIRA_UPDATE_ISSUE',
+  JIRA_TRANSITION_ISSUE = 'JIRA_TRANSITION_ISSUE',
+  JIRA_ADD_COMMENT = 'JIRA_ADD_COMMENT',
+  APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER',
+  APPOINTMENT_NO_SHOW = 'APPOINTMENT_NO_SHOW',
+}
+
+// Dados de cada tipo de tarefa
+export interface JobPayloads {
+  [JobType.CACHE_INVALIDATION]: {
+    pattern?: string | undefined;
+    keys?: string[] | undefined;
+    prefix?: string | undefined;
+  };
+  [JobType.JIRA_UPDATE_ISSUE]: { issueKey: string; data: UpdateJiraIssueRequest };
+  [JobType.JIRA_TRANSITION_ISSUE]: { issueKey: string; transitionId: string };
+  [JobType.JIRA_ADD_COMMENT]: { issueKey: string; comment: CreateJiraCommentRequest };
+  // startTime (ISO 8601) do agendamento quando a tarefa foi criada; remarcado, a tarefa é ignorada
+  [JobType.APPOINTMENT_REMINDER]: { appointmentId: string; startTime: string };
+  [JobType.APPOINTMENT_NO_SHOW]: { appointmentId: string; startTime: string };
+}
+
+// Situação da tarefa: na fila (pronta ou aguardando nova tentativa), com falha definitiva ou concluída
+export type JobState = 'queued' | 'dead' | 'completed';
+
+// Tarefa persistida no Redis
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  idempotencyKey?: string | undefined;
+  requestId?: string | undefined; // requisição que enfileirou a tarefa (correlação nos logs e no Jira)
+  lastError?: string | undefined;
+  createdAt: string; // ISO 8601
+  runAt: string; // ISO 8601, próxima execução
+  failedAt?: string | undefined; // ISO 8601, quando foi para a fila de falhas
+}
+
+// Executor de um tipo de tarefa
+export type JobHandler<T extends JobType = JobType> = (
+  payload: JobPayloads[T],
+  job: Job<T>
+) => Promise<void>;
+
+// Opções de enfileiramento
+export interface EnqueueOptions {
+  idempotencyKey?: string | undefined; // repetir a chave devolve a tarefa já enfileirada
+  delayMs?: number | undefined;
+  maxAttempts?: number | undefined;
+}
+
+// Filtros da listagem de tarefas
+export interface JobListFilters {
+  state?: Exclude<JobState, 'completed'> | undefined;
+  limit?: number | undefined;
+}
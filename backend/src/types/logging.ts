@@ -14,6 +14,7 @@ export interface LogContext {
   duration?: number | undefined;
   service?: string | undefined;
   operation?: string | undefined;
+  category?: LogCategory | undefined;
   metadata?: Record<string, any> | undefined;
   performance?: {
     duration: number;
@@ -104,3 +105,35 @@ export enum LogCategory {
   DATABASE = 'database',
   EXTERNAL = 'external',
 }
+
+// Mensagens de erro da consulta de logs
+export enum LogQueryError {
+  INVALID_CURSOR = 'Cursor de paginação inválido',
+}
+
+// Níveis gravados no banco de logs, do mais grave ao menos grave
+export const STORED_LOG_LEVELS = ['error', 'warn', 'info', 'http'] as const;
+
+export type StoredLogLevel = typeof STORED_LOG_LEVELS[number];
+
+export interface StoredLogEntry {
+  timestamp: Date;
+  level: StoredLogLevel;
+  category: LogCategory;
+  message: string;
+  userId?: string | undefined;
+  requestId?: string | undefined;
+  context?: Record<string, any> | undefined;
+}
+
+export interface LogQueryFilters {
+  level?: StoredLogLevel | undefined; // nível mínimo (warn inclui error)
+  category?: LogCategory | undefined;
+  userId?: string | undefined;
+  requestId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  search?: string | undefined; // texto livre na mensagem
+  cursor?: string | undefined;
+  limit?: number | undefined;
+}
@@ -0,0 +1,76 @@
+import { NotificationChannel } from '@prisma/client';
+
+// Mensagens de erro de notificações
+export enum NotificationError {
+  NOT_FOUND = 'Notificação não encontrada',
+}
+
+// Templates disponíveis (textos em utils/notification-templates.ts)
+export enum NotificationTemplate {
+  APPOINTMENT_CREATED = 'APPOINTMENT_CREATED',
+  APPOINTMENT_CONFIRMED = 'APPOINTMENT_CONFIRMED',
+  APPOINTMENT_RESCHEDULED = 'APPOINTMENT_RESCHEDULED',
+  APPOINTMENT_CANCELLED = 'APPOINTMENT_CANCELLED',
+  APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER',
+}
+
+// Variáveis usadas nos templates ({{clientName}}, {{date}}...)
+export type NotificationVariables = Record<string, string>;
+
+// Texto de um template por canal; SMS e WhatsApp usam short quando existir
+export interface NotificationTemplateText {
+  subject: string;
+  text: string;
+  short?: string | undefined;
+}
+
+// Mensagem renderizada, pronta para o canal
+export interface ChannelMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Adaptador de canal de entrega (email, WhatsApp, SMS, in-app)
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  send(message: ChannelMessage): Promise<void>;
+}
+
+// Provedor de mensagens de texto (WhatsApp/SMS) acessado por HTTP
+export interface MessagingProvider {
+  readonly name: string;
+  sendText(channel: 'WHATSAPP' | 'SMS', to: string, text: string): Promise<void>;
+}
+
+// Pedido de notificação a um usuário
+export interface NotifyRequest {
+  userId: string;
+  template: NotificationTemplate;
+  variables: NotificationVariables;
+  channels?: NotificationChannel[] | undefined; // padrão: todos os canais aceitos pelo usuário
+}
+
+// Preferência de um canal
+export interface ChannelPreference {
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+// Atualização de preferências
+export interface UpdatePreferencesRequest {
+  preferences: ChannelPreference[];
+}
+
+// Filtros da caixa de entrada in-app
+export interface InboxFilters {
+  unreadOnly?: boolean | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+// Resultado da reentrega de notificações com falha
+export interface RetryResult {
+  sent: number;
+  failed: number;
+}
@@ -0,0 +1,92 @@
+import { ExceptionType } from '@prisma/client';
+import { OrphanedAppointment } from '@/types/scheduling';
+
+// Mensagens de erro do calendário de exceções
+export enum ExceptionError {
+  EXCEPTION_NOT_FOUND = 'Exceção não encontrada',
+  DATE_TAKEN = 'Já existe exceção cadastrada em uma das datas',
+  INVALID_RANGE = 'Data final deve ser igual ou posterior à data inicial',
+  RANGE_TOO_LONG = 'Período máximo de uma exceção é de 92 dias',
+  SPECIAL_TIMES_REQUIRED = 'Horário especial exige horário de início e de término',
+  MUNICIPALITY_NOT_FOUND = 'Município sem feriados cadastrados',
+}
+
+// Feriado da lista embutida (src/data/holidays-br.json)
+export interface Holiday {
+  date: string; // "YYYY-MM-DD"
+  name: string;
+  scope: 'NATIONAL' | 'MUNICIPAL';
+  optional: boolean; // ponto facultativo
+}
+
+// Tipos de exceção que exigem horário (SPECIAL_HOURS e, para barbeiros, AVAILABLE)
+export const TIMED_EXCEPTION_TYPES: readonly ExceptionType[] = [
+  ExceptionType.SPECIAL_HOURS,
+  ExceptionType.AVAILABLE,
+];
+
+// Exceções da barbearia se limitam a fechamento e horário especial
+export const GLOBAL_EXCEPTION_TYPES = [ExceptionType.CLOSED, ExceptionType.SPECIAL_HOURS] as const;
+
+// Período de datas locais ("YYYY-MM-DD")
+export interface DateRange {
+  startDate: string;
+  endDate?: string | undefined; // padrão: apenas startDate
+}
+
+// Criação de exceção da barbearia (um registro por dia do período)
+export interface CreateGlobalExceptionRequest extends DateRange {
+  type: ExceptionType;
+  reason: string;
+  specialOpenTime?: string | undefined;
+  specialCloseTime?: string | undefined;
+  dryRun?: boolean | undefined;
+}
+
+// Criação de exceção do barbeiro (ex: férias de vários dias)
+export interface CreateBarberExceptionRequest extends DateRange {
+  type: ExceptionType;
+  reason: string;
+  specialStartTime?: string | undefined;
+  specialEndTime?: string | undefined;
+  dryRun?: boolean | undefined;
+}
+
+// Atualização de exceção da barbearia em uma data
+export interface UpdateGlobalExceptionRequest {
+  type?: ExceptionType | undefined;
+  reason?: string | undefined;
+  specialOpenTime?: string | null | undefined;
+  specialCloseTime?: string | null | undefined;
+}
+
+// Atualização de exceção do barbeiro em uma data
+export interface UpdateBarberExceptionRequest {
+  type?: ExceptionType | undefined;
+  reason?: string | undefined;
+  specialStartTime?: string | null | undefined;
+  specialEndTime?: string | null | undefined;
+}
+
+// Importação de feriados como fechamento da barbearia
+export interface ImportHolidaysRequest {
+  year: number;
+  municipality?: string | undefined;
+  includeOptional?: boolean | undefined; // Carnaval e Corpus Christi (pontos facultativos)
+  dryRun?: boolean | undefined;
+}
+
+// Resultado da criação de exceções (dryRun não grava, apenas lista os conflitos)
+export interface ExceptionChangeResult<T> {
+  applied: boolean;
+  exceptions: T[];
+  conflicts: OrphanedAppointment[];
+}
+
+// Resultado da importação de feriados
+export interface HolidayImportResult {
+  applied: boolean;
+  imported: Holiday[];
+  skipped: Holiday[]; // datas que já tinham exceção cadastrada
+  conflicts: OrphanedAppointment[];
+}
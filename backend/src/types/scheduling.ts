@@ -0,0 +1,164 @@
+import { BarberException, BarberSchedule, GlobalException, GlobalSchedule } from '@prisma/client';
+
+// Origem da regra que definiu o horário de um barbeiro em uma data
+export type ScheduleSource =
+  | 'BARBER_EXCEPTION'
+  | 'BARBER_SCHEDULE'
+  | 'GLOBAL_EXCEPTION'
+  | 'GLOBAL_SCHEDULE';
+
+// Intervalo em minutos desde a meia-noite (horário local da barbearia)
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Horário de trabalho efetivo de um barbeiro em uma data
+export interface WorkingHours extends TimeRange {
+  breaks: TimeRange[];
+  source: ScheduleSource;
+}
+
+// Regras aplicáveis a um barbeiro em uma data, em ordem de precedência
+export interface DayScheduleRules {
+  barberException?:
+    | Pick<BarberException, 'type' | 'specialStartTime' | 'specialEndTime'>
+    | null
+    | undefined;
+  barberSchedule?:
+    | Pick<BarberSchedule, 'isWorking' | 'startTime' | 'endTime' | 'breakStart' | 'breakEnd'>
+    | null
+    | undefined;
+  globalException?:
+    | Pick<GlobalException, 'type' | 'specialOpenTime' | 'specialCloseTime'>
+    | null
+    | undefined;
+  globalSchedule?:
+    | Pick<GlobalSchedule, 'isOpen' | 'openTime' | 'closeTime' | 'lunchStart' | 'lunchEnd'>
+    | null
+    | undefined;
+}
+
+// Intervalo ocupado (agendamento existente)
+export interface BusyInterval {
+  startTime: Date;
+  endTime: Date;
+}
+
+// Slot gerado para uma data
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+// Parâmetros de consulta de disponibilidade
+export interface AvailabilityQuery {
+  serviceId?: string | undefined;
+  serviceIds?: string[] | undefined; // serviços feitos em sequência pelo mesmo barbeiro
+  barberId?: string | undefined;
+  startDate: string; // "YYYY-MM-DD"
+  endDate?: string | undefined; // "YYYY-MM-DD"
+}
+
+// Slot disponível para agendamento
+export interface AvailableSlot extends TimeSlot {
+  date: string; // data local da barbearia
+  barberId: string;
+  barberName: string;
+  price: number;
+}
+
+// Resposta de disponibilidade
+export interface AvailabilityResponse {
+  barbershopId: string;
+  timezone: string;
+  services: {
+    id: string;
+    name: string;
+    duration: number;
+  }[];
+  duration: number; // soma das durações dos serviços
+  startDate: string;
+  endDate: string;
+  slots: AvailableSlot[];
+}
+
+// Mensagens de erro do editor de horários semanais
+export enum ScheduleError {
+  BARBERSHOP_NOT_FOUND = 'Barbearia não encontrada',
+  BARBER_NOT_FOUND = 'Barbeiro não encontrado',
+  SELF_ONLY = 'Barbeiros só podem alterar o próprio horário',
+}
+
+// Horário de funcionamento da barbearia em um dia da semana
+export interface GlobalScheduleDay {
+  dayOfWeek: number; // 0 = domingo, 1 = segunda, etc.
+  isOpen: boolean;
+  openTime: string; // "HH:MM"
+  closeTime: string;
+  lunchStart?: string | null | undefined;
+  lunchEnd?: string | null | undefined;
+}
+
+// Horário individual de um barbeiro em um dia da semana
+export interface BarberScheduleDay {
+  dayOfWeek: number;
+  isWorking: boolean;
+  startTime: string; // "HH:MM"
+  endTime: string;
+  breakStart?: string | null | undefined;
+  breakEnd?: string | null | undefined;
+}
+
+// Atualização em lote da semana (force aplica mesmo com agendamentos fora do novo horário)
+export interface UpdateWeekRequest<T> {
+  days: T[];
+  force?: boolean | undefined;
+}
+
+// Agendamento futuro que deixaria de caber no horário após a alteração
+export interface OrphanedAppointment {
+  appointmentId: string;
+  barberId: string;
+  barberName: string;
+  clientName: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// Regras propostas para simular o impacto de uma alteração antes de aplicá-la
+// As regras individuais valem para o barbeiro informado no filtro
+export interface ProposedScheduleRules {
+  globalSchedules?: Map<number, DayScheduleRules['globalSchedule']>; // por dia da semana
+  globalExceptions?: Map<string, DayScheduleRules['globalException']>; // por data "YYYY-MM-DD"
+  barberSchedules?: Map<number, DayScheduleRules['barberSchedule']>;
+  barberExceptions?: Map<string, DayScheduleRules['barberException']>;
+}
+
+// Recorte dos agendamentos avaliados na simulação
+export interface OrphanedAppointmentsFilter {
+  barberId?: string | undefined;
+  startDate?: string | undefined; // "YYYY-MM-DD"
+  endDate?: string | undefined;
+}
+
+// Resultado de uma alteração de horários semanais
+export interface ScheduleChangeResult<T> {
+  applied: boolean;
+  schedule: T[];
+  orphaned: OrphanedAppointment[];
+}
+
+// Horário inicial de uma nova barbearia (mesmo padrão do formulário do frontend)
+export const DEFAULT_GLOBAL_SCHEDULE: readonly Pick<
+  GlobalScheduleDay,
+  'dayOfWeek' | 'isOpen' | 'openTime' | 'closeTime'
+>[] = [
+  { dayOfWeek: 0, isOpen: false, openTime: '08:00', closeTime: '12:00' },
+  { dayOfWeek: 1, isOpen: true, openTime: '08:00', closeTime: '18:00' },
+  { dayOfWeek: 2, isOpen: true, openTime: '08:00', closeTime: '18:00' },
+  { dayOfWeek: 3, isOpen: true, openTime: '08:00', closeTime: '18:00' },
+  { dayOfWeek: 4, isOpen: true, openTime: '08:00', closeTime: '18:00' },
+  { dayOfWeek: 5, isOpen: true, openTime: '08:00', closeTime: '18:00' },
+  { dayOfWeek: 6, isOpen: true, openTime: '08:00', closeTime: '16:00' },
+];
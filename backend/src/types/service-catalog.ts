@@ -0,0 +1,55 @@
+import { Prisma } from '@prisma/client';
+
+// Mensagens de erro do catálogo de serviços
+export enum CatalogError {
+  BARBERSHOP_NOT_FOUND = 'Barbearia não encontrada',
+  SERVICE_NOT_FOUND = 'Serviço não encontrado',
+  BARBER_NOT_FOUND = 'Barbeiro não encontrado',
+  CATEGORY_NOT_FOUND = 'Categoria não encontrada',
+  ASSIGNMENT_NOT_FOUND = 'Serviço não atribuído a este barbeiro',
+}
+
+// Interface para criação de serviço
+export interface CreateServiceRequest {
+  name: string;
+  description?: string | undefined;
+  duration: number; // em minutos
+  price: number;
+  category?: string | undefined;
+}
+
+// Interface para atualização de serviço (isActive reativa/desativa)
+export interface UpdateServiceRequest {
+  name?: string | undefined;
+  description?: string | null | undefined;
+  duration?: number | undefined;
+  price?: number | undefined;
+  category?: string | null | undefined;
+  isActive?: boolean | undefined;
+}
+
+// Interface para atribuição de serviço a um barbeiro
+export interface AssignBarberServiceRequest {
+  customPrice?: number | null | undefined; // null volta a usar o preço base
+  isActive?: boolean | undefined;
+}
+
+// Categoria de serviços com contagem
+export interface ServiceCategorySummary {
+  name: string;
+  services: number;
+}
+
+// Serviço com os barbeiros que o executam e o preço efetivo (docs/regras_agendamento.md)
+export interface ServiceAvailability {
+  serviceId: string;
+  serviceName: string;
+  description: string | null;
+  category: string | null;
+  duration: number;
+  availableBarbers: {
+    barberId: string;
+    barberName: string;
+    price: Prisma.Decimal;
+  }[];
+}
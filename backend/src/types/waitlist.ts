@@ -0,0 +1,58 @@
+import { WaitlistStatus } from '@prisma/client';
+
+// Mensagens de erro da lista de espera
+export enum WaitlistError {
+  NOT_FOUND = 'Inscrição na lista de espera não encontrada',
+  ACCESS_DENIED = 'Acesso negado a esta inscrição',
+  BARBERSHOP_NOT_FOUND = 'Barbearia não encontrada',
+  SERVICE_NOT_FOUND = 'Serviço não encontrado',
+  BARBER_NOT_FOUND = 'Barbeiro não encontrado',
+  SERVICE_NOT_OFFERED = 'Este barbeiro não executa este serviço',
+  PAST_DATE = 'Data desejada já passou',
+  WINDOW_TOO_SHORT = 'Janela de horário menor que a duração do serviço',
+  ALREADY_WAITING = 'Você já está na lista de espera para este serviço nesta data',
+  NOT_ACTIVE = 'Inscrição não está mais ativa',
+  NO_ACTIVE_OFFER = 'Não há oferta de horário pendente para esta inscrição',
+  OFFER_EXPIRED = 'A oferta de horário expirou',
+}
+
+// Inscrição na lista de espera
+export interface JoinWaitlistRequest {
+  barbershopId: string;
+  serviceId: string;
+  barberId?: string | undefined; // sem barbeiro: qualquer um que execute o serviço
+  desiredDate: string; // "YYYY-MM-DD"
+  windowStart: string; // "HH:MM" no fuso da barbearia
+  windowEnd: string;
+  clientId?: string | undefined; // inscrição administrativa em nome do cliente
+}
+
+// Filtros de listagem
+export interface WaitlistFilters {
+  barbershopId?: string | undefined;
+  status?: WaitlistStatus | undefined;
+  date?: string | undefined; // "YYYY-MM-DD"
+}
+
+// Intervalo liberado na agenda de um barbeiro (cancelamento ou remarcação)
+export interface FreedSlot {
+  barbershopId: string;
+  barberId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// Reserva temporária de um horário para a inscrição que recebeu a oferta
+export interface WaitlistHold {
+  entryId: string;
+  clientId: string;
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+// Resultado da varredura periódica de ofertas vencidas
+export interface WaitlistSweepResult {
+  expiredOffers: number;
+  expiredEntries: number;
+}
@@ -0,0 +1,31 @@
+import { Response } from 'express';
+import { ApiResponse } from '@/types/api';
+
+// Status HTTP e código de erro por mensagem de erro de negócio
+export type ErrorResponseMap = Record<string, { status: number; error: string }>;
+
+/**
+ * Responder o erro de negócio conforme o mapeamento do controller, ou erro interno
+ */
+export function sendMappedError(
+  res: Response<ApiResponse>,
+  error: unknown,
+  map: ErrorResponseMap
+): void {
+  const mapped = error instanceof Error ? map[error.message] : undefined;
+
+  if (mapped && error instanceof Error) {
+    res.status(mapped.status).json({
+      success: false,
+      message: error.message,
+      error: mapped.error,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: 'Erro interno do servidor',
+    error: 'INTERNAL_ERROR',
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Feriados brasileiros a partir da lista em src/data/holidays-br.json
+ * Datas móveis (Carnaval, Sexta-feira Santa, Corpus Christi) são calculadas a partir da Páscoa
+ */
+
+import holidayData from '@/data/holidays-br.json';
+import { Holiday } from '@/types/schedule-exception';
+import { addDaysToDate } from '@/utils/timezone';
+
+interface FixedHoliday {
+  date: string; // "MM-DD"
+  name: string;
+  since?: number;
+}
+
+const municipalHolidays: Record<string, FixedHoliday[] | undefined> = holidayData.municipal;
+
+/**
+ * Municípios com feriados cadastrados (ex: "sao-paulo-sp")
+ */
+export function listMunicipalities(): string[] {
+  return Object.keys(municipalHolidays).sort();
+}
+
+/**
+ * Domingo de Páscoa ("YYYY-MM-DD") pelo algoritmo de Meeus/Jones/Butcher
+ */
+export function getEasterDate(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Feriados de um ano, em ordem de data
+ * Retorna undefined para município sem feriados cadastrados
+ */
+export function getBrazilianHolidays(
+  year: number,
+  options: { municipality?: string | undefined; includeOptional?: boolean | undefined } = {}
+): Holiday[] | undefined {
+  const municipal = options.municipality ? municipalHolidays[options.municipality] : [];
+
+  if (!municipal) {
+    return undefined;
+  }
+
+  const fixed = (items: FixedHoliday[], scope: Holiday['scope']): Holiday[] =>
+    items
+      .filter((item) => item.since === undefined || year >= item.since)
+      .map((item) => ({ date: `${year}-${item.date}`, name: item.name, scope, optional: false }));
+
+  const easter = getEasterDate(year);
+  const movable: Holiday[] = holidayData.movable.map((item) => ({
+    date: addDaysToDate(easter, item.easterOffset),
+    name: item.name,
+    scope: 'NATIONAL',
+    optional: item.optional ?? false,
+  }));
+
+  return [...fixed(holidayData.national, 'NATIONAL'), ...movable, ...fixed(municipal, 'MUNICIPAL')]
+    .filter((holiday) => options.includeOptional || !holiday.optional)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
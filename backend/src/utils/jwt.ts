@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import { config } from '@/config/env';
+import { AppointmentActionPayload } from '@/types/appointment';
 import { JWTPayload, RefreshTokenPayload } from '@/types/auth';
 import { logger } from '@/config/logger';
 
@@ -9,6 +10,7 @@ export class JWTManager {
   private static refreshTokenSecret = config.jwt.secret + '_refresh';
   private static accessTokenExpiry = config.jwt.expiresIn;
   private static refreshTokenExpiry = config.jwt.refreshExpiresIn;
+  private static appointmentActionSecret = config.jwt.secret + '_appointment_action';
 
   /**
    * Gerar access token
@@ -88,6 +90,45 @@ export class JWTManager {
     }
   }
 
+  /**
+   * Gerar token do link de confirmação/cancelamento enviado no lembrete
+   * Vale até o instante informado (normalmente o início do agendamento)
+   */
+  static generateAppointmentActionToken(
+    payload: AppointmentActionPayload,
+    expiresAt: Date
+  ): string {
+    return jwt.sign(payload, JWTManager.appointmentActionSecret, {
+      subject: payload.appointmentId,
+      expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+      issuer: 'saas-barbearias',
+      audience: 'saas-barbearias-appointment-action',
+    });
+  }
+
+  /**
+   * Verificar token do link de confirmação/cancelamento
+   */
+  static verifyAppointmentActionToken(token: string): AppointmentActionPayload {
+    try {
+      const decoded = jwt.verify(token, JWTManager.appointmentActionSecret, {
+        issuer: 'saas-barbearias',
+        audience: 'saas-barbearias-appointment-action',
+      }) as AppointmentActionPayload;
+
+      return { appointmentId: decoded.appointmentId, action: decoded.action };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error('Token expirado');
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        throw new Error('Token inválido');
+      }
+      logger.error('Erro ao verificar token de ação do agendamento:', error);
+      throw new Error('Erro interno do servidor');
+    }
+  }
+
   /**
    * Decodificar token sem verificar (para debug)
    */
@@ -104,9 +145,20 @@ export class JWTManager {
    * Obter tempo de expiração do token em segundos
    */
   static getTokenExpirationTime(): number {
-    // Converter string como "7d" para segundos
-    const expiry = JWTManager.accessTokenExpiry;
+    return JWTManager.parseExpiry(JWTManager.accessTokenExpiry);
+  }
 
+  /**
+   * Obter tempo de expiração do refresh token em segundos
+   */
+  static getRefreshTokenExpirationTime(): number {
+    return JWTManager.parseExpiry(JWTManager.refreshTokenExpiry);
+  }
+
+  /**
+   * Converter string como "7d" para segundos
+   */
+  private static parseExpiry(expiry: string): number {
     if (expiry.endsWith('d')) {
       return parseInt(expiry) * 24 * 60 * 60;
     }
@@ -150,4 +202,5 @@ export const verifyAccessToken = JWTManager.verifyAccessToken;
 export const verifyRefreshToken = JWTManager.verifyRefreshToken;
 export const decodeToken = JWTManager.decodeToken;
 export const getTokenExpirationTime = JWTManager.getTokenExpirationTime;
+export const getRefreshTokenExpirationTime = JWTManager.getRefreshTokenExpirationTime;
 export const isTokenNearExpiry = JWTManager.isTokenNearExpiry;
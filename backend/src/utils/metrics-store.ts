@@ -0,0 +1,234 @@
+/**
+ * Armazenamento das métricas agregadas por minuto
+ * Em memória (padrão e testes) ou no Redis, compartilhado entre as instâncias e preservado em reinícios.
+ */
+
+import type Redis from 'ioredis';
+
+// Contadores de um minuto (campos: requests, duration, errors, route|<rota>|count, error|<id>...)
+export type MinuteBucket = Record<string, number>;
+
+// Dados de exemplo de um erro agrupado (o primeiro registrado com aquele tipo e mensagem)
+export interface ErrorDetails {
+  type: string;
+  message: string;
+  stack?: string | undefined;
+  endpoint?: string | undefined;
+  userId?: string | undefined;
+}
+
+export interface MetricsStore {
+  // Somar aos contadores do minuto (gravação assíncrona, sem aguardar)
+  increment(minute: number, fields: MinuteBucket): void;
+  saveErrorDetails(id: string, details: ErrorDetails): void;
+  readBuckets(fromMinute: number, toMinute: number): Promise<Map<number, MinuteBucket>>;
+  readErrorDetails(ids: string[]): Promise<Map<string, ErrorDetails>>;
+  flush(): Promise<void>;
+}
+
+export const toMinute = (date: Date): number => Math.floor(date.getTime() / 60000);
+
+const addFields = (target: MinuteBucket, fields: MinuteBucket): void => {
+  Object.entries(fields).forEach(([field, value]) => {
+    target[field] = (target[field] ?? 0) + value;
+  });
+};
+
+/**
+ * Armazenamento no próprio processo (perdido ao reiniciar)
+ */
+export class MemoryMetricsStore implements MetricsStore {
+  private readonly buckets = new Map<number, MinuteBucket>();
+  private readonly errors = new Map<string, ErrorDetails>();
+
+  constructor(private readonly retentionMinutes: number) {}
+
+  increment(minute: number, fields: MinuteBucket): void {
+    const bucket = this.buckets.get(minute) ?? {};
+    addFields(bucket, fields);
+    this.buckets.set(minute, bucket);
+  }
+
+  saveErrorDetails(id: string, details: ErrorDetails): void {
+    if (!this.errors.has(id)) {
+      this.errors.set(id, details);
+    }
+  }
+
+  async readBuckets(fromMinute: number, toMinute: number): Promise<Map<number, MinuteBucket>> {
+    return new Map(
+      [...this.buckets].filter(([minute]) => minute >= fromMinute && minute <= toMinute)
+    );
+  }
+
+  async readErrorDetails(ids: string[]): Promise<Map<string, ErrorDetails>> {
+    return new Map(
+      ids.flatMap((id) => {
+        const details = this.errors.get(id);
+        return details ? [[id, details] as const] : [];
+      })
+    );
+  }
+
+  async flush(): Promise<void> {
+    // Nada a gravar: os contadores já estão em memória
+  }
+
+  /**
+   * Remover minutos fora da retenção
+   */
+  prune(now: Date = new Date()): void {
+    const cutoff = toMinute(now) - this.retentionMinutes;
+    [...this.buckets.keys()]
+      .filter((minute) => minute < cutoff)
+      .forEach((minute) => this.buckets.delete(minute));
+  }
+}
+
+/**
+ * Armazenamento no Redis: um hash por minuto (metrics:minute:<minuto>) com expiração pela retenção
+ * Os incrementos são acumulados localmente e enviados em lote a cada FLUSH_INTERVAL_MS.
+ */
+export class RedisMetricsStore implements MetricsStore {
+  static readonly FLUSH_INTERVAL_MS = 5000;
+
+  private pending = new Map<number, MinuteBucket>();
+  private pendingErrors = new Map<string, ErrorDetails>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly client: Redis,
+    private readonly retentionMinutes: number,
+    private readonly prefix: string
+  ) {}
+
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.flush();
+      }, RedisMetricsStore.FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.flush();
+  }
+
+  increment(minute: number, fields: MinuteBucket): void {
+    const bucket = this.pending.get(minute) ?? {};
+    addFields(bucket, fields);
+    this.pending.set(minute, bucket);
+  }
+
+  saveErrorDetails(id: string, details: ErrorDetails): void {
+    this.pendingErrors.set(id, details);
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending.size === 0 && this.pendingErrors.size === 0) {
+      return;
+    }
+
+    const pending = this.pending;
+    const pendingErrors = this.pendingErrors;
+    this.pending = new Map();
+    this.pendingErrors = new Map();
+
+    const ttlSeconds = this.retentionMinutes * 60;
+    const pipeline = this.client.pipeline();
+
+    pending.forEach((fields, minute) => {
+      const key = this.bucketKey(minute);
+      Object.entries(fields).forEach(([field, value]) => {
+        if (Number.isInteger(value)) {
+          pipeline.hincrby(key, field, value);
+        } else {
+          pipeline.hincrbyfloat(key, field, value);
+        }
+      });
+      pipeline.expire(key, ttlSeconds);
+    });
+
+    pendingErrors.forEach((details, id) => {
+      pipeline.hsetnx(`${this.prefix}errors`, id, JSON.stringify(details));
+    });
+    if (pendingErrors.size > 0) {
+      pipeline.expire(`${this.prefix}errors`, ttlSeconds);
+    }
+
+    try {
+      await pipeline.exec();
+    } catch (error) {
+      // Redis indisponível: devolve os contadores para a próxima tentativa
+      pending.forEach((fields, minute) => this.increment(minute, fields));
+      pendingErrors.forEach((details, id) => {
+        if (!this.pendingErrors.has(id)) this.pendingErrors.set(id, details);
+      });
+      console.error('Falha ao gravar métricas no Redis:', (error as Error).message);
+    }
+  }
+
+  async readBuckets(fromMinute: number, toMinute: number): Promise<Map<number, MinuteBucket>> {
+    const oldest = toMinute - this.retentionMinutes;
+    const minutes: number[] = [];
+    for (let minute = Math.max(fromMinute, oldest); minute <= toMinute; minute++) {
+      minutes.push(minute);
+    }
+
+    const pipeline = this.client.pipeline();
+    minutes.forEach((minute) => pipeline.hgetall(this.bucketKey(minute)));
+    const results = (await pipeline.exec()) ?? [];
+
+    const buckets = new Map<number, MinuteBucket>();
+    minutes.forEach((minute, index) => {
+      const [error, raw] = results[index] ?? [];
+      const bucket = Object.fromEntries(
+        Object.entries(error ? {} : ((raw as Record<string, string> | null) ?? {})).map(
+          ([field, value]) => [field, Number(value)]
+        )
+      );
+
+      // Soma o que ainda não foi enviado por esta instância
+      const pending = this.pending.get(minute);
+      if (pending) addFields(bucket, pending);
+
+      if (Object.keys(bucket).length > 0) {
+        buckets.set(minute, bucket);
+      }
+    });
+
+    return buckets;
+  }
+
+  async readErrorDetails(ids: string[]): Promise<Map<string, ErrorDetails>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const values = await this.client.hmget(`${this.prefix}errors`, ...ids);
+    const details = new Map<string, ErrorDetails>();
+
+    ids.forEach((id, index) => {
+      const value = values[index] ?? null;
+      const fallback = this.pendingErrors.get(id);
+
+      if (value) {
+        details.set(id, JSON.parse(value) as ErrorDetails);
+      } else if (fallback) {
+        details.set(id, fallback);
+      }
+    });
+
+    return details;
+  }
+
+  private bucketKey(minute: number): string {
+    return `${this.prefix}minute:${minute}`;
+  }
+}
@@ -2,45 +2,106 @@
  * Sistema de métricas e monitoramento
  */
 
+import crypto from 'crypto';
 import { PerformanceMetrics, ErrorMetrics, SecurityEvent, BusinessEvent } from '@/types/logging';
+import type { CacheStats } from '@/services/cache.service';
+import { config } from '@/config/env';
+import { CollectedMetric, Counter, Histogram, renderOpenMetrics } from '@/utils/openmetrics';
+import { MemoryMetricsStore, MetricsStore, MinuteBucket, toMinute } from '@/utils/metrics-store';
+
+// Limites dos histogramas (segundos)
+const HTTP_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const DB_QUERY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+// Janela padrão para os erros mais frequentes
+const TOP_ERRORS_WINDOW = 24 * 60 * 60 * 1000;
+
+// Soma um campo nos minutos lidos do armazenamento
+const sumField = (buckets: MinuteBucket[], field: string): number =>
+  buckets.reduce((sum, bucket) => sum + (bucket[field] ?? 0), 0);
 
 class MetricsCollector {
-  private performanceMetrics: PerformanceMetrics[] = [];
-  private errorMetrics: Map<string, ErrorMetrics> = new Map();
+  // Agregados por minuto; o armazenamento no Redis é configurado na inicialização do servidor
+  private store: MetricsStore = new MemoryMetricsStore(config.monitoring.metricsRetentionDays * 24 * 60);
   private securityEvents: SecurityEvent[] = [];
   private businessEvents: BusinessEvent[] = [];
   private readonly maxMetricsSize = 1000;
 
+  // Séries exportadas em /metrics (acumuladas desde o início do processo, sem o limite acima)
+  private readonly httpRequestDuration = new Histogram(
+    'http_request_duration_seconds',
+    'Duração das requisições HTTP por rota',
+    ['method', 'route'],
+    HTTP_DURATION_BUCKETS
+  );
+  private readonly httpResponses = new Counter(
+    'http_responses',
+    'Respostas HTTP por rota e código de status',
+    ['method', 'route', 'status_code']
+  );
+  private readonly dbQueryDuration = new Histogram(
+    'db_query_duration_seconds',
+    'Duração das consultas ao banco de dados',
+    [],
+    DB_QUERY_BUCKETS
+  );
+  private readonly businessEventCount = new Counter(
+    'business_events',
+    'Eventos de negócio por tipo',
+    ['type']
+  );
+  private readonly appointmentsCreated = new Counter(
+    'appointments_created',
+    'Agendamentos criados'
+  );
+  private readonly appointmentsCancelled = new Counter(
+    'appointments_cancelled',
+    'Agendamentos cancelados'
+  );
+
+  /**
+   * Trocar o armazenamento dos agregados (ex: Redis, compartilhado entre as instâncias)
+   */
+  useStore(store: MetricsStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Enviar ao armazenamento os contadores ainda pendentes (graceful shutdown)
+   */
+  async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
   /**
    * Coletar métricas de performance
    */
   collectPerformance(metrics: PerformanceMetrics): void {
-    this.performanceMetrics.push(metrics);
-    
-    // Manter apenas os últimos N registros
-    if (this.performanceMetrics.length > this.maxMetricsSize) {
-      this.performanceMetrics = this.performanceMetrics.slice(-this.maxMetricsSize);
-    }
+    const endpoint = `${metrics.method} ${metrics.endpoint}`;
+
+    this.store.increment(toMinute(metrics.timestamp), {
+      requests: 1,
+      duration: metrics.duration,
+      errors: metrics.statusCode >= 400 ? 1 : 0,
+      [`route|${endpoint}|count`]: 1,
+      [`route|${endpoint}|duration`]: metrics.duration,
+    });
   }
 
   /**
-   * Coletar métricas de erro
+   * Coletar métricas de erro (agrupadas por tipo e mensagem)
    */
   collectError(error: Omit<ErrorMetrics, 'count' | 'firstOccurrence' | 'lastOccurrence'>): void {
-    const key = `${error.type}:${error.message}`;
-    const existing = this.errorMetrics.get(key);
-    
-    if (existing) {
-      existing.count++;
-      existing.lastOccurrence = new Date();
-    } else {
-      this.errorMetrics.set(key, {
-        ...error,
-        count: 1,
-        firstOccurrence: new Date(),
-        lastOccurrence: new Date(),
-      });
-    }
+    const id = crypto.createHash('sha1').update(`${error.type}:${error.message}`).digest('hex').slice(0, 16);
+
+    this.store.increment(toMinute(new Date()), { [`error|${id}`]: 1 });
+    this.store.saveErrorDetails(id, {
+      type: error.type,
+      message: error.message,
+      stack: error.stack,
+      endpoint: error.endpoint,
+      userId: error.userId,
+    });
   }
 
   /**
@@ -50,6 +111,10 @@ class MetricsCollector {
     this.securityEvents.push({
       ...event,
     });
+
+    if (event.severity === 'HIGH' || event.severity === 'CRITICAL') {
+      this.store.increment(toMinute(new Date()), { securityAlerts: 1 });
+    }
     
     // Manter apenas os últimos eventos
     if (this.securityEvents.length > this.maxMetricsSize) {
@@ -57,11 +122,43 @@ class MetricsCollector {
     }
   }
 
+  /**
+   * Registrar requisição HTTP concluída (route = rota declarada, ex: /api/appointments/:id)
+   */
+  observeRequest(method: string, route: string, statusCode: number, durationMs: number): void {
+    this.httpRequestDuration.observe({ method, route }, durationMs / 1000);
+    this.httpResponses.inc({ method, route, status_code: String(statusCode) });
+
+    this.collectPerformance({
+      endpoint: route,
+      method,
+      duration: durationMs,
+      statusCode,
+      memoryUsage: process.memoryUsage().heapUsed,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Registrar duração de consulta ao banco (evento "query" do Prisma)
+   */
+  observeDatabaseQuery(durationMs: number): void {
+    this.dbQueryDuration.observe({}, durationMs / 1000);
+  }
+
   /**
    * Registrar evento de negócio
    */
   recordBusinessEvent(event: BusinessEvent): void {
     this.businessEvents.push(event);
+    this.businessEventCount.inc({ type: event.type });
+    this.store.increment(toMinute(new Date()), { businessEvents: 1 });
+
+    if (event.type === 'APPOINTMENT_CREATION') {
+      this.appointmentsCreated.inc();
+    } else if (event.type === 'APPOINTMENT_STATUS_CHANGE' && event.changes?.['status']?.to === 'CANCELLED') {
+      this.appointmentsCancelled.inc();
+    }
     
     // Manter apenas os últimos eventos
     if (this.businessEvents.length > this.maxMetricsSize) {
@@ -70,18 +167,18 @@ class MetricsCollector {
   }
 
   /**
-   * Obter estatísticas de performance
+   * Obter estatísticas de performance (todas as instâncias quando o armazenamento é compartilhado)
    */
-  getPerformanceStats(timeWindow: number = 3600000): {
+  async getPerformanceStats(timeWindow: number = 3600000): Promise<{
     averageResponseTime: number;
     requestCount: number;
     errorRate: number;
     slowestEndpoints: Array<{ endpoint: string; avgDuration: number }>;
-  } {
-    const cutoff = new Date(Date.now() - timeWindow);
-    const recentMetrics = this.performanceMetrics.filter(m => m.timestamp >= cutoff);
-    
-    if (recentMetrics.length === 0) {
+  }> {
+    const buckets = [...(await this.readWindow(timeWindow)).values()];
+    const requestCount = sumField(buckets, 'requests');
+
+    if (requestCount === 0) {
       return {
         averageResponseTime: 0,
         requestCount: 0,
@@ -90,20 +187,25 @@ class MetricsCollector {
       };
     }
 
-    const totalDuration = recentMetrics.reduce((sum, m) => sum + m.duration, 0);
-    const errorCount = recentMetrics.filter(m => m.statusCode >= 400).length;
-    
-    // Agrupar por endpoint
+    // Agrupar por endpoint (campos route|<método rota>|count e route|<método rota>|duration)
     const endpointStats = new Map<string, { totalDuration: number; count: number }>();
-    recentMetrics.forEach(m => {
-      const key = `${m.method} ${m.endpoint}`;
-      const existing = endpointStats.get(key) || { totalDuration: 0, count: 0 };
-      existing.totalDuration += m.duration;
-      existing.count++;
-      endpointStats.set(key, existing);
+    buckets.forEach(bucket => {
+      Object.entries(bucket).forEach(([field, value]) => {
+        const match = /^route\|(.+)\|(count|duration)$/.exec(field);
+        if (!match?.[1]) return;
+
+        const existing = endpointStats.get(match[1]) ?? { totalDuration: 0, count: 0 };
+        if (match[2] === 'count') {
+          existing.count += value;
+        } else {
+          existing.totalDuration += value;
+        }
+        endpointStats.set(match[1], existing);
+      });
     });
 
     const slowestEndpoints = Array.from(endpointStats.entries())
+      .filter(([, stats]) => stats.count > 0)
       .map(([endpoint, stats]) => ({
         endpoint,
         avgDuration: stats.totalDuration / stats.count,
@@ -112,20 +214,46 @@ class MetricsCollector {
       .slice(0, 10);
 
     return {
-      averageResponseTime: totalDuration / recentMetrics.length,
-      requestCount: recentMetrics.length,
-      errorRate: (errorCount / recentMetrics.length) * 100,
+      averageResponseTime: sumField(buckets, 'duration') / requestCount,
+      requestCount,
+      errorRate: (sumField(buckets, 'errors') / requestCount) * 100,
       slowestEndpoints,
     };
   }
 
   /**
-   * Obter erros mais frequentes
+   * Obter erros mais frequentes na janela (ocorrências com precisão de minuto)
    */
-  getTopErrors(limit: number = 10): ErrorMetrics[] {
-    return Array.from(this.errorMetrics.values())
-      .sort((a, b) => b.count - a.count)
+  async getTopErrors(limit: number = 10, timeWindow: number = TOP_ERRORS_WINDOW): Promise<ErrorMetrics[]> {
+    const buckets = await this.readWindow(timeWindow);
+    const counts = new Map<string, { count: number; first: number; last: number }>();
+
+    buckets.forEach((bucket, minute) => {
+      Object.entries(bucket).forEach(([field, value]) => {
+        if (!field.startsWith('error|') || value <= 0) return;
+
+        const id = field.slice('error|'.length);
+        const existing = counts.get(id) ?? { count: 0, first: minute, last: minute };
+        existing.count += value;
+        existing.first = Math.min(existing.first, minute);
+        existing.last = Math.max(existing.last, minute);
+        counts.set(id, existing);
+      });
+    });
+
+    const top = Array.from(counts.entries())
+      .sort(([, a], [, b]) => b.count - a.count)
       .slice(0, limit);
+    const details = await this.store.readErrorDetails(top.map(([id]) => id));
+
+    return top.map(([id, stats]) => ({
+      type: 'Error',
+      message: 'Erro sem detalhes registrados',
+      ...details.get(id),
+      count: stats.count,
+      firstOccurrence: new Date(stats.first * 60000),
+      lastOccurrence: new Date(stats.last * 60000),
+    }));
   }
 
   /**
@@ -149,32 +277,71 @@ class MetricsCollector {
   }
 
   /**
-   * Obter resumo geral do sistema
+   * Obter resumo geral do sistema (memória e uptime são desta instância)
    */
-  getSystemSummary() {
+  async getSystemSummary() {
     const memoryUsage = process.memoryUsage();
     const uptime = process.uptime();
-    
+    const [performance, topErrors, lastHour] = await Promise.all([
+      this.getPerformanceStats(),
+      this.getTopErrors(5),
+      this.readWindow(3600000),
+    ]);
+
     return {
-      performance: this.getPerformanceStats(),
-      topErrors: this.getTopErrors(5),
-      securityAlerts: this.getRecentSecurityEvents().filter(e => 
-        e.severity === 'HIGH' || e.severity === 'CRITICAL'
-      ).length,
-      businessActivity: this.getRecentBusinessEvents().length,
+      performance,
+      topErrors,
+      securityAlerts: sumField([...lastHour.values()], 'securityAlerts'),
+      businessActivity: sumField([...lastHour.values()], 'businessEvents'),
       memoryUsage,
       uptime,
     };
   }
 
+  /**
+   * Exportar as séries no formato OpenMetrics
+   */
+  toOpenMetrics(cacheStats: CacheStats): string {
+    const memoryUsage = process.memoryUsage();
+
+    return renderOpenMetrics([
+      this.httpRequestDuration,
+      this.httpResponses,
+      this.dbQueryDuration,
+      new CollectedMetric('cache_hits', 'Leituras encontradas no cache', 'counter', () => [
+        { value: cacheStats.hits },
+      ]),
+      new CollectedMetric('cache_misses', 'Leituras não encontradas no cache', 'counter', () => [
+        { value: cacheStats.misses },
+      ]),
+      new CollectedMetric('cache_errors', 'Erros nas operações de cache', 'counter', () => [
+        { value: cacheStats.errors },
+      ]),
+      this.businessEventCount,
+      this.appointmentsCreated,
+      this.appointmentsCancelled,
+      new CollectedMetric('process_uptime_seconds', 'Tempo desde o início do processo', 'gauge', () => [
+        { value: Math.floor(process.uptime()) },
+      ]),
+      new CollectedMetric('process_heap_used_bytes', 'Memória heap em uso', 'gauge', () => [
+        { value: memoryUsage.heapUsed },
+      ]),
+      new CollectedMetric('process_resident_memory_bytes', 'Memória residente do processo', 'gauge', () => [
+        { value: memoryUsage.rss },
+      ]),
+    ]);
+  }
+
   /**
    * Limpar métricas antigas
    */
   cleanup(): void {
     const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000); // 24 horas
-    
-    // Limpar métricas de performance
-    this.performanceMetrics = this.performanceMetrics.filter(m => m.timestamp >= cutoff);
+
+    // Agregados em memória fora da retenção (no Redis, expiram sozinhos)
+    if (this.store instanceof MemoryMetricsStore) {
+      this.store.prune();
+    }
     
     // Limpar eventos de segurança
     this.securityEvents = this.securityEvents.filter(e => 
@@ -186,14 +353,20 @@ class MetricsCollector {
       new Date(e.metadata?.['timestamp'] ?? Date.now()) >= cutoff
     );
   }
+
+  // Minutos da janela, do mais antigo ao atual
+  private async readWindow(timeWindow: number): Promise<Map<number, MinuteBucket>> {
+    const now = new Date();
+    return this.store.readBuckets(toMinute(new Date(now.getTime() - timeWindow)), toMinute(now));
+  }
 }
 
 // Instância singleton
 export const metricsCollector = new MetricsCollector();
 
-// Configurar limpeza automática a cada hora
+// Configurar limpeza automática a cada hora (sem impedir o processo de encerrar)
 setInterval(() => {
   metricsCollector.cleanup();
-}, 60 * 60 * 1000);
+}, 60 * 60 * 1000).unref();
 
 export default metricsCollector;
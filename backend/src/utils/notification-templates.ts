@@ -0,0 +1,107 @@
+/**
+ * Templates de notificação em pt-BR
+ * Variáveis no formato {{nome}}; variáveis ausentes são removidas do texto
+ */
+
+import {
+  NotificationTemplate,
+  NotificationTemplateText,
+  NotificationVariables,
+} from '@/types/notification';
+
+const TEMPLATES: Record<NotificationTemplate, NotificationTemplateText> = {
+  [NotificationTemplate.APPOINTMENT_CREATED]: {
+    subject: 'Agendamento realizado - {{barbershopName}}',
+    text: [
+      'Olá, {{clientName}}!',
+      '',
+      'Seu horário de {{serviceName}} com {{barberName}} foi agendado para {{date}} às {{time}}.',
+      'Você receberá uma confirmação da barbearia em breve.',
+    ].join('\n'),
+    short: '{{barbershopName}}: {{serviceName}} com {{barberName}} em {{date}} às {{time}}.',
+  },
+  [NotificationTemplate.APPOINTMENT_CONFIRMED]: {
+    subject: 'Agendamento confirmado - {{barbershopName}}',
+    text: [
+      'Olá, {{clientName}}!',
+      '',
+      'Seu horário de {{serviceName}} com {{barberName}} em {{date}} às {{time}} está confirmado.',
+    ].join('\n'),
+    short: '{{barbershopName}}: horário confirmado para {{date}} às {{time}} com {{barberName}}.',
+  },
+  [NotificationTemplate.APPOINTMENT_RESCHEDULED]: {
+    subject: 'Agendamento remarcado - {{barbershopName}}',
+    text: [
+      'Olá, {{clientName}}!',
+      '',
+      'Seu horário de {{serviceName}} foi remarcado para {{date}} às {{time}} com {{barberName}}.',
+    ].join('\n'),
+    short: '{{barbershopName}}: horário remarcado para {{date}} às {{time}} com {{barberName}}.',
+  },
+  [NotificationTemplate.APPOINTMENT_CANCELLED]: {
+    subject: 'Agendamento cancelado - {{barbershopName}}',
+    text: [
+      'Olá, {{clientName}}!',
+      '',
+      'Seu horário de {{serviceName}} em {{date}} às {{time}} foi cancelado.',
+      '{{reason}}',
+    ].join('\n'),
+    short: '{{barbershopName}}: seu horário de {{date}} às {{time}} foi cancelado.',
+  },
+  [NotificationTemplate.APPOINTMENT_REMINDER]: {
+    subject: 'Lembrete: {{serviceName}} {{when}} - {{barbershopName}}',
+    text: [
+      'Olá, {{clientName}}!',
+      '',
+      'Lembrete do seu horário de {{serviceName}} com {{barberName}} {{when}}, {{date}} às {{time}}.',
+      '',
+      'Confirmar presença: {{confirmUrl}}',
+      'Não poderá comparecer? Cancele e libere o horário: {{cancelUrl}}',
+    ].join('\n'),
+    short:
+      '{{barbershopName}}: lembrete do seu horário {{when}}, {{date}} às {{time}}. Confirme: {{confirmUrl}}',
+  },
+};
+
+/**
+ * Substituir {{variável}} pelos valores informados
+ */
+export function interpolate(text: string, variables: NotificationVariables): string {
+  return text
+    .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => variables[name] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Renderizar um template; o texto curto é usado nos canais de mensagem (WhatsApp/SMS)
+ */
+export function renderTemplate(
+  template: NotificationTemplate,
+  variables: NotificationVariables
+): { subject: string; text: string; short: string } {
+  const content = TEMPLATES[template];
+  const text = interpolate(content.text, variables);
+
+  return {
+    subject: interpolate(content.subject, variables),
+    text,
+    short: content.short ? interpolate(content.short, variables) : text,
+  };
+}
+
+/**
+ * Data ("terça-feira, 05/03/2030") e hora ("10:00") de um instante no fuso da barbearia
+ */
+export function formatDateVariables(date: Date, timeZone: string): { date: string; time: string } {
+  return {
+    date: date.toLocaleDateString('pt-BR', {
+      timeZone,
+      weekday: 'long',
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    }),
+    time: date.toLocaleTimeString('pt-BR', { timeZone, hour: '2-digit', minute: '2-digit' }),
+  };
+}
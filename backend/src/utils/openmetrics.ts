@@ -0,0 +1,149 @@
+/**
+ * Séries no formato OpenMetrics (texto lido pelo Prometheus)
+ * Contadores e histogramas com rótulos, acumulados desde o início do processo.
+ */
+
+type Labels = Record<string, string>;
+
+// Escapa valores de rótulo (barra invertida, aspas e quebra de linha)
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatNumber = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  protected abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract samples(): string[];
+
+  // Chave estável para o conjunto de rótulos (na ordem declarada)
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ''));
+  }
+
+  protected labelsFromKey(key: string): Labels {
+    const values = JSON.parse(key) as string[];
+    return Object.fromEntries(this.labelNames.map((name, index) => [name, values[index] ?? '']));
+  }
+
+  render(): string {
+    return [
+      `# TYPE ${this.name} ${this.type}`,
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      ...this.samples(),
+    ].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  protected readonly type = 'counter';
+  private readonly values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(
+      ([key, value]) =>
+        `${this.name}_total${formatLabels(this.labelsFromKey(key))} ${formatNumber(value)}`
+    );
+  }
+}
+
+// Valores lidos no momento da coleta (ex: contadores mantidos por outro serviço)
+export class CollectedMetric extends Metric {
+  constructor(
+    name: string,
+    help: string,
+    protected readonly type: 'counter' | 'gauge',
+    private readonly collect: () => Array<{ labels?: Labels; value: number }>
+  ) {
+    super(name, help);
+  }
+
+  protected samples(): string[] {
+    const suffix = this.type === 'counter' ? '_total' : '';
+    return this.collect().map(
+      ({ labels = {}, value }) =>
+        `${this.name}${suffix}${formatLabels(labels)} ${formatNumber(value)}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  protected readonly type = 'histogram';
+  private readonly series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private readonly bounds: readonly number[]
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    const series = this.series.get(key) ?? {
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      series.buckets[index] = (series.buckets[index] ?? 0) + 1;
+    }
+    series.sum += value;
+    series.count++;
+
+    this.series.set(key, series);
+  }
+
+  protected samples(): string[] {
+    return [...this.series].flatMap(([key, series]) => {
+      const labels = this.labelsFromKey(key);
+      let cumulative = 0;
+
+      const buckets = this.bounds.map((bound, index) => {
+        cumulative += series.buckets[index] ?? 0;
+        return `${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`;
+      });
+
+      return [
+        ...buckets,
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatNumber(series.sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${series.count}`,
+      ];
+    });
+  }
+}
+
+// Content-Type do formato OpenMetrics
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Exposição completa: as famílias de métricas seguidas do marcador final obrigatório
+ */
+export const renderOpenMetrics = (metrics: Metric[]): string =>
+  `${metrics.map((metric) => metric.render()).join('\n')}\n# EOF\n`;
@@ -0,0 +1,56 @@
+/**
+ * Contexto da requisição propagado via AsyncLocalStorage
+ * Permite que camadas sem acesso ao Request (ex.: Prisma, logger) conheçam o usuário e o ID da requisição atual
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Role } from '@prisma/client';
+
+export interface RequestContext {
+  // Identificador de correlação (X-Request-Id), presente nos logs e repassado a serviços externos
+  requestId?: string | undefined;
+  userId?: string | undefined;
+  role?: Role | undefined;
+  // Barbearia à qual as consultas ficam restritas (ausente = sem restrição)
+  barbershopId?: string | undefined;
+}
+
+// Cabeçalho do ID de correlação (recebido, devolvido na resposta e repassado a serviços externos)
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Executar função dentro de um contexto de requisição
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Obter o contexto da requisição atual (undefined fora de requisições, ex.: jobs)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Barbearia do usuário atual para isolamento de dados
+ */
+export function getTenantId(): string | undefined {
+  return storage.getStore()?.barbershopId;
+}
+
+/**
+ * Executar função sem o isolamento por barbearia (uso explícito e pontual)
+ */
+export function withoutTenantScope<T>(fn: () => T): T {
+  return storage.run({ ...storage.getStore(), barbershopId: undefined }, fn);
+}
+
+/**
+ * ID de correlação da requisição atual
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,14 @@
+/**
+ * Slug de URL amigável a partir de um nome
+ * Usado na criação da barbearia; o slug fica salvo e os links públicos /b/:slug usam o valor salvo
+ */
+export function generateSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove acentos
+    .replace(/[^a-z0-9\s-]/g, '') // Remove caracteres especiais
+    .replace(/\s+/g, '-') // Substitui espaços por hífens
+    .replace(/-+/g, '-') // Remove hífens duplicados
+    .replace(/^-|-$/g, ''); // Remove hífens nas pontas
+}
@@ -0,0 +1,156 @@
+/**
+ * Utilitários de data/hora com fuso horário
+ * Baseados na API Intl, sem dependências externas
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Obter partes de data/hora de um instante no fuso informado
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts['year'] ?? 0,
+    month: parts['month'] ?? 1,
+    day: parts['day'] ?? 1,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    second: parts['second'] ?? 0,
+  };
+}
+
+/**
+ * Diferença (em minutos) entre o horário local do fuso e UTC em um instante
+ */
+export function getTimezoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converter data local ("YYYY-MM-DD") + minutos desde a meia-noite no fuso para um instante UTC
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Duas iterações resolvem corretamente as transições de horário de verão
+  const firstOffset = getTimezoneOffset(new Date(wallClock), timeZone);
+  let result = wallClock - firstOffset * 60000;
+  const secondOffset = getTimezoneOffset(new Date(result), timeZone);
+
+  if (secondOffset !== firstOffset) {
+    result = wallClock - secondOffset * 60000;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Formatar instante como data local ("YYYY-MM-DD") no fuso informado
+ */
+export function formatDateInTimezone(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Minutos desde a meia-noite de um instante no fuso informado
+ */
+export function getMinutesInTimezone(date: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Converter "HH:MM" em minutos desde a meia-noite
+ */
+export function timeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Converter minutos desde a meia-noite em "HH:MM"
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Somar dias a uma data local ("YYYY-MM-DD")
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Dia da semana de uma data local ("YYYY-MM-DD"): 0 = domingo, 1 = segunda, etc.
+ */
+export function getDayOfWeek(date: string): number {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Quantidade de dias entre duas datas locais ("YYYY-MM-DD")
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86400000);
+}
+
+/**
+ * Coluna @db.Date a partir de uma data local ("YYYY-MM-DD")
+ */
+export function toDbDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
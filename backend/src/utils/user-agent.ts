@@ -0,0 +1,36 @@
+// Navegadores em ordem de verificação (Edge e Opera também anunciam "Chrome")
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// Sistemas em ordem de verificação (Android também anuncia "Linux")
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Descrever o dispositivo a partir do user agent (ex: "Chrome em Windows")
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Dispositivo desconhecido';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} em ${system}`;
+  }
+
+  return browser ?? system ?? 'Dispositivo desconhecido';
+}
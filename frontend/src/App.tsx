@@ -8,8 +8,11 @@ import ProtectedRoute from '@/components/layout/ProtectedRoute';
 import LoginPage from '@/pages/auth/LoginPage';
 import RegisterPage from '@/pages/auth/RegisterPage';
 import DashboardPage from '@/pages/DashboardPage';
+import ProfilePage from '@/pages/ProfilePage';
 import { BarbershopsPage } from '@/pages/barbershops/BarbershopsPage';
 import { CreateBarbershopPage } from '@/pages/barbershops/CreateBarbershopPage';
+import BookingPage from '@/pages/booking/BookingPage';
+import AppointmentActionPage from '@/pages/booking/AppointmentActionPage';
 
 // Componente para redirecionar usuários autenticados
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -79,6 +82,12 @@ function App() {
               }
             />
 
+            {/* Agendamento pelo link público da barbearia (login só na confirmação) */}
+            <Route path="/b/:slug" element={<BookingPage />} />
+
+            {/* Confirmação/cancelamento pelo link do lembrete (token assinado, sem login) */}
+            <Route path="/appointments/respond" element={<AppointmentActionPage />} />
+
             {/* Rotas protegidas */}
             <Route
               path="/dashboard"
@@ -89,6 +98,15 @@ function App() {
               }
             />
 
+            <Route
+              path="/profile"
+              element={
+                <ProtectedRoute>
+                  <ProfilePage />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Rotas de Barbearias */}
             <Route
               path="/barbershops"
@@ -101,7 +119,7 @@ function App() {
             <Route
               path="/barbershops/new"
               element={
-                <ProtectedRoute requiredRoles={['ADMIN', 'SUPER_ADMIN']}>
+                <ProtectedRoute requiredPermissions={['barbershop:manage']}>
                   <CreateBarbershopPage />
                 </ProtectedRoute>
               }
@@ -1,22 +1,26 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { Role } from '@/types/auth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission, Role } from '@/types/auth';
 import { PageLoading } from '@/components/ui/Loading';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRoles?: Role[];
+  requiredPermissions?: Permission[];
   fallbackPath?: string;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   requiredRoles = [],
+  requiredPermissions = [],
   fallbackPath = '/login',
 }) => {
   const { isAuthenticated, isLoading, user } = useAuth();
   const location = useLocation();
+  const permissions = usePermissions(requiredPermissions.length > 0);
 
   // Mostrar loading enquanto verifica autenticação
   if (isLoading) {
@@ -34,6 +38,17 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/unauthorized" replace />;
   }
 
+  // Verificar se o usuário tem uma das permissões necessárias
+  if (requiredPermissions.length > 0) {
+    if (permissions.isLoading) {
+      return <PageLoading text="Verificando permissões..." />;
+    }
+
+    if (!permissions.hasPermission(...requiredPermissions)) {
+      return <Navigate to="/unauthorized" replace />;
+    }
+  }
+
   return <>{children}</>;
 };
 
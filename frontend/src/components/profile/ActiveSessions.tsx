@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { AuthService } from '@/services/auth.service';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  CardFooter,
+} from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { SectionLoading } from '@/components/ui/Loading';
+import { Session } from '@/types/auth';
+
+const MOBILE_DEVICES = ['iPhone', 'iPad', 'Android'];
+
+const isMobile = (session: Session) =>
+  MOBILE_DEVICES.some(device => session.device?.includes(device));
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Painel com os dispositivos conectados à conta
+const ActiveSessions: React.FC = () => {
+  const { logoutAll } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSessions(await AuthService.getSessions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar sessões');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      setRevokingId(session.id);
+      await AuthService.revokeSession(session.id);
+      setSessions(current => current.filter(item => item.id !== session.id));
+      toast.success('Sessão encerrada');
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Erro ao encerrar sessão'
+      );
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (
+      !window.confirm(
+        'Encerrar a sessão em todos os dispositivos, inclusive neste?'
+      )
+    ) {
+      return;
+    }
+    await logoutAll();
+  };
+
+  return (
+    <Card variant='elevated'>
+      <CardHeader
+        title='Sessões ativas'
+        subtitle='Dispositivos conectados à sua conta'
+      />
+      <CardContent>
+        {loading && <SectionLoading text='Carregando sessões...' />}
+
+        {!loading && error && (
+          <div className='text-sm text-error-600'>
+            {error}{' '}
+            <button className='underline' onClick={fetchSessions}>
+              Tentar novamente
+            </button>
+          </div>
+        )}
+
+        {!loading && !error && (
+          <ul className='divide-y divide-secondary-100'>
+            {sessions.map(session => {
+              const Icon = isMobile(session) ? Smartphone : Monitor;
+
+              return (
+                <li
+                  key={session.id}
+                  className='py-3 flex items-center justify-between gap-4'
+                >
+                  <div className='flex items-center gap-3 min-w-0'>
+                    <Icon className='h-6 w-6 text-secondary-500 flex-shrink-0' />
+                    <div className='min-w-0'>
+                      <p className='text-sm font-medium text-secondary-900 truncate'>
+                        {session.device || 'Dispositivo desconhecido'}
+                        {session.current && (
+                          <span className='ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800'>
+                            Este dispositivo
+                          </span>
+                        )}
+                      </p>
+                      <p className='text-xs text-secondary-500'>
+                        {session.ip || 'IP não informado'} · Último acesso em{' '}
+                        {formatDate(session.lastSeenAt)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {!session.current && (
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      isLoading={revokingId === session.id}
+                      onClick={() => handleRevoke(session)}
+                    >
+                      Encerrar
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+      <CardFooter>
+        <p className='text-xs text-secondary-500'>
+          Não reconhece algum dispositivo? Encerre a sessão e altere sua senha.
+        </p>
+        <Button
+          variant='danger'
+          size='sm'
+          leftIcon={<LogOut size={16} />}
+          onClick={handleLogoutAll}
+        >
+          Sair de todos
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
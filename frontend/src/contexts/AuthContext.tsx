@@ -236,6 +236,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Logout de todos os dispositivos
+  const logoutAll = async (): Promise<void> => {
+    try {
+      await AuthService.logoutAll();
+      toast.success('Todas as sessões foram encerradas');
+    } catch (error) {
+      console.error('Erro no logout de todos os dispositivos:', error);
+      toast.error('Erro ao encerrar sessões. Faça login novamente.');
+    } finally {
+      dispatch({ type: 'LOGOUT' });
+    }
+  };
+
   // Atualizar perfil
   const updateProfile = async (data: UpdateProfileRequest): Promise<void> => {
     try {
@@ -309,6 +322,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     login,
     register,
     logout,
+    logoutAll,
     updateProfile,
     changePassword,
     refreshToken,
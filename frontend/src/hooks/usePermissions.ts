@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AuthService } from '@/services/auth.service';
+import { Permission } from '@/types/auth';
+
+interface UsePermissionsResult {
+  permissions: Permission[];
+  isLoading: boolean;
+  hasPermission: (...required: Permission[]) => boolean;
+}
+
+// Carrega as permissões do usuário autenticado (recarrega ao trocar de usuário)
+export function usePermissions(enabled = true): UsePermissionsResult {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled || !user) {
+      setPermissions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    AuthService.getPermissions()
+      .then((result) => {
+        if (!cancelled) setPermissions(result.permissions);
+      })
+      .catch((error) => {
+        console.error('Erro ao carregar permissões:', error);
+        if (!cancelled) setPermissions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, user?.id]);
+
+  // Basta uma das permissões informadas
+  const hasPermission = (...required: Permission[]): boolean =>
+    required.length === 0 || required.some((permission) => permissions.includes(permission));
+
+  return { permissions, isLoading, hasPermission };
+}
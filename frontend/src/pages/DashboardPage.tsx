@@ -186,9 +186,11 @@ const DashboardPage: React.FC = () => {
                     </Button>
                   </Link>
                 )}
-                <Button variant="outline" fullWidth leftIcon={<User size={18} />}>
-                  Gerenciar Perfil
-                </Button>
+                <Link to="/profile">
+                  <Button variant="outline" fullWidth leftIcon={<User size={18} />}>
+                    Gerenciar Perfil
+                  </Button>
+                </Link>
                 <Button variant="outline" fullWidth leftIcon={<Settings size={18} />}>
                   Configurações
                 </Button>
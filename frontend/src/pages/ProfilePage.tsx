@@ -0,0 +1,66 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import ActiveSessions from '@/components/profile/ActiveSessions';
+
+const ProfilePage: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className='min-h-screen bg-secondary-50'>
+      <main className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
+        <Link
+          to='/dashboard'
+          className='inline-flex items-center gap-2 text-sm text-secondary-600 hover:text-secondary-900 mb-6'
+        >
+          <ArrowLeft size={16} />
+          Voltar ao Dashboard
+        </Link>
+
+        <h2 className='text-2xl font-bold text-secondary-900 mb-6'>
+          Meu Perfil
+        </h2>
+
+        <div className='space-y-6'>
+          <Card variant='elevated'>
+            <CardHeader title='Informações do Usuário' />
+            <CardContent>
+              <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+                <div>
+                  <label className='text-sm font-medium text-secondary-700'>
+                    Nome
+                  </label>
+                  <p className='mt-1 text-sm text-secondary-900'>
+                    {user?.name}
+                  </p>
+                </div>
+                <div>
+                  <label className='text-sm font-medium text-secondary-700'>
+                    Email
+                  </label>
+                  <p className='mt-1 text-sm text-secondary-900'>
+                    {user?.email}
+                  </p>
+                </div>
+                <div>
+                  <label className='text-sm font-medium text-secondary-700'>
+                    Telefone
+                  </label>
+                  <p className='mt-1 text-sm text-secondary-900'>
+                    {user?.phone || 'Não informado'}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <ActiveSessions />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -53,6 +53,7 @@ const LoginPage: React.FC = () => {
             Ou{' '}
             <Link
               to="/register"
+              state={location.state}
               className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
             >
               crie uma nova conta
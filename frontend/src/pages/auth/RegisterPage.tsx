@@ -1,5 +1,5 @@
 import React from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { User, Mail, Lock, Phone, UserPlus, Check } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRegisterForm, RegisterFormData } from '@/hooks/useForm';
@@ -10,6 +10,9 @@ import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 const RegisterPage: React.FC = () => {
   const { register: registerUser, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  const from = (location.state as any)?.from?.pathname || '/dashboard';
 
   const {
     register,
@@ -25,7 +28,7 @@ const RegisterPage: React.FC = () => {
     try {
       const { confirmPassword, terms, ...registerData } = data;
       await registerUser(registerData);
-      navigate('/dashboard', { replace: true });
+      navigate(from, { replace: true });
     } catch (error) {
       // Erro já tratado no contexto
     }
@@ -63,6 +66,7 @@ const RegisterPage: React.FC = () => {
             Ou{' '}
             <Link
               to="/login"
+              state={location.state}
               className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
             >
               faça login na sua conta existente
@@ -8,6 +8,7 @@ import { ErrorMessage } from '../../components/ui/ErrorMessage';
 
 interface Barbershop {
   id: string;
+  slug: string;
   name: string;
   description?: string;
   address: string;
@@ -238,6 +239,12 @@ export const BarbershopsPage: React.FC = () => {
                   >
                     Ver Detalhes
                   </Link>
+                  <Link
+                    to={`/b/${barbershop.slug}`}
+                    className="px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Agendar
+                  </Link>
                   {(user?.role === 'SUPER_ADMIN' || barbershop.owner.id === user?.id) && (
                     <Link
                       to={`/barbershops/${barbershop.id}/edit`}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CalendarCheck, Scissors, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { bookingService } from '@/services/bookingService';
+import Button from '@/components/ui/Button';
+import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/Card';
+import { PageLoading } from '@/components/ui/Loading';
+import { SuccessMessage } from '@/components/ui/SuccessMessage';
+import { ApiError } from '@/types/api';
+import { AppointmentActionPreview } from '@/types/booking';
+
+// Status em que a ação do link já está aplicada
+const DONE_STATUS = { confirm: 'CONFIRMED', cancel: 'CANCELLED' } as const;
+
+// Mensagem para links que não podem mais ser usados
+function linkErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 410) return 'Este link expirou: o horário do agendamento já passou.';
+    if (error.statusCode === 404) return 'Agendamento não encontrado.';
+  }
+  return 'Link inválido. Verifique a mensagem de lembrete recebida.';
+}
+
+// Confirmação ou cancelamento pelo link do lembrete, sem login
+const AppointmentActionPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [preview, setPreview] = useState<AppointmentActionPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        setLoading(true);
+        const found = await bookingService.previewAppointmentAction(token);
+        setPreview(found);
+        setDone(found.appointment.status === DONE_STATUS[found.action]);
+      } catch (error) {
+        setLinkError(linkErrorMessage(error));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadPreview();
+    } else {
+      setLinkError(linkErrorMessage(null));
+      setLoading(false);
+    }
+  }, [token]);
+
+  const apply = async () => {
+    try {
+      setSubmitting(true);
+      await bookingService.applyAppointmentAction(token);
+      setDone(true);
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Erro ao atualizar o agendamento');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <PageLoading text="Carregando agendamento..." />;
+  }
+
+  if (linkError || !preview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-secondary-50">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-secondary-900">Não foi possível abrir o link</h1>
+          <p className="mt-2 text-secondary-600">{linkError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { action, appointment } = preview;
+  const timezone = appointment.barbershop.timezone;
+  const isConfirm = action === 'confirm';
+  const date = new Date(appointment.startTime).toLocaleDateString('pt-BR', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: timezone,
+  });
+  const when = `${date} às ${bookingService.formatTime(appointment.startTime, timezone)}`;
+
+  return (
+    <div className="min-h-screen bg-secondary-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-secondary-900">{appointment.barbershop.name}</h1>
+        </div>
+
+        <Card variant="elevated" padding="lg">
+          {done ? (
+            <SuccessMessage
+              message={
+                isConfirm
+                  ? `Presença confirmada para ${when}.`
+                  : `Agendamento de ${when} cancelado.`
+              }
+            />
+          ) : (
+            <>
+              <CardHeader title={isConfirm ? 'Confirmar presença' : 'Cancelar agendamento'} />
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  <li className="flex items-center">
+                    <Scissors size={16} className="mr-2" />
+                    {appointment.items.map((item) => item.service.name).join(', ')}
+                  </li>
+                  <li className="flex items-center">
+                    <User size={16} className="mr-2" />
+                    {appointment.barber.user.name}
+                  </li>
+                  <li className="flex items-center">
+                    <CalendarCheck size={16} className="mr-2" />
+                    {when}
+                  </li>
+                </ul>
+              </CardContent>
+              <CardFooter className="justify-end">
+                <Button
+                  variant={isConfirm ? 'primary' : 'danger'}
+                  isLoading={submitting}
+                  onClick={apply}
+                >
+                  {isConfirm ? 'Confirmar presença' : 'Cancelar agendamento'}
+                </Button>
+              </CardFooter>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentActionPage;
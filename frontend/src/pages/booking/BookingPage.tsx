@@ -0,0 +1,456 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Calendar,
+  CalendarCheck,
+  Clock,
+  LogIn,
+  MapPin,
+  Scissors,
+  User,
+  UserPlus,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { bookingService } from '@/services/bookingService';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/Card';
+import { PageLoading, SectionLoading } from '@/components/ui/Loading';
+import { SuccessMessage } from '@/components/ui/SuccessMessage';
+import { ApiError } from '@/types/api';
+import {
+  AvailableSlot,
+  BookableService,
+  BookedAppointment,
+  BookingDraft,
+  BookingStep,
+  PublicBarbershop,
+} from '@/types/booking';
+
+const STEPS: { key: BookingStep; label: string }[] = [
+  { key: 'service', label: 'Serviço' },
+  { key: 'barber', label: 'Barbeiro' },
+  { key: 'date', label: 'Data' },
+  { key: 'slot', label: 'Horário' },
+  { key: 'confirm', label: 'Confirmação' },
+];
+
+// Etapa em que o cliente continua, a partir do que já foi escolhido
+function resumeStep(draft: BookingDraft): BookingStep {
+  if (draft.slot) return 'confirm';
+  if (draft.date) return 'slot';
+  if (draft.serviceId) return 'date';
+  return 'service';
+}
+
+const BookingPage: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const [barbershop, setBarbershop] = useState<PublicBarbershop | null>(null);
+  const [services, setServices] = useState<BookableService[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  const [draft, setDraft] = useState<BookingDraft>(
+    () => bookingService.loadDraft(slug) ?? { slug }
+  );
+  const [step, setStep] = useState<BookingStep>(() => resumeStep(draft));
+
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [booked, setBooked] = useState<BookedAppointment | null>(null);
+
+  const selectedService = useMemo(
+    () => services.find((service) => service.serviceId === draft.serviceId),
+    [services, draft.serviceId]
+  );
+
+  // Carregar barbearia e serviços
+  useEffect(() => {
+    const loadBarbershop = async () => {
+      try {
+        setLoading(true);
+        const found = await bookingService.getBarbershop(slug);
+        setBarbershop(found);
+        setServices(await bookingService.listServices(found.id));
+      } catch (error) {
+        if (error instanceof ApiError && error.statusCode === 404) {
+          setNotFound(true);
+        } else {
+          toast.error('Erro ao carregar a barbearia');
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBarbershop();
+  }, [slug]);
+
+  // Carregar horários livres da data escolhida
+  useEffect(() => {
+    if (step !== 'slot' || !barbershop || !draft.serviceId || !draft.date) {
+      return;
+    }
+
+    const loadSlots = async () => {
+      try {
+        setLoadingSlots(true);
+        const availability = await bookingService.getAvailability(barbershop.id, {
+          serviceId: draft.serviceId!,
+          startDate: draft.date!,
+          ...(draft.barberId && { barberId: draft.barberId }),
+        });
+        setSlots(availability.slots);
+      } catch (error) {
+        setSlots([]);
+        toast.error(error instanceof ApiError ? error.message : 'Erro ao carregar horários');
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+
+    loadSlots();
+  }, [step, barbershop, draft.serviceId, draft.barberId, draft.date]);
+
+  const update = (changes: Partial<BookingDraft>, next: BookingStep) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setStep(next);
+  };
+
+  const goBack = () => {
+    const index = STEPS.findIndex((item) => item.key === step);
+    if (index > 0) {
+      setStep(STEPS[index - 1].key);
+    }
+  };
+
+  // Login/cadastro só na confirmação: a seleção fica salva até o cliente voltar
+  const redirectToAuth = (path: '/login' | '/register') => {
+    bookingService.saveDraft(draft);
+    navigate(path, { state: { from: location } });
+  };
+
+  const confirm = async () => {
+    if (!barbershop || !draft.serviceId || !draft.slot) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const appointment = await bookingService.createAppointment({
+        barbershopId: barbershop.id,
+        barberId: draft.slot.barberId,
+        serviceId: draft.serviceId,
+        startTime: draft.slot.start,
+        ...(draft.notes && { notes: draft.notes }),
+      });
+
+      bookingService.clearDraft();
+      setBooked(appointment);
+      toast.success('Agendamento realizado com sucesso!');
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 409) {
+        // Horário ocupado enquanto o cliente decidia: escolher outro
+        toast.error('Este horário acabou de ser reservado. Escolha outro.');
+        update({ slot: undefined }, 'slot');
+      } else {
+        toast.error(error instanceof ApiError ? error.message : 'Erro ao criar agendamento');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || isAuthLoading) {
+    return <PageLoading text="Carregando barbearia..." />;
+  }
+
+  if (notFound || !barbershop) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-secondary-50">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-secondary-900">Barbearia não encontrada</h1>
+          <p className="mt-2 text-secondary-600">Verifique o link de agendamento recebido</p>
+        </div>
+      </div>
+    );
+  }
+
+  const currentIndex = STEPS.findIndex((item) => item.key === step);
+  const timezone = barbershop.timezone;
+  const price = draft.slot?.price;
+
+  return (
+    <div className="min-h-screen bg-secondary-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-secondary-900">{barbershop.name}</h1>
+          <p className="mt-2 flex items-center justify-center text-sm text-secondary-600">
+            <MapPin size={16} className="mr-1 flex-shrink-0" />
+            {barbershop.address}
+          </p>
+        </div>
+
+        {/* Etapas */}
+        {!booked && (
+          <ol className="flex items-center justify-between text-xs font-medium">
+            {STEPS.map((item, index) => (
+              <li
+                key={item.key}
+                className={
+                  index <= currentIndex ? 'text-primary-600' : 'text-secondary-400'
+                }
+              >
+                {index + 1}. {item.label}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {booked ? (
+          <Card variant="elevated" padding="lg">
+            <SuccessMessage
+              message={`Agendamento confirmado para ${bookingService.formatDate(
+                draft.date ?? booked.startTime.slice(0, 10)
+              )} às ${bookingService.formatTime(booked.startTime, timezone)}.`}
+            />
+            <div className="mt-6 flex justify-center">
+              <Link
+                to="/dashboard"
+                className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                Ir para o painel
+              </Link>
+            </div>
+          </Card>
+        ) : (
+          <Card variant="elevated" padding="lg">
+            {step === 'service' && (
+              <>
+                <CardHeader title="Escolha o serviço" />
+                <CardContent className="space-y-3">
+                  {services.length === 0 && (
+                    <p className="text-sm text-secondary-500">
+                      Nenhum serviço disponível para agendamento online.
+                    </p>
+                  )}
+                  {services.map((service) => (
+                    <Card
+                      key={service.serviceId}
+                      variant="outlined"
+                      padding="sm"
+                      hover
+                      onClick={() =>
+                        update(
+                          {
+                            serviceId: service.serviceId,
+                            barberId: undefined,
+                            date: undefined,
+                            slot: undefined,
+                          },
+                          'barber'
+                        )
+                      }
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-secondary-900">{service.serviceName}</p>
+                          {service.description && (
+                            <p className="text-sm text-secondary-500">{service.description}</p>
+                          )}
+                        </div>
+                        <span className="flex items-center text-sm text-secondary-600">
+                          <Clock size={16} className="mr-1" />
+                          {service.duration} min
+                        </span>
+                      </div>
+                    </Card>
+                  ))}
+                </CardContent>
+              </>
+            )}
+
+            {step === 'barber' && selectedService && (
+              <>
+                <CardHeader title="Escolha o barbeiro" subtitle={selectedService.serviceName} />
+                <CardContent className="space-y-3">
+                  <Card
+                    variant="outlined"
+                    padding="sm"
+                    hover
+                    onClick={() => update({ barberId: undefined, slot: undefined }, 'date')}
+                  >
+                    <p className="font-medium text-secondary-900">Sem preferência</p>
+                    <p className="text-sm text-secondary-500">
+                      Mostra os horários de todos os barbeiros
+                    </p>
+                  </Card>
+                  {selectedService.availableBarbers.map((barber) => (
+                    <Card
+                      key={barber.barberId}
+                      variant="outlined"
+                      padding="sm"
+                      hover
+                      onClick={() => update({ barberId: barber.barberId, slot: undefined }, 'date')}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center font-medium text-secondary-900">
+                          <User size={16} className="mr-2" />
+                          {barber.barberName}
+                        </span>
+                        <span className="text-sm text-secondary-600">
+                          {bookingService.formatPrice(barber.price, barbershop.currency)}
+                        </span>
+                      </div>
+                    </Card>
+                  ))}
+                </CardContent>
+              </>
+            )}
+
+            {step === 'date' && (
+              <>
+                <CardHeader title="Escolha a data" />
+                <CardContent>
+                  <Input
+                    type="date"
+                    label="Data"
+                    leftIcon={<Calendar size={18} />}
+                    min={bookingService.today(timezone)}
+                    value={draft.date ?? ''}
+                    onChange={(event) =>
+                      setDraft((current) => ({
+                        ...current,
+                        date: event.target.value || undefined,
+                        slot: undefined,
+                      }))
+                    }
+                  />
+                </CardContent>
+                <CardFooter className="justify-end">
+                  <Button disabled={!draft.date} onClick={() => setStep('slot')}>
+                    Ver horários
+                  </Button>
+                </CardFooter>
+              </>
+            )}
+
+            {step === 'slot' && draft.date && (
+              <>
+                <CardHeader
+                  title="Escolha o horário"
+                  subtitle={bookingService.formatDate(draft.date)}
+                />
+                <CardContent>
+                  {loadingSlots ? (
+                    <SectionLoading text="Buscando horários..." />
+                  ) : slots.length === 0 ? (
+                    <p className="text-sm text-secondary-500">
+                      Nenhum horário livre nesta data. Escolha outro dia.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                      {slots.map((slot) => (
+                        <Button
+                          key={`${slot.barberId}-${slot.start}`}
+                          variant="outline"
+                          size="sm"
+                          title={slot.barberName}
+                          onClick={() => update({ slot }, 'confirm')}
+                        >
+                          {bookingService.formatTime(slot.start, timezone)}
+                          {!draft.barberId && ` · ${slot.barberName.split(' ')[0]}`}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </>
+            )}
+
+            {step === 'confirm' && selectedService && draft.slot && (
+              <>
+                <CardHeader title="Confirme seu agendamento" />
+                <CardContent className="space-y-4">
+                  <ul className="space-y-2 text-sm">
+                    <li className="flex items-center">
+                      <Scissors size={16} className="mr-2" />
+                      {selectedService.serviceName} ({selectedService.duration} min)
+                    </li>
+                    <li className="flex items-center">
+                      <User size={16} className="mr-2" />
+                      {draft.slot.barberName}
+                    </li>
+                    <li className="flex items-center">
+                      <CalendarCheck size={16} className="mr-2" />
+                      {bookingService.formatDate(draft.slot.date)} às{' '}
+                      {bookingService.formatTime(draft.slot.start, timezone)}
+                    </li>
+                    {price !== undefined && (
+                      <li className="font-medium text-secondary-900">
+                        {bookingService.formatPrice(price, barbershop.currency)}
+                      </li>
+                    )}
+                  </ul>
+
+                  <Input
+                    label="Observações (opcional)"
+                    maxLength={500}
+                    value={draft.notes ?? ''}
+                    onChange={(event) =>
+                      setDraft((current) => ({ ...current, notes: event.target.value }))
+                    }
+                  />
+
+                  {!isAuthenticated && (
+                    <p className="text-sm text-secondary-600">
+                      Entre ou crie sua conta para confirmar. Sua escolha fica guardada.
+                    </p>
+                  )}
+                </CardContent>
+                <CardFooter className="justify-end gap-2">
+                  {isAuthenticated ? (
+                    <Button isLoading={submitting} onClick={confirm}>
+                      Confirmar agendamento
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        leftIcon={<UserPlus size={18} />}
+                        onClick={() => redirectToAuth('/register')}
+                      >
+                        Criar conta
+                      </Button>
+                      <Button leftIcon={<LogIn size={18} />} onClick={() => redirectToAuth('/login')}>
+                        Entrar
+                      </Button>
+                    </>
+                  )}
+                </CardFooter>
+              </>
+            )}
+
+            {step !== 'service' && (
+              <div className="mt-4">
+                <Button variant="ghost" size="sm" leftIcon={<ArrowLeft size={16} />} onClick={goBack}>
+                  Voltar
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingPage;
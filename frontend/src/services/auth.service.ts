@@ -7,7 +7,9 @@ import {
   ResetPasswordRequest,
   ChangePasswordRequest,
   UpdateProfileRequest,
+  Session,
   User,
+  UserPermissions,
 } from '@/types/auth';
 
 export class AuthService {
@@ -56,6 +58,40 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logout de todos os dispositivos
+   */
+  static async logoutAll(): Promise<void> {
+    try {
+      await ApiService.post('/auth/logout-all');
+    } finally {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      localStorage.removeItem('user');
+    }
+  }
+
+  /**
+   * Listar sessões ativas do usuário
+   */
+  static async getSessions(): Promise<Session[]> {
+    return await ApiService.get<Session[]>('/auth/sessions');
+  }
+
+  /**
+   * Encerrar uma sessão (outro dispositivo)
+   */
+  static async revokeSession(sessionId: string): Promise<void> {
+    await ApiService.delete(`/auth/sessions/${sessionId}`);
+  }
+
+  /**
+   * Obter permissões efetivas do usuário autenticado
+   */
+  static async getPermissions(): Promise<UserPermissions> {
+    return await ApiService.get<UserPermissions>('/auth/me/permissions');
+  }
+
   /**
    * Renovar token de acesso
    */
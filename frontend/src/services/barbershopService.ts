@@ -2,6 +2,7 @@ import { api } from './api';
 
 export interface Barbershop {
   id: string;
+  slug: string; // link público de agendamento (/b/:slug)
   name: string;
   description?: string;
   address: string;
@@ -0,0 +1,138 @@
+import { ApiService } from './api';
+import {
+  AppointmentActionPreview,
+  AppointmentActionResult,
+  AvailabilityParams,
+  AvailabilityResponse,
+  BookableService,
+  BookedAppointment,
+  BookingDraft,
+  CreateAppointmentRequest,
+  PublicBarbershop,
+} from '@/types/booking';
+
+const DRAFT_STORAGE_KEY = 'bookingDraft';
+
+class BookingService {
+  /**
+   * Buscar barbearia pelo slug do link público
+   */
+  async getBarbershop(slug: string): Promise<PublicBarbershop> {
+    return ApiService.get<PublicBarbershop>(`/barbershops/slug/${encodeURIComponent(slug)}`);
+  }
+
+  /**
+   * Listar serviços ativos com os barbeiros que os executam
+   */
+  async listServices(barbershopId: string): Promise<BookableService[]> {
+    return ApiService.get<BookableService[]>(`/barbershops/${barbershopId}/services`);
+  }
+
+  /**
+   * Consultar horários livres de um serviço
+   */
+  async getAvailability(
+    barbershopId: string,
+    params: AvailabilityParams
+  ): Promise<AvailabilityResponse> {
+    const query = new URLSearchParams({ serviceId: params.serviceId, startDate: params.startDate });
+
+    if (params.barberId) query.append('barberId', params.barberId);
+    if (params.endDate) query.append('endDate', params.endDate);
+
+    return ApiService.get<AvailabilityResponse>(
+      `/barbershops/${barbershopId}/availability?${query.toString()}`
+    );
+  }
+
+  /**
+   * Criar o agendamento (requer usuário autenticado)
+   */
+  async createAppointment(data: CreateAppointmentRequest): Promise<BookedAppointment> {
+    return ApiService.post<BookedAppointment>('/appointments', data);
+  }
+
+  /**
+   * Dados do agendamento do link do lembrete (token assinado, sem login)
+   */
+  async previewAppointmentAction(token: string): Promise<AppointmentActionPreview> {
+    return ApiService.get<AppointmentActionPreview>(
+      `/appointments/actions/${encodeURIComponent(token)}`
+    );
+  }
+
+  /**
+   * Confirmar ou cancelar pelo link do lembrete
+   */
+  async applyAppointmentAction(token: string): Promise<AppointmentActionResult> {
+    return ApiService.post<AppointmentActionResult>(
+      `/appointments/actions/${encodeURIComponent(token)}`
+    );
+  }
+
+  /**
+   * Guardar a seleção antes de redirecionar para login/cadastro
+   */
+  saveDraft(draft: BookingDraft): void {
+    sessionStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  }
+
+  /**
+   * Recuperar a seleção salva para a barbearia do link
+   */
+  loadDraft(slug: string): BookingDraft | null {
+    try {
+      const stored = sessionStorage.getItem(DRAFT_STORAGE_KEY);
+      const draft = stored ? (JSON.parse(stored) as BookingDraft) : null;
+      return draft?.slug === slug ? draft : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Descartar a seleção salva
+   */
+  clearDraft(): void {
+    sessionStorage.removeItem(DRAFT_STORAGE_KEY);
+  }
+
+  /**
+   * Formatar horário no fuso da barbearia
+   */
+  formatTime(isoDate: string, timeZone: string): string {
+    return new Date(isoDate).toLocaleTimeString('pt-BR', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  }
+
+  /**
+   * Formatar data ("YYYY-MM-DD") por extenso
+   */
+  formatDate(date: string): string {
+    return new Date(`${date}T12:00:00.000Z`).toLocaleDateString('pt-BR', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      timeZone: 'UTC',
+    });
+  }
+
+  /**
+   * Formatar valor na moeda da barbearia
+   */
+  formatPrice(value: number, currency: string): string {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+  }
+
+  /**
+   * Data de hoje ("YYYY-MM-DD") no fuso da barbearia
+   */
+  today(timeZone: string): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+  }
+}
+
+export const bookingService = new BookingService();
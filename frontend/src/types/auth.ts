@@ -52,6 +52,44 @@ export interface UpdateProfileRequest {
   avatar?: string;
 }
 
+// Sessão ativa (dispositivo conectado)
+export interface Session {
+  id: string;
+  device: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Permissões efetivas do usuário (padrão da role + concedidas pelo admin)
+export type Permission =
+  | 'barbershop:manage'
+  | 'barber:manage'
+  | 'permission:grant'
+  | 'service:view'
+  | 'service:create'
+  | 'service:update'
+  | 'service:delete'
+  | 'schedule:manage'
+  | 'schedule:manage:self'
+  | 'appointment:view'
+  | 'appointment:create'
+  | 'appointment:update'
+  | 'appointment:delete'
+  | 'client:view'
+  | 'client:manage'
+  | 'report:view'
+  | 'profile:manage:self';
+
+export interface UserPermissions {
+  role: Role;
+  barbershopId?: string;
+  permissions: Permission[];
+  granted: Permission[];
+}
+
 export interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
@@ -59,6 +97,7 @@ export interface AuthContextType {
   login: (credentials: LoginRequest) => Promise<void>;
   register: (data: RegisterRequest) => Promise<void>;
   logout: () => void;
+  logoutAll: () => Promise<void>;
   updateProfile: (data: UpdateProfileRequest) => Promise<void>;
   changePassword: (data: ChangePasswordRequest) => Promise<void>;
   refreshToken: () => Promise<void>;
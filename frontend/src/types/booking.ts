@@ -0,0 +1,107 @@
+// Tipos para o fluxo público de agendamento (/b/:slug)
+
+// Dados públicos da barbearia exibidos no link de agendamento
+export interface PublicBarbershop {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  address: string;
+  phone: string;
+  logo: string | null;
+  timezone: string;
+  currency: string;
+}
+
+// Barbeiro que executa o serviço, com o preço efetivo dele
+export interface ServiceBarber {
+  barberId: string;
+  barberName: string;
+  price: number;
+}
+
+// Serviço ativo da barbearia
+export interface BookableService {
+  serviceId: string;
+  serviceName: string;
+  description: string | null;
+  category: string | null;
+  duration: number;
+  availableBarbers: ServiceBarber[];
+}
+
+// Horário livre retornado pela consulta de disponibilidade
+export interface AvailableSlot {
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  date: string; // "YYYY-MM-DD" no fuso da barbearia
+  barberId: string;
+  barberName: string;
+  price: number;
+}
+
+export interface AvailabilityResponse {
+  barbershopId: string;
+  timezone: string;
+  duration: number;
+  startDate: string;
+  endDate: string;
+  slots: AvailableSlot[];
+}
+
+export interface AvailabilityParams {
+  serviceId: string;
+  barberId?: string;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface CreateAppointmentRequest {
+  barbershopId: string;
+  barberId: string;
+  serviceId: string;
+  startTime: string;
+  notes?: string;
+}
+
+export interface BookedAppointment {
+  id: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+}
+
+// Ação do link enviado no lembrete do agendamento
+export type AppointmentLinkAction = 'confirm' | 'cancel';
+
+// Agendamento exibido na página do link, antes de o cliente confirmar a ação
+export interface AppointmentActionPreview {
+  action: AppointmentLinkAction;
+  appointment: {
+    id: string;
+    status: string;
+    startTime: string;
+    endTime: string;
+    barbershop: { name: string; timezone: string };
+    barber: { user: { name: string } };
+    items: { service: { name: string } }[];
+  };
+}
+
+export interface AppointmentActionResult {
+  id: string;
+  status: string;
+  startTime: string;
+}
+
+export type BookingStep = 'service' | 'barber' | 'date' | 'slot' | 'confirm';
+
+// Seleção do cliente, preservada durante o redirecionamento para login/cadastro
+export interface BookingDraft {
+  slug: string;
+  serviceId?: string;
+  barberId?: string; // ausente = sem preferência
+  date?: string; // "YYYY-MM-DD"
+  slot?: AvailableSlot;
+  notes?: string;
+}